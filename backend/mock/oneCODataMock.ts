@@ -0,0 +1,95 @@
+import express from 'express';
+import { randomUUID } from 'crypto';
+
+/**
+ * ============================================
+ * Mock 1C OData Server
+ * ============================================
+ *
+ * Локальная замена стандартного REST-интерфейса 1С для проверки
+ * отправки изменений (POST /api/export/1c/push) без базы 1С:
+ *
+ *   npm run mock:1c
+ *
+ * Хранит справочники и документы в памяти, проверяет basic-auth
+ * (ONEC_USER / ONEC_PASSWORD, если заданы) и поддерживает фильтр
+ * `<Реквизит> eq '...'`. MOCK_1C_FAILURE_RATE (0..1) — доля ответов
+ * 503 для проверки повторов; POST при этом иногда записывает объект
+ * и только потом отвечает 503, как 1С, не успевшая ответить.
+ *
+ * GET /base/odata/standard.odata/<EntitySet> — все записи набора.
+ */
+
+const PORT = parseInt(process.env.MOCK_1C_PORT || '8080', 10);
+const BASE_PATH = '/base/odata/standard.odata';
+const USER = process.env.ONEC_USER || '';
+const PASSWORD = process.env.ONEC_PASSWORD || '';
+const FAILURE_RATE = parseFloat(process.env.MOCK_1C_FAILURE_RATE || '0');
+
+type ODataRecord = Record<string, unknown> & { Ref_Key: string };
+
+const entitySets = new Map<string, ODataRecord[]>();
+
+const app = express();
+app.use(express.json());
+
+app.use(BASE_PATH, (req, res, next) => {
+  if (USER) {
+    const expected = `Basic ${Buffer.from(`${USER}:${PASSWORD}`).toString('base64')}`;
+    if (req.headers.authorization !== expected) {
+      res.status(401).json({ 'odata.error': { message: { value: 'Unauthorized' } } });
+      return;
+    }
+  }
+
+  if (Math.random() < FAILURE_RATE) {
+    // Половина сбоев POST — после записи (ответ потерян)
+    if (req.method === 'POST' && Math.random() < 0.5) {
+      res.locals.failAfterWrite = true;
+    } else {
+      res.status(503).json({ 'odata.error': { message: { value: 'Service unavailable (mock)' } } });
+      return;
+    }
+  }
+
+  console.log(`${req.method} ${decodeURIComponent(req.originalUrl)}`);
+  next();
+});
+
+app.get(`${BASE_PATH}/:entitySet`, (req, res) => {
+  const records = entitySets.get(req.params.entitySet) ?? [];
+  const filter = typeof req.query.$filter === 'string' ? req.query.$filter : '';
+  const match = filter.match(/^(\S+) eq '(.*)'$/);
+
+  res.json({
+    'odata.metadata': `${BASE_PATH}/$metadata#${req.params.entitySet}`,
+    value: match ? records.filter(r => r[match[1]] === match[2].replace(/''/g, "'")) : records,
+  });
+});
+
+app.post(`${BASE_PATH}/:entitySet`, (req, res) => {
+  const { entitySet } = req.params;
+  if (!entitySet.startsWith('Catalog_') && !entitySet.startsWith('Document_')) {
+    res.status(400).json({ 'odata.error': { message: { value: `Unknown entity set ${entitySet}` } } });
+    return;
+  }
+
+  const record: ODataRecord = { ...req.body, Ref_Key: randomUUID() };
+  if (entitySet.startsWith('Document_')) {
+    record.Number = String((entitySets.get(entitySet)?.length ?? 0) + 1).padStart(9, '0');
+    record.Posted = false;
+  }
+
+  entitySets.set(entitySet, [...(entitySets.get(entitySet) ?? []), record]);
+
+  if (res.locals.failAfterWrite) {
+    res.status(503).json({ 'odata.error': { message: { value: 'Service unavailable after write (mock)' } } });
+    return;
+  }
+  res.status(201).json(record);
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock 1C OData: http://localhost:${PORT}${BASE_PATH}`);
+  if (FAILURE_RATE > 0) console.log(`Failure rate: ${FAILURE_RATE}`);
+});
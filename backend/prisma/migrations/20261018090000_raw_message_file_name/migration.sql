@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "raw_messages" ADD COLUMN     "fileName" TEXT;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "carrier_parsing_profiles" (
+    "id" TEXT NOT NULL,
+    "carrierId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "emailDomains" TEXT[],
+    "columnMappings" JSONB NOT NULL,
+    "dateFormats" TEXT[],
+    "delimiter" TEXT,
+    "statusDictionary" JSONB,
+    "skipRules" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "carrier_parsing_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "carrier_parsing_profiles_carrierId_idx" ON "carrier_parsing_profiles"("carrierId");
+
+-- AddForeignKey
+ALTER TABLE "carrier_parsing_profiles" ADD CONSTRAINT "carrier_parsing_profiles_carrierId_fkey" FOREIGN KEY ("carrierId") REFERENCES "carriers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
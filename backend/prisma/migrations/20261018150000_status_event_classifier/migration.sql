@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "EventClassifier" AS ENUM ('PLN', 'EST', 'ACT');
+
+-- AlterTable
+ALTER TABLE "status_events" ADD COLUMN     "eventClassifier" "EventClassifier" NOT NULL DEFAULT 'ACT';
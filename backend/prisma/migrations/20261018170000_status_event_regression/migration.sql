@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "status_events" ADD COLUMN     "isRegression" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "regressionReason" TEXT;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "raw_messages" ADD COLUMN     "fingerprint" TEXT,
+ADD COLUMN     "idempotencyKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "status_events" ADD COLUMN     "dedupeKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "raw_messages_idempotencyKey_key" ON "raw_messages"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "raw_messages_fingerprint_idx" ON "raw_messages"("fingerprint");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "status_events_dedupeKey_key" ON "status_events"("dedupeKey");
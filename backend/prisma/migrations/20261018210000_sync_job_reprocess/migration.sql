@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "SyncJobType" ADD VALUE 'REPROCESS';
@@ -0,0 +1,38 @@
+-- CreateEnum
+CREATE TYPE "ReviewStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "pending_reviews" (
+    "id" TEXT NOT NULL,
+    "status" "ReviewStatus" NOT NULL DEFAULT 'PENDING',
+    "reasons" TEXT[],
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "issues" TEXT[],
+    "rawSnippet" TEXT NOT NULL,
+    "extracted" JSONB NOT NULL,
+    "sourceType" "SourceType" NOT NULL,
+    "rawMessageId" TEXT,
+    "corrected" JSONB,
+    "reviewComment" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "statusEventId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pending_reviews_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pending_reviews_statusEventId_key" ON "pending_reviews"("statusEventId");
+
+-- CreateIndex
+CREATE INDEX "pending_reviews_status_idx" ON "pending_reviews"("status");
+
+-- CreateIndex
+CREATE INDEX "pending_reviews_createdAt_idx" ON "pending_reviews"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "pending_reviews" ADD CONSTRAINT "pending_reviews_rawMessageId_fkey" FOREIGN KEY ("rawMessageId") REFERENCES "raw_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pending_reviews" ADD CONSTRAINT "pending_reviews_statusEventId_fkey" FOREIGN KEY ("statusEventId") REFERENCES "status_events"("id") ON DELETE SET NULL ON UPDATE CASCADE;
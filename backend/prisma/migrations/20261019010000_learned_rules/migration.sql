@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "LearnedRuleKind" AS ENUM ('LOCATION_ALIAS', 'STATUS_PHRASE', 'OWNER_CODE');
+
+-- CreateTable
+CREATE TABLE "learned_rules" (
+    "id" TEXT NOT NULL,
+    "kind" "LearnedRuleKind" NOT NULL,
+    "carrierId" TEXT,
+    "phrase" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "hits" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "learned_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "training_pairs" (
+    "id" TEXT NOT NULL,
+    "kind" "LearnedRuleKind" NOT NULL,
+    "rawPhrase" TEXT NOT NULL,
+    "correctedValue" TEXT NOT NULL,
+    "reviewId" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "training_pairs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "learned_rules_kind_phrase_idx" ON "learned_rules"("kind", "phrase");
+
+-- CreateIndex
+CREATE INDEX "learned_rules_carrierId_idx" ON "learned_rules"("carrierId");
+
+-- CreateIndex
+CREATE INDEX "training_pairs_reviewId_idx" ON "training_pairs"("reviewId");
+
+-- CreateIndex
+CREATE INDEX "training_pairs_ruleId_idx" ON "training_pairs"("ruleId");
+
+-- AddForeignKey
+ALTER TABLE "learned_rules" ADD CONSTRAINT "learned_rules_carrierId_fkey" FOREIGN KEY ("carrierId") REFERENCES "carriers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "training_pairs" ADD CONSTRAINT "training_pairs_reviewId_fkey" FOREIGN KEY ("reviewId") REFERENCES "pending_reviews"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "training_pairs" ADD CONSTRAINT "training_pairs_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "learned_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "SyncJobType" ADD VALUE 'IMPORT_LOCATIONS';
+
+-- CreateEnum
+CREATE TYPE "LocationType" AS ENUM ('STATION', 'PORT', 'CITY', 'WAREHOUSE', 'CUSTOMS');
+
+-- CreateEnum
+CREATE TYPE "LocationSource" AS ENUM ('BUILTIN', 'MANUAL', 'ESR_IMPORT', 'UNLOCODE_IMPORT');
+
+-- CreateTable
+CREATE TABLE "locations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "LocationType" NOT NULL,
+    "aliases" TEXT[],
+    "region" TEXT,
+    "country" TEXT NOT NULL,
+    "unLocode" TEXT,
+    "esrCode" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "source" "LocationSource" NOT NULL DEFAULT 'MANUAL',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "locations_unLocode_key" ON "locations"("unLocode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "locations_esrCode_key" ON "locations"("esrCode");
+
+-- CreateIndex
+CREATE INDEX "locations_name_idx" ON "locations"("name");
+
+-- CreateIndex
+CREATE INDEX "locations_type_idx" ON "locations"("type");
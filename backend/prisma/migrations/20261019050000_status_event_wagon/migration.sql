@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "status_events" ADD COLUMN "wagonNumber" TEXT;
+
+-- CreateIndex
+CREATE INDEX "status_events_wagonNumber_idx" ON "status_events"("wagonNumber");
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "containers" ADD COLUMN "railDispatchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "rail_dispatches" (
+    "id" TEXT NOT NULL,
+    "dispatchNumber" TEXT NOT NULL,
+    "trainIndex" TEXT,
+    "originEsr" TEXT,
+    "destinationEsr" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rail_dispatches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rail_dispatches_dispatchNumber_key" ON "rail_dispatches"("dispatchNumber");
+
+-- CreateIndex
+CREATE INDEX "rail_dispatches_trainIndex_idx" ON "rail_dispatches"("trainIndex");
+
+-- CreateIndex
+CREATE INDEX "containers_railDispatchId_idx" ON "containers"("railDispatchId");
+
+-- AddForeignKey
+ALTER TABLE "containers" ADD CONSTRAINT "containers_railDispatchId_fkey" FOREIGN KEY ("railDispatchId") REFERENCES "rail_dispatches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterTable
+ALTER TABLE "status_events" ADD COLUMN "voyageId" TEXT;
+
+-- CreateTable
+CREATE TABLE "vessels" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "imoNumber" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vessels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "voyages" (
+    "id" TEXT NOT NULL,
+    "vesselId" TEXT NOT NULL,
+    "voyageNumber" TEXT NOT NULL,
+    "eta" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "voyages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vessels_imoNumber_key" ON "vessels"("imoNumber");
+
+-- CreateIndex
+CREATE INDEX "vessels_name_idx" ON "vessels"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "voyages_vesselId_voyageNumber_key" ON "voyages"("vesselId", "voyageNumber");
+
+-- CreateIndex
+CREATE INDEX "status_events_voyageId_idx" ON "status_events"("voyageId");
+
+-- AddForeignKey
+ALTER TABLE "status_events" ADD CONSTRAINT "status_events_voyageId_fkey" FOREIGN KEY ("voyageId") REFERENCES "voyages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voyages" ADD CONSTRAINT "voyages_vesselId_fkey" FOREIGN KEY ("vesselId") REFERENCES "vessels"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "containers" ADD COLUMN "shipmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "shipments" (
+    "id" TEXT NOT NULL,
+    "blNumber" TEXT,
+    "bookingNumber" TEXT,
+    "clientId" TEXT,
+    "carrierId" TEXT,
+    "originPoint" TEXT,
+    "destinationPoint" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shipments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipments_blNumber_key" ON "shipments"("blNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shipments_bookingNumber_key" ON "shipments"("bookingNumber");
+
+-- CreateIndex
+CREATE INDEX "shipments_clientId_idx" ON "shipments"("clientId");
+
+-- CreateIndex
+CREATE INDEX "containers_shipmentId_idx" ON "containers"("shipmentId");
+
+-- AddForeignKey
+ALTER TABLE "containers" ADD CONSTRAINT "containers_shipmentId_fkey" FOREIGN KEY ("shipmentId") REFERENCES "shipments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_carrierId_fkey" FOREIGN KEY ("carrierId") REFERENCES "carriers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "TransportMode" AS ENUM ('SEA', 'RAIL', 'AUTO');
+
+-- AlterTable
+ALTER TABLE "status_events" ADD COLUMN "routeLegId" TEXT;
+
+-- CreateTable
+CREATE TABLE "route_legs" (
+    "id" TEXT NOT NULL,
+    "containerId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "mode" "TransportMode" NOT NULL,
+    "fromPoint" TEXT NOT NULL,
+    "toPoint" TEXT NOT NULL,
+    "plannedDeparture" TIMESTAMP(3),
+    "plannedArrival" TIMESTAMP(3),
+    "distanceKm" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "route_legs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "route_legs_containerId_sequence_key" ON "route_legs"("containerId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "status_events_routeLegId_idx" ON "status_events"("routeLegId");
+
+-- AddForeignKey
+ALTER TABLE "status_events" ADD CONSTRAINT "status_events_routeLegId_fkey" FOREIGN KEY ("routeLegId") REFERENCES "route_legs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "route_legs" ADD CONSTRAINT "route_legs_containerId_fkey" FOREIGN KEY ("containerId") REFERENCES "containers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
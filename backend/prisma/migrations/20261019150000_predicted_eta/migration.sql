@@ -0,0 +1,13 @@
+-- CreateEnum
+CREATE TYPE "EtaBasis" AS ENUM ('OBSERVED_SPEED', 'HISTORICAL_SPEED');
+
+-- AlterTable
+ALTER TABLE "containers" ADD COLUMN     "observedSpeedKmDay" DOUBLE PRECISION,
+ADD COLUMN     "predictedAt" TIMESTAMP(3),
+ADD COLUMN     "predictedEta" TIMESTAMP(3),
+ADD COLUMN     "predictedEtaBasis" "EtaBasis",
+ADD COLUMN     "predictedEtaEarliest" TIMESTAMP(3),
+ADD COLUMN     "predictedEtaLatest" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "containers_destinationPoint_idx" ON "containers"("destinationPoint");
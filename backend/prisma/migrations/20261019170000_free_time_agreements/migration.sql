@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "free_time_agreements" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "carrierId" TEXT,
+    "clientId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "portFreeDays" INTEGER NOT NULL,
+    "portTariff" JSONB NOT NULL,
+    "warehouseFreeDays" INTEGER NOT NULL,
+    "warehouseTariff" JSONB NOT NULL,
+    "equipmentFreeDays" INTEGER NOT NULL,
+    "equipmentTariff" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "free_time_agreements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "free_time_agreements_carrierId_idx" ON "free_time_agreements"("carrierId");
+
+-- CreateIndex
+CREATE INDEX "free_time_agreements_clientId_idx" ON "free_time_agreements"("clientId");
+
+-- AddForeignKey
+ALTER TABLE "free_time_agreements" ADD CONSTRAINT "free_time_agreements_carrierId_fkey" FOREIGN KEY ("carrierId") REFERENCES "carriers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "free_time_agreements" ADD CONSTRAINT "free_time_agreements_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "user_settings" (
+    "userId" TEXT NOT NULL,
+    "dashboard" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_settings_pkey" PRIMARY KEY ("userId")
+);
@@ -0,0 +1,4 @@
+-- Ключ плана и прогноза теперь включает классификатор. Старые ключи
+-- PLN/EST совпадают с ключом факта того же часа и поглощали бы его,
+-- поэтому сбрасываются: такие события просто больше не сливаются.
+UPDATE "status_events" SET "dedupeKey" = NULL WHERE "eventClassifier" <> 'ACT';
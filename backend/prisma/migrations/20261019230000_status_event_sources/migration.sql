@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "status_event_sources" (
+    "statusEventId" TEXT NOT NULL,
+    "rawMessageId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "status_event_sources_pkey" PRIMARY KEY ("statusEventId","rawMessageId")
+);
+
+-- CreateIndex
+CREATE INDEX "status_event_sources_rawMessageId_idx" ON "status_event_sources"("rawMessageId");
+
+-- AddForeignKey
+ALTER TABLE "status_event_sources" ADD CONSTRAINT "status_event_sources_statusEventId_fkey" FOREIGN KEY ("statusEventId") REFERENCES "status_events"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "status_event_sources" ADD CONSTRAINT "status_event_sources_rawMessageId_fkey" FOREIGN KEY ("rawMessageId") REFERENCES "raw_messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Существующие события: их собственное сообщение
+INSERT INTO "status_event_sources" ("statusEventId", "rawMessageId", "createdAt")
+SELECT "id", "rawMessageId", "createdAt" FROM "status_events" WHERE "rawMessageId" IS NOT NULL;
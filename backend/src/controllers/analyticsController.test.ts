@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+vi.mock('../services/index.js', () => ({
+  carrierScorecardService: { getScorecards: vi.fn(async () => []) },
+  dwellAnalyticsService: {},
+}));
+
+import { analyticsController } from './analyticsController.js';
+import { carrierScorecardService } from '../services/index.js';
+
+function response() {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+describe('AnalyticsController period', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reads a date-only `to` as the end of that day', async () => {
+    const res = response();
+
+    await analyticsController.getCarrierScorecards(
+      { query: { from: '2025-12-01', to: '2025-12-31' } } as unknown as Request,
+      res as unknown as Response
+    );
+
+    expect(carrierScorecardService.getScorecards).toHaveBeenCalledWith({
+      from: new Date('2025-12-01T00:00:00.000Z'),
+      to: new Date('2025-12-31T23:59:59.999Z'),
+      carrierId: undefined,
+    });
+  });
+
+  it('keeps an explicit time and rejects a reversed period', async () => {
+    const res = response();
+
+    await analyticsController.getCarrierScorecards(
+      { query: { from: '2025-12-01', to: '2025-12-31T12:00:00Z' } } as unknown as Request,
+      res as unknown as Response
+    );
+    expect(carrierScorecardService.getScorecards).toHaveBeenCalledWith(
+      expect.objectContaining({ to: new Date('2025-12-31T12:00:00Z') })
+    );
+
+    await analyticsController.getCarrierScorecards(
+      { query: { from: '2026-01-01', to: '2025-12-31' } } as unknown as Request,
+      res as unknown as Response
+    );
+    expect(res.status).toHaveBeenCalledWith(400);
+  });
+});
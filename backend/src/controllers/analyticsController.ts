@@ -0,0 +1,191 @@
+import { Request, Response } from 'express';
+import { carrierScorecardService, dwellAnalyticsService } from '../services/index.js';
+import { generateScorecardCsv } from '../exporters/index.js';
+import {
+  ApiResponse,
+  CarrierScorecard,
+  DwellAnalytics,
+  DwellGroupBy,
+  DwellParams,
+  DwellSample,
+  DwellStage,
+} from '../types/index.js';
+
+// Период по умолчанию — последние 90 дней
+const DEFAULT_PERIOD_DAYS = 90;
+
+// «2025-12-31» без времени
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const DWELL_GROUPS: DwellGroupBy[] = ['route', 'location', 'month'];
+const DWELL_STAGES: DwellStage[] = ['SEA', 'ANCHORAGE', 'PORT', 'WAREHOUSE', 'CUSTOMS', 'RAIL', 'AUTO'];
+
+/**
+ * Контроллер аналитики
+ */
+export class AnalyticsController {
+
+  /**
+   * GET /api/analytics/carriers
+   * Оценка перевозчиков за период
+   */
+  async getCarrierScorecards(req: Request, res: Response): Promise<void> {
+    try {
+      const { carrierId, format = 'json' } = req.query;
+
+      const period = parsePeriod(req.query.from, req.query.to);
+      if (typeof period === 'string') {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: period,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const scorecards = await carrierScorecardService.getScorecards({
+        ...period,
+        carrierId: carrierId as string | undefined,
+      });
+
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="carrier_scorecards.csv"');
+        // BOM — для корректной кириллицы в Excel
+        res.send('\uFEFF' + generateScorecardCsv(scorecards));
+        return;
+      }
+
+      const response: ApiResponse<{ from: Date; to: Date; carriers: CarrierScorecard[] }> = {
+        success: true,
+        data: { ...period, carriers: scorecards },
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error building carrier scorecards:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to build carrier scorecards',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * GET /api/analytics/dwell
+   * Распределение длительности этапов по маршрутам, локациям или месяцам
+   */
+  async getDwell(req: Request, res: Response): Promise<void> {
+    try {
+      const params = parseDwellParams(req.query);
+      if (typeof params === 'string') {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: params,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const analytics = await dwellAnalyticsService.getAnalytics(params);
+
+      const response: ApiResponse<DwellAnalytics> = {
+        success: true,
+        data: analytics,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error building dwell analytics:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to build dwell analytics',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * GET /api/analytics/dwell/containers
+   * Контейнеры одной группы с длительностью этапа
+   */
+  async getDwellContainers(req: Request, res: Response): Promise<void> {
+    try {
+      const params = parseDwellParams(req.query);
+      const { key } = req.query;
+      if (typeof params === 'string' || !key) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: typeof params === 'string' ? params : 'key is required',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const samples = await dwellAnalyticsService.getSamples({ ...params, key: key as string });
+
+      const response: ApiResponse<DwellSample[]> = {
+        success: true,
+        data: samples,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching dwell containers:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch dwell containers',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+/**
+ * Период из query (строка — текст ошибки)
+ *
+ * Дата без времени в `to` — включительно, до конца этого дня.
+ */
+function parsePeriod(fromParam: unknown, toParam: unknown): { from: Date; to: Date } | string {
+  const to = toParam ? new Date(toParam as string) : new Date();
+  if (typeof toParam === 'string' && DATE_ONLY.test(toParam)) {
+    to.setUTCHours(23, 59, 59, 999);
+  }
+  const from = fromParam
+    ? new Date(fromParam as string)
+    : new Date(to.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return 'from and to must be valid dates';
+  }
+  if (from > to) {
+    return 'from must be before to';
+  }
+  return { from, to };
+}
+
+/**
+ * Параметры анализа простоев из query (строка — текст ошибки)
+ */
+function parseDwellParams(query: Request['query']): DwellParams | string {
+  const period = parsePeriod(query.from, query.to);
+  if (typeof period === 'string') return period;
+
+  const groupBy = (query.groupBy ?? 'route') as DwellGroupBy;
+  if (!DWELL_GROUPS.includes(groupBy)) {
+    return `groupBy must be one of ${DWELL_GROUPS.join(', ')}`;
+  }
+
+  const stage = query.stage as DwellStage | undefined;
+  if (stage && !DWELL_STAGES.includes(stage)) {
+    return `stage must be one of ${DWELL_STAGES.join(', ')}`;
+  }
+
+  return {
+    ...period,
+    groupBy,
+    stage,
+    carrierId: query.carrierId as string | undefined,
+    clientId: query.clientId as string | undefined,
+  };
+}
+
+export const analyticsController = new AnalyticsController();
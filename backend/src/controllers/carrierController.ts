@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import prisma from '../utils/prisma.js';
+import { ApiResponse } from '../types/index.js';
+
+/**
+ * Контроллер справочника перевозчиков
+ */
+export class CarrierController {
+
+  /**
+   * GET /api/carriers
+   * Список перевозчиков
+   */
+  async getCarriers(req: Request, res: Response): Promise<void> {
+    try {
+      const carriers = await prisma.carrier.findMany({
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          contactEmail: true,
+          _count: { select: { parsingProfiles: true } },
+        },
+        orderBy: { name: 'asc' },
+      });
+
+      const response: ApiResponse<typeof carriers> = {
+        success: true,
+        data: carriers,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching carriers:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch carriers',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+export const carrierController = new CarrierController();
@@ -1,8 +1,8 @@
 import { Request, Response } from 'express';
 import { StatusCode } from '@prisma/client';
-import { containerService } from '../services/index.js';
+import { containerService, routeService } from '../services/index.js';
 import { generateClientNotification } from '../generators/index.js';
-import { ApiResponse, PaginatedResponse, ContainerListItem, ContainerDetails } from '../types/index.js';
+import { ApiResponse, PaginatedResponse, ContainerListItem, ContainerDetails, RouteProgress } from '../types/index.js';
 
 /**
  * Контроллер для работы с контейнерами
@@ -130,6 +130,8 @@ export class ContainerController {
         return;
       }
 
+      const currentLeg = container.route?.legs.find(leg => leg.id === container.route!.currentLegId);
+
       // Генерируем уведомление
       const notification = generateClientNotification(
         {
@@ -148,6 +150,13 @@ export class ContainerController {
             eta: container.lastStatus.eta ? new Date(container.lastStatus.eta) : null,
             eventTime: new Date(container.lastStatus.eventTime),
           } : null,
+          currentLeg: currentLeg ? {
+            sequence: currentLeg.sequence,
+            totalLegs: container.route!.legs.length,
+            mode: currentLeg.mode,
+            fromPoint: currentLeg.fromPoint,
+            toPoint: currentLeg.toPoint,
+          } : null,
         },
         {
           format: format === 'short' ? 'short' : 'full',
@@ -173,6 +182,85 @@ export class ContainerController {
       res.status(500).json(response);
     }
   }
+
+  /**
+   * GET /api/containers/:id/route
+   * Плановый маршрут по плечам с прогрессом
+   */
+  async getRoute(req: Request, res: Response): Promise<void> {
+    try {
+      const route = await routeService.getRoute(req.params.id);
+
+      if (!route) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Container not found or route is not set',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse<RouteProgress> = {
+        success: true,
+        data: route,
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching route:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch route',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * PUT /api/containers/:id/route
+   * Замена планового маршрута (пустой список — удаление маршрута)
+   */
+  async setRoute(req: Request, res: Response): Promise<void> {
+    try {
+      const { legs } = req.body ?? {};
+      const errors = routeService.validateLegs(legs);
+
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const result = await routeService.setRoute(req.params.id, legs);
+
+      if (!result) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Container not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse<RouteProgress | null> = {
+        success: true,
+        data: result.route,
+        message: 'Route updated',
+      };
+
+      res.json(response);
+    } catch (error) {
+      console.error('Error updating route:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to update route',
+      };
+      res.status(500).json(response);
+    }
+  }
 }
 
 export const containerController = new ContainerController();
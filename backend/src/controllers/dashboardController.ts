@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import { dashboardService, userSettingsService } from '../services/index.js';
+import { ApiResponse, DashboardParams, DashboardSettings, DashboardSummary } from '../types/index.js';
+
+// Пользователь без заголовка X-User-Id
+const DEFAULT_USER_ID = 'default';
+
+// Размер страницы списков дашборда
+const DEFAULT_LIST_LIMIT = 10;
+
+/**
+ * Контроллер дашборда и настроек пользователя
+ */
+export class DashboardController {
+
+  /**
+   * GET /api/dashboard
+   * Сводка по всем контейнерам: этапы, просроченные ETA,
+   * контейнеры без обновлений и ближайшие прибытия
+   */
+  async getDashboard(req: Request, res: Response): Promise<void> {
+    try {
+      const settings = await userSettingsService.getDashboardSettings(userIdOf(req));
+
+      const params = parseDashboardParams(req.query, settings);
+      if (typeof params === 'string') {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: params,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const summary = await dashboardService.getSummary(params);
+
+      const response: ApiResponse<DashboardSummary> = {
+        success: true,
+        data: summary,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error building dashboard:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to build dashboard',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * GET /api/dashboard/settings
+   * Настройки дашборда текущего пользователя
+   */
+  async getSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const settings = await userSettingsService.getDashboardSettings(userIdOf(req));
+
+      const response: ApiResponse<DashboardSettings> = {
+        success: true,
+        data: settings,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching dashboard settings:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch dashboard settings',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * PUT /api/dashboard/settings
+   * Изменение настроек дашборда (переданные поля)
+   */
+  async updateSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const errors = userSettingsService.validateDashboardSettings(req.body);
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const settings = await userSettingsService.updateDashboardSettings(userIdOf(req), req.body);
+
+      const response: ApiResponse<DashboardSettings> = {
+        success: true,
+        data: settings,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error updating dashboard settings:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to update dashboard settings',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * DELETE /api/dashboard/settings
+   * Сброс настроек дашборда к значениям по умолчанию
+   */
+  async resetSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const settings = await userSettingsService.resetDashboardSettings(userIdOf(req));
+
+      const response: ApiResponse<DashboardSettings> = {
+        success: true,
+        data: settings,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error resetting dashboard settings:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to reset dashboard settings',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+/**
+ * Пользователь запроса (авторизации нет — ID передаёт клиент)
+ */
+function userIdOf(req: Request): string {
+  return req.get('X-User-Id')?.trim().slice(0, 100) || DEFAULT_USER_ID;
+}
+
+/**
+ * Параметры дашборда из query поверх настроек пользователя (строка — текст ошибки)
+ */
+function parseDashboardParams(query: Request['query'], settings: DashboardSettings): DashboardParams | string {
+  const integers: Record<Exclude<keyof DashboardParams, 'showDelivered'>, number> = {
+    staleThresholdDays: settings.staleThresholdDays,
+    upcomingDays: settings.upcomingDays,
+    limit: DEFAULT_LIST_LIMIT,
+    overduePage: 1,
+    stalePage: 1,
+    upcomingPage: 1,
+  };
+
+  for (const field of Object.keys(integers) as Array<keyof typeof integers>) {
+    if (query[field] === undefined) continue;
+    const value = Number(query[field]);
+    if (!Number.isInteger(value) || value < 1) {
+      return `${field} must be a positive integer`;
+    }
+    integers[field] = value;
+  }
+
+  let showDelivered = settings.showDelivered;
+  if (query.showDelivered !== undefined) {
+    if (query.showDelivered !== 'true' && query.showDelivered !== 'false') {
+      return 'showDelivered must be true or false';
+    }
+    showDelivered = query.showDelivered === 'true';
+  }
+
+  return {
+    ...integers,
+    limit: Math.min(integers.limit, 100), // Max 100 per page
+    showDelivered,
+  };
+}
+
+export const dashboardController = new DashboardController();
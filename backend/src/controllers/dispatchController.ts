@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import { railDispatchService } from '../services/index.js';
+import { ApiResponse, RailDispatchDetails } from '../types/index.js';
+
+/**
+ * Контроллер ЖД-отправок
+ */
+export class DispatchController {
+
+  /**
+   * GET /api/dispatches/:id
+   * Отправка с контейнерами и их статусами
+   */
+  async getDispatch(req: Request, res: Response): Promise<void> {
+    try {
+      const dispatch = await railDispatchService.getDispatch(req.params.id);
+
+      if (!dispatch) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Dispatch not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse<RailDispatchDetails> = {
+        success: true,
+        data: dispatch,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching dispatch:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch dispatch',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+export const dispatchController = new DispatchController();
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+const prismaMock = vi.hoisted(() => ({
+  statusEvent: { findMany: vi.fn() },
+}));
+vi.mock('../utils/prisma.js', () => ({ default: prismaMock, prisma: prismaMock }));
+
+vi.mock('../services/index.js', () => ({
+  etaPredictionService: {},
+  oneCExportService: {},
+  syncJobService: {},
+}));
+
+import { exportController } from './exportController.js';
+
+function event(id: string, statusCode: string) {
+  return {
+    id,
+    statusCode,
+    location: 'Забайкальск',
+    eventTime: new Date('2025-12-01T00:00:00Z'),
+    eventClassifier: 'ACT',
+    createdAt: new Date('2025-12-01T01:00:00Z'),
+    container: { containerNumber: 'MSCU1234560' },
+  };
+}
+
+function request(query: Record<string, string>) {
+  return { query } as unknown as Request;
+}
+
+describe('ExportController.exportDcsaEvents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.statusEvent.findMany.mockResolvedValue([event('e1', 'ON_RAIL')]);
+  });
+
+  it('selects only exportable events before applying the limit', async () => {
+    const res = { json: vi.fn() };
+
+    await exportController.exportDcsaEvents(request({ limit: '10' }), res as unknown as Response);
+
+    const args = prismaMock.statusEvent.findMany.mock.calls[0][0];
+    expect(args.take).toBe(10);
+    expect(args.where.isRegression).toBe(false);
+    expect(args.where.statusCode.in).toContain('ON_RAIL');
+    expect(args.where.statusCode.in).not.toContain('ON_WAREHOUSE');
+    expect(args.where.statusCode.in).not.toContain('UNKNOWN');
+    expect(res.json).toHaveBeenCalledWith([expect.objectContaining({ eventID: 'e1', eventType: 'TRANSPORT' })]);
+  });
+
+  it('narrows the statuses to the requested event types', async () => {
+    const res = { json: vi.fn() };
+
+    await exportController.exportDcsaEvents(request({ eventType: 'equipment' }), res as unknown as Response);
+
+    const { where } = prismaMock.statusEvent.findMany.mock.calls[0][0];
+    expect(where.statusCode.in).toEqual(expect.arrayContaining(['LOADED', 'DELIVERED']));
+    expect(where.statusCode.in).not.toContain('ON_RAIL');
+  });
+});
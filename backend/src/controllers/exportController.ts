@@ -1,6 +1,14 @@
 import { Request, Response } from 'express';
 import prisma from '../utils/prisma.js';
-import { exportContainersFor1C, generateOneCCsv, ContainerWithHistory } from '../exporters/index.js';
+import { StatusCode, EventClassifier, Prisma, SyncJobType } from '@prisma/client';
+import {
+  generateOneCCsv,
+  generateOneCXml,
+  exportStatusEventsToDcsa,
+  dcsaEventTypeFor,
+} from '../exporters/index.js';
+import { oneCExportService, syncJobService } from '../services/index.js';
+import { config } from '../config/index.js';
 import { ApiResponse } from '../types/index.js';
 
 /**
@@ -17,7 +25,7 @@ export class ExportController {
    * Экспорт данных контейнеров в формате таблицы 1С
    * 
    * Query params:
-   * - format: 'json' | 'csv' (default: 'json')
+   * - format: 'json' | 'csv' | 'xml' (default: 'json')
    * - containerIds: comma-separated list of container IDs (optional)
    */
   async exportFor1C(req: Request, res: Response): Promise<void> {
@@ -29,35 +37,8 @@ export class ExportController {
         ? { id: { in: (containerIds as string).split(',') } }
         : {};
 
-      // Получаем контейнеры с историей статусов
-      const containers = await prisma.container.findMany({
-        where,
-        include: {
-          statusEvents: {
-            orderBy: { eventTime: 'desc' },
-          },
-        },
-        orderBy: { updatedAt: 'desc' },
-      });
-
-      // Преобразуем в формат для экспортера
-      const containersWithHistory: ContainerWithHistory[] = containers.map(c => ({
-        containerNumber: c.containerNumber,
-        containerType: c.containerType,
-        originPoint: c.originPoint,
-        destinationPoint: c.destinationPoint,
-        statusHistory: c.statusEvents.map(e => ({
-          statusCode: e.statusCode,
-          statusText: e.statusText,
-          location: e.location,
-          distanceToDestinationKm: e.distanceToDestinationKm,
-          eta: e.eta,
-          eventTime: e.eventTime,
-        })),
-      }));
-
-      // Экспортируем в формат 1С
-      const rows = exportContainersFor1C(containersWithHistory);
+      // Контейнеры с историей статусов в формате 1С
+      const rows = await oneCExportService.getRows(where);
 
       if (format === 'csv') {
         // Отдаём CSV
@@ -67,6 +48,13 @@ export class ExportController {
         res.setHeader('Content-Disposition', 'attachment; filename="containers_1c.csv"');
         // Добавляем BOM для корректного отображения кириллицы в Excel
         res.send('\uFEFF' + csv);
+      } else if (format === 'xml') {
+        // Отдаём сообщение обмена EnterpriseData
+        const xml = generateOneCXml(rows, { documentName: config.oneC.documentName });
+
+        res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="containers_1c.xml"');
+        res.send(xml);
       } else {
         // Отдаём JSON
         const response: ApiResponse<typeof rows> = {
@@ -85,6 +73,182 @@ export class ExportController {
       res.status(500).json(response);
     }
   }
+
+  /**
+   * POST /api/export/1c/push
+   * Внеочередная отправка изменений в 1С через OData
+   *
+   * Body:
+   * - full: отправить все контейнеры, а не только изменения
+   * - containerIds: отправить только указанные контейнеры
+   */
+  async pushTo1C(req: Request, res: Response): Promise<void> {
+    try {
+      const { full, containerIds } = req.body ?? {};
+
+      if (containerIds !== undefined
+        && (!Array.isArray(containerIds) || containerIds.some(id => typeof id !== 'string'))) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'containerIds must be an array of strings',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const result = await oneCExportService.push({ full: full === true, containerIds });
+
+      if (!result) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: '1C push is already running',
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        data: result,
+        message: `Pushed ${result.itemsProcessed} of ${result.itemsTotal} containers to 1C`,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error pushing to 1C:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to push data to 1C',
+      };
+      res.status(502).json(response);
+    }
+  }
+
+  /**
+   * GET /api/export/1c/push/status
+   * Настройки отправки в 1С и последние запуски
+   */
+  async getPushStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit = '20' } = req.query;
+      const jobs = await syncJobService.getRecentJobs(
+        SyncJobType.EXPORT_1C,
+        Math.min(parseInt(limit as string, 10) || 20, 100)
+      );
+
+      res.json({
+        success: true,
+        data: {
+          enabled: config.oneC.pushEnabled,
+          odataUrl: config.oneC.odataUrl,
+          catalogName: config.oneC.catalogName,
+          documentName: config.oneC.documentName,
+          pushIntervalMinutes: config.oneC.pushIntervalMinutes,
+          pushing: oneCExportService.isPushing(),
+          jobs,
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching 1C push status:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch 1C push status',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * GET /api/export/dcsa/events
+   * История статусов в формате событий DCSA Track & Trace v2
+   * 
+   * Query params:
+   * - equipmentReference: номер контейнера
+   * - eventType: EQUIPMENT,TRANSPORT (через запятую)
+   * - eventClassifierCode: PLN,EST,ACT (через запятую)
+   * - eventCreatedDateTime:gte — события, созданные не раньше (ISO 8601)
+   * - limit: максимум событий (default: 100, max: 1000)
+   * 
+   * Ответ — массив событий без обёртки ApiResponse, как в стандарте.
+   * События-откаты статуса не выгружаются.
+   */
+  async exportDcsaEvents(req: Request, res: Response): Promise<void> {
+    try {
+      const {
+        equipmentReference,
+        eventType,
+        eventClassifierCode,
+        limit = '100',
+      } = req.query as Record<string, string | undefined>;
+      const createdFrom = req.query['eventCreatedDateTime:gte'] as string | undefined;
+
+      // Только статусы с аналогом в DCSA и без откатов — иначе
+      // limit срезал бы выборку до отбрасывания лишних событий
+      const types = eventType?.split(',').map(t => t.trim().toUpperCase());
+      const where: Prisma.StatusEventWhereInput = {
+        isRegression: false,
+        statusCode: {
+          in: (Object.values(StatusCode) as StatusCode[]).filter(code => {
+            const type = dcsaEventTypeFor(code);
+            return type !== undefined && (!types || types.includes(type));
+          }),
+        },
+      };
+
+      if (equipmentReference) {
+        where.container = { containerNumber: equipmentReference.toUpperCase() };
+      }
+
+      if (eventClassifierCode) {
+        const classifiers = eventClassifierCode.split(',').map(c => c.trim().toUpperCase());
+        where.eventClassifier = {
+          in: (Object.values(EventClassifier) as EventClassifier[]).filter(c => classifiers.includes(c)),
+        };
+      }
+
+      if (createdFrom) {
+        const date = new Date(createdFrom);
+        if (isNaN(date.getTime())) {
+          const response: ApiResponse<null> = {
+            success: false,
+            error: 'Invalid eventCreatedDateTime:gte',
+          };
+          res.status(400).json(response);
+          return;
+        }
+        where.createdAt = { gte: date };
+      }
+
+      const events = await prisma.statusEvent.findMany({
+        where,
+        include: {
+          container: {
+            select: { containerNumber: true },
+          },
+        },
+        orderBy: { eventTime: 'asc' },
+        take: Math.min(Math.max(parseInt(limit, 10) || 100, 1), 1000),
+      });
+
+      const dcsaEvents = exportStatusEventsToDcsa(events.map(e => ({
+        id: e.id,
+        containerNumber: e.container.containerNumber,
+        statusCode: e.statusCode,
+        location: e.location,
+        eventTime: e.eventTime,
+        eventClassifier: e.eventClassifier,
+        createdAt: e.createdAt,
+      })));
+
+      res.json(dcsaEvents);
+    } catch (error) {
+      console.error('Error exporting DCSA events:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to export DCSA events',
+      };
+      res.status(500).json(response);
+    }
+  }
 }
 
 export const exportController = new ExportController();
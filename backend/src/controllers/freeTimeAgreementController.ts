@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { demurrageService } from '../services/index.js';
+import { ApiResponse, FreeTimeAgreementInput } from '../types/index.js';
+
+/**
+ * Контроллер соглашений о бесплатном времени (демерредж / детеншн)
+ */
+export class FreeTimeAgreementController {
+
+  /**
+   * GET /api/free-time-agreements
+   * Список соглашений
+   */
+  async getAgreements(req: Request, res: Response): Promise<void> {
+    try {
+      const agreements = await demurrageService.getAgreements();
+
+      res.json({ success: true, data: agreements });
+    } catch (error) {
+      console.error('Error fetching free time agreements:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch free time agreements',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * POST /api/free-time-agreements
+   * Создание соглашения
+   */
+  async createAgreement(req: Request, res: Response): Promise<void> {
+    try {
+      const input: FreeTimeAgreementInput = req.body;
+
+      const errors = demurrageService.validateInput(input);
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const agreement = await demurrageService.createAgreement(input);
+
+      res.status(201).json({
+        success: true,
+        data: agreement,
+        message: `Соглашение "${agreement.name}" создано`,
+      });
+    } catch (error) {
+      if (respondToMissingReference(error, res)) return;
+
+      console.error('Error creating free time agreement:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to create free time agreement',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * PUT /api/free-time-agreements/:id
+   * Изменение соглашения
+   */
+  async updateAgreement(req: Request, res: Response): Promise<void> {
+    try {
+      const input: Partial<FreeTimeAgreementInput> = req.body;
+
+      const errors = demurrageService.validateInput(input, true);
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const agreement = await demurrageService.updateAgreement(req.params.id, input);
+
+      res.json({ success: true, data: agreement });
+    } catch (error) {
+      if (isNotFound(error)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Free time agreement not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+      if (respondToMissingReference(error, res)) return;
+
+      console.error('Error updating free time agreement:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to update free time agreement',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * DELETE /api/free-time-agreements/:id
+   * Удаление соглашения
+   */
+  async deleteAgreement(req: Request, res: Response): Promise<void> {
+    try {
+      await demurrageService.deleteAgreement(req.params.id);
+
+      res.json({ success: true, message: 'Соглашение удалено' });
+    } catch (error) {
+      if (isNotFound(error)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Free time agreement not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      console.error('Error deleting free time agreement:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to delete free time agreement',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+function respondToMissingReference(error: unknown, res: Response): boolean {
+  if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003') {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Client or carrier not found',
+    };
+    res.status(400).json(response);
+    return true;
+  }
+  return false;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+}
+
+export const freeTimeAgreementController = new FreeTimeAgreementController();
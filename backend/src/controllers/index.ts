@@ -1,4 +1,18 @@
 export { containerController, ContainerController } from './containerController.js';
 export { rawDataController, RawDataController } from './rawDataController.js';
+export { rawMessageController, RawMessageController } from './rawMessageController.js';
 export { statusEventController, StatusEventController } from './statusEventController.js';
 export { exportController, ExportController } from './exportController.js';
+export { mailboxController, MailboxController } from './mailboxController.js';
+export { parsingProfileController, ParsingProfileController } from './parsingProfileController.js';
+export { carrierController, CarrierController } from './carrierController.js';
+export { locationController, LocationController } from './locationController.js';
+export { reviewController, ReviewController } from './reviewController.js';
+export { learnedRuleController, LearnedRuleController } from './learnedRuleController.js';
+export { wagonController, WagonController } from './wagonController.js';
+export { dispatchController, DispatchController } from './dispatchController.js';
+export { shipmentController, ShipmentController } from './shipmentController.js';
+export { freeTimeAgreementController, FreeTimeAgreementController } from './freeTimeAgreementController.js';
+export { reportController, ReportController } from './reportController.js';
+export { analyticsController, AnalyticsController } from './analyticsController.js';
+export { dashboardController, DashboardController } from './dashboardController.js';
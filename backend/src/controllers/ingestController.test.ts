@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+import type { Request, Response } from 'express';
+
+const deleted = vi.hoisted((): string[] => []);
+const prismaMock = vi.hoisted(() => {
+  const table = (name: string) => ({ deleteMany: vi.fn(async () => { deleted.push(name); }) });
+  return {
+    rawMessage: { ...table('rawMessage'), create: vi.fn(), update: vi.fn() },
+    pendingReview: table('pendingReview'),
+    statusEvent: table('statusEvent'),
+    container: table('container'),
+    shipment: table('shipment'),
+    railDispatch: table('railDispatch'),
+    voyage: table('voyage'),
+    vessel: table('vessel'),
+    syncJob: table('syncJob'),
+  };
+});
+vi.mock('../utils/prisma.js', () => ({ default: prismaMock, prisma: prismaMock }));
+
+vi.mock('../services/index.js', () => ({
+  statusEventService: { saveNormalizedEvents: vi.fn(async () => ({ savedEvents: [], duplicates: [], errors: [] })) },
+  deduplicationService: {
+    fingerprint: vi.fn(() => 'fp'),
+    findByIdempotencyKey: vi.fn(),
+    findProcessedDuplicate: vi.fn(async () => null),
+  },
+  pendingReviewService: { enqueue: vi.fn(async () => 0) },
+  parsingContextService: { resolve: vi.fn(async () => ({})) },
+}));
+
+vi.mock('../middleware/index.js', () => ({
+  inputProcessor: { process: vi.fn(async () => ({ success: true, data: [] })) },
+  processingLogger: {},
+  looksLikeSpreadsheet: vi.fn(() => false),
+  decodeText: vi.fn(),
+}));
+
+import { ingestBatch, resetDatabase } from './ingestController.js';
+import { deduplicationService } from '../services/index.js';
+
+function response() {
+  const res = { status: vi.fn(), json: vi.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+function batchRequest(idempotencyKey?: string) {
+  return {
+    body: { items: [{ containerNumber: 'MSCU1234560', status: 'Прибыл в порт' }] },
+    header: (name: string) => (name === 'Idempotency-Key' ? idempotencyKey : undefined),
+  } as unknown as Request;
+}
+
+describe('ingestBatch with Idempotency-Key', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('answers a request that lost the race for the key with the first result', async () => {
+    const previous = { id: 'm1', statusEvents: [] };
+    vi.mocked(deduplicationService.findByIdempotencyKey)
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(previous as never);
+    prismaMock.rawMessage.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    );
+    const res = response();
+
+    await ingestBatch(batchRequest('retry-1'), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Request with this Idempotency-Key was already processed',
+      data: expect.objectContaining({ rawMessageId: 'm1', processed: 0 }),
+    }));
+  });
+
+  it('still fails on other unique conflicts', async () => {
+    prismaMock.rawMessage.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+    );
+    const res = response();
+
+    await ingestBatch(batchRequest(), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(deduplicationService.findByIdempotencyKey).not.toHaveBeenCalled();
+  });
+});
+
+describe('resetDatabase', () => {
+  it('clears shipments, dispatches and voyages after their containers', async () => {
+    deleted.length = 0;
+    const res = response();
+
+    await resetDatabase({} as Request, res as unknown as Response);
+
+    expect(deleted).toEqual([
+      'pendingReview', 'statusEvent', 'rawMessage', 'container',
+      'shipment', 'railDispatch', 'voyage', 'vessel', 'syncJob',
+    ]);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+  });
+});
@@ -1,8 +1,20 @@
 import { Request, Response } from 'express';
-import { inputProcessor, RawInput, processingLogger } from '../middleware/index.js';
-import { statusEventService } from '../services/index.js';
+import {
+  inputProcessor,
+  RawInput,
+  processingLogger,
+  looksLikeSpreadsheet,
+  decodeText,
+} from '../middleware/index.js';
+import {
+  statusEventService,
+  deduplicationService,
+  pendingReviewService,
+  parsingContextService,
+  ProcessedRawMessage,
+} from '../services/index.js';
 import { prisma } from '../utils/prisma.js';
-import { SourceType } from '@prisma/client';
+import { Prisma, SourceType, StatusEvent, Container, RawMessage } from '@prisma/client';
 
 /**
  * ============================================
@@ -10,10 +22,11 @@ import { SourceType } from '@prisma/client';
  * ============================================
  * 
  * Единая точка входа для ВСЕХ типов данных:
- * - POST /api/ingest - универсальный приём
+ * - POST /api/ingest - универсальный приём (в т.ч. загрузка файла .xlsx/.xls/.csv/.eml)
  * - POST /api/ingest/text - чистый текст
  * - POST /api/ingest/json - структурированный JSON
  * - POST /api/ingest/csv - CSV данные
+ * - POST /api/ingest/eml - исходник письма (.eml) с вложениями
  * - POST /api/ingest/batch - пакетная загрузка
  */
 
@@ -33,25 +46,54 @@ export async function ingestUniversal(req: Request, res: Response): Promise<void
       }
     }
 
+    let hint: RawInput['hint'] = req.body.hint;
+
+    // Загруженный файл (multipart/form-data, поле "file")
+    if (req.file) {
+      const uploaded = uploadedFileToContent(req.file);
+      rawContent = uploaded.content;
+      hint = hint || uploaded.hint;
+    }
+
     const input: RawInput = {
       content: rawContent,
-      hint: req.body.hint,
+      hint,
       metadata: {
         sourceEmail: req.body.sourceEmail || req.body.senderEmail,
         sourceSubject: req.body.subject,
         sourceCarrierId: req.body.carrierId,
         sourceUrl: req.body.sourceUrl,
-        receivedAt: req.body.receivedAt || new Date().toISOString(),
+        // Если не передано явно — для писем берётся из заголовка Date
+        receivedAt: req.body.receivedAt,
       },
     };
 
     // Определяем тип источника
     const sourceType: SourceType = determineSourceType(req.body, input);
 
+    // Повтор запроса с тем же Idempotency-Key — отдаём результат первой загрузки
+    const idempotencyKey = req.header('Idempotency-Key')?.trim() || undefined;
+    if (idempotencyKey) {
+      const previous = await deduplicationService.findByIdempotencyKey(idempotencyKey);
+      if (previous) {
+        sendDuplicateResponse(res, previous, 'Request with this Idempotency-Key was already processed');
+        return;
+      }
+    }
+
+    // Повторно присланное письмо или файл не разбираем заново
+    const fingerprint = deduplicationService.fingerprint(input.content, input.metadata?.sourceEmail);
+    const duplicateMessage = await deduplicationService.findProcessedDuplicate(fingerprint);
+    if (duplicateMessage) {
+      sendDuplicateResponse(res, duplicateMessage, 'Same content was already processed');
+      return;
+    }
+
     // Обрабатываем через InputProcessor
-    const result = await inputProcessor.process(input);
+    const result = await inputProcessor.process(input, await parsingContextService.resolve(input));
 
-    if (!result.success || !result.data || result.data.length === 0) {
+    // success — есть события или элементы для ручной проверки
+    if (!result.success) {
       res.status(400).json({
         success: false,
         error: 'Failed to process input data',
@@ -63,71 +105,38 @@ export async function ingestUniversal(req: Request, res: Response): Promise<void
     }
 
     // Сохраняем RawMessage для аудита
-    const rawMessage = await prisma.rawMessage.create({
-      data: {
-        sourceType,
-        content: typeof input.content === 'string' 
-          ? input.content 
+    const stored = await saveRawMessage({
+      sourceType,
+      content: typeof input.content === 'string' 
+        ? input.content 
+        : Buffer.isBuffer(input.content)
+          ? input.content.toString('base64')
           : JSON.stringify(input.content),
-        senderEmail: input.metadata?.sourceEmail,
-        subject: input.metadata?.sourceSubject,
-        carrierId: input.metadata?.sourceCarrierId,
-        processed: true,
-        processedAt: new Date(),
-      },
+      fileName: req.file?.originalname,
+      senderEmail: input.metadata?.sourceEmail,
+      subject: input.metadata?.sourceSubject,
+      carrierId: input.metadata?.sourceCarrierId,
+      fingerprint,
+      idempotencyKey,
+      processed: true,
+      processedAt: new Date(),
     });
+    if ('previous' in stored) {
+      sendDuplicateResponse(res, stored.previous, 'Request with this Idempotency-Key was already processed');
+      return;
+    }
+    const { rawMessage } = stored;
 
-    // Создаём StatusEvents для каждого найденного элемента
-    const savedEvents = [];
-    const errors = [];
-
-    for (const normalized of result.data) {
-      try {
-        // Пропускаем записи без номера контейнера
-        if (!normalized.containerNumber) {
-          errors.push({
-            error: 'Missing container number',
-            data: normalized,
-          });
-          continue;
-        }
-
-        // Создаём или находим контейнер
-        const container = await statusEventService.findOrCreateContainer(
-          normalized.containerNumber,
-          {
-            origin: normalized.origin,
-            destination: normalized.destination,
-          }
-        );
-
-        // Создаём событие
-        const event = await prisma.statusEvent.create({
-          data: {
-            containerId: container.id,
-            statusCode: normalized.statusCode,
-            statusText: normalized.statusText,
-            location: normalized.location || null,
-            distanceToDestinationKm: normalized.distanceToDestinationKm || null,
-            eta: normalized.eta ? new Date(normalized.eta) : null,
-            eventTime: normalized.eventTime ? new Date(normalized.eventTime) : new Date(),
-            sourceType,
-            sourceRaw: normalized.sourceRaw || null,
-            rawMessageId: rawMessage.id,
-          },
-          include: {
-            container: true,
-          },
-        });
+    // Создаём StatusEvents для каждого найденного элемента (повторы сливаются)
+    const { savedEvents, duplicates, errors } = await statusEventService.saveNormalizedEvents(
+      result.data ?? [],
+      { sourceType, rawMessageId: rawMessage.id }
+    );
 
-        savedEvents.push(event);
-      } catch (err) {
-        errors.push({
-          error: err instanceof Error ? err.message : 'Unknown error',
-          data: normalized,
-        });
-      }
-    }
+    // Сомнительные элементы ждут логиста, событие создаётся при подтверждении
+    const pendingReview = result.review
+      ? await pendingReviewService.enqueue(result.review, { sourceType, rawMessageId: rawMessage.id })
+      : 0;
 
     // Обновляем RawMessage с результатами
     await prisma.rawMessage.update({
@@ -137,18 +146,25 @@ export async function ingestUniversal(req: Request, res: Response): Promise<void
       },
     });
 
+    // События не по порядку сохранены, но не стали текущим статусом
+    const regressions = regressionSummary(savedEvents);
+
     res.status(201).json({
       success: true,
-      message: `Processed ${savedEvents.length} status events`,
+      message: `Processed ${savedEvents.length} status events, ${duplicates.length} duplicates, ${pendingReview} sent to review`,
       data: {
         processed: savedEvents.length,
+        duplicates: duplicates.length,
+        pendingReview,
         failed: errors.length,
         events: savedEvents,
+        regressions: regressions.length > 0 ? regressions : undefined,
         warnings: result.warnings,
       },
       processing: {
         format: result.detectedFormat,
         confidence: result.confidence,
+        profile: result.appliedProfile,
         log: result.processingLog,
       },
       errors: errors.length > 0 ? errors : undefined,
@@ -236,6 +252,36 @@ export async function ingestCsv(req: Request, res: Response): Promise<void> {
   await ingestUniversal(req, res);
 }
 
+/**
+ * Приём исходника письма (.eml)
+ * 
+ * Принимает письмо как есть: Content-Type message/rfc822 или text/plain,
+ * либо JSON с полем "eml"/"content". Тело и вложения (CSV/XLSX/XML)
+ * разбираются отдельно, все события привязываются к одному RawMessage.
+ */
+export async function ingestEml(req: Request, res: Response): Promise<void> {
+  const emlContent = typeof req.body === 'string'
+    ? req.body
+    : req.body?.eml || req.body?.content;
+
+  if (!emlContent || typeof emlContent !== 'string') {
+    res.status(400).json({
+      success: false,
+      error: 'EML source is required (send as message/rfc822 body or use "eml"/"content" field)',
+    });
+    return;
+  }
+
+  req.body = {
+    ...(typeof req.body === 'object' ? req.body : {}),
+    content: emlContent,
+    hint: 'eml',
+    sourceType: 'EMAIL',
+  };
+
+  await ingestUniversal(req, res);
+}
+
 /**
  * Пакетная загрузка (множество записей)
  */
@@ -251,65 +297,121 @@ export async function ingestBatch(req: Request, res: Response): Promise<void> {
     return;
   }
 
-  const results = [];
-  const errors = [];
+  try {
+    const idempotencyKey = req.header('Idempotency-Key')?.trim() || undefined;
+    if (idempotencyKey) {
+      const previous = await deduplicationService.findByIdempotencyKey(idempotencyKey);
+      if (previous) {
+        sendDuplicateResponse(res, previous, 'Request with this Idempotency-Key was already processed');
+        return;
+      }
+    }
 
-  for (let i = 0; i < batchItems.length; i++) {
-    try {
-      const input: RawInput = {
-        content: batchItems[i],
-        metadata: req.body.metadata,
-      };
+    const fingerprint = deduplicationService.fingerprint(batchItems, req.body.metadata?.sourceEmail);
+    const duplicateMessage = await deduplicationService.findProcessedDuplicate(fingerprint);
+    if (duplicateMessage) {
+      sendDuplicateResponse(res, duplicateMessage, 'Same batch was already processed');
+      return;
+    }
 
-      const result = await inputProcessor.process(input);
-      
-      if (result.success && result.data) {
-        for (const normalized of result.data) {
-          if (normalized.containerNumber) {
-            const container = await statusEventService.findOrCreateContainer(
-              normalized.containerNumber,
-              { origin: normalized.origin, destination: normalized.destination }
+    // Пакет целиком сохраняется как RawMessage для аудита и повторов
+    const stored = await saveRawMessage({
+      sourceType: 'EXCEL',
+      content: JSON.stringify(batchItems),
+      senderEmail: req.body.metadata?.sourceEmail,
+      fingerprint,
+      idempotencyKey,
+      processed: true,
+      processedAt: new Date(),
+    });
+    if ('previous' in stored) {
+      sendDuplicateResponse(res, stored.previous, 'Request with this Idempotency-Key was already processed');
+      return;
+    }
+    const { rawMessage } = stored;
+
+    const results: Array<StatusEvent & { container: Container }> = [];
+    const duplicates: Array<StatusEvent & { container: Container }> = [];
+    const errors = [];
+    let pendingReview = 0;
+
+    // Профиль, правила и составы групп — один раз на пакет
+    const options = await parsingContextService.resolve({
+      content: batchItems,
+      metadata: req.body.metadata,
+    });
+
+    for (let i = 0; i < batchItems.length; i++) {
+      try {
+        const input: RawInput = {
+          content: batchItems[i],
+          metadata: req.body.metadata,
+        };
+
+        const result = await inputProcessor.process(input, options);
+        
+        if (result.success) {
+          if (result.review) {
+            pendingReview += await pendingReviewService.enqueue(
+              result.review,
+              { sourceType: 'EXCEL', rawMessageId: rawMessage.id }
             );
+          }
 
-            const event = await prisma.statusEvent.create({
-              data: {
-                containerId: container.id,
-                statusCode: normalized.statusCode,
-                statusText: normalized.statusText,
-                location: normalized.location || null,
-                distanceToDestinationKm: normalized.distanceToDestinationKm || null,
-                eta: normalized.eta ? new Date(normalized.eta) : null,
-                eventTime: normalized.eventTime ? new Date(normalized.eventTime) : new Date(),
-                sourceType: 'EXCEL',
-                sourceRaw: JSON.stringify(batchItems[i]),
-              },
-            });
-
-            results.push(event);
+          // Исходником события остаётся элемент пакета целиком
+          const saved = await statusEventService.saveNormalizedEvents(
+            (result.data ?? []).map(normalized => ({ ...normalized, sourceRaw: JSON.stringify(batchItems[i]) })),
+            { sourceType: 'EXCEL', rawMessageId: rawMessage.id }
+          );
+
+          results.push(...saved.savedEvents);
+          duplicates.push(...saved.duplicates);
+          for (const { error, data } of saved.errors) {
+            errors.push({ index: i, error, item: data });
           }
+        } else {
+          errors.push({ index: i, errors: result.errors, item: batchItems[i] });
         }
-      } else {
-        errors.push({ index: i, errors: result.errors, item: batchItems[i] });
+      } catch (err) {
+        errors.push({ 
+          index: i, 
+          error: err instanceof Error ? err.message : 'Unknown error',
+          item: batchItems[i],
+        });
       }
-    } catch (err) {
-      errors.push({ 
-        index: i, 
-        error: err instanceof Error ? err.message : 'Unknown error',
-        item: batchItems[i],
+    }
+
+    if (errors.length > 0) {
+      await prisma.rawMessage.update({
+        where: { id: rawMessage.id },
+        data: { errorMessage: JSON.stringify(errors) },
       });
     }
-  }
 
-  res.status(201).json({
-    success: true,
-    message: `Batch processed: ${results.length} successful, ${errors.length} failed`,
-    data: {
-      processed: results.length,
-      failed: errors.length,
-      total: batchItems.length,
-    },
-    errors: errors.length > 0 ? errors : undefined,
-  });
+    const regressions = regressionSummary(results);
+
+    res.status(201).json({
+      success: true,
+      message: `Batch processed: ${results.length} successful, ${duplicates.length} duplicates, ${pendingReview} sent to review, ${errors.length} failed`,
+      data: {
+        processed: results.length,
+        duplicates: duplicates.length,
+        pendingReview,
+        failed: errors.length,
+        total: batchItems.length,
+        events: results,
+        regressions: regressions.length > 0 ? regressions : undefined,
+      },
+      errors: errors.length > 0 ? errors : undefined,
+    });
+  } catch (error) {
+    console.error('Batch ingest error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal server error during batch ingestion',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
 }
 
 /**
@@ -368,6 +470,9 @@ export async function getProcessingStats(req: Request, res: Response): Promise<v
 
 /**
  * Тестовый endpoint для проверки парсинга (без сохранения)
+ *
+ * Разбирает только по содержимому: без профиля перевозчика,
+ * выученных правил и обращений к БД.
  */
 export async function testParsing(req: Request, res: Response): Promise<void> {
   try {
@@ -384,6 +489,7 @@ export async function testParsing(req: Request, res: Response): Promise<void> {
       data: result.data,
       detectedFormat: result.detectedFormat,
       confidence: result.confidence,
+      appliedProfile: result.appliedProfile,
       warnings: result.warnings,
       errors: result.errors,
       processingLog: result.processingLog,
@@ -397,6 +503,92 @@ export async function testParsing(req: Request, res: Response): Promise<void> {
   }
 }
 
+/**
+ * События, сохранённые с пометкой регресса (не стали текущим статусом)
+ */
+function regressionSummary(events: Array<StatusEvent & { container: Container }>) {
+  return events
+    .filter(event => event.isRegression)
+    .map(event => ({
+      containerNumber: event.container.containerNumber,
+      statusCode: event.statusCode,
+      reason: event.regressionReason,
+    }));
+}
+
+/**
+ * Сохранение принятого сообщения
+ *
+ * Idempotency-Key проверяется до разбора, а записывается только здесь:
+ * параллельный запрос с тем же ключом (повтор клиента после таймаута)
+ * мог успеть раньше. Тогда возвращается его сообщение, а не 500.
+ */
+async function saveRawMessage(
+  data: Prisma.RawMessageUncheckedCreateInput
+): Promise<{ rawMessage: RawMessage } | { previous: ProcessedRawMessage }> {
+  try {
+    return { rawMessage: await prisma.rawMessage.create({ data }) };
+  } catch (error) {
+    if (!data.idempotencyKey || !(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+      throw error;
+    }
+    const previous = await deduplicationService.findByIdempotencyKey(data.idempotencyKey);
+    if (!previous) throw error;
+    return { previous };
+  }
+}
+
+/**
+ * Ответ на повторную загрузку: новых событий нет,
+ * возвращаются события первой загрузки
+ */
+function sendDuplicateResponse(res: Response, previous: ProcessedRawMessage, message: string): void {
+  res.status(200).json({
+    success: true,
+    message,
+    data: {
+      processed: 0,
+      duplicates: previous.statusEvents.length,
+      failed: 0,
+      events: previous.statusEvents,
+      rawMessageId: previous.id,
+    },
+  });
+}
+
+/**
+ * Содержимое загруженного файла для InputProcessor
+ * 
+ * Книги Excel передаются как есть (Buffer), текстовые файлы
+ * декодируются с учётом windows-1251 из выгрузок 1С.
+ */
+function uploadedFileToContent(file: Express.Multer.File): {
+  content: string | Buffer;
+  hint?: RawInput['hint'];
+} {
+  const ext = file.originalname.toLowerCase().split('.').pop() || '';
+
+  if (['xlsx', 'xls'].includes(ext) || looksLikeSpreadsheet(file.buffer)) {
+    return { content: file.buffer, hint: 'xlsx' };
+  }
+
+  const text = decodeText(file.buffer);
+
+  switch (ext) {
+    case 'csv':
+      return { content: text, hint: 'csv' };
+    case 'eml':
+      return { content: text, hint: 'eml' };
+    case 'edi':
+    case 'edifact':
+    case 'x12':
+      return { content: text, hint: 'edi' };
+    default:
+      // JSON, TXT и прочее — автоопределение формата
+      return { content: text };
+  }
+}
+
 /**
  * Определение типа источника
  */
@@ -408,8 +600,8 @@ function determineSourceType(body: Record<string, unknown>, input: RawInput): So
     }
   }
 
-  if (input.metadata?.sourceEmail) return 'EMAIL';
-  if (input.hint === 'csv' || input.hint === 'table') return 'EXCEL';
+  if (input.metadata?.sourceEmail || input.hint === 'eml') return 'EMAIL';
+  if (input.hint === 'csv' || input.hint === 'table' || input.hint === 'xlsx') return 'EXCEL';
   if (input.hint === 'api') return 'API';
   
   // Автоопределение по содержимому
@@ -431,18 +623,28 @@ function determineSourceType(body: Record<string, unknown>, input: RawInput): So
 export async function resetDatabase(req: Request, res: Response): Promise<void> {
   try {
     // Удаляем в правильном порядке (из-за foreign keys)
+    await prisma.pendingReview.deleteMany();
     await prisma.statusEvent.deleteMany();
     await prisma.rawMessage.deleteMany();
     await prisma.container.deleteMany();
+    await prisma.shipment.deleteMany();
+    await prisma.railDispatch.deleteMany();
+    await prisma.voyage.deleteMany();
+    await prisma.vessel.deleteMany();
     await prisma.syncJob.deleteMany();
     
     res.json({
       success: true,
       message: 'База данных очищена',
       deleted: {
+        pendingReviews: true,
         statusEvents: true,
         rawMessages: true,
         containers: true,
+        shipments: true,
+        railDispatches: true,
+        voyages: true,
+        vessels: true,
         syncJobs: true,
       },
     });
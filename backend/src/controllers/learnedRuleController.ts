@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { LearnedRuleKind, Prisma } from '@prisma/client';
+import { learnedRuleService } from '../services/index.js';
+import { ApiResponse } from '../types/index.js';
+
+/**
+ * Контроллер правил, выученных из исправлений логиста
+ *
+ * Просмотр, отключение и перевод правил перевозчика в глобальные.
+ */
+export class LearnedRuleController {
+
+  /**
+   * GET /api/learned-rules
+   * Список правил
+   */
+  async getRules(req: Request, res: Response): Promise<void> {
+    try {
+      const { kind, carrierId, active } = req.query;
+      const kindValue = kind ? String(kind).toUpperCase() as LearnedRuleKind : undefined;
+
+      if (kindValue && !Object.values(LearnedRuleKind).includes(kindValue)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Invalid kind: ${kind}`,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const rules = await learnedRuleService.getLearnedRules({
+        kind: kindValue,
+        // carrierId=global — только глобальные правила
+        carrierId: carrierId === 'global' ? null : (carrierId as string | undefined),
+        isActive: active === undefined ? undefined : active === 'true',
+      });
+
+      res.json({ success: true, data: rules });
+    } catch (error) {
+      console.error('Error fetching learned rules:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch learned rules',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * GET /api/learned-rules/:id
+   * Правило с обучающими парами
+   */
+  async getRuleById(req: Request, res: Response): Promise<void> {
+    try {
+      const rule = await learnedRuleService.getRuleById(req.params.id);
+
+      if (!rule) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Learned rule not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      console.error('Error fetching learned rule:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch learned rule',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * PATCH /api/learned-rules/:id
+   * Включение / отключение правила
+   */
+  async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { isActive } = req.body || {};
+
+      if (typeof isActive !== 'boolean') {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'isActive must be a boolean',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const rule = await learnedRuleService.setActive(req.params.id, isActive);
+      res.json({
+        success: true,
+        data: rule,
+        message: isActive ? 'Правило включено' : 'Правило отключено',
+      });
+    } catch (error) {
+      if (isNotFound(error)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Learned rule not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      console.error('Error updating learned rule:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to update learned rule',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * POST /api/learned-rules/:id/promote
+   * Перевод правила перевозчика в глобальные
+   */
+  async promoteRule(req: Request, res: Response): Promise<void> {
+    try {
+      const rule = await learnedRuleService.getRuleById(req.params.id);
+
+      if (!rule) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Learned rule not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      if (!rule.carrierId) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Learned rule is already global',
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      const promoted = await learnedRuleService.promote(rule);
+      res.json({ success: true, data: promoted, message: 'Правило применяется ко всем перевозчикам' });
+    } catch (error) {
+      console.error('Error promoting learned rule:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to promote learned rule',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+}
+
+export const learnedRuleController = new LearnedRuleController();
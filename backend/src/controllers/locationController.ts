@@ -0,0 +1,304 @@
+import { Request, Response } from 'express';
+import { LocationSource, LocationType, Prisma } from '@prisma/client';
+import { locationService, LocationInput } from '../services/index.js';
+import { findLocation } from '../middleware/index.js';
+import { ApiResponse, PaginatedResponse } from '../types/index.js';
+
+/**
+ * Контроллер справочника локаций
+ */
+export class LocationController {
+
+  /**
+   * GET /api/locations
+   * Список локаций
+   */
+  async getLocations(req: Request, res: Response): Promise<void> {
+    try {
+      const { search, type, country, source, page = '1', limit = '50' } = req.query;
+      const typeValue = type ? String(type).toUpperCase() as LocationType : undefined;
+      const sourceValue = source ? String(source).toUpperCase() as LocationSource : undefined;
+
+      if (typeValue && !Object.values(LocationType).includes(typeValue)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Invalid type: ${type}`,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      if (sourceValue && !Object.values(LocationSource).includes(sourceValue)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Invalid source: ${source}`,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const result = await locationService.getLocations({
+        search: search as string | undefined,
+        type: typeValue,
+        country: country as string | undefined,
+        source: sourceValue,
+        page: parseInt(page as string, 10) || 1,
+        limit: Math.min(parseInt(limit as string, 10) || 50, 200),
+      });
+
+      const response: PaginatedResponse<(typeof result.data)[number]> = {
+        success: true,
+        data: result.data,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / result.limit),
+        },
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch locations',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * GET /api/locations/lookup?text=
+   * Как findLocation распознаёт текст (по индексу в памяти)
+   */
+  async lookup(req: Request, res: Response): Promise<void> {
+    const text = typeof req.query.text === 'string' ? req.query.text : '';
+
+    if (!text.trim()) {
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'text is required',
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    res.json({ success: true, data: findLocation(text) });
+  }
+
+  /**
+   * GET /api/locations/:id
+   * Локация по ID
+   */
+  async getLocationById(req: Request, res: Response): Promise<void> {
+    try {
+      const location = await locationService.getLocationById(req.params.id);
+
+      if (!location) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Location not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      res.json({ success: true, data: location });
+    } catch (error) {
+      console.error('Error fetching location:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch location',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * POST /api/locations
+   * Создание локации
+   */
+  async createLocation(req: Request, res: Response): Promise<void> {
+    try {
+      const input: LocationInput = req.body;
+
+      const errors = locationService.validateInput(input);
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const location = await locationService.createLocation(input);
+
+      res.status(201).json({
+        success: true,
+        data: location,
+        message: `Локация "${location.name}" добавлена`,
+      });
+    } catch (error) {
+      if (isUniqueConflict(error)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Location with this UN/LOCODE or ESR code already exists',
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      console.error('Error creating location:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to create location',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * PUT /api/locations/:id
+   * Изменение локации
+   */
+  async updateLocation(req: Request, res: Response): Promise<void> {
+    try {
+      const input: Partial<LocationInput> = req.body;
+
+      const errors = locationService.validateInput(input, true);
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const location = await locationService.updateLocation(req.params.id, input);
+
+      res.json({ success: true, data: location });
+    } catch (error) {
+      if (isNotFound(error)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Location not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      if (isUniqueConflict(error)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Location with this UN/LOCODE or ESR code already exists',
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      console.error('Error updating location:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to update location',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * DELETE /api/locations/:id
+   * Удаление локации
+   */
+  async deleteLocation(req: Request, res: Response): Promise<void> {
+    try {
+      await locationService.deleteLocation(req.params.id);
+
+      res.json({ success: true, message: 'Локация удалена' });
+    } catch (error) {
+      if (isNotFound(error)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Location not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      console.error('Error deleting location:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to delete location',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * POST /api/locations/import
+   * Импорт реестра станций ЕСР или файла UN/LOCODE
+   */
+  async importRegistry(req: Request, res: Response): Promise<void> {
+    try {
+      const content = req.file?.buffer ?? req.body.content;
+      const registry = String(req.body.registry || req.query.registry || '').toLowerCase();
+
+      if (registry !== 'esr' && registry !== 'unlocode') {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'registry must be "esr" or "unlocode"',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      if (!content || (typeof content !== 'string' && !Buffer.isBuffer(content))) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Registry file is required (multipart field "file" or "content" text)',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const transportOnly = req.body.transportOnly === undefined
+        ? undefined
+        : String(req.body.transportOnly) !== 'false';
+      const result = await locationService.importRegistry(registry, content, { transportOnly });
+
+      if (result.total === 0) {
+        const response: ApiResponse<typeof result> = {
+          success: false,
+          data: result,
+          error: result.warnings[0] || 'Файл не содержит локаций',
+        };
+        res.status(422).json(response);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result,
+        message: `Импортировано: ${result.created} новых, ${result.updated} обновлено`,
+      });
+    } catch (error) {
+      console.error('Error importing location registry:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to import location registry',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+}
+
+function isUniqueConflict(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+export const locationController = new LocationController();
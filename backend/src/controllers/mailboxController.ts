@@ -0,0 +1,81 @@
+import { Request, Response } from 'express';
+import { SyncJobType } from '@prisma/client';
+import { mailboxPollerService, syncJobService } from '../services/index.js';
+import { config } from '../config/index.js';
+import { ApiResponse } from '../types/index.js';
+
+/**
+ * Контроллер IMAP-ящика операторов
+ *
+ * Ручной запуск опроса и просмотр истории запусков (SyncJob IMPORT_EMAIL).
+ */
+export class MailboxController {
+
+  /**
+   * POST /api/mailbox/poll
+   * Внеочередной опрос ящика
+   */
+  async pollNow(req: Request, res: Response): Promise<void> {
+    try {
+      const result = await mailboxPollerService.poll();
+
+      if (!result) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Mailbox poll is already running',
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        data: result,
+        message: `Imported ${result.itemsProcessed} of ${result.itemsTotal} messages`,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error polling mailbox:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to poll mailbox',
+      };
+      res.status(502).json(response);
+    }
+  }
+
+  /**
+   * GET /api/mailbox/status
+   * Настройки опроса и последние запуски
+   */
+  async getStatus(req: Request, res: Response): Promise<void> {
+    try {
+      const { limit = '20' } = req.query;
+      const jobs = await syncJobService.getRecentJobs(
+        SyncJobType.IMPORT_EMAIL,
+        Math.min(parseInt(limit as string, 10) || 20, 100)
+      );
+
+      res.json({
+        success: true,
+        data: {
+          enabled: config.mailbox.enabled,
+          host: config.mailbox.host,
+          folder: config.mailbox.folder,
+          pollIntervalSeconds: config.mailbox.pollIntervalSeconds,
+          polling: mailboxPollerService.isPolling(),
+          jobs,
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching mailbox status:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch mailbox status',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+export const mailboxController = new MailboxController();
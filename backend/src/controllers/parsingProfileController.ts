@@ -0,0 +1,221 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { parsingProfileService, ParsingProfileInput } from '../services/index.js';
+import prisma from '../utils/prisma.js';
+import { ApiResponse } from '../types/index.js';
+
+/**
+ * Контроллер профилей разбора данных перевозчиков
+ */
+export class ParsingProfileController {
+
+  /**
+   * GET /api/parsing-profiles
+   * Список профилей
+   */
+  async getProfiles(req: Request, res: Response): Promise<void> {
+    try {
+      const { carrierId } = req.query;
+      const profiles = await parsingProfileService.getProfiles(carrierId as string | undefined);
+
+      res.json({ success: true, data: profiles });
+    } catch (error) {
+      console.error('Error fetching parsing profiles:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch parsing profiles',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * GET /api/parsing-profiles/:id
+   * Профиль по ID
+   */
+  async getProfileById(req: Request, res: Response): Promise<void> {
+    try {
+      const profile = await parsingProfileService.getProfileById(req.params.id);
+
+      if (!profile) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Parsing profile not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      res.json({ success: true, data: profile });
+    } catch (error) {
+      console.error('Error fetching parsing profile:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch parsing profile',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * POST /api/parsing-profiles
+   * Создание профиля
+   */
+  async createProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const input: ParsingProfileInput = req.body;
+
+      const errors = parsingProfileService.validateInput(input);
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const carrier = await prisma.carrier.findUnique({ where: { id: input.carrierId } });
+      if (!carrier) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Carrier not found',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const profile = await parsingProfileService.createProfile(input);
+
+      res.status(201).json({
+        success: true,
+        data: profile,
+        message: `Профиль "${profile.name}" создан`,
+      });
+    } catch (error) {
+      console.error('Error creating parsing profile:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to create parsing profile',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * PUT /api/parsing-profiles/:id
+   * Изменение профиля
+   */
+  async updateProfile(req: Request, res: Response): Promise<void> {
+    try {
+      const input: Partial<ParsingProfileInput> = req.body;
+
+      const errors = parsingProfileService.validateInput(input, true);
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const profile = await parsingProfileService.updateProfile(req.params.id, input);
+
+      res.json({ success: true, data: profile });
+    } catch (error) {
+      if (isNotFound(error)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Parsing profile not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      console.error('Error updating parsing profile:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to update parsing profile',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * DELETE /api/parsing-profiles/:id
+   * Удаление профиля
+   */
+  async deleteProfile(req: Request, res: Response): Promise<void> {
+    try {
+      await parsingProfileService.deleteProfile(req.params.id);
+
+      res.json({ success: true, message: 'Профиль удалён' });
+    } catch (error) {
+      if (isNotFound(error)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Parsing profile not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      console.error('Error deleting parsing profile:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to delete parsing profile',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * POST /api/parsing-profiles/sample
+   * Разбор образца файла: колонки, первые строки, предложенный маппинг
+   */
+  async analyzeSample(req: Request, res: Response): Promise<void> {
+    try {
+      const content = req.file?.buffer ?? req.body.content;
+
+      if (!content || (typeof content !== 'string' && !Buffer.isBuffer(content))) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Sample file is required (multipart field "file" or "content" text)',
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const skipRows = req.body.skipRows !== undefined ? parseInt(req.body.skipRows, 10) : undefined;
+      const analysis = parsingProfileService.analyzeSample(content, {
+        delimiter: req.body.delimiter,
+        skipRows: Number.isInteger(skipRows) && skipRows! >= 0 ? skipRows : undefined,
+      });
+
+      if (analysis.headers.length === 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Не удалось найти строку заголовков в образце',
+        };
+        res.status(422).json(response);
+        return;
+      }
+
+      res.json({ success: true, data: analysis });
+    } catch (error) {
+      console.error('Error analyzing sample:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to analyze sample file',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+}
+
+export const parsingProfileController = new ParsingProfileController();
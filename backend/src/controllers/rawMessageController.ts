@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import { rawMessageService, ReprocessFilter } from '../services/index.js';
+import { ApiResponse } from '../types/index.js';
+
+/**
+ * Контроллер сохранённых сообщений (RawMessage)
+ *
+ * Повторная обработка после исправления парсера или профиля:
+ * по одному сообщению и пакетом по фильтру, с режимом dryRun.
+ */
+export class RawMessageController {
+
+  /**
+   * POST /api/raw-messages/:id/reprocess
+   * Повторная обработка одного сообщения
+   */
+  async reprocessMessage(req: Request, res: Response): Promise<void> {
+    try {
+      const dryRun = isDryRun(req);
+      const result = await rawMessageService.reprocess(req.params.id, { dryRun });
+
+      if (!result) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Raw message not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        data: result,
+        message: `${dryRun ? 'Dry run' : 'Reprocessed'}: ${result.added.length} added, `
+          + `${result.removed.length} removed, ${result.changed.length} changed`,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error reprocessing raw message:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to reprocess raw message',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * POST /api/raw-messages/reprocess
+   * Пакетная повторная обработка по фильтру
+   */
+  async reprocessMessages(req: Request, res: Response): Promise<void> {
+    try {
+      const params = { ...req.query, ...(typeof req.body === 'object' ? req.body : {}) };
+      const filter: ReprocessFilter = {};
+
+      for (const field of ['from', 'to'] as const) {
+        if (!params[field]) continue;
+
+        const date = new Date(String(params[field]));
+        if (isNaN(date.getTime())) {
+          const response: ApiResponse<null> = {
+            success: false,
+            error: `Invalid ${field} date`,
+          };
+          res.status(400).json(response);
+          return;
+        }
+        filter[field] = date;
+      }
+
+      if (params.carrierId) filter.carrierId = String(params.carrierId);
+      if (params.processed !== undefined) filter.processed = toBoolean(params.processed);
+      if (params.hasError !== undefined) filter.hasError = toBoolean(params.hasError);
+      if (params.limit !== undefined) filter.limit = parseInt(String(params.limit), 10) || undefined;
+
+      const result = await rawMessageService.reprocessMany(filter, { dryRun: isDryRun(req) });
+
+      const response: ApiResponse<typeof result> = {
+        success: true,
+        data: result,
+        message: `${result.dryRun ? 'Dry run' : 'Reprocessed'} ${result.itemsProcessed} of ${result.itemsTotal} messages`,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error reprocessing raw messages:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to reprocess raw messages',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+/**
+ * dryRun из тела запроса или query (?dryRun=true)
+ */
+function isDryRun(req: Request): boolean {
+  return toBoolean(req.body?.dryRun ?? req.query.dryRun);
+}
+
+function toBoolean(value: unknown): boolean {
+  return value === true || value === 'true' || value === '1';
+}
+
+export const rawMessageController = new RawMessageController();
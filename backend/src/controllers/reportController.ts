@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { demurrageService } from '../services/index.js';
+import { ApiResponse, DemurrageReport } from '../types/index.js';
+
+/**
+ * Контроллер отчётов
+ */
+export class ReportController {
+
+  /**
+   * GET /api/reports/demurrage
+   * Начисленные и ожидаемые демерредж, хранение и детеншн по контейнерам
+   */
+  async getDemurrageReport(req: Request, res: Response): Promise<void> {
+    try {
+      const { clientId, carrierId, warningDays, expiringOnly } = req.query;
+
+      let days: number | undefined;
+      if (warningDays !== undefined) {
+        days = parseInt(warningDays as string, 10);
+        if (!Number.isInteger(days) || days < 0) {
+          const response: ApiResponse<null> = {
+            success: false,
+            error: 'warningDays must be a non-negative integer',
+          };
+          res.status(400).json(response);
+          return;
+        }
+      }
+
+      const report = await demurrageService.getReport({
+        clientId: clientId as string | undefined,
+        carrierId: carrierId as string | undefined,
+        warningDays: days,
+        expiringOnly: expiringOnly === 'true',
+      });
+
+      const response: ApiResponse<DemurrageReport> = {
+        success: true,
+        data: report,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error building demurrage report:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to build demurrage report',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+export const reportController = new ReportController();
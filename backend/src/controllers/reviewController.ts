@@ -0,0 +1,202 @@
+import { Request, Response } from 'express';
+import { ReviewStatus } from '@prisma/client';
+import { pendingReviewService, ReviewCorrection } from '../services/index.js';
+import { ApiResponse, PaginatedResponse } from '../types/index.js';
+
+/**
+ * Контроллер очереди ручной проверки
+ *
+ * Логист сверяет извлечённые поля с исходным текстом,
+ * исправляет их и подтверждает или отклоняет элемент.
+ */
+export class ReviewController {
+
+  /**
+   * GET /api/reviews
+   * Очередь проверки
+   */
+  async getReviews(req: Request, res: Response): Promise<void> {
+    try {
+      const { status = 'PENDING', page = '1', limit = '20' } = req.query;
+      const statusValue = String(status).toUpperCase() as ReviewStatus;
+
+      if (!Object.values(ReviewStatus).includes(statusValue)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Invalid status: ${status}`,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const result = await pendingReviewService.getReviews({
+        status: statusValue,
+        page: parseInt(page as string, 10) || 1,
+        limit: Math.min(parseInt(limit as string, 10) || 20, 100),
+      });
+
+      const response: PaginatedResponse<(typeof result.data)[number]> = {
+        success: true,
+        data: result.data,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / result.limit),
+        },
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching reviews:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch review queue',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * GET /api/reviews/stats
+   * Количество элементов по статусам
+   */
+  async getStats(req: Request, res: Response): Promise<void> {
+    try {
+      const counts = await pendingReviewService.getCounts();
+      res.json({ success: true, data: counts });
+    } catch (error) {
+      console.error('Error fetching review stats:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch review stats',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * GET /api/reviews/:id
+   * Элемент с исходным сообщением
+   */
+  async getReviewById(req: Request, res: Response): Promise<void> {
+    try {
+      const review = await pendingReviewService.getReviewById(req.params.id);
+
+      if (!review) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Review item not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      res.json({ success: true, data: review });
+    } catch (error) {
+      console.error('Error fetching review item:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch review item',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * POST /api/reviews/:id/approve
+   * Подтверждение с исправлениями — создаёт StatusEvent
+   */
+  async approve(req: Request, res: Response): Promise<void> {
+    try {
+      const review = await pendingReviewService.getReviewById(req.params.id);
+
+      if (!review) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Review item not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      if (review.status !== ReviewStatus.PENDING) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Review item is already ${review.status.toLowerCase()}`,
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      const { comment, ...correction } = (req.body || {}) as ReviewCorrection & { comment?: string };
+      const data = pendingReviewService.applyCorrection(review, correction);
+
+      const errors = pendingReviewService.validateCorrection(data);
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const approved = await pendingReviewService.approve(review, data, comment);
+      const learned = approved.trainingPairs.length;
+
+      res.json({
+        success: true,
+        data: approved,
+        message: `Событие ${approved.statusEvent?.statusCode ?? data.statusCode} сохранено`
+          + (learned > 0 ? `, выучено правил: ${learned}` : ''),
+      });
+    } catch (error) {
+      console.error('Error approving review item:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to approve review item',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * POST /api/reviews/:id/reject
+   * Отклонение элемента
+   */
+  async reject(req: Request, res: Response): Promise<void> {
+    try {
+      const review = await pendingReviewService.getReviewById(req.params.id);
+
+      if (!review) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Review item not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      if (review.status !== ReviewStatus.PENDING) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: `Review item is already ${review.status.toLowerCase()}`,
+        };
+        res.status(409).json(response);
+        return;
+      }
+
+      const rejected = await pendingReviewService.reject(review.id, req.body?.comment);
+      res.json({ success: true, data: rejected, message: 'Элемент отклонён' });
+    } catch (error) {
+      console.error('Error rejecting review item:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to reject review item',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+export const reviewController = new ReviewController();
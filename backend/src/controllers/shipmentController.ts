@@ -0,0 +1,188 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { shipmentService } from '../services/index.js';
+import { ApiResponse, PaginatedResponse, ShipmentDetails, ShipmentInput, ShipmentListItem } from '../types/index.js';
+
+/**
+ * Контроллер отгрузок (коносамент / букинг)
+ */
+export class ShipmentController {
+
+  /**
+   * GET /api/shipments
+   * Список отгрузок со сводкой по контейнерам
+   */
+  async getShipments(req: Request, res: Response): Promise<void> {
+    try {
+      const { search, clientId, carrierId, page = '1', limit = '20' } = req.query;
+
+      const result = await shipmentService.getShipments({
+        search: search as string | undefined,
+        clientId: clientId as string | undefined,
+        carrierId: carrierId as string | undefined,
+        page: parseInt(page as string, 10),
+        limit: Math.min(parseInt(limit as string, 10), 100), // Max 100 per page
+      });
+
+      const response: PaginatedResponse<ShipmentListItem> = {
+        success: true,
+        data: result.data,
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: Math.ceil(result.total / result.limit),
+        },
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching shipments:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch shipments',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * GET /api/shipments/:id
+   * Отгрузка с контейнерами и их статусами
+   */
+  async getShipment(req: Request, res: Response): Promise<void> {
+    try {
+      const shipment = await shipmentService.getShipment(req.params.id);
+
+      if (!shipment) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Shipment not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse<ShipmentDetails> = {
+        success: true,
+        data: shipment,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching shipment:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch shipment',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * POST /api/shipments
+   * Создание отгрузки
+   */
+  async createShipment(req: Request, res: Response): Promise<void> {
+    try {
+      const input: ShipmentInput = req.body;
+
+      const errors = shipmentService.validateInput(input);
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const shipment = await shipmentService.createShipment(input);
+
+      res.status(201).json({
+        success: true,
+        data: shipment,
+        message: `Отгрузка ${shipment.blNumber || shipment.bookingNumber} создана`,
+      });
+    } catch (error) {
+      if (respondToConflict(error, res)) return;
+
+      console.error('Error creating shipment:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to create shipment',
+      };
+      res.status(500).json(response);
+    }
+  }
+
+  /**
+   * PUT /api/shipments/:id
+   * Изменение отгрузки, добавление контейнеров
+   */
+  async updateShipment(req: Request, res: Response): Promise<void> {
+    try {
+      const input: ShipmentInput = req.body;
+
+      const errors = shipmentService.validateInput(input, true);
+      if (errors.length > 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: errors.join('; '),
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const shipment = await shipmentService.updateShipment(req.params.id, input);
+
+      res.json({ success: true, data: shipment });
+    } catch (error) {
+      if (isNotFound(error)) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Shipment not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+      if (respondToConflict(error, res)) return;
+
+      console.error('Error updating shipment:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to update shipment',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+/**
+ * Занятый номер документа (409) или несуществующий клиент/перевозчик (400)
+ */
+function respondToConflict(error: unknown, res: Response): boolean {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError)) return false;
+
+  if (error.code === 'P2002') {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Shipment with this B/L or booking number already exists',
+    };
+    res.status(409).json(response);
+    return true;
+  }
+  if (error.code === 'P2003') {
+    const response: ApiResponse<null> = {
+      success: false,
+      error: 'Client or carrier not found',
+    };
+    res.status(400).json(response);
+    return true;
+  }
+  return false;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+}
+
+export const shipmentController = new ShipmentController();
@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { containerService } from '../services/index.js';
+import { validateWagonNumber } from '../middleware/index.js';
+import { ApiResponse, WagonDetails } from '../types/index.js';
+
+/**
+ * Контроллер вагонов РЖД
+ */
+export class WagonController {
+
+  /**
+   * GET /api/wagons/:wagonNumber
+   * Контейнеры на вагоне
+   */
+  async getWagon(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = validateWagonNumber(req.params.wagonNumber);
+
+      if (!validation.isValid) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: validation.error || `Invalid wagon number: ${req.params.wagonNumber}`,
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const containers = await containerService.getContainersOnWagon(validation.wagonNumber);
+
+      if (containers.length === 0) {
+        const response: ApiResponse<null> = {
+          success: false,
+          error: 'Wagon not found',
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const history = req.query.history === 'true';
+
+      const response: ApiResponse<WagonDetails> = {
+        success: true,
+        data: {
+          wagonNumber: validation.wagonNumber,
+          wagonType: validation.details.wagonType ?? null,
+          checkDigitValid: validation.details.checkDigitValid,
+          containers: history ? containers : containers.filter(c => c.isCurrent),
+        },
+      };
+      res.json(response);
+    } catch (error) {
+      console.error('Error fetching wagon:', error);
+      const response: ApiResponse<null> = {
+        success: false,
+        error: 'Failed to fetch wagon',
+      };
+      res.status(500).json(response);
+    }
+  }
+}
+
+export const wagonController = new WagonController();
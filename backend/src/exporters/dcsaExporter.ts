@@ -0,0 +1,100 @@
+import { StatusCode, EventClassifier } from '@prisma/client';
+import { DcsaEvent, DcsaModeOfTransport } from '../middleware/dcsaParser.js';
+import { unLocodeForLocation } from '../middleware/locationDictionary.js';
+
+/**
+ * ============================================
+ * DCSA Track & Trace Export
+ * ============================================
+ * 
+ * История StatusEvent в виде событий DCSA Track & Trace v2
+ * для клиентов, которые принимают стандарт.
+ * 
+ * Статусы без аналога в DCSA (на рейде, на СВХ, растаможен,
+ * неизвестно) не выгружаются.
+ */
+
+export interface DcsaSourceEvent {
+  id: string;
+  containerNumber: string;
+  statusCode: StatusCode;
+  location: string | null;
+  eventTime: Date;
+  eventClassifier: EventClassifier;
+  createdAt: Date;
+}
+
+type DcsaMapping =
+  | { eventType: 'EQUIPMENT'; code: string; mode?: DcsaModeOfTransport }
+  | { eventType: 'TRANSPORT'; code: 'DEPA' | 'ARRI'; mode: DcsaModeOfTransport };
+
+const STATUS_TO_DCSA: Partial<Record<StatusCode, DcsaMapping>> = {
+  LOADED: { eventType: 'EQUIPMENT', code: 'LOAD', mode: 'VESSEL' },
+  UNLOADED: { eventType: 'EQUIPMENT', code: 'DISC' },
+  IN_PORT: { eventType: 'EQUIPMENT', code: 'GTIN' },
+  CUSTOMS: { eventType: 'EQUIPMENT', code: 'INSP' },
+  DELIVERED: { eventType: 'EQUIPMENT', code: 'DROP' },
+  ON_SHIP: { eventType: 'TRANSPORT', code: 'DEPA', mode: 'VESSEL' },
+  ARRIVED_PORT: { eventType: 'TRANSPORT', code: 'ARRI', mode: 'VESSEL' },
+  ON_RAIL: { eventType: 'TRANSPORT', code: 'DEPA', mode: 'RAIL' },
+  RAIL_ARRIVED: { eventType: 'TRANSPORT', code: 'ARRI', mode: 'RAIL' },
+  ON_AUTO: { eventType: 'TRANSPORT', code: 'DEPA', mode: 'TRUCK' },
+};
+
+/**
+ * Типы событий DCSA, в которые может попасть статус
+ */
+export function dcsaEventTypeFor(statusCode: StatusCode): DcsaEvent['eventType'] | undefined {
+  return STATUS_TO_DCSA[statusCode]?.eventType;
+}
+
+/**
+ * Преобразует событие статуса в событие DCSA (null — нет аналога)
+ */
+export function mapStatusEventToDcsa(event: DcsaSourceEvent): DcsaEvent | null {
+  const mapping = STATUS_TO_DCSA[event.statusCode];
+  if (!mapping) return null;
+
+  const location = event.location
+    ? { locationName: event.location, UNLocationCode: unLocodeForLocation(event.location) }
+    : undefined;
+
+  const base = {
+    eventID: event.id,
+    eventClassifierCode: event.eventClassifier,
+    eventDateTime: event.eventTime.toISOString(),
+    eventCreatedDateTime: event.createdAt.toISOString(),
+  };
+
+  if (mapping.eventType === 'EQUIPMENT') {
+    return {
+      ...base,
+      eventType: 'EQUIPMENT',
+      equipmentEventTypeCode: mapping.code,
+      equipmentReference: event.containerNumber,
+      eventLocation: location,
+      transportCall: mapping.mode ? { modeOfTransport: mapping.mode } : undefined,
+    };
+  }
+
+  return {
+    ...base,
+    eventType: 'TRANSPORT',
+    transportEventTypeCode: mapping.code,
+    transportCall: {
+      modeOfTransport: mapping.mode,
+      UNLocationCode: location?.UNLocationCode,
+      location,
+    },
+    references: [{ referenceType: 'EQ', referenceValue: event.containerNumber }],
+  };
+}
+
+/**
+ * Конвертирует историю статусов в события DCSA
+ */
+export function exportStatusEventsToDcsa(events: DcsaSourceEvent[]): DcsaEvent[] {
+  return events
+    .map(mapStatusEventToDcsa)
+    .filter((event): event is DcsaEvent => event !== null);
+}
@@ -2,7 +2,24 @@ export {
   mapContainerToOneCRow,
   exportContainersFor1C,
   generateOneCCsv,
+  oneCAttributeValue,
+  ONE_C_ATTRIBUTES,
+  OneCAttribute,
   OneCExportRow,
   ContainerWithHistory,
 } from './oneCExporter.js';
 
+export {
+  generateOneCXml,
+  OneCXmlOptions,
+} from './oneCXmlExporter.js';
+
+
+export {
+  mapStatusEventToDcsa,
+  exportStatusEventsToDcsa,
+  dcsaEventTypeFor,
+  DcsaSourceEvent,
+} from './dcsaExporter.js';
+
+export { generateScorecardCsv } from './scorecardExporter.js';
@@ -22,6 +22,8 @@ import { STATUS_LABELS } from '../normalizers/types.js';
  * - Текущее местоположение
  * - Расстояние до станции назначения
  * - Ориентировочная дата прибытия
+ * - Расчётная дата прибытия и её интервал (по скорости движения,
+ *   не от перевозчика)
  */
 
 export interface OneCExportRow {
@@ -39,6 +41,60 @@ export interface OneCExportRow {
   current_location: string;     // Текущее местоположение
   distance_to_destination: string; // Расстояние до назначения
   eta: string;                  // Ориентировочная дата прибытия
+  predicted_eta: string;        // Расчётная дата прибытия
+  predicted_eta_range: string;  // Интервал расчётной даты (DD.MM.YYYY-DD.MM.YYYY)
+}
+
+/**
+ * Реквизит объекта 1С для поля строки выгрузки
+ *
+ * Используется XML-обменом (EnterpriseData) и выгрузкой через OData:
+ * имена реквизитов должны совпадать с конфигурацией 1С.
+ */
+export interface OneCAttribute {
+  field: keyof OneCExportRow;
+  name: string;
+  type: 'string' | 'date' | 'number';
+}
+
+export const ONE_C_ATTRIBUTES: OneCAttribute[] = [
+  { field: 'container_number', name: 'НомерКТК', type: 'string' },
+  { field: 'container_type', name: 'ТипКТК', type: 'string' },
+  { field: 'state', name: 'Состояние', type: 'string' },
+  { field: 'origin', name: 'ПунктОтправления', type: 'string' },
+  { field: 'destination', name: 'ПунктНазначения', type: 'string' },
+  { field: 'shipped_to_sea', name: 'ОтгруженВМоре', type: 'date' },
+  { field: 'on_anchorage', name: 'НаРейде', type: 'date' },
+  { field: 'arrived_port', name: 'ПрибылВПорт', type: 'date' },
+  { field: 'on_warehouse', name: 'РазмещенНаСВХ', type: 'date' },
+  { field: 'warehouse_closed', name: 'СкладЗакрыт', type: 'date' },
+  { field: 'shipped_on_rail', name: 'ОтгруженНаЖД', type: 'date' },
+  { field: 'current_location', name: 'ТекущееМестоположение', type: 'string' },
+  { field: 'distance_to_destination', name: 'РасстояниеДоНазначения', type: 'number' },
+  { field: 'eta', name: 'ОриентировочнаяДатаПрибытия', type: 'date' },
+  { field: 'predicted_eta', name: 'РасчетнаяДатаПрибытия', type: 'date' },
+  { field: 'predicted_eta_range', name: 'ИнтервалРасчетнойДаты', type: 'string' },
+];
+
+/**
+ * Значение реквизита 1С из строки выгрузки (null — поле не заполнено)
+ *
+ * Даты DD.MM.YYYY переводятся в формат XML/OData (YYYY-MM-DDT00:00:00).
+ */
+export function oneCAttributeValue(row: OneCExportRow, attribute: OneCAttribute): string | number | null {
+  const value = row[attribute.field];
+  if (!value) return null;
+
+  switch (attribute.type) {
+    case 'date': {
+      const [day, month, year] = value.split('.');
+      return `${year}-${month}-${day}T00:00:00`;
+    }
+    case 'number':
+      return parseInt(value, 10);
+    default:
+      return value;
+  }
 }
 
 export interface ContainerWithHistory {
@@ -54,6 +110,11 @@ export interface ContainerWithHistory {
     eta: Date | null;
     eventTime: Date;
   }>;
+  predictedEta?: {
+    eta: Date;
+    earliest: Date;
+    latest: Date;
+  } | null;
 }
 
 /**
@@ -86,6 +147,10 @@ export function mapContainerToOneCRow(container: ContainerWithHistory): OneCExpo
     current_location: lastStatus?.location || '',
     distance_to_destination: lastStatus?.distanceToDestinationKm?.toString() || '',
     eta: lastStatus?.eta ? formatDateFor1C(lastStatus.eta) : '',
+    predicted_eta: container.predictedEta ? formatDateFor1C(container.predictedEta.eta) : '',
+    predicted_eta_range: container.predictedEta
+      ? `${formatDateFor1C(container.predictedEta.earliest)}-${formatDateFor1C(container.predictedEta.latest)}`
+      : '',
   };
 }
 
@@ -127,6 +192,8 @@ export function generateOneCCsv(rows: OneCExportRow[]): string {
     'Текущее местоположение',
     'Расстояние до назначения',
     'Ориентировочная дата прибытия',
+    'Расчётная дата прибытия',
+    'Интервал расчётной даты',
   ];
 
   const lines: string[] = [headers.join(';')];
@@ -147,6 +214,8 @@ export function generateOneCCsv(rows: OneCExportRow[]): string {
       row.current_location,
       row.distance_to_destination,
       row.eta,
+      row.predicted_eta,
+      row.predicted_eta_range,
     ];
     
     // Экранируем значения для CSV
@@ -0,0 +1,84 @@
+import { OneCExportRow, ONE_C_ATTRIBUTES, oneCAttributeValue } from './oneCExporter.js';
+
+/**
+ * ============================================
+ * 1C EnterpriseData XML Exchange
+ * ============================================
+ *
+ * Сообщение обмена в формате EnterpriseData: заголовок msg:Header
+ * и тело с объектами выгрузки. Каждый контейнер — объект
+ * «Документ.<имя>» с ключевым свойством НомерКТК и реквизитами
+ * из ONE_C_ATTRIBUTES; пустые реквизиты не выгружаются.
+ *
+ * Такое сообщение загружается в 1С обработкой «Универсальный
+ * обмен данными в формате XML» без ручного переноса строк.
+ */
+
+const FORMAT_VERSION = '1.8';
+const FORMAT_NAMESPACE = `http://v8.1c.ru/edi/edi_stnd/EnterpriseData/${FORMAT_VERSION}`;
+const MESSAGE_NAMESPACE = 'http://www.1c.ru/SSL/Exchange/Message';
+const DEFAULT_ONE_C_DOCUMENT = 'СтатусКонтейнера';
+
+export interface OneCXmlOptions {
+  documentName?: string;          // Имя документа в конфигурации 1С
+  creationDate?: Date;
+}
+
+/**
+ * Генерирует XML-сообщение обмена EnterpriseData
+ */
+export function generateOneCXml(rows: OneCExportRow[], options: OneCXmlOptions = {}): string {
+  const documentName = options.documentName || DEFAULT_ONE_C_DOCUMENT;
+  const creationDate = formatDateTime(options.creationDate ?? new Date());
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<Message xmlns:msg="${MESSAGE_NAMESPACE}" xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">`,
+    '  <msg:Header>',
+    `    <msg:Format>${FORMAT_NAMESPACE}</msg:Format>`,
+    `    <msg:CreationDate>${creationDate}</msg:CreationDate>`,
+    `    <msg:AvailableVersion>${FORMAT_VERSION}</msg:AvailableVersion>`,
+    '  </msg:Header>',
+    `  <Body xmlns="${FORMAT_NAMESPACE}">`,
+  ];
+
+  for (const row of rows) {
+    lines.push(`    <Документ.${documentName}>`);
+    lines.push('      <КлючевыеСвойства>');
+    lines.push(`        <НомерКТК>${escapeXml(row.container_number)}</НомерКТК>`);
+    lines.push('      </КлючевыеСвойства>');
+
+    for (const attribute of ONE_C_ATTRIBUTES) {
+      if (attribute.field === 'container_number') continue;
+      const value = oneCAttributeValue(row, attribute);
+      if (value === null) continue;
+      lines.push(`      <${attribute.name}>${escapeXml(String(value))}</${attribute.name}>`);
+    }
+
+    lines.push(`    </Документ.${documentName}>`);
+  }
+
+  lines.push('  </Body>');
+  lines.push('</Message>');
+
+  // Windows line endings, как и в CSV для 1С
+  return lines.join('\r\n');
+}
+
+/**
+ * Дата и время без часового пояса (xs:dateTime в 1С)
+ */
+function formatDateTime(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    + `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,76 @@
+import { CarrierScorecard } from '../types/index.js';
+
+/**
+ * ============================================
+ * Carrier Scorecard CSV
+ * ============================================
+ *
+ * Одна строка на перевозчика; время в пути по маршрутам
+ * сводится к среднему по всем маршрутам.
+ * Разделитель ";" и CRLF — как в выгрузке для 1С, чтобы файл
+ * открывался в Excel без мастера импорта.
+ */
+
+const HEADERS = [
+  'Перевозчик',
+  'Тип',
+  'Контейнеров',
+  'Прибыло',
+  'Ошибка первого ETA, дн',
+  'Ошибка последнего ETA, дн',
+  'Смещение последнего ETA, дн',
+  'В срок, %',
+  'Среднее время в пути, дн',
+  'Событий',
+  'Событий на контейнер в неделю',
+  'Средний интервал обновлений, ч',
+  'Максимальный перерыв, дн',
+  'Перерывов более 3 дн',
+  'Сообщений',
+  'Ошибок разбора, %',
+  'Низкая уверенность, %',
+];
+
+export function generateScorecardCsv(scorecards: CarrierScorecard[]): string {
+  const lines: string[] = [HEADERS.join(';')];
+
+  for (const card of scorecards) {
+    const values = [
+      card.carrierName,
+      card.carrierType,
+      card.containers,
+      card.arrived,
+      card.eta.firstEtaErrorDays,
+      card.eta.lastEtaErrorDays,
+      card.eta.lastEtaBiasDays,
+      percent(card.eta.onTimeShare),
+      card.avgTransitDays,
+      card.updates.events,
+      card.updates.perContainerWeekly,
+      card.updates.avgIntervalHours,
+      card.updates.maxGapDays,
+      card.updates.gapsOverThreshold,
+      card.parsing.messages,
+      percent(card.parsing.failureRate),
+      percent(card.confidence.lowConfidenceShare),
+    ].map(formatValue);
+
+    lines.push(values.join(';'));
+  }
+
+  return lines.join('\r\n');
+}
+
+function percent(share: number | null): number | null {
+  return share === null ? null : Math.round(share * 1000) / 10;
+}
+
+// Дробная часть через запятую — так числа распознаёт русский Excel
+function formatValue(value: string | number | null): string {
+  if (value === null) return '';
+  if (typeof value === 'number') return value.toString().replace('.', ',');
+  if (value.includes(';') || value.includes('"') || value.includes('\n')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
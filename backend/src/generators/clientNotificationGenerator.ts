@@ -1,4 +1,4 @@
-import { StatusCode } from '@prisma/client';
+import { StatusCode, TransportMode } from '@prisma/client';
 import { STATUS_LABELS } from '../normalizers/types.js';
 
 /**
@@ -27,8 +27,22 @@ export interface ContainerStatusData {
     eta?: Date | null;
     eventTime: Date;
   } | null;
+  // Текущее плечо планового маршрута
+  currentLeg?: {
+    sequence: number;
+    totalLegs: number;
+    mode: TransportMode;
+    fromPoint: string;
+    toPoint: string;
+  } | null;
 }
 
+const MODE_LABELS: Record<TransportMode, string> = {
+  SEA: 'море',
+  RAIL: 'ЖД',
+  AUTO: 'авто',
+};
+
 export interface NotificationOptions {
   format?: 'short' | 'full';
   includeGreeting?: boolean;
@@ -81,6 +95,10 @@ export function generateClientNotification(
         }.`);
       }
       
+      if (data.currentLeg) {
+        lines.push(`Плечо ${formatLeg(data.currentLeg)}.`);
+      }
+
       if (data.totalDistanceKm && data.destinationPoint && data.finalDestination) {
         lines.push(`Расстояние ${data.destinationPoint}-${data.finalDestination} ${data.totalDistanceKm} км`);
       }
@@ -92,6 +110,10 @@ export function generateClientNotification(
       if (status.location) {
         lines.push(`Текущее местоположение: ${status.location}`);
       }
+
+      if (data.currentLeg) {
+        lines.push(`Текущее плечо: ${formatLeg(data.currentLeg)}`);
+      }
       
       if (status.distanceToDestinationKm) {
         lines.push(`Расстояние до станции назначения: ${status.distanceToDestinationKm} км`);
@@ -137,6 +159,13 @@ function getGreeting(contactPerson: string | null | undefined, language: string)
   return `${timeOfDay}!`;
 }
 
+/**
+ * Плечо маршрута: "ЖД Владивосток → Иня-Восточная (2 из 3)"
+ */
+function formatLeg(leg: NonNullable<ContainerStatusData['currentLeg']>): string {
+  return `${MODE_LABELS[leg.mode]} ${leg.fromPoint} → ${leg.toPoint} (${leg.sequence} из ${leg.totalLegs})`;
+}
+
 /**
  * Форматирует дату
  */
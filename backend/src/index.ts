@@ -5,6 +5,7 @@ import morgan from 'morgan';
 import { config, isDev } from './config/index.js';
 import routes from './routes/index.js';
 import prisma from './utils/prisma.js';
+import { mailboxPollerService, locationService, oneCExportService } from './services/index.js';
 
 const app = express();
 
@@ -38,11 +39,40 @@ app.get('/', (req, res) => {
       containers: '/api/containers',
       containerDetails: '/api/containers/:id',
       containerNotification: '/api/containers/:id/notification',
+      containerRoute: '/api/containers/:id/route',
+      wagon: '/api/wagons/:wagonNumber',
+      dispatch: '/api/dispatches/:id',
+      shipments: '/api/shipments',
+      shipmentDetails: '/api/shipments/:id',
+      freeTimeAgreements: '/api/free-time-agreements',
+      demurrageReport: '/api/reports/demurrage',
+      carrierScorecards: '/api/analytics/carriers',
+      dwellAnalytics: '/api/analytics/dwell',
+      dwellContainers: '/api/analytics/dwell/containers',
+      dashboard: '/api/dashboard',
+      dashboardSettings: '/api/dashboard/settings',
       statusEvents: '/api/status-events',
       rawOperatorEmail: '/api/raw/operator-email',
       rawTableRow: '/api/raw/table-row',
       rawTableRows: '/api/raw/table-rows',
+      rawMessageReprocess: '/api/raw-messages/:id/reprocess',
+      rawMessagesReprocess: '/api/raw-messages/reprocess',
       export1C: '/api/export/1c',
+      export1CPush: '/api/export/1c/push',
+      export1CPushStatus: '/api/export/1c/push/status',
+      exportDcsaEvents: '/api/export/dcsa/events',
+      mailboxPoll: '/api/mailbox/poll',
+      mailboxStatus: '/api/mailbox/status',
+      carriers: '/api/carriers',
+      parsingProfiles: '/api/parsing-profiles',
+      parsingProfileSample: '/api/parsing-profiles/sample',
+      locations: '/api/locations',
+      locationsImport: '/api/locations/import',
+      reviews: '/api/reviews',
+      reviewApprove: '/api/reviews/:id/approve',
+      reviewReject: '/api/reviews/:id/reject',
+      learnedRules: '/api/learned-rules',
+      learnedRulePromote: '/api/learned-rules/:id/promote',
     },
   });
 });
@@ -69,6 +99,8 @@ app.use((err: Error, req: express.Request, res: express.Response, _next: express
 // Graceful shutdown
 const gracefulShutdown = async () => {
   console.log('\nShutting down gracefully...');
+  mailboxPollerService.stop();
+  oneCExportService.stop();
   await prisma.$disconnect();
   process.exit(0);
 };
@@ -83,6 +115,14 @@ const start = async () => {
     await prisma.$connect();
     console.log('✓ Database connected');
 
+    // Индекс справочника локаций; без него работает встроенный набор
+    try {
+      const locations = await locationService.loadIndex();
+      console.log(`✓ Location dictionary loaded (${locations} locations)`);
+    } catch (error) {
+      console.warn('⚠ Location dictionary not loaded, using built-in set:', error instanceof Error ? error.message : error);
+    }
+
     app.listen(config.port, () => {
       console.log(`
 ╔══════════════════════════════════════════════════════════════╗
@@ -100,6 +140,36 @@ API Endpoints:
     GET  /api/containers             - List containers
     GET  /api/containers/:id         - Container details
     GET  /api/containers/:id/notification - Generate client notification
+    GET  /api/containers/:id/route   - Planned route legs with progress
+    PUT  /api/containers/:id/route   - Replace planned route legs
+
+  Wagons:
+    GET  /api/wagons/:wagonNumber    - Containers on RZD wagon
+    GET  /api/dispatches/:id         - Rail dispatch with its containers
+
+  Shipments:
+    GET  /api/shipments              - Shipments (B/L, booking) with progress
+    GET  /api/shipments/:id          - Shipment with its containers
+    POST /api/shipments              - Create shipment
+    PUT  /api/shipments/:id          - Update shipment, add containers
+
+  Demurrage & Detention:
+    GET  /api/free-time-agreements   - Free time agreements and tariffs
+    POST /api/free-time-agreements   - Create agreement
+    PUT  /api/free-time-agreements/:id - Update agreement
+    DELETE /api/free-time-agreements/:id - Delete agreement
+    GET  /api/reports/demurrage      - Accrued and projected charges
+
+  Analytics:
+    GET  /api/analytics/carriers     - Carrier scorecards (JSON/CSV)
+    GET  /api/analytics/dwell        - Stage durations by route/location/month
+    GET  /api/analytics/dwell/containers - Containers of a dwell group
+
+  Dashboard:
+    GET  /api/dashboard              - Aggregates over all containers
+    GET  /api/dashboard/settings     - Dashboard settings (X-User-Id)
+    PUT  /api/dashboard/settings     - Update dashboard settings
+    DELETE /api/dashboard/settings   - Reset dashboard settings
 
   Status Events:
     GET  /api/status-events          - Status history
@@ -109,12 +179,59 @@ API Endpoints:
     POST /api/raw/table-row          - Process table row
     POST /api/raw/table-rows         - Process table rows (batch)
 
+  Raw Messages:
+    POST /api/raw-messages/:id/reprocess - Re-run parsing (dryRun: diff only)
+    POST /api/raw-messages/reprocess - Bulk re-run by date/carrier/errors
+
   1C Integration:
-    GET  /api/export/1c              - Export for 1C (JSON/CSV)
+    GET  /api/export/1c              - Export for 1C (JSON/CSV/XML)
+    POST /api/export/1c/push         - Push changes to 1C OData now
+    GET  /api/export/1c/push/status  - Push settings and runs
+
+  DCSA Track & Trace:
+    GET  /api/export/dcsa/events     - Status history as DCSA events
+
+  Mailbox (IMAP):
+    POST /api/mailbox/poll           - Poll operator mailbox now
+    GET  /api/mailbox/status         - Poller settings and runs
+
+  Parsing Profiles:
+    GET  /api/carriers               - List carriers
+    GET  /api/parsing-profiles       - List carrier parsing profiles
+    POST /api/parsing-profiles       - Create profile
+    PUT  /api/parsing-profiles/:id   - Update profile
+    POST /api/parsing-profiles/sample - Analyze sample file
+
+  Locations:
+    GET  /api/locations              - Location dictionary
+    POST /api/locations              - Add location
+    PUT  /api/locations/:id          - Update location
+    POST /api/locations/import       - Import ESR / UN/LOCODE registry
+
+  Review Queue:
+    GET  /api/reviews                - Items awaiting logist review
+    GET  /api/reviews/:id            - Item with source message
+    POST /api/reviews/:id/approve    - Approve (with corrections)
+    POST /api/reviews/:id/reject     - Reject item
+
+  Learned Rules:
+    GET   /api/learned-rules         - Rules learned from corrections
+    PATCH /api/learned-rules/:id     - Enable / disable rule
+    POST  /api/learned-rules/:id/promote - Make carrier rule global
 
   Health:
     GET  /api/health                 - Health check
       `);
+
+      if (config.mailbox.enabled) {
+        mailboxPollerService.start();
+        console.log(`✓ Mailbox poller started (${config.mailbox.host}/${config.mailbox.folder}, every ${config.mailbox.pollIntervalSeconds}s)`);
+      }
+
+      if (config.oneC.pushEnabled) {
+        oneCExportService.start();
+        console.log(`✓ 1C OData push started (${config.oneC.odataUrl}, every ${config.oneC.pushIntervalMinutes}min)`);
+      }
     });
   } catch (error) {
     console.error('Failed to start server:', error);
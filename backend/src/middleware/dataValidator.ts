@@ -1,8 +1,18 @@
 import { ParsedItem } from './universalParser.js';
-import { NormalizedStatusEvent } from '../types/index.js';
+import { NormalizedStatusEvent, RailDispatchRef, ShipmentRef, VoyageRef } from '../types/index.js';
 import { StatusCode, SourceType } from '@prisma/client';
 import { validateContainerNumber, ContainerValidationResult } from './containerValidator.js';
-import { findLocation, normalizeLocationName, inferLocationType } from './locationDictionary.js';
+import { validateWagonNumber, WagonValidationResult } from './wagonValidator.js';
+import { normalizeDispatchNumber, normalizeTrainIndex } from './railDispatch.js';
+import { normalizeVesselName, normalizeVoyageNumber, validateImoNumber } from './vesselValidator.js';
+import { normalizeShipmentReference } from './shipmentReference.js';
+import { findLocation, isAmbiguousMatch, normalizeLocationName, inferLocationType } from './locationDictionary.js';
+import {
+  LearnedRules,
+  applyOwnerCodeOverride,
+  matchLearnedLocation,
+  matchLearnedStatus,
+} from './learnedRules.js';
 
 /**
  * ============================================
@@ -11,6 +21,8 @@ import { findLocation, normalizeLocationName, inferLocationType } from './locati
  * 
  * Выполняет строгую валидацию с высокой точностью:
  * - Проверка номера контейнера по ISO 6346
+ * - Проверка номера вагона РЖД по контрольной цифре
+ * - Проверка номера судна IMO по контрольной цифре
  * - Валидация локаций по справочнику
  * - Проверка логической консистентности
  * - Расчёт точной уверенности
@@ -25,6 +37,7 @@ export interface ValidationResult {
   confidence: number;
   validationDetails: {
     containerValidation?: ContainerValidationResult;
+    wagonValidation?: WagonValidationResult;
     locationConfidence: number;
     statusConfidence: number;
     dataCompleteness: number;
@@ -50,8 +63,11 @@ export class DataValidator {
   
   /**
    * Валидация и нормализация ParsedItem с высокой точностью
+   *
+   * rules — правила, выученные из исправлений логиста
+   * (для перевозчика-источника и глобальные).
    */
-  validate(item: ParsedItem): ValidationResult {
+  validate(item: ParsedItem, rules?: LearnedRules): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
     let containerValidation: ContainerValidationResult | undefined;
@@ -64,6 +80,12 @@ export class DataValidator {
     // ═══════════════════════════════════════════════════
     
     if (item.containerNumber) {
+      const overridden = applyOwnerCodeOverride(item.containerNumber, rules);
+      if (overridden) {
+        warnings.push(`Код владельца заменён по выученному правилу: ${item.containerNumber} → ${overridden}`);
+        item.containerNumber = overridden;
+      }
+
       containerValidation = validateContainerNumber(item.containerNumber);
       
       if (!containerValidation.isValid) {
@@ -84,18 +106,69 @@ export class DataValidator {
       errors.push('Номер контейнера обязателен');
     }
 
+    // Номер вагона необязателен: неверный не мешает принять событие
+    let wagonValidation: WagonValidationResult | undefined;
+    let wagonNumber: string | undefined;
+
+    if (item.wagonNumber) {
+      wagonValidation = validateWagonNumber(item.wagonNumber);
+
+      if (!wagonValidation.isValid) {
+        warnings.push(`Номер вагона "${item.wagonNumber}" пропущен: ${wagonValidation.error}`);
+      } else {
+        wagonNumber = wagonValidation.wagonNumber;
+        if (!wagonValidation.details.checkDigitValid) {
+          warnings.push(
+            `Контрольная цифра вагона ${wagonNumber} не совпадает с расчётной ${wagonValidation.details.calculatedCheckDigit}`
+          );
+        }
+      }
+    }
+
+    const dispatch = this.validateDispatch(item, warnings);
+    const voyage = this.validateVoyage(item, warnings);
+    const shipment = this.validateShipment(item, warnings);
+
     // ═══════════════════════════════════════════════════
     // 2. ВАЛИДАЦИЯ ЛОКАЦИИ
     // ═══════════════════════════════════════════════════
     
     let normalizedLocation: string | undefined;
     
-    if (item.location) {
+    const learnedLocation = item.location ? matchLearnedLocation(item.location, rules) : undefined;
+
+    if (learnedLocation) {
+      // Написание, уже исправленное логистом
+      normalizedLocation = learnedLocation;
+      locationConfidence = 0.95;
+
+      const known = findLocation(learnedLocation);
+      if (known.found && known.location) {
+        item.locationType = known.location.type;
+      }
+    } else if (item.location) {
       const locationResult = findLocation(item.location);
       
       if (locationResult.found && locationResult.location) {
         normalizedLocation = locationResult.location.name;
+        // Оценка совпадения: код/точное написание выше транслитерации и опечаток
         locationConfidence = locationResult.confidence;
+
+        if (locationResult.method === 'translit' || locationResult.method === 'fuzzy') {
+          warnings.push(
+            `Локация "${item.location}" распознана как "${normalizedLocation}" ` +
+            `(${locationResult.method === 'fuzzy' ? 'нечётко' : 'транслитерация'}, ${locationResult.confidence.toFixed(2)})`
+          );
+        }
+
+        // Два близких кандидата — выбор может быть неверным
+        if (isAmbiguousMatch(locationResult)) {
+          const [first, second] = locationResult.candidates;
+          warnings.push(
+            `Локация "${item.location}" неоднозначна: ` +
+            `${first.location.name} (${first.score.toFixed(2)}) / ${second.location.name} (${second.score.toFixed(2)})`
+          );
+        }
         
         // Добавляем тип локации если определён
         if (locationResult.location.type) {
@@ -120,7 +193,8 @@ export class DataValidator {
     // 3. ВАЛИДАЦИЯ СТАТУСА
     // ═══════════════════════════════════════════════════
     
-    const statusCode = this.validateAndMapStatus(item.statusCode);
+    const statusCode = matchLearnedStatus(item.statusText, rules)
+      ?? this.validateAndMapStatus(item.statusCode);
     
     if (statusCode === 'UNKNOWN') {
       if (item.statusCode && item.statusCode !== 'UNKNOWN') {
@@ -244,6 +318,10 @@ export class DataValidator {
 
     const normalized: NormalizedStatusEvent = {
       containerNumber: item.containerNumber,
+      wagonNumber,
+      dispatch,
+      voyage,
+      shipment,
       statusCode: statusCode,
       statusText: item.statusText || this.getStatusText(statusCode),
       location: normalizedLocation,
@@ -251,6 +329,7 @@ export class DataValidator {
       eta: eta,
       etaUnload: etaUnload,
       eventTime: eventTime,
+      eventClassifier: item.eventClassifier,
       sourceType: 'MANUAL' as SourceType,
       sourceRaw: item.rawSource,
       origin: this.sanitizeString(item.origin),
@@ -277,6 +356,7 @@ export class DataValidator {
       confidence: Math.round(confidence * 100) / 100,
       validationDetails: {
         containerValidation,
+        wagonValidation,
         locationConfidence,
         statusConfidence,
         dataCompleteness,
@@ -285,6 +365,90 @@ export class DataValidator {
     };
   }
 
+  /**
+   * ЖД-отправка: номер накладной, индекс поезда, коды ЕСР
+   *
+   * Без номера отправки индекс и коды не сохраняются —
+   * группировать контейнеры не по чему.
+   */
+  private validateDispatch(item: ParsedItem, warnings: string[]): RailDispatchRef | undefined {
+    if (!item.dispatchNumber) return undefined;
+
+    const dispatchNumber = normalizeDispatchNumber(item.dispatchNumber);
+    if (!dispatchNumber) {
+      warnings.push(`Номер отправки "${item.dispatchNumber}" не распознан`);
+      return undefined;
+    }
+
+    const dispatch: RailDispatchRef = { dispatchNumber };
+
+    if (item.trainIndex) {
+      dispatch.trainIndex = normalizeTrainIndex(item.trainIndex);
+      if (!dispatch.trainIndex) {
+        warnings.push(`Индекс поезда "${item.trainIndex}" не распознан (ожидается 9800-123-8523)`);
+      }
+    }
+
+    for (const field of ['originEsr', 'destinationEsr'] as const) {
+      const code = item[field]?.trim();
+      if (!code) continue;
+      if (/^\d{5,6}$/.test(code)) {
+        dispatch[field] = code;
+      } else {
+        warnings.push(`Код ЕСР "${code}" пропущен: ожидается 5-6 цифр`);
+      }
+    }
+
+    return dispatch;
+  }
+
+  /**
+   * Судно и рейс
+   *
+   * Рейс без судна (или судно без рейса) не сохраняется — ETA
+   * относится к конкретному рейсу конкретного судна.
+   */
+  private validateVoyage(item: ParsedItem, warnings: string[]): VoyageRef | undefined {
+    let imoNumber: string | undefined;
+    if (item.imoNumber) {
+      const imo = validateImoNumber(item.imoNumber);
+      if (imo.isValid) {
+        imoNumber = imo.imoNumber;
+      } else {
+        warnings.push(`Номер IMO "${item.imoNumber}" пропущен: ${imo.error}`);
+      }
+    }
+
+    const vesselName = item.vesselName ? normalizeVesselName(item.vesselName) : undefined;
+    const voyageNumber = item.voyageNumber ? normalizeVoyageNumber(item.voyageNumber) : undefined;
+
+    if (!vesselName && !imoNumber) return undefined;
+    if (!voyageNumber) {
+      warnings.push(`Судно ${vesselName ?? `IMO ${imoNumber}`} указано без номера рейса`);
+      return undefined;
+    }
+
+    return { vesselName, imoNumber, voyageNumber };
+  }
+
+  /**
+   * Коносамент и букинг
+   */
+  private validateShipment(item: ParsedItem, warnings: string[]): ShipmentRef | undefined {
+    const shipment: ShipmentRef = {};
+
+    for (const [field, label] of [['blNumber', 'коносамента'], ['bookingNumber', 'букинга']] as const) {
+      const value = item[field];
+      if (!value) continue;
+      shipment[field] = normalizeShipmentReference(value);
+      if (!shipment[field]) {
+        warnings.push(`Номер ${label} "${value}" не распознан`);
+      }
+    }
+
+    return shipment.blNumber || shipment.bookingNumber ? shipment : undefined;
+  }
+
   /**
    * Валидация и маппинг статуса
    */
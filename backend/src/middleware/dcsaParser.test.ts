@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { DcsaEvent, unwrapDcsaEvents, mapDcsaEvents, documentReference } from './dcsaParser.js';
+
+const vesselCall = {
+  carrierVoyageNumber: '425E',
+  modeOfTransport: 'VESSEL' as const,
+  vessel: { vesselIMONumber: '9321483', vesselName: 'MAERSK KOLKATA' },
+};
+
+describe('unwrapDcsaEvents', () => {
+  const event: DcsaEvent = {
+    eventType: 'EQUIPMENT',
+    eventClassifierCode: 'ACT',
+    eventDateTime: '2025-12-01T10:30:00Z',
+    equipmentEventTypeCode: 'DISC',
+    equipmentReference: 'MSCU1234560',
+  };
+
+  it('accepts an array, an events wrapper or a single event', () => {
+    expect(unwrapDcsaEvents([event])).toEqual([event]);
+    expect(unwrapDcsaEvents({ events: [event] })).toEqual([event]);
+    expect(unwrapDcsaEvents(event)).toEqual([event]);
+  });
+
+  it('rejects content that is not DCSA', () => {
+    expect(unwrapDcsaEvents([])).toBeNull();
+    expect(unwrapDcsaEvents([event, { containerNumber: 'MSCU1234560' }])).toBeNull();
+    expect(unwrapDcsaEvents({ ...event, eventClassifierCode: 'XXX' })).toBeNull();
+    expect(unwrapDcsaEvents('MSCU1234560')).toBeNull();
+  });
+});
+
+describe('mapDcsaEvents', () => {
+  it('maps equipment events by mode of transport and resolves UN/LOCODE', () => {
+    const { events, warnings } = mapDcsaEvents([
+      {
+        eventType: 'EQUIPMENT',
+        eventClassifierCode: 'ACT',
+        eventDateTime: '2025-12-01T10:30:00+03:00',
+        equipmentEventTypeCode: 'LOAD',
+        equipmentReference: 'mscu 1234560',
+        eventLocation: { UNLocationCode: 'RUVVO' },
+        transportCall: { modeOfTransport: 'RAIL' },
+      },
+    ]);
+
+    expect(warnings).toEqual([]);
+    expect(events[0]).toMatchObject({
+      containerNumber: 'MSCU1234560',
+      statusCode: 'ON_RAIL',
+      eventClassifier: 'ACT',
+      location: 'Владивосток',
+      eventTime: '2025-12-01T07:30:00.000Z',
+    });
+  });
+
+  it('turns a planned vessel arrival into an ETA for every referenced container', () => {
+    const { events } = mapDcsaEvents([
+      {
+        eventType: 'TRANSPORT',
+        eventClassifierCode: 'EST',
+        eventDateTime: '2025-12-05T12:00:00Z',
+        transportEventTypeCode: 'ARRI',
+        transportCall: vesselCall,
+        references: [
+          { referenceType: 'EQ', referenceValue: 'MSCU1234560' },
+          { referenceType: 'EQ', referenceValue: 'TGHU7654321' },
+          { referenceType: 'BKG', referenceValue: 'BK1' },
+        ],
+      },
+    ]);
+
+    expect(events.map(e => e.containerNumber)).toEqual(['MSCU1234560', 'TGHU7654321']);
+    expect(events[0]).toMatchObject({
+      statusCode: 'ARRIVED_PORT',
+      eventClassifier: 'EST',
+      statusText: 'Прогноз: Судно прибыло в порт (MAERSK KOLKATA, рейс 425E)',
+      eta: '2025-12-05T12:00:00.000Z',
+    });
+  });
+
+  it('does not treat an actual arrival as an ETA', () => {
+    const { events } = mapDcsaEvents([
+      {
+        eventType: 'TRANSPORT',
+        eventClassifierCode: 'ACT',
+        eventDateTime: '2025-12-05T12:00:00Z',
+        transportEventTypeCode: 'ARRI',
+        transportCall: vesselCall,
+        equipmentReference: 'MSCU1234560',
+      },
+    ]);
+
+    expect(events[0].eta).toBeUndefined();
+  });
+
+  it('skips shipment events, unknown codes and events without a container', () => {
+    const { events, warnings } = mapDcsaEvents([
+      { eventType: 'SHIPMENT', eventClassifierCode: 'ACT', eventDateTime: '2025-12-01T00:00:00Z', shipmentEventTypeCode: 'ISSU' },
+      { eventType: 'EQUIPMENT', eventClassifierCode: 'ACT', eventDateTime: '2025-12-01T00:00:00Z', equipmentEventTypeCode: 'XXXX', equipmentReference: 'MSCU1234560' },
+      { eventType: 'EQUIPMENT', eventClassifierCode: 'ACT', eventDateTime: '2025-12-01T00:00:00Z', equipmentEventTypeCode: 'GTIN' },
+      { eventType: 'EQUIPMENT', eventClassifierCode: 'ACT', eventDateTime: 'not a date', equipmentEventTypeCode: 'GTIN', equipmentReference: 'MSCU1234560' },
+    ]);
+
+    expect(events).toEqual([]);
+    expect(warnings).toHaveLength(4);
+  });
+});
+
+describe('documentReference', () => {
+  it('finds the booking and the transport document', () => {
+    const event: DcsaEvent = {
+      eventType: 'EQUIPMENT',
+      eventClassifierCode: 'ACT',
+      eventDateTime: '2025-12-01T00:00:00Z',
+      documentReferences: [
+        { documentReferenceType: 'BKG', documentReferenceValue: 'BK1' },
+        { documentReferenceType: 'TRD', documentReferenceValue: 'MAEU123' },
+      ],
+    };
+
+    expect(documentReference(event, 'BKG')).toBe('BK1');
+    expect(documentReference(event, 'TRD')).toBe('MAEU123');
+  });
+});
@@ -0,0 +1,279 @@
+import { findLocationByUnLocode } from './locationDictionary.js';
+
+/**
+ * ============================================
+ * DCSA PARSER - События DCSA Track & Trace v2
+ * ============================================
+ *
+ * Морские партнёры публикуют события в стандарте DCSA:
+ * - EQUIPMENT — операции с контейнером (LOAD, DISC, GTIN, GTOT, ...)
+ * - TRANSPORT — отход/приход транспорта (DEPA, ARRI)
+ * - SHIPMENT  — события документов (букинг, коносамент)
+ *
+ * eventClassifierCode (PLN/EST/ACT) сохраняется: план и прогноз
+ * попадают в историю, но не заменяют фактический статус.
+ */
+
+export type DcsaEventType = 'EQUIPMENT' | 'TRANSPORT' | 'SHIPMENT';
+export type DcsaClassifier = 'PLN' | 'EST' | 'ACT';
+export type DcsaModeOfTransport = 'VESSEL' | 'RAIL' | 'TRUCK' | 'BARGE';
+
+export interface DcsaLocation {
+  locationName?: string;
+  UNLocationCode?: string;
+  facilityCode?: string;
+}
+
+export interface DcsaTransportCall {
+  transportCallID?: string;
+  carrierVoyageNumber?: string;
+  exportVoyageNumber?: string;
+  UNLocationCode?: string;
+  modeOfTransport?: DcsaModeOfTransport;
+  location?: DcsaLocation;
+  vessel?: {
+    vesselIMONumber?: string;
+    vesselName?: string;
+  };
+}
+
+export interface DcsaEvent {
+  eventID?: string;
+  eventType: DcsaEventType;
+  eventClassifierCode: DcsaClassifier;
+  eventDateTime: string;
+  eventCreatedDateTime?: string;
+  equipmentEventTypeCode?: string;
+  transportEventTypeCode?: string;
+  shipmentEventTypeCode?: string;
+  equipmentReference?: string;
+  ISOEquipmentCode?: string;
+  emptyIndicatorCode?: 'EMPTY' | 'LADEN';
+  eventLocation?: DcsaLocation;
+  transportCall?: DcsaTransportCall;
+  references?: Array<{ referenceType: string; referenceValue: string }>;
+  /** BKG — букинг, TRD — транспортный документ (коносамент) */
+  documentReferences?: Array<{ documentReferenceType: string; documentReferenceValue: string }>;
+}
+
+export interface DcsaMappedEvent {
+  eventID?: string;
+  eventType: DcsaEventType;
+  eventClassifier: DcsaClassifier;
+  containerNumber: string;
+  statusCode: string;
+  statusText: string;
+  location?: string;
+  eventTime: string;
+  /** Плановый/прогнозный приход — это ETA */
+  eta?: string;
+  raw: DcsaEvent;
+}
+
+const EVENT_TYPES: DcsaEventType[] = ['EQUIPMENT', 'TRANSPORT', 'SHIPMENT'];
+const CLASSIFIERS: DcsaClassifier[] = ['PLN', 'EST', 'ACT'];
+
+/**
+ * equipmentEventTypeCode → статус
+ *
+ * Погрузка зависит от вида транспорта: на судно, на платформу, на авто.
+ */
+const EQUIPMENT_EVENTS: Record<string, { code: string; text: string; byMode?: Partial<Record<DcsaModeOfTransport, { code: string; text: string }>> }> = {
+  LOAD: {
+    code: 'LOADED',
+    text: 'Погружен на судно',
+    byMode: {
+      RAIL: { code: 'ON_RAIL', text: 'Погружен на ЖД' },
+      TRUCK: { code: 'ON_AUTO', text: 'Погружен на авто' },
+    },
+  },
+  DISC: { code: 'UNLOADED', text: 'Выгружен' },
+  GTIN: { code: 'IN_PORT', text: 'Въезд на терминал' },
+  GTOT: { code: 'IN_TRANSIT', text: 'Выезд с терминала' },
+  PICK: { code: 'ON_AUTO', text: 'Забран автотранспортом' },
+  DROP: { code: 'DELIVERED', text: 'Доставлен получателю' },
+  INSP: { code: 'CUSTOMS', text: 'Досмотр' },
+  STUF: { code: 'UNKNOWN', text: 'Затарен' },
+  STRP: { code: 'UNKNOWN', text: 'Растарен' },
+  RSEA: { code: 'UNKNOWN', text: 'Опломбирован повторно' },
+  RMVD: { code: 'UNKNOWN', text: 'Пломба снята' },
+};
+
+/**
+ * transportEventTypeCode + вид транспорта → статус
+ */
+const TRANSPORT_EVENTS: Record<string, Record<DcsaModeOfTransport, { code: string; text: string }>> = {
+  DEPA: {
+    VESSEL: { code: 'ON_SHIP', text: 'Судно вышло из порта' },
+    BARGE: { code: 'ON_SHIP', text: 'Баржа вышла из порта' },
+    RAIL: { code: 'ON_RAIL', text: 'Отправлен по ЖД' },
+    TRUCK: { code: 'ON_AUTO', text: 'Отправлен автотранспортом' },
+  },
+  ARRI: {
+    VESSEL: { code: 'ARRIVED_PORT', text: 'Судно прибыло в порт' },
+    BARGE: { code: 'ARRIVED_PORT', text: 'Баржа прибыла в порт' },
+    RAIL: { code: 'RAIL_ARRIVED', text: 'Прибыл на ЖД станцию' },
+    TRUCK: { code: 'IN_TRANSIT', text: 'Автотранспорт прибыл' },
+  },
+};
+
+const CLASSIFIER_PREFIX: Record<DcsaClassifier, string> = {
+  PLN: 'План: ',
+  EST: 'Прогноз: ',
+  ACT: '',
+};
+
+/**
+ * Похоже ли на событие DCSA
+ */
+export function isDcsaEvent(value: unknown): value is DcsaEvent {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const event = value as Record<string, unknown>;
+
+  return EVENT_TYPES.includes(event.eventType as DcsaEventType)
+    && CLASSIFIERS.includes(event.eventClassifierCode as DcsaClassifier)
+    && typeof event.eventDateTime === 'string';
+}
+
+/**
+ * События DCSA из содержимого: массив, { events: [...] } или одно событие
+ *
+ * Возвращает null, если содержимое не похоже на DCSA.
+ */
+export function unwrapDcsaEvents(content: unknown): DcsaEvent[] | null {
+  if (Array.isArray(content)) {
+    return content.length > 0 && content.every(isDcsaEvent) ? content : null;
+  }
+
+  if (typeof content === 'object' && content !== null) {
+    const { events } = content as { events?: unknown };
+    if (Array.isArray(events)) {
+      return unwrapDcsaEvents(events);
+    }
+    return isDcsaEvent(content) ? [content] : null;
+  }
+
+  return null;
+}
+
+/**
+ * Маппинг событий DCSA на статусы контейнеров
+ *
+ * Одно событие TRANSPORT может ссылаться на несколько контейнеров
+ * (references с типом EQ) — для каждого создаётся своё событие.
+ */
+export function mapDcsaEvents(events: DcsaEvent[]): { events: DcsaMappedEvent[]; warnings: string[] } {
+  const mapped: DcsaMappedEvent[] = [];
+  const warnings: string[] = [];
+  let shipmentEvents = 0;
+
+  for (const event of events) {
+    const label = event.eventID ? `${event.eventType} ${event.eventID}` : event.eventType;
+
+    if (event.eventType === 'SHIPMENT') {
+      shipmentEvents++;
+      continue;
+    }
+
+    const status = event.eventType === 'EQUIPMENT' ? equipmentStatus(event) : transportStatus(event);
+    if (!status) {
+      warnings.push(`DCSA ${label}: неизвестный код события ${event.equipmentEventTypeCode || event.transportEventTypeCode || '?'}`);
+      continue;
+    }
+
+    const containers = equipmentReferences(event);
+    if (containers.length === 0) {
+      warnings.push(`DCSA ${label}: нет ссылки на контейнер (equipmentReference / references EQ)`);
+      continue;
+    }
+
+    const eventTime = toIso(event.eventDateTime);
+    if (!eventTime) {
+      warnings.push(`DCSA ${label}: некорректная дата события ${event.eventDateTime}`);
+      continue;
+    }
+
+    const isArrivalForecast = event.eventType === 'TRANSPORT'
+      && event.transportEventTypeCode === 'ARRI'
+      && event.eventClassifierCode !== 'ACT';
+
+    for (const containerNumber of containers) {
+      mapped.push({
+        eventID: event.eventID,
+        eventType: event.eventType,
+        eventClassifier: event.eventClassifierCode,
+        containerNumber,
+        statusCode: status.code,
+        statusText: CLASSIFIER_PREFIX[event.eventClassifierCode] + withVessel(status.text, event.transportCall),
+        location: eventLocation(event),
+        eventTime,
+        eta: isArrivalForecast ? eventTime : undefined,
+        raw: event,
+      });
+    }
+  }
+
+  if (shipmentEvents > 0) {
+    warnings.push(`События SHIPMENT (документы) не меняют статус контейнера, пропущено: ${shipmentEvents}`);
+  }
+
+  return { events: mapped, warnings };
+}
+
+function equipmentStatus(event: DcsaEvent): { code: string; text: string } | undefined {
+  const entry = EQUIPMENT_EVENTS[event.equipmentEventTypeCode || ''];
+  if (!entry) return undefined;
+
+  const mode = event.transportCall?.modeOfTransport;
+  return (mode && entry.byMode?.[mode]) || { code: entry.code, text: entry.text };
+}
+
+function transportStatus(event: DcsaEvent): { code: string; text: string } | undefined {
+  const byMode = TRANSPORT_EVENTS[event.transportEventTypeCode || ''];
+  return byMode?.[event.transportCall?.modeOfTransport || 'VESSEL'];
+}
+
+function equipmentReferences(event: DcsaEvent): string[] {
+  const numbers = [
+    event.equipmentReference,
+    ...(event.references || [])
+      .filter(reference => reference.referenceType === 'EQ')
+      .map(reference => reference.referenceValue),
+  ];
+
+  return [...new Set(
+    numbers
+      .filter((value): value is string => typeof value === 'string')
+      .map(value => value.replace(/\s/g, '').toUpperCase())
+      .filter(value => /^[A-Z]{4}\d{6,7}$/.test(value))
+  )];
+}
+
+/**
+ * Место события: UN/LOCODE через справочник, иначе название или код
+ */
+function eventLocation(event: DcsaEvent): string | undefined {
+  const location = event.eventLocation || event.transportCall?.location;
+  const code = location?.UNLocationCode || event.transportCall?.UNLocationCode;
+
+  const known = code ? findLocationByUnLocode(code) : undefined;
+  return known?.name || location?.locationName || code;
+}
+
+/**
+ * Номер документа события: BKG — букинг, TRD — коносамент
+ */
+export function documentReference(event: DcsaEvent, type: 'BKG' | 'TRD'): string | undefined {
+  return event.documentReferences?.find(reference => reference.documentReferenceType === type)?.documentReferenceValue;
+}
+
+function withVessel(text: string, call?: DcsaTransportCall): string {
+  const voyage = call?.carrierVoyageNumber || call?.exportVoyageNumber;
+  const details = [call?.vessel?.vesselName, voyage && `рейс ${voyage}`].filter(Boolean).join(', ');
+  return details ? `${text} (${details})` : text;
+}
+
+function toIso(value: string): string | undefined {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  looksLikeEdifact,
+  tokenizeEdifact,
+  parseEdifact,
+  extractEdifactEvents,
+  parseEdifactDate,
+} from './edifactParser.js';
+
+const IFTSTA = [
+  "UNA:+.? '",
+  "UNB+UNOC:3+MAEU+SMARTSYNC+251201:1030+42'",
+  "UNH+1+IFTSTA:D:99B:UN'",
+  "BGM+23+STS1+9'",
+  "CNI+1+BL123'",
+  "TDT+20+425E+1++MAEU:172:20+++9321483:146:11:MAERSK KOLKATA'",
+  "STS+1+VA::::Vessel arrived'",
+  "EQD+CN+MSCU1234560'",
+  "LOC+175+RUVVO:139:6:Vladivostok'",
+  "DTM+334:202512011030:203'",
+  "DTM+132:202512051200:203'",
+  "STS+1+UV'",
+  "EQD+CN+MSCU1234560'",
+  "DTM+334:202512021500?+03:303'",
+  "UNT+12+1'",
+  "UNZ+1+42'",
+].join('\n');
+
+describe('tokenizeEdifact', () => {
+  it('honours UNA service characters and the release character', () => {
+    const segments = tokenizeEdifact("UNA:+.? 'FTX+AAI+++PLUS ?+ SIGN?: HERE'");
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].tag).toBe('FTX');
+    expect(segments[0].elements[3]).toEqual(['PLUS + SIGN: HERE']);
+  });
+
+  it('skips line breaks between segments', () => {
+    const segments = tokenizeEdifact("UNH+1+IFTSTA'\r\nBGM+23'\n");
+    expect(segments.map(s => s.tag)).toEqual(['UNH', 'BGM']);
+  });
+});
+
+describe('parseEdifact', () => {
+  it('splits the interchange into messages', () => {
+    const interchange = parseEdifact(IFTSTA);
+
+    expect(looksLikeEdifact(IFTSTA)).toBe(true);
+    expect(interchange.sender).toBe('MAEU');
+    expect(interchange.reference).toBe('42');
+    expect(interchange.messages).toHaveLength(1);
+    expect(interchange.messages[0]).toMatchObject({ type: 'IFTSTA', reference: '1' });
+  });
+});
+
+describe('extractEdifactEvents', () => {
+  it('maps each IFTSTA status to an event with its own location and time', () => {
+    const { events, warnings } = extractEdifactEvents(IFTSTA);
+
+    expect(warnings).toEqual([]);
+    expect(events).toHaveLength(2);
+    expect(events[0]).toMatchObject({
+      messageType: 'IFTSTA',
+      containerNumber: 'MSCU1234560',
+      statusCode: 'ARRIVED_PORT',
+      eventCode: 'VA',
+      location: 'Vladivostok',
+      locationCode: 'RUVVO',
+      eventTime: new Date(2025, 11, 1, 10, 30).toISOString(),
+      eta: new Date(2025, 11, 5, 12, 0).toISOString(),
+      voyage: '425E',
+      vesselName: 'MAERSK KOLKATA',
+    });
+    expect(events[1]).toMatchObject({
+      statusCode: 'UNLOADED',
+      eventTime: '2025-12-02T12:00:00.000Z',
+    });
+  });
+
+  it('maps CODECO gate-out by rail to ON_RAIL', () => {
+    const { events } = extractEdifactEvents([
+      "UNH+7+CODECO:D:95B:UN'",
+      "BGM+36+GO1+9'",
+      "TDT+1++2'",
+      "EQD+CN+MSCU1234560+45G1'",
+      "LOC+165+RUNHK'",
+      "EQD+CN+TGHU7654321+22G1'",
+      "UNT+6+7'",
+    ].join(''));
+
+    expect(events.map(e => [e.containerNumber, e.statusCode, e.location])).toEqual([
+      ['MSCU1234560', 'ON_RAIL', 'RUNHK'],
+      ['TGHU7654321', 'ON_RAIL', undefined],
+    ]);
+  });
+
+  it('uses the discharge port for COARRI discharge reports', () => {
+    const { events } = extractEdifactEvents([
+      "UNH+8+COARRI:D:95B:UN'",
+      "BGM+44+D1+9'",
+      "LOC+9+CNSHA'",
+      "LOC+11+RUVVO'",
+      "EQD+CN+MSCU1234560'",
+      "UNT+5+8'",
+    ].join(''));
+
+    expect(events[0]).toMatchObject({ statusCode: 'UNLOADED', location: 'RUVVO' });
+  });
+
+  it('warns about statuses without a container and unsupported messages', () => {
+    const { events, warnings } = extractEdifactEvents([
+      "UNH+1+IFTSTA:D:99B:UN'",
+      "STS+1+VA'",
+      "UNT+2+1'",
+      "UNH+2+BAPLIE:D:95B:UN'",
+      "UNT+1+2'",
+    ].join(''));
+
+    expect(events).toEqual([]);
+    expect(warnings).toHaveLength(2);
+    expect(warnings[1]).toContain('BAPLIE');
+  });
+});
+
+describe('parseEdifactDate', () => {
+  it('parses the supported formats', () => {
+    expect(parseEdifactDate('20251201', '102')).toBe(new Date(2025, 11, 1).toISOString());
+    expect(parseEdifactDate('2512011030', '201')).toBe(new Date(2025, 11, 1, 10, 30).toISOString());
+    expect(parseEdifactDate('202512011030UTC', '303')).toBe('2025-12-01T10:30:00.000Z');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseEdifactDate('20250231', '102')).toBeUndefined();
+    expect(parseEdifactDate('tomorrow', '102')).toBeUndefined();
+  });
+});
@@ -0,0 +1,536 @@
+/**
+ * ============================================
+ * EDIFACT PARSER - Разбор сообщений UN/EDIFACT
+ * ============================================
+ *
+ * Морские линии и терминалы присылают статусы контейнеров в EDIFACT:
+ * - IFTSTA — отчёт о статусе перевозки (STS + LOC + DTM + EQD)
+ * - CODECO — въезд/выезд контейнера через ворота терминала
+ * - COARRI — погрузка/выгрузка контейнеров на судно
+ *
+ * Обмен (UNB ... UNZ) может содержать несколько сообщений (UNH ... UNT),
+ * а сообщение — несколько контейнеров; каждый контейнер даёт
+ * отдельное событие со временем из DTM.
+ */
+
+export type EdifactMessageType = 'IFTSTA' | 'CODECO' | 'COARRI';
+
+export interface EdifactSegment {
+  tag: string;
+  /** Элементы данных, каждый — список компонентов */
+  elements: string[][];
+  /** Исходный текст сегмента (без терминатора) */
+  raw: string;
+}
+
+export interface EdifactMessage {
+  type: string;
+  reference: string;
+  segments: EdifactSegment[];
+}
+
+export interface EdifactInterchange {
+  sender?: string;
+  recipient?: string;
+  reference?: string;
+  messages: EdifactMessage[];
+}
+
+export interface EdifactEvent {
+  messageType: EdifactMessageType;
+  containerNumber: string;
+  statusCode: string;
+  statusText: string;
+  /** Код события из сообщения (STS, BGM) */
+  eventCode?: string;
+  location?: string;
+  locationCode?: string;
+  eventTime?: string;
+  eta?: string;
+  vesselName?: string;
+  voyage?: string;
+  raw: string;
+}
+
+interface ServiceChars {
+  component: string;
+  element: string;
+  release: string;
+  segment: string;
+}
+
+const DEFAULT_SERVICE_CHARS: ServiceChars = {
+  component: ':',
+  element: '+',
+  release: '?',
+  segment: '\'',
+};
+
+/**
+ * Коды событий в STS (IFTSTA)
+ *
+ * Линии используют перечень событий, общий с ANSI X12 315.
+ */
+export const IFTSTA_EVENT_CODES: Record<string, { code: string; text: string }> = {
+  AE: { code: 'LOADED', text: 'Погружен на судно' },
+  VD: { code: 'ON_SHIP', text: 'Судно вышло из порта' },
+  VA: { code: 'ARRIVED_PORT', text: 'Судно прибыло в порт' },
+  AV: { code: 'ARRIVED_PORT', text: 'Прибыл в порт' },
+  UV: { code: 'UNLOADED', text: 'Выгружен с судна' },
+  I: { code: 'IN_PORT', text: 'Въезд на терминал' },
+  OA: { code: 'IN_TRANSIT', text: 'Выезд с терминала' },
+  AL: { code: 'ON_RAIL', text: 'Погружен на ЖД' },
+  RL: { code: 'ON_RAIL', text: 'Погружен на ЖД' },
+  AR: { code: 'RAIL_ARRIVED', text: 'Прибыл на ЖД станцию' },
+  UR: { code: 'UNLOADED', text: 'Выгружен с ЖД' },
+  CT: { code: 'CUSTOMS', text: 'Таможенный досмотр' },
+  CR: { code: 'CUSTOMS_CLEARED', text: 'Выпущен таможней' },
+  D: { code: 'DELIVERED', text: 'Доставлен' },
+};
+
+/** BGM CODECO: въезд / выезд через ворота */
+const CODECO_GATE_IN = ['34'];
+const CODECO_GATE_OUT = ['36'];
+
+/** BGM COARRI: отчёт о выгрузке / погрузке (SMDG 1.x и 2.x) */
+const COARRI_DISCHARGE = ['44', '98'];
+const COARRI_LOADING = ['45', '46'];
+
+/** Приоритет квалификаторов LOC для места события */
+const EVENT_LOCATION_QUALIFIERS = ['175', '165', '9', '11', '5', '8', '7'];
+
+/** Квалификаторы DTM времени события */
+const EVENT_TIME_QUALIFIERS = ['334', '178', '186', '7', '203'];
+const ETA_QUALIFIERS = ['132'];
+
+/**
+ * Похоже ли содержимое на обмен EDIFACT
+ */
+export function looksLikeEdifact(content: string): boolean {
+  const trimmed = content.trimStart();
+  return /^UNA.{6}/s.test(trimmed) || /^UN[BH]\+/.test(trimmed);
+}
+
+/**
+ * Разбиение текста на сегменты
+ *
+ * Учитывает строку UNA (свои разделители) и символ освобождения:
+ * "?+" — это плюс внутри значения, а не разделитель элементов.
+ */
+export function tokenizeEdifact(content: string): EdifactSegment[] {
+  let text = content.replace(/^﻿/, '').trimStart();
+  let chars = DEFAULT_SERVICE_CHARS;
+
+  if (text.startsWith('UNA')) {
+    chars = {
+      component: text[3],
+      element: text[4],
+      release: text[6] === ' ' ? '' : text[6],
+      segment: text[8],
+    };
+    text = text.slice(9);
+  }
+
+  const segments: EdifactSegment[] = [];
+  let elements: string[][] = [[]];
+  let value = '';
+  let raw = '';
+
+  const closeSegment = () => {
+    elements[elements.length - 1].push(value);
+    const tag = (elements[0][0] || '').trim();
+    if (tag) {
+      segments.push({ tag, elements: elements.slice(1), raw: raw.trim() });
+    }
+    elements = [[]];
+    value = '';
+    raw = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (chars.release && char === chars.release && i + 1 < text.length) {
+      value += text[++i];
+      raw += char + text[i];
+      continue;
+    }
+
+    if (char === chars.segment) {
+      closeSegment();
+      continue;
+    }
+
+    // Переводы строк между сегментами — не часть данных
+    if ((char === '\n' || char === '\r') && value === '' && raw.trim() === '') {
+      continue;
+    }
+
+    raw += char;
+
+    if (char === chars.element) {
+      elements[elements.length - 1].push(value);
+      elements.push([]);
+      value = '';
+    } else if (char === chars.component) {
+      elements[elements.length - 1].push(value);
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (raw.trim()) {
+    closeSegment();
+  }
+
+  return segments;
+}
+
+/**
+ * Разбор обмена на сообщения
+ */
+export function parseEdifact(content: string): EdifactInterchange {
+  const interchange: EdifactInterchange = { messages: [] };
+  let current: EdifactMessage | null = null;
+
+  for (const segment of tokenizeEdifact(content)) {
+    switch (segment.tag) {
+      case 'UNB':
+        interchange.sender = component(segment, 1);
+        interchange.recipient = component(segment, 2);
+        interchange.reference = component(segment, 4);
+        break;
+      case 'UNH':
+        current = {
+          type: component(segment, 1) || '',
+          reference: component(segment, 0) || '',
+          segments: [],
+        };
+        interchange.messages.push(current);
+        break;
+      case 'UNT':
+        current = null;
+        break;
+      case 'UNZ':
+        break;
+      default:
+        current?.segments.push(segment);
+    }
+  }
+
+  return interchange;
+}
+
+/**
+ * События по контейнерам из обмена EDIFACT
+ */
+export function extractEdifactEvents(content: string): { events: EdifactEvent[]; warnings: string[] } {
+  const interchange = parseEdifact(content);
+  const events: EdifactEvent[] = [];
+  const warnings: string[] = [];
+
+  if (interchange.messages.length === 0) {
+    warnings.push('В обмене EDIFACT нет сообщений (UNH)');
+  }
+
+  for (const message of interchange.messages) {
+    switch (message.type) {
+      case 'IFTSTA':
+        events.push(...mapIftsta(message, warnings));
+        break;
+      case 'CODECO':
+        events.push(...mapCodeco(message, warnings));
+        break;
+      case 'COARRI':
+        events.push(...mapCoarri(message, warnings));
+        break;
+      default:
+        warnings.push(`Сообщение ${message.type || '?'} (${message.reference}) не поддерживается`);
+    }
+  }
+
+  return { events, warnings };
+}
+
+/**
+ * IFTSTA: каждый STS открывает событие, EQD/LOC/DTM/TDT после него
+ * относятся к этому событию; сегменты группы CNI до первого STS —
+ * общие для всех её событий.
+ */
+function mapIftsta(message: EdifactMessage, warnings: string[]): EdifactEvent[] {
+  const events: EdifactEvent[] = [];
+  let shared: EdifactSegment[] = [];
+  let group: EdifactSegment[] | null = null;
+  const groups: Array<{ sts: EdifactSegment[]; shared: EdifactSegment[] }> = [];
+
+  for (const segment of message.segments) {
+    if (segment.tag === 'CNI') {
+      shared = [segment];
+      group = null;
+    } else if (segment.tag === 'STS') {
+      group = [segment];
+      groups.push({ sts: group, shared });
+    } else if (group) {
+      group.push(segment);
+    } else {
+      shared.push(segment);
+    }
+  }
+
+  for (const { sts, shared: context } of groups) {
+    const statusSegment = sts[0];
+    const eventCode = component(statusSegment, 1);
+    const description = component(statusSegment, 1, 3);
+    const mapped = eventCode ? IFTSTA_EVENT_CODES[eventCode.toUpperCase()] : undefined;
+
+    const scope = [...context, ...sts];
+    const containers = containerNumbers(sts).length > 0 ? containerNumbers(sts) : containerNumbers(context);
+
+    if (containers.length === 0) {
+      warnings.push(`IFTSTA ${message.reference}: статус ${eventCode || '?'} без номера контейнера (EQD)`);
+      continue;
+    }
+
+    if (!mapped && !description) {
+      warnings.push(`IFTSTA ${message.reference}: неизвестный код события ${eventCode || '?'}`);
+    }
+
+    for (const containerNumber of containers) {
+      events.push({
+        messageType: 'IFTSTA',
+        containerNumber,
+        statusCode: mapped?.code || 'UNKNOWN',
+        statusText: mapped?.text || description || `Событие ${eventCode}`,
+        eventCode,
+        ...eventLocation(sts, context),
+        eventTime: findDate(sts, EVENT_TIME_QUALIFIERS) || findDate(context, EVENT_TIME_QUALIFIERS),
+        eta: findDate(scope, ETA_QUALIFIERS),
+        ...vesselInfo(scope),
+        raw: scope.map(segment => segment.raw).join('\''),
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * CODECO: въезд (gate-in) или выезд (gate-out) контейнеров,
+ * каждая группа EQD — отдельный контейнер
+ */
+function mapCodeco(message: EdifactMessage, warnings: string[]): EdifactEvent[] {
+  const documentCode = documentNameCode(message);
+  const gateIn = CODECO_GATE_IN.includes(documentCode);
+  const gateOut = CODECO_GATE_OUT.includes(documentCode);
+
+  if (!gateIn && !gateOut) {
+    warnings.push(`CODECO ${message.reference}: неизвестный тип отчёта BGM ${documentCode || '?'}`);
+  }
+
+  return equipmentGroups(message).map(({ header, equipment, containerNumber }) => {
+    const mode = transportMode([...equipment, ...header]);
+    const statusCode = gateIn
+      ? 'IN_PORT'
+      : gateOut
+        ? mode === '2' ? 'ON_RAIL' : mode === '3' ? 'ON_AUTO' : 'IN_TRANSIT'
+        : 'UNKNOWN';
+
+    return {
+      messageType: 'CODECO' as const,
+      containerNumber,
+      statusCode,
+      statusText: gateIn ? 'Въезд на терминал' : gateOut ? 'Выезд с терминала' : `Отчёт CODECO ${documentCode}`,
+      eventCode: documentCode,
+      ...eventLocation(equipment, header),
+      eventTime: findDate(equipment, EVENT_TIME_QUALIFIERS) || findDate(header, EVENT_TIME_QUALIFIERS),
+      ...vesselInfo([...header, ...equipment]),
+      raw: [...header, ...equipment].map(segment => segment.raw).join('\''),
+    };
+  });
+}
+
+/**
+ * COARRI: погрузка на судно или выгрузка с судна
+ */
+function mapCoarri(message: EdifactMessage, warnings: string[]): EdifactEvent[] {
+  const documentCode = documentNameCode(message);
+  const documentName = (component(message.segments.find(s => s.tag === 'BGM'), 0, 3) || '').toUpperCase();
+  const discharge = COARRI_DISCHARGE.includes(documentCode) || documentName.includes('DISCHARG');
+  const loading = !discharge && (COARRI_LOADING.includes(documentCode) || documentName.includes('LOAD'));
+
+  if (!discharge && !loading) {
+    warnings.push(`COARRI ${message.reference}: неизвестный тип отчёта BGM ${documentCode || '?'}`);
+  }
+
+  return equipmentGroups(message).map(({ header, equipment, containerNumber }) => {
+    // Порт выгрузки для выгрузки, порт погрузки для погрузки
+    const portQualifier = discharge ? '11' : '9';
+    const port = findLocation([...equipment, ...header], [portQualifier]);
+
+    return {
+      messageType: 'COARRI' as const,
+      containerNumber,
+      statusCode: discharge ? 'UNLOADED' : loading ? 'LOADED' : 'UNKNOWN',
+      statusText: discharge ? 'Выгружен с судна' : loading ? 'Погружен на судно' : `Отчёт COARRI ${documentCode}`,
+      eventCode: documentCode,
+      ...(port || eventLocation(equipment, header)),
+      eventTime: findDate(equipment, EVENT_TIME_QUALIFIERS) || findDate(header, EVENT_TIME_QUALIFIERS),
+      ...vesselInfo([...header, ...equipment]),
+      raw: [...header, ...equipment].map(segment => segment.raw).join('\''),
+    };
+  });
+}
+
+/**
+ * Группы EQD (CODECO/COARRI): сегменты до первого EQD — заголовок
+ * сообщения (BGM, TDT, LOC, DTM), далее — по группе на контейнер
+ */
+function equipmentGroups(message: EdifactMessage): Array<{
+  header: EdifactSegment[];
+  equipment: EdifactSegment[];
+  containerNumber: string;
+}> {
+  const header: EdifactSegment[] = [];
+  const groups: EdifactSegment[][] = [];
+
+  for (const segment of message.segments) {
+    if (segment.tag === 'EQD') {
+      groups.push([segment]);
+    } else if (segment.tag === 'CNT') {
+      continue;
+    } else if (groups.length > 0) {
+      groups[groups.length - 1].push(segment);
+    } else {
+      header.push(segment);
+    }
+  }
+
+  return groups
+    .map(equipment => ({ header, equipment, containerNumber: containerNumbers(equipment)[0] }))
+    .filter(group => group.containerNumber);
+}
+
+function documentNameCode(message: EdifactMessage): string {
+  return component(message.segments.find(segment => segment.tag === 'BGM'), 0) || '';
+}
+
+/**
+ * Номера контейнеров из EQD+CN
+ */
+function containerNumbers(segments: EdifactSegment[]): string[] {
+  return segments
+    .filter(segment => segment.tag === 'EQD' && ['CN', ''].includes(component(segment, 0) || ''))
+    .map(segment => (component(segment, 1) || '').replace(/\s/g, '').toUpperCase())
+    .filter(number => /^[A-Z]{4}\d{6,7}$/.test(number));
+}
+
+function eventLocation(
+  primary: EdifactSegment[],
+  fallback: EdifactSegment[]
+): { location?: string; locationCode?: string } {
+  return findLocation(primary, EVENT_LOCATION_QUALIFIERS)
+    || findLocation(fallback, EVENT_LOCATION_QUALIFIERS)
+    || {};
+}
+
+/**
+ * LOC+<квалификатор>+<код>:<список>:<агентство>:<название>
+ */
+function findLocation(
+  segments: EdifactSegment[],
+  qualifiers: string[]
+): { location?: string; locationCode?: string } | undefined {
+  for (const qualifier of qualifiers) {
+    const segment = segments.find(s => s.tag === 'LOC' && component(s, 0) === qualifier);
+    if (!segment) continue;
+
+    const locationCode = component(segment, 1) || undefined;
+    const name = component(segment, 1, 3) || component(segment, 2, 3) || undefined;
+
+    if (locationCode || name) {
+      return { location: name || locationCode, locationCode };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * DTM+<квалификатор>:<значение>:<формат> → ISO-строка
+ */
+function findDate(segments: EdifactSegment[], qualifiers: string[]): string | undefined {
+  for (const qualifier of qualifiers) {
+    const segment = segments.find(s => s.tag === 'DTM' && component(s, 0) === qualifier);
+    if (!segment) continue;
+
+    const date = parseEdifactDate(component(segment, 0, 1) || '', component(segment, 0, 2) || '');
+    if (date) return date;
+  }
+
+  return undefined;
+}
+
+/**
+ * Разбор даты по коду формата (2379)
+ *
+ * 102 — CCYYMMDD, 203 — CCYYMMDDHHMM, 204 — CCYYMMDDHHMMSS,
+ * 101 — YYMMDD, 201 — YYMMDDHHMM, 303 — CCYYMMDDHHMM со смещением зоны.
+ * Без зоны время считается местным, как и у дат из таблиц.
+ */
+export function parseEdifactDate(value: string, format: string): string | undefined {
+  const text = value.trim();
+  let match: RegExpMatchArray | null;
+
+  switch (format) {
+    case '101':
+    case '201':
+      match = text.match(/^(\d{2})(\d{2})(\d{2})(?:(\d{2})(\d{2}))?$/);
+      if (match) match[1] = `20${match[1]}`;
+      break;
+    case '303':
+      // Зона: UTC/GMT или смещение в часах ("?+03" с символом освобождения)
+      match = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})([+-]\d{2}|UTC|GMT)?$/i);
+      if (match?.[6]) {
+        const [, y, mo, d, h, mi, zone] = match;
+        const offsetHours = /^[+-]/.test(zone) ? parseInt(zone, 10) : 0;
+        const utc = Date.UTC(+y, +mo - 1, +d, +h, +mi) - offsetHours * 3600000;
+        return new Date(utc).toISOString();
+      }
+      break;
+    default:
+      match = text.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?$/);
+  }
+
+  if (!match) return undefined;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match;
+  const date = new Date(+year, +month - 1, +day, +hour, +minute, +second);
+
+  return isNaN(date.getTime()) || date.getMonth() !== +month - 1 ? undefined : date.toISOString();
+}
+
+/**
+ * Судно и рейс из TDT (вид транспорта 1 — морской)
+ */
+function vesselInfo(segments: EdifactSegment[]): { vesselName?: string; voyage?: string } {
+  const tdt = segments.find(s => s.tag === 'TDT' && (component(s, 2) === '1' || component(s, 0) === '20'));
+  if (!tdt) return {};
+
+  return {
+    voyage: component(tdt, 1) || undefined,
+    vesselName: component(tdt, 7, 3) || undefined,
+  };
+}
+
+/**
+ * Вид транспорта из TDT (2 — ЖД, 3 — авто)
+ */
+function transportMode(segments: EdifactSegment[]): string | undefined {
+  return component(segments.find(s => s.tag === 'TDT'), 2);
+}
+
+function component(segment: EdifactSegment | undefined, element: number, index: number = 0): string | undefined {
+  const value = segment?.elements[element]?.[index]?.trim();
+  return value || undefined;
+}
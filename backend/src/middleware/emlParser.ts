@@ -0,0 +1,175 @@
+import { simpleParser, Attachment } from 'mailparser';
+import { looksLikeEdifact } from './edifactParser.js';
+import { looksLikeX12 } from './x12Parser.js';
+
+/**
+ * ============================================
+ * EML PARSER - Разбор MIME-писем (RFC 822)
+ * ============================================
+ *
+ * Разбирает письмо оператора целиком:
+ * - multipart-тела, quoted-printable / base64
+ * - HTML-only письма → текст для UniversalParser.parseText
+ * - вложения CSV / XLSX / XML / JSON / EDIFACT / TXT → отдельные элементы
+ * - заголовки From / Date / Message-ID / Subject → метаданные
+ */
+
+export type EmlAttachmentKind = 'csv' | 'xlsx' | 'xml' | 'json' | 'edi' | 'text';
+
+export interface EmlAttachment {
+  filename: string;
+  contentType: string;
+  kind: EmlAttachmentKind;
+  /** Декодированный текст (для текстовых вложений) */
+  text?: string;
+  /** Бинарное содержимое (для XLSX/XLS) */
+  buffer?: Buffer;
+}
+
+export interface ParsedEml {
+  from?: string;
+  fromName?: string;
+  subject?: string;
+  date?: string;
+  messageId?: string;
+  /** Текст письма (text/plain или сконвертированный HTML) */
+  text: string;
+  /** Вложения, которые можно распарсить */
+  attachments: EmlAttachment[];
+  /** Вложения, пропущенные как неподдерживаемые (PDF, картинки) */
+  skippedAttachments: string[];
+}
+
+/**
+ * Разбор исходного текста письма
+ */
+export async function parseEml(source: string | Buffer): Promise<ParsedEml> {
+  const parsed = await simpleParser(source, { skipImageLinks: true });
+
+  const fromAddress = parsed.from?.value[0];
+  const html = typeof parsed.html === 'string' ? parsed.html : '';
+  const text = parsed.text?.trim() || htmlToPlainText(html);
+
+  const attachments: EmlAttachment[] = [];
+  const skippedAttachments: string[] = [];
+
+  for (const attachment of parsed.attachments) {
+    const filename = attachment.filename || 'attachment';
+    const kind = detectAttachmentKind(attachment);
+
+    if (!kind) {
+      skippedAttachments.push(filename);
+      continue;
+    }
+
+    if (kind === 'xlsx') {
+      attachments.push({ filename, contentType: attachment.contentType, kind, buffer: attachment.content });
+    } else {
+      attachments.push({ filename, contentType: attachment.contentType, kind, text: decodeText(attachment.content) });
+    }
+  }
+
+  return {
+    from: fromAddress?.address,
+    fromName: fromAddress?.name || undefined,
+    subject: parsed.subject,
+    date: parsed.date ? parsed.date.toISOString() : undefined,
+    messageId: parsed.messageId,
+    text,
+    attachments,
+    skippedAttachments,
+  };
+}
+
+/**
+ * Похоже ли содержимое на исходник письма (RFC 822)
+ *
+ * Блок заголовков до первой пустой строки должен состоять из строк
+ * "Header: value" и содержать минимум два типичных почтовых заголовка.
+ */
+export function looksLikeEml(content: string): boolean {
+  const headerBlock = content.replace(/^\s+/, '').split(/\r?\n\r?\n/)[0];
+  if (!headerBlock) return false;
+
+  const lines = headerBlock.split(/\r?\n/);
+  const knownHeaders = new Set([
+    'from', 'to', 'subject', 'date', 'message-id', 'mime-version',
+    'content-type', 'received', 'return-path', 'cc', 'reply-to',
+  ]);
+
+  let known = 0;
+  for (const line of lines) {
+    // Продолжение многострочного заголовка
+    if (/^[ \t]/.test(line)) continue;
+
+    const match = line.match(/^([A-Za-z][A-Za-z0-9-]*):/);
+    if (!match) return false;
+
+    if (knownHeaders.has(match[1].toLowerCase())) known++;
+  }
+
+  return known >= 2;
+}
+
+/**
+ * Преобразование HTML-письма в текст
+ */
+export function htmlToPlainText(html: string): string {
+  if (!html) return '';
+
+  return html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h\d|table)>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/gi, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+}
+
+/** Расширения файлов EDIFACT и X12 у линий, терминалов и экспедиторов */
+const EDI_EXTENSIONS = ['edi', 'edifact', 'ifsta', 'iftsta', 'codeco', 'coarri', 'x12', '315'];
+
+/**
+ * Определение типа вложения по MIME-типу и расширению
+ */
+function detectAttachmentKind(attachment: Attachment): EmlAttachmentKind | null {
+  const type = attachment.contentType.toLowerCase();
+  const ext = (attachment.filename || '').toLowerCase().split('.').pop() || '';
+
+  if (ext === 'csv' || type === 'text/csv') return 'csv';
+  if (['xlsx', 'xls'].includes(ext) || type.includes('spreadsheetml') || type === 'application/vnd.ms-excel') {
+    return 'xlsx';
+  }
+  if (ext === 'xml' || type.endsWith('/xml')) return 'xml';
+  if (ext === 'json' || type === 'application/json') return 'json';
+  if (EDI_EXTENSIONS.includes(ext) || ['application/edifact', 'application/edi-x12'].includes(type)) return 'edi';
+  if (ext === 'txt' || type === 'text/plain') {
+    // Линии часто шлют EDIFACT и X12 в .txt
+    const head = attachment.content.toString('latin1', 0, 64);
+    return looksLikeEdifact(head) || looksLikeX12(head) ? 'edi' : 'text';
+  }
+
+  return null;
+}
+
+/**
+ * Декодирование текстового вложения или загруженного файла
+ *
+ * Выгрузки из 1С часто приходят в windows-1251 без указания кодировки.
+ */
+export function decodeText(buffer: Buffer): string {
+  const utf8 = buffer.toString('utf-8').replace(/^﻿/, '');
+  if (!utf8.includes('�')) {
+    return utf8;
+  }
+
+  return new TextDecoder('windows-1251').decode(buffer);
+}
@@ -0,0 +1,17 @@
+import multer from 'multer';
+
+/**
+ * ============================================
+ * FILE UPLOAD - Приём файлов перевозчиков
+ * ============================================
+ * 
+ * multipart/form-data, файл в поле "file".
+ * Файлы (Excel, CSV, .eml) держим в памяти — содержимое всё равно
+ * сохраняется в RawMessage или разбирается сразу.
+ */
+export const fileUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 25 * 1024 * 1024 },
+  // Кириллица в именах файлов
+  defParamCharset: 'utf8',
+});
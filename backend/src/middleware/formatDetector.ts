@@ -1,4 +1,9 @@
 import { RawInput } from './inputProcessor.js';
+import { looksLikeEml } from './emlParser.js';
+import { looksLikeSpreadsheet } from './spreadsheetParser.js';
+import { looksLikeEdifact } from './edifactParser.js';
+import { looksLikeX12 } from './x12Parser.js';
+import { unwrapDcsaEvents } from './dcsaParser.js';
 
 /**
  * ============================================
@@ -12,6 +17,11 @@ import { RawInput } from './inputProcessor.js';
  * - CSV_TEXT: CSV-формат в виде текста
  * - TABLE_ROW: одиночная строка таблицы
  * - TABLE_ROWS: массив строк таблицы
+ * - EMAIL_MIME: исходник письма (RFC 822 / .eml) с заголовками и вложениями
+ * - SPREADSHEET: книга Excel (.xlsx / .xls) в виде бинарного файла
+ * - EDIFACT: обмен UN/EDIFACT (IFTSTA, CODECO, COARRI)
+ * - X12: обмен ANSI X12 (315 Status Details – Ocean)
+ * - DCSA_EVENTS: события DCSA Track & Trace (JSON)
  * - MIXED: смешанный формат (текст + данные)
  * - UNKNOWN: не удалось определить
  */
@@ -23,6 +33,11 @@ export type FormatType =
   | 'CSV_TEXT'
   | 'TABLE_ROW'
   | 'TABLE_ROWS'
+  | 'EMAIL_MIME'
+  | 'SPREADSHEET'
+  | 'EDIFACT'
+  | 'X12'
+  | 'DCSA_EVENTS'
   | 'MIXED'
   | 'UNKNOWN';
 
@@ -47,11 +62,26 @@ export class FormatDetector {
   detect(input: RawInput): DetectedFormat {
     const { content, hint } = input;
     
+    // События DCSA узнаём раньше подсказки: /ingest/json помечает массивы как 'table'
+    if (typeof content === 'object' && content !== null && !Buffer.isBuffer(content)) {
+      const dcsaEvents = unwrapDcsaEvents(content);
+      if (dcsaEvents) {
+        return this.createFormat('DCSA_EVENTS', 0.95, JSON.stringify(content), dcsaEvents.length);
+      }
+    }
+    
     // Сначала проверяем массив - это самый частый случай для пакетных данных
     if (Array.isArray(content)) {
       return this.detectArrayFormat(content);
     }
     
+    // Бинарный файл (загрузка или вложение письма)
+    if (Buffer.isBuffer(content)) {
+      return hint === 'xlsx' || looksLikeSpreadsheet(content)
+        ? this.createFormat('SPREADSHEET', hint === 'xlsx' ? 0.95 : 0.9, '')
+        : this.unknownFormat();
+    }
+    
     // Если есть подсказка, используем её
     if (hint) {
       return this.detectWithHint(content, hint);
@@ -75,10 +105,29 @@ export class FormatDetector {
   private detectStringFormat(content: string): DetectedFormat {
     const trimmed = content.trim();
     
+    // Проверяем, это исходник письма (.eml)?
+    if (looksLikeEml(trimmed)) {
+      return this.createFormat('EMAIL_MIME', 0.9, trimmed);
+    }
+    
+    // Проверяем, это обмен EDIFACT (UNA/UNB/UNH)?
+    if (looksLikeEdifact(trimmed)) {
+      return this.createFormat('EDIFACT', 0.95, trimmed);
+    }
+    
+    // Проверяем, это обмен X12 (ISA/GS/ST)?
+    if (looksLikeX12(trimmed)) {
+      return this.createFormat('X12', 0.95, trimmed);
+    }
+    
     // Проверяем, это JSON?
     if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
       try {
         const parsed = JSON.parse(trimmed);
+        const dcsaEvents = unwrapDcsaEvents(parsed);
+        if (dcsaEvents) {
+          return this.createFormat('DCSA_EVENTS', 0.95, trimmed, dcsaEvents.length);
+        }
         if (Array.isArray(parsed)) {
           return this.detectArrayFormat(parsed);
         }
@@ -88,6 +137,11 @@ export class FormatDetector {
       }
     }
     
+    // XML-документ (например, вложение оператора) — разбирается как MIXED
+    if (trimmed.startsWith('<') && trimmed.includes('</')) {
+      return this.createFormat('MIXED', 0.8, trimmed);
+    }
+    
     // Проверяем, это CSV?
     if (this.looksLikeCSV(trimmed)) {
       return this.createFormat('CSV_TEXT', 0.8, trimmed);
@@ -170,6 +224,11 @@ export class FormatDetector {
         return this.createFormat('JSON_OBJECT', 0.95, contentStr);
       case 'csv':
         return this.createFormat('CSV_TEXT', 0.95, contentStr);
+      case 'eml':
+        return this.createFormat('EMAIL_MIME', 0.95, contentStr);
+      case 'edi':
+        // .edi используют и EDIFACT, и X12
+        return this.createFormat(looksLikeX12(contentStr) ? 'X12' : 'EDIFACT', 0.95, contentStr);
       case 'table':
         if (Array.isArray(content)) {
           return this.createFormat('TABLE_ROWS', 0.95, contentStr, (content as unknown[]).length);
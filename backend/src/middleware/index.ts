@@ -7,11 +7,126 @@
  * для обработки входящих данных.
  */
 
-export { InputProcessor, inputProcessor, RawInput, ProcessingResult } from './inputProcessor.js';
+export {
+  InputProcessor,
+  inputProcessor,
+  RawInput,
+  ProcessOptions,
+  ContainerGroup,
+  ProcessingResult,
+  ReviewCandidate,
+  ReviewReason,
+} from './inputProcessor.js';
 export { FormatDetector, DetectedFormat, FormatType } from './formatDetector.js';
+export { parseEml, looksLikeEml, htmlToPlainText, decodeText, ParsedEml, EmlAttachment } from './emlParser.js';
+export { parseSpreadsheet, looksLikeSpreadsheet, excelSerialToDate, ParsedSpreadsheet, SpreadsheetSheet, SpreadsheetOptions } from './spreadsheetParser.js';
+export {
+  extractEdifactEvents,
+  parseEdifact,
+  tokenizeEdifact,
+  looksLikeEdifact,
+  parseEdifactDate,
+  EdifactEvent,
+  EdifactInterchange,
+  EdifactMessage,
+  EdifactSegment,
+} from './edifactParser.js';
+export {
+  extractX12Events,
+  parseX12,
+  tokenizeX12,
+  looksLikeX12,
+  parseX12Date,
+  X12Event,
+  X12Interchange,
+  X12Transaction,
+  X12Segment,
+} from './x12Parser.js';
+export {
+  isDcsaEvent,
+  unwrapDcsaEvents,
+  mapDcsaEvents,
+  DcsaEvent,
+  DcsaEventType,
+  DcsaClassifier,
+  DcsaLocation,
+  DcsaTransportCall,
+  DcsaMappedEvent,
+} from './dcsaParser.js';
+export {
+  ParsingProfile,
+  ProfileField,
+  ProfileSkipRules,
+  PROFILE_FIELDS,
+  TABLE_FIELD_SYNONYMS,
+  normalizeHeader,
+  suggestField,
+  applyColumnMappings,
+  shouldSkipRow,
+  lookupStatus,
+  parseDateWithFormats,
+} from './parsingProfile.js';
+export {
+  LearnedRules,
+  emptyLearnedRules,
+  normalizePhrase,
+  matchLearnedLocation,
+  matchLearnedStatus,
+  applyOwnerCodeOverride,
+} from './learnedRules.js';
 export { UniversalParser, ParsedItem, ParseResult } from './universalParser.js';
 export { DataValidator, ValidationResult } from './dataValidator.js';
 export { ProcessingLogger, ProcessingLogEntry, processingLogger } from './processingLogger.js';
 export { validateContainerNumber, extractContainerNumbers, ContainerValidationResult } from './containerValidator.js';
-export { findLocation, normalizeLocationName, ALL_LOCATIONS, KnownLocation, LocationType } from './locationDictionary.js';
+export {
+  validateWagonNumber,
+  extractWagonNumbers,
+  calculateWagonCheckDigit,
+  looksLikeWagonNumber,
+  WagonValidationResult,
+} from './wagonValidator.js';
+export {
+  extractDispatchInfo,
+  normalizeDispatchNumber,
+  normalizeTrainIndex,
+  DispatchInfo,
+} from './railDispatch.js';
+export {
+  validateImoNumber,
+  extractVesselInfo,
+  normalizeVesselName,
+  normalizeVoyageNumber,
+  VesselInfo,
+  ImoValidationResult,
+} from './vesselValidator.js';
+export {
+  extractShipmentReferences,
+  normalizeShipmentReference,
+  ShipmentReferences,
+} from './shipmentReference.js';
+export {
+  findLocation,
+  findLocationByUnLocode,
+  findLocationByEsrCode,
+  unLocodeForLocation,
+  normalizeLocationName,
+  rebuildLocationIndex,
+  getIndexedLocations,
+  isAmbiguousMatch,
+  DEFAULT_LOCATIONS,
+  AMBIGUOUS_SCORE_GAP,
+  KnownLocation,
+  LocationType,
+  LocationMatchResult,
+} from './locationDictionary.js';
+export {
+  transliterate,
+  locationKey,
+  editDistance,
+  FuzzyLocationIndex,
+  FUZZY_MIN_SCORE,
+  LocationCandidate,
+  LocationMatchMethod,
+} from './locationMatcher.js';
+export { parseEsrRegister, parseUnLocodeCsv, RegistryParseResult } from './locationRegistry.js';
 
@@ -1,9 +1,13 @@
 import { SourceType } from '@prisma/client';
 import { FormatDetector, DetectedFormat } from './formatDetector.js';
-import { UniversalParser } from './universalParser.js';
-import { DataValidator } from './dataValidator.js';
+import { UniversalParser, ParsedItem } from './universalParser.js';
+import { DataValidator, ValidationResult } from './dataValidator.js';
 import { ProcessingLogger, ProcessingLogEntry } from './processingLogger.js';
-import { NormalizedStatusEvent } from '../types/index.js';
+import { ParsingProfile } from './parsingProfile.js';
+import { LearnedRules } from './learnedRules.js';
+import { normalizeShipmentReference } from './shipmentReference.js';
+import { NormalizedStatusEvent, ShipmentRef, VoyageRef } from '../types/index.js';
+import { config } from '../config/index.js';
 
 /**
  * ============================================
@@ -13,6 +17,7 @@ import { NormalizedStatusEvent } from '../types/index.js';
  * Middleware-слой для обработки ЛЮБЫХ входящих данных:
  * - Текстовые сообщения (email, SMS, мессенджеры)
  * - Табличные данные (Excel, CSV, JSON)
+ * - Исходники писем (.eml) с вложениями
  * - Структурированные API-ответы
  * - Обрывки данных, частично битые данные
  * - В будущем: расшифровки голосовых сообщений
@@ -22,11 +27,11 @@ import { NormalizedStatusEvent } from '../types/index.js';
  */
 
 export interface RawInput {
-  /** Сырые данные (строка, объект, массив) */
+  /** Сырые данные (строка, объект, массив, файл Excel) */
   content: string | object | unknown[];
   
   /** Подсказка о типе (если известен) */
-  hint?: 'text' | 'json' | 'csv' | 'table' | 'api';
+  hint?: 'text' | 'json' | 'csv' | 'table' | 'api' | 'eml' | 'xlsx' | 'edi';
   
   /** Метаданные источника */
   metadata?: {
@@ -35,7 +40,57 @@ export interface RawInput {
     sourceCarrierId?: string;
     sourceUrl?: string;
     receivedAt?: string;
+    messageId?: string;
   };
+  
+  /** Профиль разбора перевозчика (если не задан — из ProcessOptions) */
+  profile?: ParsingProfile;
+}
+
+/**
+ * Группа контейнеров, о которой может быть сообщение без номера
+ * контейнера: ЖД-отправка, рейс судна или отгрузка
+ */
+export type ContainerGroup =
+  | { kind: 'dispatch'; dispatchNumber: string }
+  | ({ kind: 'voyage' } & VoyageRef)
+  | ({ kind: 'shipment' } & ShipmentRef);
+
+/**
+ * Данные из БД для разбора
+ *
+ * Подбираются в слое сервисов (parsingContextService.resolve):
+ * InputProcessor к БД не обращается и без опций разбирает
+ * только по содержимому.
+ */
+export interface ProcessOptions {
+  /** Профиль перевозчика, если не задан в RawInput */
+  profile?: ParsingProfile;
+  /** Правила из исправлений логиста */
+  learnedRules?: LearnedRules;
+  /** Номера контейнеров группы; без него сообщения о группе не размножаются */
+  loadGroup?: (group: ContainerGroup) => Promise<string[]>;
+  /** Предупреждения подбора (профиль или правила не загружены) */
+  warnings?: string[];
+}
+
+/**
+ * Почему элемент отправлен на ручную проверку
+ */
+export type ReviewReason = 'LOW_CONFIDENCE' | 'CHECK_DIGIT' | 'INVALID_CONTAINER' | 'NO_CONTAINER';
+
+/**
+ * Элемент, который нельзя сохранить без логиста
+ */
+export interface ReviewCandidate {
+  reasons: ReviewReason[];
+  confidence: number;
+  /** Извлечённые поля (частичные) */
+  data: NormalizedStatusEvent;
+  /** Фрагмент исходника, из которого извлечены поля */
+  rawSnippet: string;
+  /** Ошибки и предупреждения валидации */
+  issues: string[];
 }
 
 export interface ProcessingResult {
@@ -47,6 +102,12 @@ export interface ProcessingResult {
   /** Детектированный формат */
   detectedFormat?: DetectedFormat;
   
+  /** Элементы для очереди ручной проверки (в data не попадают) */
+  review?: ReviewCandidate[];
+  
+  /** Применённый профиль разбора перевозчика */
+  appliedProfile?: { id?: string; name?: string; carrierId?: string };
+  
   /** Ошибки обработки */
   errors?: string[];
   
@@ -76,14 +137,23 @@ export class InputProcessor {
   /**
    * Главный метод обработки входящих данных
    */
-  async process(input: RawInput): Promise<ProcessingResult> {
+  async process(input: RawInput, options: ProcessOptions = {}): Promise<ProcessingResult> {
     const startTime = Date.now();
     const logEntry = this.logger.startProcessing(input);
     
     const errors: string[] = [];
-    const warnings: string[] = [];
+    const warnings: string[] = [...(options.warnings ?? [])];
+    const { learnedRules } = options;
 
     try {
+      // ШАГ 0: Профиль перевозчика
+      if (!input.profile) {
+        input.profile = options.profile;
+      }
+      if (input.profile?.carrierId && input.metadata && !input.metadata.sourceCarrierId) {
+        input.metadata.sourceCarrierId = input.profile.carrierId;
+      }
+
       // ШАГ 1: Определяем формат данных
       const detectedFormat = this.formatDetector.detect(input);
       logEntry.detectedFormat = detectedFormat;
@@ -103,12 +173,37 @@ export class InputProcessor {
         warnings.push(...parsedData.warnings);
       }
 
+      // ШАГ 2.1: Сообщение только об отправке или рейсе — на все их контейнеры
+      const items = await this.expandGroups(parsedData.items, options.loadGroup, warnings);
+
       // ШАГ 3: Валидируем и нормализуем данные
       const normalizedData: NormalizedStatusEvent[] = [];
+      const review: ReviewCandidate[] = [];
       const validationConfidences: number[] = [];
       
-      for (const item of parsedData.items) {
-        const validation = this.dataValidator.validate(item);
+      for (const item of items) {
+        // Время события по умолчанию — время получения (для писем — заголовок Date)
+        if (!item.eventTime && input.metadata?.receivedAt) {
+          item.eventTime = input.metadata.receivedAt;
+        }
+
+        const validation = this.dataValidator.validate(item, learnedRules);
+        const extracted = validation.normalized || validation.partialData;
+        const reasons = extracted ? this.reviewReasons(validation) : [];
+
+        // Сомнительный элемент — в очередь проверки, а не в базу
+        if (extracted && reasons.length > 0) {
+          review.push({
+            reasons,
+            confidence: validation.confidence,
+            data: extracted,
+            rawSnippet: item.rawSource,
+            issues: [...validation.errors, ...validation.warnings],
+          });
+          validationConfidences.push(validation.confidence);
+          warnings.push(`На проверку: ${extracted.containerNumber || 'без номера'} (${reasons.join(', ')})`);
+          continue;
+        }
         
         if (validation.isValid && validation.normalized) {
           normalizedData.push(validation.normalized);
@@ -121,14 +216,8 @@ export class InputProcessor {
             ));
           }
         } else {
-          // Пытаемся восстановить частичные данные только если уверенность > 0.3
-          if (validation.partialData && validation.confidence > 0.3) {
-            normalizedData.push(validation.partialData);
-            validationConfidences.push(validation.confidence);
-            warnings.push(`Частичные данные: ${validation.partialData.containerNumber || 'без номера'} (уверенность ${Math.round(validation.confidence * 100)}%)`);
-          } else {
-            errors.push(`Ошибка валидации: ${validation.errors.join(', ')}`);
-          }
+          // Частичные данные ушли в очередь проверки выше — здесь только мусор
+          errors.push(`Ошибка валидации: ${validation.errors.join(', ')}`);
         }
       }
       
@@ -142,7 +231,7 @@ export class InputProcessor {
       logEntry.outputItemsCount = normalizedData.length;
       logEntry.errors = errors;
       logEntry.warnings = warnings;
-      logEntry.success = normalizedData.length > 0;
+      logEntry.success = normalizedData.length > 0 || review.length > 0;
 
       // Рассчитываем общую уверенность (используем среднюю уверенность валидации)
       const confidence = avgValidationConfidence > 0 
@@ -150,9 +239,13 @@ export class InputProcessor {
         : this.calculateConfidence(detectedFormat, parsedData, normalizedData, errors);
 
       return {
-        success: normalizedData.length > 0,
+        success: normalizedData.length > 0 || review.length > 0,
         data: normalizedData.length > 0 ? normalizedData : undefined,
+        review: review.length > 0 ? review : undefined,
         detectedFormat,
+        appliedProfile: input.profile
+          ? { id: input.profile.id, name: input.profile.name, carrierId: input.profile.carrierId }
+          : undefined,
         errors: errors.length > 0 ? errors : undefined,
         warnings: warnings.length > 0 ? warnings : undefined,
         processingLog: logEntry,
@@ -176,10 +269,101 @@ export class InputProcessor {
     }
   }
 
+  /**
+   * Причины отправить элемент на ручную проверку
+   *
+   * Частичные данные (не прошедшие валидацию) проверяются всегда.
+   */
+  private reviewReasons(validation: ValidationResult): ReviewReason[] {
+    const reasons: ReviewReason[] = [];
+    const container = validation.validationDetails.containerValidation;
+    const extracted = validation.normalized || validation.partialData;
+
+    if (!extracted?.containerNumber) {
+      reasons.push('NO_CONTAINER');
+    } else if (container && !container.isValid) {
+      reasons.push('INVALID_CONTAINER');
+    } else if (container && !container.details.checkDigitValid) {
+      reasons.push('CHECK_DIGIT');
+    }
+
+    if (validation.confidence < config.review.confidenceThreshold || (!validation.isValid && reasons.length === 0)) {
+      reasons.push('LOW_CONFIDENCE');
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Элементы без контейнера, но с номером известной отправки
+   * (судном и рейсом, коносаментом или букингом), размножаются
+   * на все контейнеры группы
+   *
+   * Неизвестная группа (или недоступная БД) — элемент остаётся
+   * как есть и уходит в очередь проверки без номера контейнера.
+   */
+  private async expandGroups(
+    items: ParsedItem[],
+    loadGroup: ProcessOptions['loadGroup'],
+    warnings: string[]
+  ): Promise<ParsedItem[]> {
+    if (!loadGroup) return items;
+
+    const expanded: ParsedItem[] = [];
+
+    for (const item of items) {
+      const group = item.containerNumber ? undefined : this.containerGroup(item);
+      if (!group) {
+        expanded.push(item);
+        continue;
+      }
+
+      let containerNumbers: string[] = [];
+      try {
+        containerNumbers = await loadGroup(group);
+      } catch (error) {
+        warnings.push(`Контейнеры (${groupLabel(group)}) не загружены: ${error instanceof Error ? error.message : 'unknown'}`);
+      }
+
+      if (containerNumbers.length === 0) {
+        expanded.push(item);
+        continue;
+      }
+
+      warnings.push(`${groupLabel(group)}: статус применён к ${containerNumbers.length} контейнерам`);
+      for (const containerNumber of containerNumbers) {
+        expanded.push({ ...item, containerNumber });
+      }
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Группа контейнеров, к которой относится элемент: отправка, рейс
+   * или отгрузка
+   */
+  private containerGroup(item: ParsedItem): ContainerGroup | undefined {
+    const { dispatchNumber, vesselName, imoNumber, voyageNumber } = item;
+    const blNumber = item.blNumber && normalizeShipmentReference(item.blNumber);
+    const bookingNumber = item.bookingNumber && normalizeShipmentReference(item.bookingNumber);
+
+    if (dispatchNumber) {
+      return { kind: 'dispatch', dispatchNumber };
+    }
+    if (voyageNumber && (vesselName || imoNumber)) {
+      return { kind: 'voyage', vesselName, imoNumber, voyageNumber };
+    }
+    if (blNumber || bookingNumber) {
+      return { kind: 'shipment', blNumber, bookingNumber };
+    }
+    return undefined;
+  }
+
   /**
    * Пакетная обработка (для CSV/Excel с множеством строк)
    */
-  async processBatch(inputs: RawInput[]): Promise<{
+  async processBatch(inputs: RawInput[], options: ProcessOptions = {}): Promise<{
     results: ProcessingResult[];
     summary: {
       total: number;
@@ -188,7 +372,7 @@ export class InputProcessor {
       partialSuccess: number;
     };
   }> {
-    const results = await Promise.all(inputs.map(input => this.process(input)));
+    const results = await Promise.all(inputs.map(input => this.process(input, options)));
     
     return {
       results,
@@ -244,5 +428,19 @@ export class InputProcessor {
   }
 }
 
+/**
+ * Группа для предупреждений: "Отправка 12345678"
+ */
+function groupLabel(group: ContainerGroup): string {
+  switch (group.kind) {
+    case 'dispatch':
+      return `Отправка ${group.dispatchNumber}`;
+    case 'voyage':
+      return `Рейс ${group.voyageNumber} (${group.vesselName ?? `IMO ${group.imoNumber}`})`;
+    case 'shipment':
+      return group.blNumber ? `Коносамент ${group.blNumber}` : `Букинг ${group.bookingNumber}`;
+  }
+}
+
 export const inputProcessor = new InputProcessor();
 
@@ -0,0 +1,74 @@
+import { StatusCode } from '@prisma/client';
+
+/**
+ * ============================================
+ * LEARNED RULES - Правила из исправлений логиста
+ * ============================================
+ *
+ * Когда логист исправляет элемент очереди проверки, пара
+ * «исходная фраза → исправленное поле» становится правилом:
+ * - написание локации → название из справочника
+ * - текст статуса оператора → StatusCode
+ * - код владельца из сообщений перевозчика → правильный код
+ *
+ * Правила перевозчика применяются только к его сообщениям,
+ * глобальные — ко всем; правило перевозчика важнее глобального.
+ */
+
+export interface LearnedRules {
+  /** Фраза локации (нижний регистр) → название */
+  locationAliases: Map<string, string>;
+  /** Текст статуса (нижний регистр) → StatusCode */
+  statusPhrases: Map<string, StatusCode>;
+  /** Код владельца → исправленный код */
+  ownerCodes: Map<string, string>;
+}
+
+export function emptyLearnedRules(): LearnedRules {
+  return {
+    locationAliases: new Map(),
+    statusPhrases: new Map(),
+    ownerCodes: new Map(),
+  };
+}
+
+/**
+ * Нормализация фразы для сравнения: регистр, пробелы, точка в конце
+ */
+export function normalizePhrase(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/\s+/g, ' ')
+    .replace(/[.;,]+$/, '')
+    .trim();
+}
+
+/**
+ * Выученное название локации
+ */
+export function matchLearnedLocation(text: string, rules?: LearnedRules): string | undefined {
+  if (!rules || rules.locationAliases.size === 0) return undefined;
+  return rules.locationAliases.get(normalizePhrase(text));
+}
+
+/**
+ * Выученный статус по тексту оператора
+ */
+export function matchLearnedStatus(text: string | undefined, rules?: LearnedRules): StatusCode | undefined {
+  if (!text || !rules || rules.statusPhrases.size === 0) return undefined;
+  return rules.statusPhrases.get(normalizePhrase(text));
+}
+
+/**
+ * Замена кода владельца по выученному правилу
+ *
+ * Возвращает исправленный номер или undefined, если правила нет.
+ */
+export function applyOwnerCodeOverride(containerNumber: string, rules?: LearnedRules): string | undefined {
+  if (!rules || rules.ownerCodes.size === 0) return undefined;
+
+  const cleaned = containerNumber.replace(/[\s-]/g, '').toUpperCase();
+  const override = rules.ownerCodes.get(cleaned.slice(0, 4));
+  return override ? override + cleaned.slice(4) : undefined;
+}
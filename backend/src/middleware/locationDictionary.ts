@@ -1,3 +1,5 @@
+import { FuzzyLocationIndex, LocationCandidate, LocationMatchMethod } from './locationMatcher.js';
+
 /**
  * ============================================
  * LOCATION DICTIONARY - Справочник локаций
@@ -5,6 +7,11 @@
  * 
  * База известных станций, портов и городов
  * для повышения точности определения локаций.
+ *
+ * Справочник хранится в БД (модель Location) и редактируется
+ * через API; здесь — встроенный набор и индекс в памяти, который
+ * перестраивается при изменениях (rebuildLocationIndex), чтобы
+ * findLocation оставался синхронным.
  */
 
 export type LocationType = 'STATION' | 'PORT' | 'CITY' | 'WAREHOUSE' | 'CUSTOMS';
@@ -15,6 +22,10 @@ export interface KnownLocation {
   aliases: string[];
   region?: string;
   country: string;
+  /** Код UN/LOCODE (для EDI и DCSA) */
+  unLocode?: string;
+  /** Код станции ЕСР (РЖД) */
+  esrCode?: string;
 }
 
 // Известные ЖД станции России
@@ -23,19 +34,19 @@ const RUSSIAN_STATIONS: KnownLocation[] = [
   { name: 'Гончарово', type: 'STATION', aliases: ['гончарово', 'goncharovo'], region: 'Забайкальский край', country: 'RU' },
   { name: 'Забайкальск', type: 'STATION', aliases: ['забайкальск', 'zabaikalsk'], region: 'Забайкальский край', country: 'RU' },
   { name: 'Наушки', type: 'STATION', aliases: ['наушки', 'naushki'], region: 'Бурятия', country: 'RU' },
-  { name: 'Новосибирск', type: 'STATION', aliases: ['новосибирск', 'новосиб', 'novosibirsk', 'нск'], region: 'Новосибирская обл.', country: 'RU' },
+  { name: 'Новосибирск', type: 'STATION', aliases: ['новосибирск', 'новосиб', 'novosibirsk', 'нск'], region: 'Новосибирская обл.', country: 'RU', unLocode: 'RUOVB' },
   { name: 'Екатеринбург', type: 'STATION', aliases: ['екатеринбург', 'екб', 'ekaterinburg', 'yekaterinburg'], region: 'Свердловская обл.', country: 'RU' },
-  { name: 'Красноярск', type: 'STATION', aliases: ['красноярск', 'krasnoyarsk'], region: 'Красноярский край', country: 'RU' },
-  { name: 'Иркутск', type: 'STATION', aliases: ['иркутск', 'irkutsk'], region: 'Иркутская обл.', country: 'RU' },
-  { name: 'Хабаровск', type: 'STATION', aliases: ['хабаровск', 'khabarovsk'], region: 'Хабаровский край', country: 'RU' },
+  { name: 'Красноярск', type: 'STATION', aliases: ['красноярск', 'krasnoyarsk'], region: 'Красноярский край', country: 'RU', unLocode: 'RUKJA' },
+  { name: 'Иркутск', type: 'STATION', aliases: ['иркутск', 'irkutsk'], region: 'Иркутская обл.', country: 'RU', unLocode: 'RUIKT' },
+  { name: 'Хабаровск', type: 'STATION', aliases: ['хабаровск', 'khabarovsk'], region: 'Хабаровский край', country: 'RU', unLocode: 'RUKHV' },
   { name: 'Чита', type: 'STATION', aliases: ['чита', 'chita'], region: 'Забайкальский край', country: 'RU' },
   { name: 'Улан-Удэ', type: 'STATION', aliases: ['улан-удэ', 'улан удэ', 'ulan-ude'], region: 'Бурятия', country: 'RU' },
-  { name: 'Омск', type: 'STATION', aliases: ['омск', 'omsk'], region: 'Омская обл.', country: 'RU' },
+  { name: 'Омск', type: 'STATION', aliases: ['омск', 'omsk'], region: 'Омская обл.', country: 'RU', unLocode: 'RUOMS' },
   { name: 'Тюмень', type: 'STATION', aliases: ['тюмень', 'tyumen'], region: 'Тюменская обл.', country: 'RU' },
   { name: 'Пермь', type: 'STATION', aliases: ['пермь', 'perm'], region: 'Пермский край', country: 'RU' },
-  { name: 'Казань', type: 'STATION', aliases: ['казань', 'kazan'], region: 'Татарстан', country: 'RU' },
+  { name: 'Казань', type: 'STATION', aliases: ['казань', 'kazan'], region: 'Татарстан', country: 'RU', unLocode: 'RUKZN' },
   { name: 'Нижний Новгород', type: 'STATION', aliases: ['нижний новгород', 'нн', 'nizhniy novgorod'], region: 'Нижегородская обл.', country: 'RU' },
-  { name: 'Москва', type: 'STATION', aliases: ['москва', 'мск', 'moscow'], region: 'Москва', country: 'RU' },
+  { name: 'Москва', type: 'STATION', aliases: ['москва', 'мск', 'moscow'], region: 'Москва', country: 'RU', unLocode: 'RUMOW' },
   { name: 'Орехово-Зуево', type: 'STATION', aliases: ['орехово-зуево', 'орехово зуево', 'orekhovo-zuevo'], region: 'Московская обл.', country: 'RU' },
   { name: 'Санкт-Петербург', type: 'STATION', aliases: ['санкт-петербург', 'спб', 'питер', 'saint-petersburg'], region: 'Санкт-Петербург', country: 'RU' },
   { name: 'Ворсино', type: 'STATION', aliases: ['ворсино', 'vorsino'], region: 'Калужская обл.', country: 'RU' },
@@ -45,27 +56,27 @@ const RUSSIAN_STATIONS: KnownLocation[] = [
 
 // Известные порты
 const PORTS: KnownLocation[] = [
-  { name: 'Владивосток', type: 'PORT', aliases: ['владивосток', 'vladivostok', 'влад'], region: 'Приморский край', country: 'RU' },
-  { name: 'Восточный', type: 'PORT', aliases: ['восточный', 'vostochny', 'порт восточный'], region: 'Приморский край', country: 'RU' },
-  { name: 'Находка', type: 'PORT', aliases: ['находка', 'nakhodka'], region: 'Приморский край', country: 'RU' },
-  { name: 'Новороссийск', type: 'PORT', aliases: ['новороссийск', 'novorossiysk', 'нврс'], region: 'Краснодарский край', country: 'RU' },
-  { name: 'Санкт-Петербург', type: 'PORT', aliases: ['большой порт спб', 'порт спб'], region: 'Санкт-Петербург', country: 'RU' },
-  { name: 'Шанхай', type: 'PORT', aliases: ['шанхай', 'shanghai', 'sha'], region: '', country: 'CN' },
-  { name: 'Циндао', type: 'PORT', aliases: ['циндао', 'qingdao', 'tsingtao'], region: '', country: 'CN' },
-  { name: 'Нинбо', type: 'PORT', aliases: ['нинбо', 'ningbo'], region: '', country: 'CN' },
-  { name: 'Далянь', type: 'PORT', aliases: ['далянь', 'dalian', 'дальний'], region: '', country: 'CN' },
-  { name: 'Тяньцзинь', type: 'PORT', aliases: ['тяньцзинь', 'tianjin'], region: '', country: 'CN' },
-  { name: 'Гуанчжоу', type: 'PORT', aliases: ['гуанчжоу', 'guangzhou', 'кантон'], region: '', country: 'CN' },
-  { name: 'Шэньчжэнь', type: 'PORT', aliases: ['шэньчжэнь', 'shenzhen'], region: '', country: 'CN' },
-  { name: 'Сямынь', type: 'PORT', aliases: ['сямынь', 'xiamen', 'амой'], region: '', country: 'CN' },
-  { name: 'Пусан', type: 'PORT', aliases: ['пусан', 'busan', 'pusan'], region: '', country: 'KR' },
-  { name: 'Инчхон', type: 'PORT', aliases: ['инчхон', 'incheon'], region: '', country: 'KR' },
-  { name: 'Сингапур', type: 'PORT', aliases: ['сингапур', 'singapore'], region: '', country: 'SG' },
-  { name: 'Гонконг', type: 'PORT', aliases: ['гонконг', 'hong kong', 'hongkong'], region: '', country: 'HK' },
-  { name: 'Токио', type: 'PORT', aliases: ['токио', 'tokyo'], region: '', country: 'JP' },
-  { name: 'Иокогама', type: 'PORT', aliases: ['иокогама', 'yokohama'], region: '', country: 'JP' },
-  { name: 'Роттердам', type: 'PORT', aliases: ['роттердам', 'rotterdam'], region: '', country: 'NL' },
-  { name: 'Гамбург', type: 'PORT', aliases: ['гамбург', 'hamburg'], region: '', country: 'DE' },
+  { name: 'Владивосток', type: 'PORT', aliases: ['владивосток', 'vladivostok', 'влад'], region: 'Приморский край', country: 'RU', unLocode: 'RUVVO' },
+  { name: 'Восточный', type: 'PORT', aliases: ['восточный', 'vostochny', 'порт восточный'], region: 'Приморский край', country: 'RU', unLocode: 'RUVYP' },
+  { name: 'Находка', type: 'PORT', aliases: ['находка', 'nakhodka'], region: 'Приморский край', country: 'RU', unLocode: 'RUNJK' },
+  { name: 'Новороссийск', type: 'PORT', aliases: ['новороссийск', 'novorossiysk', 'нврс'], region: 'Краснодарский край', country: 'RU', unLocode: 'RUNVS' },
+  { name: 'Санкт-Петербург', type: 'PORT', aliases: ['большой порт спб', 'порт спб'], region: 'Санкт-Петербург', country: 'RU', unLocode: 'RULED' },
+  { name: 'Шанхай', type: 'PORT', aliases: ['шанхай', 'shanghai', 'sha'], region: '', country: 'CN', unLocode: 'CNSHA' },
+  { name: 'Циндао', type: 'PORT', aliases: ['циндао', 'qingdao', 'tsingtao'], region: '', country: 'CN', unLocode: 'CNTAO' },
+  { name: 'Нинбо', type: 'PORT', aliases: ['нинбо', 'ningbo'], region: '', country: 'CN', unLocode: 'CNNGB' },
+  { name: 'Далянь', type: 'PORT', aliases: ['далянь', 'dalian', 'дальний'], region: '', country: 'CN', unLocode: 'CNDLC' },
+  { name: 'Тяньцзинь', type: 'PORT', aliases: ['тяньцзинь', 'tianjin'], region: '', country: 'CN', unLocode: 'CNTSN' },
+  { name: 'Гуанчжоу', type: 'PORT', aliases: ['гуанчжоу', 'guangzhou', 'кантон'], region: '', country: 'CN', unLocode: 'CNCAN' },
+  { name: 'Шэньчжэнь', type: 'PORT', aliases: ['шэньчжэнь', 'shenzhen'], region: '', country: 'CN', unLocode: 'CNSZX' },
+  { name: 'Сямынь', type: 'PORT', aliases: ['сямынь', 'xiamen', 'амой'], region: '', country: 'CN', unLocode: 'CNXMN' },
+  { name: 'Пусан', type: 'PORT', aliases: ['пусан', 'busan', 'pusan'], region: '', country: 'KR', unLocode: 'KRPUS' },
+  { name: 'Инчхон', type: 'PORT', aliases: ['инчхон', 'incheon'], region: '', country: 'KR', unLocode: 'KRINC' },
+  { name: 'Сингапур', type: 'PORT', aliases: ['сингапур', 'singapore'], region: '', country: 'SG', unLocode: 'SGSIN' },
+  { name: 'Гонконг', type: 'PORT', aliases: ['гонконг', 'hong kong', 'hongkong'], region: '', country: 'HK', unLocode: 'HKHKG' },
+  { name: 'Токио', type: 'PORT', aliases: ['токио', 'tokyo'], region: '', country: 'JP', unLocode: 'JPTYO' },
+  { name: 'Иокогама', type: 'PORT', aliases: ['иокогама', 'yokohama'], region: '', country: 'JP', unLocode: 'JPYOK' },
+  { name: 'Роттердам', type: 'PORT', aliases: ['роттердам', 'rotterdam'], region: '', country: 'NL', unLocode: 'NLRTM' },
+  { name: 'Гамбург', type: 'PORT', aliases: ['гамбург', 'hamburg'], region: '', country: 'DE', unLocode: 'DEHAM' },
 ];
 
 // Склады и СВХ
@@ -75,21 +86,110 @@ const WAREHOUSES: KnownLocation[] = [
   { name: 'Терминал Ворсино', type: 'WAREHOUSE', aliases: ['терминал ворсино', 'ворсино терминал'], region: 'Калужская обл.', country: 'RU' },
 ];
 
-// Объединяем все локации
-export const ALL_LOCATIONS: KnownLocation[] = [
+// Встроенный справочник — начальное наполнение БД
+export const DEFAULT_LOCATIONS: KnownLocation[] = [
   ...RUSSIAN_STATIONS,
   ...PORTS,
   ...WAREHOUSES,
 ];
 
-// Построение индекса для быстрого поиска
-const locationIndex = new Map<string, KnownLocation>();
+/** Ключи короче — только целым словом ("нн", "мск" внутри слов не ищем) */
+const PREFIX_LENGTH = 3;
+
+// Индексы для быстрого поиска
+let indexedLocations: KnownLocation[] = [];
+let locationIndex = new Map<string, KnownLocation>();
+let unLocodeIndex = new Map<string, KnownLocation>();
+let esrIndex = new Map<string, KnownLocation>();
+// Первые символы ключа → ключи (длинные первыми)
+let prefixIndex = new Map<string, string[]>();
+let shortKeys = new Set<string>();
+// Скелеты названий для транслитерации и опечаток
+let fuzzyIndex = new FuzzyLocationIndex([]);
+
+/**
+ * Перестроение индексов по списку локаций
+ *
+ * При совпадении написаний побеждает локация, идущая позже.
+ */
+export function rebuildLocationIndex(locations: KnownLocation[]): void {
+  const byKey = new Map<string, KnownLocation>();
+  const byUnLocode = new Map<string, KnownLocation>();
+  const byEsr = new Map<string, KnownLocation>();
 
-for (const loc of ALL_LOCATIONS) {
-  locationIndex.set(loc.name.toLowerCase(), loc);
-  for (const alias of loc.aliases) {
-    locationIndex.set(alias.toLowerCase(), loc);
+  for (const loc of locations) {
+    byKey.set(loc.name.toLowerCase(), loc);
+    for (const alias of loc.aliases) {
+      byKey.set(alias.toLowerCase(), loc);
+    }
+    if (loc.unLocode) {
+      byUnLocode.set(loc.unLocode, loc);
+    }
+    if (loc.esrCode) {
+      // Код ЕСР пишут и без контрольной цифры
+      byEsr.set(loc.esrCode, loc);
+      byEsr.set(loc.esrCode.slice(0, 5), loc);
+    }
   }
+
+  const byPrefix = new Map<string, string[]>();
+  const short = new Set<string>();
+  for (const key of byKey.keys()) {
+    if (key.length < PREFIX_LENGTH) {
+      short.add(key);
+      continue;
+    }
+    const prefix = key.slice(0, PREFIX_LENGTH);
+    const keys = byPrefix.get(prefix);
+    if (keys) keys.push(key);
+    else byPrefix.set(prefix, [key]);
+  }
+  for (const keys of byPrefix.values()) {
+    keys.sort((a, b) => b.length - a.length);
+  }
+
+  indexedLocations = locations;
+  locationIndex = byKey;
+  unLocodeIndex = byUnLocode;
+  esrIndex = byEsr;
+  prefixIndex = byPrefix;
+  shortKeys = short;
+  fuzzyIndex = new FuzzyLocationIndex(byKey);
+}
+
+rebuildLocationIndex(DEFAULT_LOCATIONS);
+
+/**
+ * Локации, по которым сейчас построен индекс
+ */
+export function getIndexedLocations(): KnownLocation[] {
+  return indexedLocations;
+}
+
+/**
+ * Самое длинное известное написание внутри текста
+ *
+ * Смотрим только ключи, начинающиеся с символов в каждой позиции,
+ * — время не зависит от размера справочника.
+ */
+function matchIndexKey(lowerText: string): string | undefined {
+  let best: string | undefined;
+
+  for (let i = 0; i <= lowerText.length - PREFIX_LENGTH; i++) {
+    const candidates = prefixIndex.get(lowerText.slice(i, i + PREFIX_LENGTH));
+    if (!candidates) continue;
+
+    for (const key of candidates) {
+      if (best && key.length <= best.length) break;
+      if (lowerText.startsWith(key, i)) {
+        best = key;
+        break;
+      }
+    }
+  }
+
+  if (best || shortKeys.size === 0) return best;
+  return lowerText.split(/[^a-zа-яё0-9]+/).find(word => shortKeys.has(word));
 }
 
 export interface LocationMatchResult {
@@ -97,86 +197,147 @@ export interface LocationMatchResult {
   location?: KnownLocation;
   matchedText: string;
   confidence: number;
+  /** Как найдена лучшая локация */
+  method?: LocationMatchMethod;
+  /** Кандидаты с оценками, лучший первым */
+  candidates: LocationCandidate[];
+}
+
+/** Кандидаты ближе этой разницы оценок считаются неоднозначными */
+export const AMBIGUOUS_SCORE_GAP = 0.05;
+
+function matched(
+  location: KnownLocation,
+  score: number,
+  matchedText: string,
+  method: LocationMatchMethod
+): LocationMatchResult {
+  return {
+    found: true,
+    location,
+    matchedText,
+    confidence: score,
+    method,
+    candidates: [{ location, score, matchedText, method }],
+  };
 }
 
 /**
  * Поиск локации в тексте
+ *
+ * Порядок: коды UN/LOCODE и ЕСР → точное написание из справочника →
+ * транслитерация и опечатки (ранжированные кандидаты) →
+ * неизвестная станция/порт по паттерну "ст. X" / "порт X".
  */
 export function findLocation(text: string): LocationMatchResult {
   const lowerText = text.toLowerCase();
   
-  // Сначала ищем точное совпадение
-  for (const [key, loc] of locationIndex) {
-    if (lowerText.includes(key)) {
-      return {
-        found: true,
-        location: loc,
-        matchedText: key,
-        confidence: 0.95, // Высокая уверенность при точном совпадении
-      };
-    }
+  // Код UN/LOCODE ("RUVVO", "RU VVO") из EDI-сообщений
+  const byCode = findLocationByUnLocode(text);
+  if (byCode) {
+    return matched(byCode, 0.98, text.trim(), 'code');
   }
   
-  // Ищем паттерны "ст. X" или "станция X"
-  const stationMatch = text.match(/(?:ст\.|станци[яи])\s+([А-Яа-яёЁA-Za-z\-]+)/i);
-  if (stationMatch) {
-    const stationName = stationMatch[1].toLowerCase();
-    const loc = locationIndex.get(stationName);
-    if (loc) {
-      return {
-        found: true,
-        location: loc,
-        matchedText: stationMatch[0],
-        confidence: 0.95,
-      };
-    }
-    // Станция найдена но не в справочнике
+  // Код станции ЕСР ("980003") из выгрузок РЖД
+  const byEsr = findLocationByEsrCode(text);
+  if (byEsr) {
+    return matched(byEsr, 0.98, text.trim(), 'code');
+  }
+  
+  // Сначала ищем точное совпадение
+  const key = matchIndexKey(lowerText);
+  if (key) {
+    // Высокая уверенность при точном совпадении
+    return matched(locationIndex.get(key)!, 0.95, key, 'exact');
+  }
+
+  // Другая транслитерация ("Zabaykalsk") или опечатка ("Гончорово")
+  const candidates = fuzzyIndex.search(text);
+  if (candidates.length > 0) {
+    const [best] = candidates;
     return {
       found: true,
-      location: {
-        name: stationMatch[1],
-        type: 'STATION',
-        aliases: [],
-        country: 'RU',
-      },
-      matchedText: stationMatch[0],
-      confidence: 0.7, // Средняя уверенность - станция найдена но неизвестна
+      location: best.location,
+      matchedText: best.matchedText,
+      confidence: best.score,
+      method: best.method,
+      candidates,
     };
   }
   
+  // Ищем паттерны "ст. X" или "станция X" — станция не в справочнике
+  const stationMatch = text.match(/(?:ст\.|станци[яи])\s*([А-Яа-яёЁA-Za-z\-]+)/i);
+  if (stationMatch) {
+    const location: KnownLocation = {
+      name: stationMatch[1],
+      type: 'STATION',
+      aliases: [],
+      country: 'RU',
+    };
+    // Средняя уверенность - станция найдена но неизвестна
+    return matched(location, 0.7, stationMatch[0], 'pattern');
+  }
+  
   // Ищем паттерны "порт X"
   const portMatch = text.match(/(?:порт|port)\s+([А-Яа-яёЁA-Za-z\-]+)/i);
   if (portMatch) {
-    const portName = portMatch[1].toLowerCase();
-    const loc = locationIndex.get(portName);
-    if (loc) {
-      return {
-        found: true,
-        location: loc,
-        matchedText: portMatch[0],
-        confidence: 0.95,
-      };
-    }
-    return {
-      found: true,
-      location: {
-        name: portMatch[1],
-        type: 'PORT',
-        aliases: [],
-        country: 'UNKNOWN',
-      },
-      matchedText: portMatch[0],
-      confidence: 0.7,
+    const location: KnownLocation = {
+      name: portMatch[1],
+      type: 'PORT',
+      aliases: [],
+      country: 'UNKNOWN',
     };
+    return matched(location, 0.7, portMatch[0], 'pattern');
   }
   
   return {
     found: false,
     matchedText: '',
     confidence: 0,
+    candidates: [],
   };
 }
 
+/**
+ * Близкие по оценке кандидаты — разные локации
+ */
+export function isAmbiguousMatch(result: LocationMatchResult): boolean {
+  const [first, second] = result.candidates;
+  return !!first && !!second
+    && first.location.name !== second.location.name
+    && first.score - second.score < AMBIGUOUS_SCORE_GAP;
+}
+
+/**
+ * Поиск локации по коду UN/LOCODE
+ */
+export function findLocationByUnLocode(code: string): KnownLocation | undefined {
+  const normalized = code.trim().toUpperCase().replace(/\s+/g, '');
+  if (!/^[A-Z]{2}[A-Z2-9]{3}$/.test(normalized)) return undefined;
+  return unLocodeIndex.get(normalized);
+}
+
+/**
+ * Поиск станции по коду ЕСР (6 цифр или 5 без контрольной)
+ */
+export function findLocationByEsrCode(code: string): KnownLocation | undefined {
+  const normalized = code.trim();
+  if (!/^\d{5,6}$/.test(normalized)) return undefined;
+  return esrIndex.get(normalized);
+}
+
+/**
+ * Код UN/LOCODE по названию локации (если известен)
+ */
+export function unLocodeForLocation(name: string): string | undefined {
+  const normalized = name.trim().toLowerCase();
+  const loc = locationIndex.get(normalized);
+  if (loc?.unLocode) return loc.unLocode;
+
+  // Станция и порт с одним названием (Санкт-Петербург)
+  return indexedLocations.find(l => l.unLocode && l.name.toLowerCase() === normalized)?.unLocode;
+}
+
 /**
  * Нормализация названия локации
  */
@@ -0,0 +1,57 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { findLocation, isAmbiguousMatch, rebuildLocationIndex, DEFAULT_LOCATIONS } from './locationDictionary.js';
+import { locationKey, locationWords } from './locationMatcher.js';
+
+describe('findLocation', () => {
+  afterEach(() => rebuildLocationIndex(DEFAULT_LOCATIONS));
+
+  it('finds a known name inside a longer station designation', () => {
+    expect(findLocation('Goncharovo-Sort')).toMatchObject({ location: { name: 'Гончарово' }, method: 'exact' });
+    expect(findLocation('ст.Гончарово Заб.')).toMatchObject({ location: { name: 'Гончарово' }, method: 'exact' });
+  });
+
+  it('matches another transliteration of the same name', () => {
+    const result = findLocation('Zabaykalsk');
+
+    expect(result).toMatchObject({ found: true, location: { name: 'Забайкальск' }, method: 'translit', confidence: 0.9 });
+    expect(locationKey('Zabaykalsk')).toBe(locationKey('Забайкальск'));
+  });
+
+  it('accepts a typo with a lower confidence', () => {
+    const result = findLocation('Гончорово');
+
+    expect(result).toMatchObject({ location: { name: 'Гончарово' }, method: 'fuzzy' });
+    expect(result.confidence).toBeLessThan(0.9);
+    expect(result.confidence).toBeGreaterThanOrEqual(0.75 * 0.9);
+  });
+
+  it('prefers codes and falls back to the station pattern', () => {
+    expect(findLocation('RU VVO')).toMatchObject({ location: { name: 'Владивосток' }, method: 'code' });
+    expect(findLocation('прибыл на ст. Неизвестная')).toMatchObject({
+      location: { name: 'Неизвестная', type: 'STATION' },
+      method: 'pattern',
+      confidence: 0.7,
+    });
+  });
+
+  it('flags two different stations with close scores as ambiguous', () => {
+    rebuildLocationIndex([
+      ...DEFAULT_LOCATIONS,
+      { name: 'Бердск', type: 'STATION', aliases: ['бердск'], country: 'RU' },
+      { name: 'Берцк', type: 'STATION', aliases: ['берцк'], country: 'RU' },
+    ]);
+
+    const typo = findLocation('Бердцк');
+    expect(typo.candidates.map(c => c.location.name).sort()).toEqual(['Бердск', 'Берцк']);
+    expect(isAmbiguousMatch(typo)).toBe(true);
+
+    expect(isAmbiguousMatch(findLocation('Berdsk'))).toBe(false);
+  });
+});
+
+describe('locationWords', () => {
+  it('drops station and port prefixes', () => {
+    expect(locationWords('ст.Гончарово Заб.')).toEqual(['Гончарово', 'Заб']);
+    expect(locationWords('порт Восточный')).toEqual(['Восточный']);
+  });
+});
@@ -0,0 +1,209 @@
+import type { KnownLocation } from './locationDictionary.js';
+
+/**
+ * ============================================
+ * LOCATION MATCHER - Нечёткий поиск локаций
+ * ============================================
+ *
+ * Для написаний, которых нет среди алиасов справочника:
+ * - транслитерация кириллица ↔ латиница (ГОСТ 7.79 и варианты
+ *   перевозчиков: Zabaykalsk / Zabaikalsk / Забайкальск)
+ * - отбрасывание префиксов "ст.", "st.", "порт", "г."
+ * - расстояние Левенштейна для опечаток ("Гончорово")
+ *
+ * Сравнение идёт по «скелету» — латинской записи без различий
+ * в передаче й/ы/х/ц и удвоенных букв.
+ */
+
+export type LocationMatchMethod = 'code' | 'exact' | 'translit' | 'fuzzy' | 'pattern';
+
+export interface LocationCandidate {
+  location: KnownLocation;
+  /** Оценка совпадения (0-1) */
+  score: number;
+  matchedText: string;
+  method: LocationMatchMethod;
+}
+
+/** Ниже этой оценки нечёткое совпадение не считается найденным */
+export const FUZZY_MIN_SCORE = 0.75;
+
+/** Короткие скелеты не ищем нечётко — слишком много ложных совпадений */
+const FUZZY_MIN_LENGTH = 4;
+
+/** Сколько слов подряд пробуем как название */
+const MAX_PHRASE_WORDS = 3;
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z',
+  и: 'i', й: 'i', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r',
+  с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch',
+  ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya',
+};
+
+// Варианты латинской записи → одна форма (порядок важен: длинные первыми)
+const LATIN_VARIANTS: Array<[RegExp, string]> = [
+  [/shch|sch/g, 'sh'],
+  [/tch/g, 'ch'],
+  [/kh|x/g, 'h'],
+  [/ts|tz|c(?![h])/g, 'c'],
+  [/w/g, 'v'],
+  [/[yj]/g, 'i'],
+  [/ie/g, 'e'],
+  [/([a-z])\1+/g, '$1'],
+];
+
+// Слова-пометки, не входящие в название
+const LOCATION_PREFIXES = /^(?:ст|станция|станции|st|stn|station|порт|port|г|гор|город|пос|п|рзд|о\.?п|жд|ж\/д)\.?$/i;
+
+/**
+ * Кириллица → латиница
+ */
+export function transliterate(text: string): string {
+  let result = '';
+  for (const char of text.toLowerCase()) {
+    result += CYRILLIC_TO_LATIN[char] ?? char;
+  }
+  return result;
+}
+
+/**
+ * Скелет названия для сравнения написаний
+ */
+export function locationKey(text: string): string {
+  let key = transliterate(text).replace(/[^a-z0-9]+/g, ' ').trim();
+  for (const [pattern, replacement] of LATIN_VARIANTS) {
+    key = key.replace(pattern, replacement);
+  }
+  return key;
+}
+
+/**
+ * Слова текста без префиксов "ст.", "порт" и знаков препинания
+ */
+export function locationWords(text: string): string[] {
+  return text
+    .split(/[\s,;:()«»"/]+|(?<=\.)|-/)
+    .map(word => word.trim())
+    .filter(word => word && !LOCATION_PREFIXES.test(word))
+    .map(word => word.replace(/\.$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Расстояние Левенштейна
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Оценка близости скелетов (1 — совпадение)
+ */
+export function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 0 : 1 - editDistance(a, b) / length;
+}
+
+/**
+ * Индекс скелетов названий и алиасов
+ *
+ * Кандидаты для нечёткого сравнения отбираются по первой букве
+ * и длине — время поиска не растёт линейно со справочником.
+ */
+export class FuzzyLocationIndex {
+  private byKey = new Map<string, KnownLocation>();
+  private buckets = new Map<string, string[]>();
+
+  constructor(entries: Iterable<[string, KnownLocation]>) {
+    for (const [text, location] of entries) {
+      const key = locationKey(text);
+      if (!key) continue;
+      // Как и в основном индексе, побеждает локация, идущая позже
+      this.byKey.set(key, location);
+    }
+
+    for (const key of this.byKey.keys()) {
+      if (key.length < FUZZY_MIN_LENGTH) continue;
+      const bucket = this.bucketName(key[0], key.length);
+      const keys = this.buckets.get(bucket);
+      if (keys) keys.push(key);
+      else this.buckets.set(bucket, [key]);
+    }
+  }
+
+  /**
+   * Кандидаты по словам текста, лучшие первыми
+   *
+   * Одна локация — один кандидат (с лучшей оценкой).
+   */
+  search(text: string, limit: number = 5): LocationCandidate[] {
+    const words = locationWords(text);
+    const best = new Map<KnownLocation, LocationCandidate>();
+
+    const consider = (candidate: LocationCandidate) => {
+      const current = best.get(candidate.location);
+      if (!current || candidate.score > current.score) {
+        best.set(candidate.location, candidate);
+      }
+    };
+
+    for (let size = Math.min(MAX_PHRASE_WORDS, words.length); size >= 1; size--) {
+      for (let start = 0; start + size <= words.length; start++) {
+        const phrase = words.slice(start, start + size).join(' ');
+        const key = locationKey(phrase);
+        if (!key) continue;
+
+        // Совпадение скелетов — другая транслитерация того же названия
+        const exact = this.byKey.get(key);
+        if (exact) {
+          consider({ location: exact, score: 0.9, matchedText: phrase, method: 'translit' });
+        }
+
+        if (key.length < FUZZY_MIN_LENGTH) continue;
+
+        // Допускаем примерно одну ошибку на четыре буквы
+        const maxDistance = Math.floor(key.length / 4);
+        for (let length = key.length - maxDistance; length <= key.length + maxDistance; length++) {
+          for (const candidateKey of this.buckets.get(this.bucketName(key[0], length)) ?? []) {
+            if (candidateKey === key) continue;
+            const score = similarity(key, candidateKey);
+            if (score >= FUZZY_MIN_SCORE) {
+              // Нечёткое совпадение всегда ниже точного по скелету
+              consider({
+                location: this.byKey.get(candidateKey)!,
+                score: Math.round(score * 0.9 * 100) / 100,
+                matchedText: phrase,
+                method: 'fuzzy',
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return [...best.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private bucketName(first: string, length: number): string {
+    return `${first}:${length}`;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { parseEsrRegister, parseUnLocodeCsv } from './locationRegistry.js';
+
+function workbook(rows: unknown[][]): Buffer {
+  const book = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet(rows), 'Станции');
+  return XLSX.write(book, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+describe('parseEsrRegister', () => {
+  it('restores the leading zero Excel drops from numeric ESR codes', () => {
+    const result = parseEsrRegister(workbook([
+      ['Код ЕСР', 'Наименование станции', 'Дорога'],
+      [10003, 'ПЕТРОЗАВОДСК', 'ОКТ'],
+      [980003, 'ИНЯ-ВОСТОЧНАЯ', 'ЗСБ'],
+    ]));
+
+    expect(result.locations.map(l => [l.esrCode, l.name])).toEqual([
+      ['010003', 'Петрозаводск'],
+      ['980003', 'Иня-Восточная'],
+    ]);
+  });
+
+  it('reads CSV, keeps the bare name as an alias and skips rows without a code', () => {
+    const result = parseEsrRegister('Код;Станция;Регион\n980003;Гончарово (эксп.);Забайкальский край\n;Без кода;\n');
+
+    expect(result.skipped).toBe(1);
+    expect(result.locations[0]).toMatchObject({
+      name: 'Гончарово (эксп.)',
+      aliases: ['гончарово (эксп.)', 'гончарово'],
+      region: 'Забайкальский край',
+      country: 'RU',
+    });
+  });
+
+  it('warns when the code and name columns are missing', () => {
+    expect(parseEsrRegister('Foo;Bar\n1;2\n').warnings).toContain('Не найдены колонки кода ЕСР и наименования станции');
+  });
+});
+
+describe('parseUnLocodeCsv', () => {
+  const file = [
+    ',RU,,.RUSSIA',
+    ',RU,VVO,Vladivostok,Vladivostok,PRI,AI,1234----,0307,,4307N 13154E,',
+    'X,RU,OLD,Old Port,Old Port,,,1-------,,,,',
+    ',RU,MOW,Moscow,Moscow,MOW,AI,-2345---,,,,',
+    ',RU,ZZZ,Town,Town,,,---4----,,,,',
+  ].join('\n');
+
+  it('skips country header rows, deleted entries and places without port or rail', () => {
+    const result = parseUnLocodeCsv(file);
+
+    expect(result.locations.map(l => [l.unLocode, l.type])).toEqual([['RUVVO', 'PORT'], ['RUMOW', 'STATION']]);
+    expect(result.skipped).toBe(3);
+  });
+
+  it('keeps other places when asked for all functions', () => {
+    const result = parseUnLocodeCsv(file, { transportOnly: false });
+
+    expect(result.locations.find(l => l.unLocode === 'RUZZZ')?.type).toBe('CITY');
+  });
+
+  it('reads columns from a header row', () => {
+    const result = parseUnLocodeCsv('Country,Location,Name,Function\nCN,SHA,Shanghai,1-------\n');
+
+    expect(result.locations).toEqual([
+      { name: 'Shanghai', type: 'PORT', aliases: ['shanghai'], region: undefined, country: 'CN', unLocode: 'CNSHA' },
+    ]);
+  });
+});
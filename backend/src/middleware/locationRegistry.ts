@@ -0,0 +1,233 @@
+import { KnownLocation, LocationType } from './locationDictionary.js';
+import { normalizeHeader } from './parsingProfile.js';
+import { parseSpreadsheet, looksLikeSpreadsheet } from './spreadsheetParser.js';
+import { decodeText } from './emlParser.js';
+import { UniversalParser } from './universalParser.js';
+
+/**
+ * ============================================
+ * LOCATION REGISTRY - Разбор реестров локаций
+ * ============================================
+ *
+ * Массовое наполнение справочника из файлов:
+ * - реестр ЖД станций с кодами ЕСР (XLSX/CSV: код, наименование,
+ *   дорога, регион) — выгрузки Тарифного руководства №4 и аналоги
+ * - UN/LOCODE (CSV UNECE: Change, Country, Location, Name, ...,
+ *   Function, ...) — с заголовком или без
+ */
+
+export interface RegistryParseResult {
+  locations: KnownLocation[];
+  /** Строки без кода или названия */
+  skipped: number;
+  warnings: string[];
+}
+
+// Синонимы колонок реестра станций (после normalizeHeader)
+const ESR_CODE_HEADERS = ['кодеср', 'есркод', 'еср', 'кодстанции', 'код', 'esr', 'esrcode', 'code', 'stationcode'];
+const ESR_NAME_HEADERS = ['наименованиестанции', 'наименование', 'станция', 'название', 'name', 'station', 'stationname'];
+const ESR_REGION_HEADERS = ['регион', 'субъектрф', 'область', 'субъект', 'region'];
+const ESR_RAILWAY_HEADERS = ['дорога', 'жд', 'железнаядорога', 'railway', 'road'];
+const ESR_COUNTRY_HEADERS = ['страна', 'country'];
+
+// Колонки файла UN/LOCODE в порядке UNECE
+const UNLOCODE_COLUMNS = [
+  'change', 'country', 'location', 'name', 'namewodiacritics',
+  'subdivision', 'status', 'function', 'date', 'iata', 'coordinates', 'remarks',
+];
+
+/**
+ * Разбор реестра станций ЕСР
+ */
+export function parseEsrRegister(content: Buffer | string): RegistryParseResult {
+  const warnings: string[] = [];
+  let rows: Array<Record<string, unknown>>;
+
+  if (Buffer.isBuffer(content) && looksLikeSpreadsheet(content)) {
+    const workbook = parseSpreadsheet(content, { headerNames: [...ESR_CODE_HEADERS, ...ESR_NAME_HEADERS] });
+    warnings.push(...workbook.warnings);
+    rows = workbook.sheets.flatMap(sheet => sheet.rows);
+  } else {
+    const text = Buffer.isBuffer(content) ? decodeText(content) : content;
+    rows = new UniversalParser().readCsvTable(text).rows;
+  }
+
+  const locations: KnownLocation[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const code = pickColumn(row, ESR_CODE_HEADERS);
+    const rawName = pickColumn(row, ESR_NAME_HEADERS);
+    const esrCode = normalizeEsrCode(code);
+
+    if (!esrCode || typeof rawName !== 'string' || !rawName.trim()) {
+      skipped++;
+      continue;
+    }
+
+    const name = toTitleCase(rawName.trim());
+    const region = pickColumn(row, ESR_REGION_HEADERS) ?? pickColumn(row, ESR_RAILWAY_HEADERS);
+    const country = pickColumn(row, ESR_COUNTRY_HEADERS);
+
+    locations.push({
+      name,
+      type: 'STATION',
+      aliases: nameAliases(name),
+      region: region !== undefined ? String(region).trim() : undefined,
+      country: typeof country === 'string' && /^[A-Za-z]{2}$/.test(country.trim()) ? country.trim().toUpperCase() : 'RU',
+      esrCode,
+    });
+  }
+
+  if (rows.length > 0 && locations.length === 0) {
+    warnings.push('Не найдены колонки кода ЕСР и наименования станции');
+  }
+
+  return { locations, skipped, warnings };
+}
+
+/**
+ * Разбор файла UN/LOCODE
+ *
+ * transportOnly — только пункты с функцией порта (1) или ЖД (2).
+ */
+export function parseUnLocodeCsv(content: Buffer | string, options: { transportOnly?: boolean } = {}): RegistryParseResult {
+  const transportOnly = options.transportOnly ?? true;
+  const text = Buffer.isBuffer(content) ? decodeText(content) : content;
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const warnings: string[] = [];
+
+  let columns = UNLOCODE_COLUMNS;
+  const header = lines[0] ? splitCsvLine(lines[0]).map(normalizeHeader) : [];
+  if (header.includes('country') && header.includes('location')) {
+    columns = header;
+    lines.shift();
+  }
+
+  const locations: KnownLocation[] = [];
+  let skipped = 0;
+
+  for (const line of lines) {
+    const values = splitCsvLine(line);
+    const row: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      row[column] = values[i]?.trim() ?? '';
+    });
+
+    const country = row.country?.toUpperCase();
+    const code = row.location?.toUpperCase();
+    const name = row.name || row.namewodiacritics;
+
+    // Строки-заголовки стран (",AD,,.ANDORRA") и удалённые записи
+    if (!country || !code || !name || row.change === 'X') {
+      skipped++;
+      continue;
+    }
+
+    const unLocode = `${country}${code}`;
+    if (!/^[A-Z]{2}[A-Z2-9]{3}$/.test(unLocode)) {
+      skipped++;
+      continue;
+    }
+
+    const type = functionToType(row.function || '');
+    if (transportOnly && type === 'CITY') {
+      skipped++;
+      continue;
+    }
+
+    const aliases = new Set([name.toLowerCase()]);
+    if (row.namewodiacritics) aliases.add(row.namewodiacritics.toLowerCase());
+
+    locations.push({
+      name,
+      type,
+      aliases: [...aliases],
+      region: row.subdivision || undefined,
+      country,
+      unLocode,
+    });
+  }
+
+  if (lines.length > 0 && locations.length === 0) {
+    warnings.push(transportOnly
+      ? 'Не найдено пунктов с функцией порта или ЖД'
+      : 'Не найдено ни одного кода UN/LOCODE');
+  }
+
+  return { locations, skipped, warnings };
+}
+
+/**
+ * Тип по полю Function UN/LOCODE ("1-3-----": порт и автодорога)
+ */
+function functionToType(fn: string): LocationType {
+  if (fn[0] === '1') return 'PORT';
+  if (fn[1] === '2') return 'STATION';
+  return 'CITY';
+}
+
+/**
+ * Значение первой найденной колонки из синонимов
+ */
+function pickColumn(row: Record<string, unknown>, synonyms: string[]): unknown {
+  for (const [header, value] of Object.entries(row)) {
+    if (synonyms.includes(normalizeHeader(header)) && value !== undefined && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Код ЕСР: Excel теряет ведущий ноль у числовых ячеек
+ */
+function normalizeEsrCode(value: unknown): string | undefined {
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return String(value).padStart(6, '0');
+  }
+  if (typeof value !== 'string') return undefined;
+  const digits = value.replace(/\s/g, '');
+  return /^\d{5,6}$/.test(digits) ? digits : undefined;
+}
+
+/**
+ * "ИНЯ-ВОСТОЧНАЯ" → "Иня-Восточная" (только для названий капсом)
+ */
+function toTitleCase(name: string): string {
+  if (name !== name.toUpperCase()) return name;
+  return name.toLowerCase().replace(/(^|[\s\-(])([a-zа-яё])/g, (_, sep: string, c: string) => sep + c.toUpperCase());
+}
+
+/**
+ * Написания станции: полное и без пометок в скобках ("Гончарово (эксп.)")
+ */
+function nameAliases(name: string): string[] {
+  const aliases = new Set([name.toLowerCase()]);
+  const bare = name.replace(/\s*\(.*?\)\s*/g, ' ').trim();
+  if (bare) aliases.add(bare.toLowerCase());
+  return [...aliases];
+}
+
+/**
+ * Строка CSV UN/LOCODE (запятые, значения в кавычках)
+ */
+function splitCsvLine(line: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      result.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  result.push(current);
+  return result;
+}
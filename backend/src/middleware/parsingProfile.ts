@@ -0,0 +1,357 @@
+/**
+ * ============================================
+ * PARSING PROFILE - Профиль разбора данных перевозчика
+ * ============================================
+ *
+ * Явные правила для табличных выгрузок конкретного перевозчика:
+ * - маппинг колонок файла на поля ParsedItem
+ * - форматы дат (DD.MM.YYYY, YYYY-MM-DD HH:mm, ...)
+ * - разделитель CSV
+ * - словарь статусов оператора → StatusCode
+ * - правила пропуска строк (шапка отчёта, итоги, пустые строки)
+ *
+ * Колонки без маппинга по-прежнему распознаются по синонимам
+ * из TABLE_FIELD_SYNONYMS.
+ */
+
+export type ProfileField =
+  | 'containerNumber'
+  | 'wagonNumber'
+  | 'dispatchNumber'
+  | 'trainIndex'
+  | 'originEsr'
+  | 'destinationEsr'
+  | 'vesselName'
+  | 'imoNumber'
+  | 'voyageNumber'
+  | 'blNumber'
+  | 'bookingNumber'
+  | 'statusCode'
+  | 'statusText'
+  | 'location'
+  | 'distanceToDestination'
+  | 'eta'
+  | 'eventTime'
+  | 'origin'
+  | 'destination'
+  | 'carrierName'
+  | 'carrierType'
+  | 'operatorComment'
+  | 'ignore';
+
+export const PROFILE_FIELDS: ProfileField[] = [
+  'containerNumber',
+  'wagonNumber',
+  'dispatchNumber',
+  'trainIndex',
+  'originEsr',
+  'destinationEsr',
+  'vesselName',
+  'imoNumber',
+  'voyageNumber',
+  'blNumber',
+  'bookingNumber',
+  'statusCode',
+  'statusText',
+  'location',
+  'distanceToDestination',
+  'eta',
+  'eventTime',
+  'origin',
+  'destination',
+  'carrierName',
+  'carrierType',
+  'operatorComment',
+  'ignore',
+];
+
+export interface ProfileSkipRules {
+  /** Сколько строк сверху пропустить до заголовков */
+  skipRows?: number;
+  /** Пропускать строку, если пуста любая из колонок */
+  skipIfEmpty?: string[];
+  /** Пропускать строку, если любая ячейка совпадает с регулярным выражением */
+  skipIfMatches?: string[];
+}
+
+export interface ParsingProfile {
+  id?: string;
+  name?: string;
+  carrierId?: string;
+  /** Название колонки в файле → поле */
+  columnMappings: Record<string, ProfileField>;
+  dateFormats?: string[];
+  delimiter?: string | null;
+  /** Текст статуса оператора → StatusCode */
+  statusDictionary?: Record<string, string> | null;
+  skipRules?: ProfileSkipRules | null;
+}
+
+/**
+ * Синонимы названий колонок (нормализованные ключи)
+ */
+export const TABLE_FIELD_SYNONYMS: Record<Exclude<ProfileField, 'ignore'>, string[]> = {
+  containerNumber: [
+    'containernumber', 'container', 'ktk', 'ктк', 'номер', 'number', 'containerid',
+  ],
+  wagonNumber: [
+    'wagonnumber', 'wagon', 'railcar', 'вагон', 'номервагона', 'ваг', 'платформа', 'номерплатформы',
+  ],
+  dispatchNumber: [
+    'dispatchnumber', 'dispatch', 'waybill', 'отправка', 'номеротправки', 'накладная', 'номернакладной',
+  ],
+  trainIndex: [
+    'trainindex', 'индекспоезда', 'индекс', 'поезд',
+  ],
+  originEsr: [
+    'originesr', 'есротправления', 'кодстанцииотправления',
+  ],
+  destinationEsr: [
+    'destinationesr', 'есрназначения', 'кодстанцииназначения',
+  ],
+  vesselName: [
+    'vessel', 'vesselname', 'ship', 'судно', 'названиесудна', 'теплоход',
+  ],
+  imoNumber: [
+    'imo', 'imonumber', 'номерimo',
+  ],
+  voyageNumber: [
+    'voyage', 'voyagenumber', 'voy', 'рейс', 'номеррейса',
+  ],
+  blNumber: [
+    'bl', 'blnumber', 'billoflading', 'mbl', 'коносамент', 'номерконосамента',
+  ],
+  bookingNumber: [
+    'booking', 'bookingnumber', 'bkg', 'букинг', 'номербукинга',
+  ],
+  statusCode: [
+    'statuscode', 'status', 'state', 'состояние', 'статус',
+  ],
+  statusText: [
+    'statustext', 'statedescription', 'описание', 'состояниетекст',
+  ],
+  location: [
+    'location', 'currentlocation', 'текущееместоположение', 'локация', 'местоположение',
+    'station', 'станция', 'currentpoint', 'current', 'lastseen', 'текущая',
+  ],
+  distanceToDestination: [
+    'distance', 'расстояние', 'расстояниекм', 'дистанция', 'distancetodestination', 'distancekm',
+    'disttonext', 'км', 'dist',
+  ],
+  eta: [
+    'eta', 'arrivaldate', 'датаприбытия', 'ориентировочнаядата', 'expectedarrival',
+  ],
+  eventTime: [
+    'eventtime', 'datetime', 'date', 'дата', 'время', 'timestamp',
+  ],
+  origin: [
+    'origin', 'from', 'пунктотправления', 'откуда', 'отправление',
+  ],
+  destination: [
+    'destination', 'to', 'пунктназначения', 'куда', 'назначение',
+  ],
+  carrierName: [
+    'carrier', 'carriername', 'перевозчик', 'оператор', 'operator',
+  ],
+  carrierType: [
+    'carriertype', 'type', 'тип', 'типперевозчика', 'типктк',
+  ],
+  operatorComment: [
+    'comment', 'комментарий', 'примечание', 'remark', 'remarks',
+  ],
+};
+
+/**
+ * Нормализация названия колонки
+ *
+ * Регистр, кавычки, пробелы, подчёркивания, дефисы и знаки препинания
+ * не учитываются ("Расстояние, км" → "расстояниекм").
+ */
+export function normalizeHeader(header: string): string {
+  return header.toLowerCase()
+    .replace(/^"|"$/g, '')
+    .replace(/[_\s\-.,:;()]/g, '');
+}
+
+/**
+ * Предложение поля для колонки по синонимам
+ */
+export function suggestField(header: string): ProfileField | undefined {
+  const normalized = normalizeHeader(header);
+
+  for (const [field, synonyms] of Object.entries(TABLE_FIELD_SYNONYMS)) {
+    if (synonyms.includes(normalized)) {
+      return field as ProfileField;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Значения строки по явному маппингу профиля
+ *
+ * Возвращает найденные поля и нормализованные ключи колонок,
+ * которые профиль уже разобрал (включая 'ignore') — они не должны
+ * повторно попадать в поиск по синонимам.
+ */
+export function applyColumnMappings(
+  row: Record<string, unknown>,
+  profile: ParsingProfile
+): { values: Partial<Record<ProfileField, unknown>>; usedKeys: Set<string> } {
+  const mappings = new Map(
+    Object.entries(profile.columnMappings).map(([header, field]) => [normalizeHeader(header), field])
+  );
+
+  const values: Partial<Record<ProfileField, unknown>> = {};
+  const usedKeys = new Set<string>();
+
+  for (const [key, value] of Object.entries(row)) {
+    const normalizedKey = normalizeHeader(key);
+    const field = mappings.get(normalizedKey);
+    if (!field) continue;
+
+    usedKeys.add(normalizedKey);
+    if (field !== 'ignore' && values[field] === undefined && !isBlank(value)) {
+      values[field] = value;
+    }
+  }
+
+  return { values, usedKeys };
+}
+
+/**
+ * Нужно ли пропустить строку по правилам профиля
+ */
+export function shouldSkipRow(row: Record<string, unknown>, profile: ParsingProfile): boolean {
+  const rules = profile.skipRules;
+  if (!rules) return false;
+
+  if (rules.skipIfEmpty?.length) {
+    const normalizedRow = new Map(
+      Object.entries(row).map(([key, value]) => [normalizeHeader(key), value])
+    );
+    if (rules.skipIfEmpty.some(column => isBlank(normalizedRow.get(normalizeHeader(column))))) {
+      return true;
+    }
+  }
+
+  if (rules.skipIfMatches?.length) {
+    const cells = Object.values(row).filter(value => !isBlank(value)).map(String);
+    for (const pattern of rules.skipIfMatches) {
+      const regex = safeRegExp(pattern);
+      if (regex && cells.some(cell => regex.test(cell))) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Код статуса по словарю профиля
+ *
+ * Сначала точное совпадение (без учёта регистра и лишних пробелов),
+ * затем вхождение фразы из словаря в текст оператора.
+ */
+export function lookupStatus(
+  text: string,
+  dictionary: Record<string, string> | null | undefined
+): string | undefined {
+  if (!dictionary) return undefined;
+
+  const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+  const normalizedText = normalize(text);
+  if (!normalizedText) return undefined;
+
+  const entries = Object.entries(dictionary).map(([phrase, code]) => [normalize(phrase), code] as const);
+
+  const exact = entries.find(([phrase]) => phrase === normalizedText);
+  if (exact) return exact[1];
+
+  // Более длинные фразы проверяем первыми ("прибыл на станцию" раньше "прибыл")
+  const partial = entries
+    .filter(([phrase]) => phrase && normalizedText.includes(phrase))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+
+  return partial?.[1];
+}
+
+/**
+ * Разбор даты по форматам профиля
+ *
+ * Поддерживаются токены DD, D, MM, M, YYYY, YY, HH, H, mm, ss;
+ * остальные символы формата — разделители.
+ */
+export function parseDateWithFormats(value: unknown, formats: string[]): Date | null {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  for (const format of formats) {
+    const tokens: string[] = [];
+    const pattern = format.replace(
+      /YYYY|YY|DD|D|MM|M|HH|H|mm|ss|[.*+?^${}()|[\]\\]/g,
+      token => {
+        switch (token) {
+          case 'YYYY':
+            tokens.push('year');
+            return '(\\d{4})';
+          case 'YY':
+            tokens.push('year2');
+            return '(\\d{2})';
+          case 'DD':
+          case 'D':
+            tokens.push('day');
+            return '(\\d{1,2})';
+          case 'MM':
+          case 'M':
+            tokens.push('month');
+            return '(\\d{1,2})';
+          case 'HH':
+          case 'H':
+            tokens.push('hour');
+            return '(\\d{1,2})';
+          case 'mm':
+            tokens.push('minute');
+            return '(\\d{2})';
+          case 'ss':
+            tokens.push('second');
+            return '(\\d{2})';
+          default:
+            return `\\${token}`;
+        }
+      }
+    );
+
+    const match = text.match(new RegExp(`^${pattern}$`));
+    if (!match) continue;
+
+    const parts: Record<string, number> = { hour: 0, minute: 0, second: 0 };
+    tokens.forEach((token, i) => {
+      parts[token] = parseInt(match[i + 1], 10);
+    });
+
+    const year = parts.year ?? (parts.year2 !== undefined ? 2000 + parts.year2 : NaN);
+    const date = new Date(year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+
+    // Отсекаем переполнения вроде 31.02
+    if (!isNaN(date.getTime()) && date.getMonth() === parts.month - 1 && date.getDate() === parts.day) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+function safeRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || String(value).trim() === '';
+}
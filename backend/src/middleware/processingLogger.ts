@@ -52,13 +52,15 @@ export class ProcessingLogger {
     
     const inputStr = typeof content === 'string' 
       ? content 
-      : JSON.stringify(content);
+      : Buffer.isBuffer(content)
+        ? `[binary file, ${content.length} bytes]`
+        : JSON.stringify(content);
 
     const entry: ProcessingLogEntry = {
       id: this.generateId(),
       timestamp: new Date().toISOString(),
       inputType: this.determineInputType(content),
-      inputSize: inputStr.length,
+      inputSize: Buffer.isBuffer(content) ? content.length : inputStr.length,
       inputPreview: inputStr.slice(0, 200) + (inputStr.length > 200 ? '...' : ''),
       metadata: metadata as Record<string, string>,
       success: false,
@@ -148,6 +150,7 @@ export class ProcessingLogger {
       if (content.trim().startsWith('[')) return 'json_array_string';
       return 'plain_text';
     }
+    if (Buffer.isBuffer(content)) return 'binary';
     if (Array.isArray(content)) return 'array';
     if (typeof content === 'object') return 'object';
     return 'unknown';
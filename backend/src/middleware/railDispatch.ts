@@ -0,0 +1,53 @@
+/**
+ * ============================================
+ * RAIL DISPATCH - ЖД-отправки и индексы поездов
+ * ============================================
+ *
+ * Операторы сообщают о ходе перевозки по номеру отправки
+ * (накладной) и индексу поезда, а не по каждому контейнеру:
+ *   "Отправка ЭЖ123456, индекс 9800-123-8523, прибыла на ст. Гончарово"
+ *
+ * Индекс поезда: 4 цифры станции формирования, 3 цифры
+ * номера состава, 4 цифры станции назначения.
+ */
+
+export interface DispatchInfo {
+  dispatchNumber?: string;
+  trainIndex?: string;
+  originEsr?: string;
+  destinationEsr?: string;
+}
+
+const DISPATCH_PATTERN = /(?:отправк[аиуеой]+|накладн[а-яё]*|dispatch|waybill)\s*(?:№|#|no\.?|n)?\s*([А-ЯЁA-Z]{0,2}\s?\d{5,10})\b/i;
+const TRAIN_INDEX_PATTERN = /(?:индекс(?:\s+поезда)?|train\s*index)[:\s№#]*(\d{4}[\s\-]?\d{3}[\s\-]?\d{4})\b/i;
+const ORIGIN_ESR_PATTERN = /(?:еср|код)\s*(?:ст(?:анци[ия])?\.?\s*)?отпр[а-яё]*\.?[:\s№]*(\d{5,6})\b/i;
+const DESTINATION_ESR_PATTERN = /(?:еср|код)\s*(?:ст(?:анци[ия])?\.?\s*)?назн[а-яё]*\.?[:\s№]*(\d{5,6})\b/i;
+
+/**
+ * Номер отправки, индекс поезда и коды станций из текста
+ */
+export function extractDispatchInfo(text: string): DispatchInfo {
+  return {
+    dispatchNumber: text.match(DISPATCH_PATTERN)?.[1],
+    trainIndex: text.match(TRAIN_INDEX_PATTERN)?.[1],
+    originEsr: text.match(ORIGIN_ESR_PATTERN)?.[1],
+    destinationEsr: text.match(DESTINATION_ESR_PATTERN)?.[1],
+  };
+}
+
+/**
+ * Номер отправки: верхний регистр, без пробелов
+ */
+export function normalizeDispatchNumber(value: string): string | undefined {
+  const normalized = value.replace(/[\s№#]/g, '').toUpperCase();
+  return /^[А-ЯЁA-Z]{0,2}\d{5,10}$/.test(normalized) ? normalized : undefined;
+}
+
+/**
+ * Индекс поезда в виде 9800-123-8523
+ */
+export function normalizeTrainIndex(value: string): string | undefined {
+  const digits = value.replace(/[\s\-]/g, '');
+  if (!/^\d{11}$/.test(digits)) return undefined;
+  return `${digits.slice(0, 4)}-${digits.slice(4, 7)}-${digits.slice(7)}`;
+}
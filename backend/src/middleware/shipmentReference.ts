@@ -0,0 +1,41 @@
+/**
+ * ============================================
+ * SHIPMENT REFERENCE - Коносамент и букинг
+ * ============================================
+ *
+ * Клиент ведёт груз по коносаменту (B/L) или букингу, а не по
+ * отдельным контейнерам:
+ *   "B/L MEDUAB123456, booking 254861234: контейнеры выгружены"
+ *
+ * Формат номеров у каждой линии свой — проверяем только, что это
+ * 5-20 букв и цифр, среди которых есть цифры.
+ */
+
+export interface ShipmentReferences {
+  blNumber?: string;
+  bookingNumber?: string;
+}
+
+const BL_PATTERN = /(?<![A-Za-zА-Яа-яЁё])(?:b\/l|bl|bill\s+of\s+lading|коносамент[а-я]*|к\/с)\s*(?:№|#|no\.?|number)?\s*:?\s*([A-Z0-9][A-Z0-9\-]{4,24})/i;
+const BOOKING_PATTERN = /(?<![A-Za-zА-Яа-яЁё])(?:booking|bkg|букинг[а-я]*)\s*(?:№|#|no\.?|number|ref\.?)?\s*:?\s*([A-Z0-9][A-Z0-9\-]{4,24})/i;
+
+/**
+ * Номера коносамента и букинга из текста
+ */
+export function extractShipmentReferences(text: string): ShipmentReferences {
+  const blNumber = text.match(BL_PATTERN)?.[1];
+  const bookingNumber = text.match(BOOKING_PATTERN)?.[1];
+
+  return {
+    blNumber: blNumber && normalizeShipmentReference(blNumber),
+    bookingNumber: bookingNumber && normalizeShipmentReference(bookingNumber),
+  };
+}
+
+/**
+ * Номер коносамента/букинга: без пробелов и дефисов, заглавными
+ */
+export function normalizeShipmentReference(value: string): string | undefined {
+  const normalized = value.replace(/[\s\-№#]/g, '').toUpperCase();
+  return /^[A-Z0-9]{5,20}$/.test(normalized) && /\d/.test(normalized) ? normalized : undefined;
+}
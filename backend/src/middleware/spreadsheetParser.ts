@@ -0,0 +1,288 @@
+import * as XLSX from 'xlsx';
+import { normalizeHeader } from './parsingProfile.js';
+
+/**
+ * ============================================
+ * SPREADSHEET PARSER - Разбор книг Excel (.xlsx / .xls)
+ * ============================================
+ *
+ * Превращает книгу перевозчика в строки таблицы для UniversalParser:
+ * - строка заголовков ищется по ключевым словам (в выгрузках 1С
+ *   ей обычно предшествуют название отчёта, дата, реквизиты)
+ * - объединённые ячейки заполняются значением левой верхней ячейки
+ * - каждый лист разбирается отдельно, пустые листы пропускаются
+ * - ячейки с форматом даты (серийные числа Excel) → Date
+ */
+
+export interface SpreadsheetSheet {
+  name: string;
+  /** Номер строки заголовков (с 1, как в Excel) */
+  headerRow: number;
+  headers: string[];
+  rows: Array<Record<string, unknown>>;
+}
+
+export interface ParsedSpreadsheet {
+  sheets: SpreadsheetSheet[];
+  warnings: string[];
+}
+
+export interface SpreadsheetOptions {
+  /** Сколько строк сверху пропустить до поиска заголовков */
+  skipRows?: number;
+  /** Известные названия колонок (из профиля перевозчика) */
+  headerNames?: string[];
+}
+
+/** Сколько строк сверху просматривать в поисках заголовков */
+const HEADER_SCAN_ROWS = 30;
+
+/** Фрагменты названий колонок (в нижнем регистре, без пробелов) */
+const HEADER_KEYWORDS = [
+  'контейнер', 'ктк', 'container', 'номер', 'number',
+  'статус', 'status', 'состояние', 'state', 'операци',
+  'станци', 'station', 'местоположение', 'дислокац', 'location', 'порт', 'port',
+  'дата', 'date', 'время', 'time', 'eta', 'прибыти', 'arrival',
+  'откуда', 'куда', 'отправлени', 'назначени', 'origin', 'destination', 'from', 'to',
+  'расстояние', 'distance', 'км', 'km',
+  'перевозчик', 'оператор', 'carrier', 'тип', 'type',
+  'вагон', 'wagon', 'накладн', 'примечани', 'комментари',
+];
+
+/**
+ * Похоже ли содержимое на книгу Excel
+ *
+ * XLSX — ZIP-архив (PK\x03\x04), XLS — составной документ OLE2.
+ */
+export function looksLikeSpreadsheet(content: Buffer): boolean {
+  if (content.length < 8) return false;
+
+  const isZip = content[0] === 0x50 && content[1] === 0x4b && content[2] === 0x03 && content[3] === 0x04;
+  const isOle = content.readUInt32BE(0) === 0xd0cf11e0 && content.readUInt32BE(4) === 0xa1b11ae1;
+
+  return isZip || isOle;
+}
+
+/**
+ * Преобразование серийного номера даты Excel в Date
+ *
+ * Дни отсчитываются от 30.12.1899 (с учётом ошибки Excel про 29.02.1900),
+ * дробная часть — время суток. Результат — локальное время, как и у дат,
+ * разобранных из текста.
+ */
+export function excelSerialToDate(serial: number, date1904: boolean = false): Date | null {
+  if (!Number.isFinite(serial) || serial < 0) return null;
+
+  let days = Math.floor(serial);
+  const seconds = Math.round((serial - days) * 86400);
+
+  if (date1904) {
+    days += 1462;
+  } else if (days < 60) {
+    // До несуществующего 29.02.1900 Excel считает на день больше
+    days += 1;
+  }
+
+  const utc = new Date(Date.UTC(1899, 11, 30) + days * 86400000 + seconds * 1000);
+
+  return new Date(
+    utc.getUTCFullYear(),
+    utc.getUTCMonth(),
+    utc.getUTCDate(),
+    utc.getUTCHours(),
+    utc.getUTCMinutes(),
+    utc.getUTCSeconds()
+  );
+}
+
+/**
+ * Разбор книги Excel
+ */
+export function parseSpreadsheet(buffer: Buffer, options: SpreadsheetOptions = {}): ParsedSpreadsheet {
+  const workbook = XLSX.read(buffer, { type: 'buffer', cellNF: true });
+  const date1904 = !!workbook.Workbook?.WBProps?.date1904;
+
+  const sheets: SpreadsheetSheet[] = [];
+  const warnings: string[] = [];
+
+  for (const name of workbook.SheetNames) {
+    const skipRows = options.skipRows ?? 0;
+    const grid = readGrid(workbook.Sheets[name], date1904).slice(skipRows);
+
+    if (grid.every(row => row.every(isEmpty))) {
+      continue;
+    }
+
+    let headerIndex = detectHeaderRow(grid, options.headerNames);
+    if (headerIndex === -1) {
+      headerIndex = grid.findIndex(row => row.filter(value => typeof value === 'string').length >= 2);
+      if (headerIndex === -1) {
+        warnings.push(`Лист "${name}": не найдена строка заголовков, лист пропущен`);
+        continue;
+      }
+      warnings.push(`Лист "${name}": строка заголовков не распознана, используется строка ${skipRows + headerIndex + 1}`);
+    }
+
+    const headers = buildHeaders(grid[headerIndex]);
+    const headerKey = grid[headerIndex].map(cellText).join('|');
+    const rows: Array<Record<string, unknown>> = [];
+
+    for (const values of grid.slice(headerIndex + 1)) {
+      if (values.every(isEmpty)) continue;
+
+      // Повтор шапки на каждой странице печатной формы 1С
+      if (values.map(cellText).join('|') === headerKey) continue;
+
+      const row: Record<string, unknown> = {};
+      headers.forEach((header, column) => {
+        if (header && !isEmpty(values[column])) {
+          row[header] = values[column];
+        }
+      });
+      rows.push(row);
+    }
+
+    if (rows.length === 0) {
+      warnings.push(`Лист "${name}": нет строк данных под заголовками`);
+      continue;
+    }
+
+    sheets.push({
+      name,
+      headerRow: skipRows + headerIndex + 1,
+      headers: headers.filter((header): header is string => header !== null),
+      rows,
+    });
+  }
+
+  return { sheets, warnings };
+}
+
+/**
+ * Чтение листа в двумерный массив значений
+ *
+ * Объединённые диапазоны заполняются значением левой верхней ячейки —
+ * так станция или дата, объединённая на несколько контейнеров,
+ * попадёт в каждую строку.
+ */
+function readGrid(sheet: XLSX.WorkSheet, date1904: boolean): unknown[][] {
+  if (!sheet['!ref']) return [];
+
+  const range = XLSX.utils.decode_range(sheet['!ref']);
+  const grid: unknown[][] = [];
+
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: unknown[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellValue(sheet[XLSX.utils.encode_cell({ r, c })], date1904));
+    }
+    grid.push(row);
+  }
+
+  for (const merge of sheet['!merges'] || []) {
+    const value = grid[merge.s.r - range.s.r]?.[merge.s.c - range.s.c];
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        const row = grid[r - range.s.r];
+        if (row && c - range.s.c < row.length) {
+          row[c - range.s.c] = value;
+        }
+      }
+    }
+  }
+
+  return grid;
+}
+
+/**
+ * Значение ячейки с учётом её типа и формата
+ */
+function cellValue(cell: XLSX.CellObject | undefined, date1904: boolean): unknown {
+  if (!cell || cell.v === undefined || cell.v === null) return undefined;
+
+  switch (cell.t) {
+    case 'd':
+      return cell.v instanceof Date ? cell.v : new Date(String(cell.v));
+    case 'n':
+      if (typeof cell.z === 'string' && XLSX.SSF.is_date(cell.z)) {
+        return excelSerialToDate(cell.v as number, date1904) ?? cell.v;
+      }
+      return cell.v;
+    case 's': {
+      const text = String(cell.v).trim();
+      return text || undefined;
+    }
+    case 'e':
+      return undefined;
+    default:
+      return cell.v;
+  }
+}
+
+/**
+ * Поиск строки заголовков среди первых строк листа
+ *
+ * Считаются различные текстовые ячейки, похожие на названия колонок:
+ * заголовок отчёта, растянутый объединением на всю ширину, даёт одно
+ * совпадение и строкой заголовков не считается. Колонки, известные
+ * из профиля перевозчика, весят больше ключевых слов.
+ */
+function detectHeaderRow(grid: unknown[][], headerNames: string[] = []): number {
+  const knownHeaders = new Set(headerNames.map(normalizeHeader));
+  let bestIndex = -1;
+  let bestScore = 1;
+
+  grid.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const texts = new Set(
+      row
+        .filter((value): value is string => typeof value === 'string')
+        .map(normalizeHeader)
+    );
+
+    let score = 0;
+    for (const text of texts) {
+      // Значение с номером контейнера — это уже данные
+      if (/[a-z]{4}\d{7}/.test(text)) return;
+      if (knownHeaders.has(text)) {
+        score += 2;
+      } else if (HEADER_KEYWORDS.some(keyword => text.includes(keyword))) {
+        score++;
+      }
+    }
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+
+  return bestIndex;
+}
+
+/**
+ * Названия колонок: пустые колонки пропускаются (null),
+ * повторяющиеся названия получают номер
+ */
+function buildHeaders(row: unknown[]): Array<string | null> {
+  const seen = new Map<string, number>();
+
+  return row.map(value => {
+    const header = cellText(value);
+    if (!header) return null;
+
+    const count = (seen.get(header) || 0) + 1;
+    seen.set(header, count);
+
+    return count > 1 ? `${header} (${count})` : header;
+  });
+}
+
+function cellText(value: unknown): string {
+  if (isEmpty(value)) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value).replace(/\s+/g, ' ').trim();
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
@@ -1,5 +1,24 @@
 import { RawInput } from './inputProcessor.js';
-import { DetectedFormat, FormatType } from './formatDetector.js';
+import { DetectedFormat, FormatDetector, FormatType } from './formatDetector.js';
+import { parseEml, EmlAttachment } from './emlParser.js';
+import { parseSpreadsheet, excelSerialToDate } from './spreadsheetParser.js';
+import { extractEdifactEvents } from './edifactParser.js';
+import { extractX12Events } from './x12Parser.js';
+import { unwrapDcsaEvents, mapDcsaEvents, documentReference } from './dcsaParser.js';
+import { extractWagonNumbers } from './wagonValidator.js';
+import { extractDispatchInfo } from './railDispatch.js';
+import { extractVesselInfo } from './vesselValidator.js';
+import { extractShipmentReferences } from './shipmentReference.js';
+import {
+  ParsingProfile,
+  ProfileField,
+  TABLE_FIELD_SYNONYMS,
+  normalizeHeader,
+  applyColumnMappings,
+  shouldSkipRow,
+  lookupStatus,
+  parseDateWithFormats,
+} from './parsingProfile.js';
 
 /**
  * ============================================
@@ -10,11 +29,23 @@ import { DetectedFormat, FormatType } from './formatDetector.js';
  * - Текстовые сообщения → извлечение по паттернам
  * - JSON → прямой маппинг
  * - CSV → разбор строк
+ * - Excel (.xlsx/.xls) → строки листов
+ * - Письма (.eml) → тело + вложения
  * - Смешанные данные → комбинированный подход
  */
 
 export interface ParsedItem {
   containerNumber?: string;
+  wagonNumber?: string;      // Номер вагона РЖД (8 цифр)
+  dispatchNumber?: string;   // Номер ЖД-отправки (накладной)
+  trainIndex?: string;       // Индекс поезда
+  originEsr?: string;        // Код ЕСР станции отправления
+  destinationEsr?: string;   // Код ЕСР станции назначения
+  vesselName?: string;       // Судно (морское плечо)
+  imoNumber?: string;        // Номер IMO судна
+  voyageNumber?: string;     // Номер рейса
+  blNumber?: string;         // Коносамент (B/L)
+  bookingNumber?: string;    // Букинг
   statusCode?: string;
   statusText?: string;
   location?: string;
@@ -23,6 +54,8 @@ export interface ParsedItem {
   eta?: string;
   etaUnload?: string;        // Дата разгрузки
   eventTime?: string;
+  /** PLN / EST / ACT (DCSA); по умолчанию — факт */
+  eventClassifier?: 'PLN' | 'EST' | 'ACT';
   origin?: string;
   destination?: string;
   carrierName?: string;
@@ -45,11 +78,15 @@ export class UniversalParser {
    * Главный метод парсинга
    */
   async parse(input: RawInput, format: DetectedFormat): Promise<ParseResult> {
-    const { content } = input;
+    const { content, profile } = input;
+    
+    if (format.type === 'DCSA_EVENTS') {
+      return this.parseDcsa(content);
+    }
     
     // Если это массив - обрабатываем как TABLE_ROWS независимо от детекции
     if (Array.isArray(content)) {
-      return this.parseJsonArray(content);
+      return this.parseJsonArray(content, profile);
     }
     
     switch (format.type) {
@@ -57,20 +94,32 @@ export class UniversalParser {
         return this.parseText(content as string);
       
       case 'JSON_OBJECT':
-        return this.parseJsonObject(content);
+        return this.parseJsonObject(content, profile);
       
       case 'JSON_ARRAY':
       case 'TABLE_ROWS':
-        return this.parseJsonArray(content);
+        return this.parseJsonArray(content, profile);
       
       case 'TABLE_ROW':
-        return this.parseTableRow(content);
+        return this.parseTableRow(content, profile);
       
       case 'CSV_TEXT':
-        return this.parseCSV(content as string);
+        return this.parseCSV(content as string, profile);
+      
+      case 'SPREADSHEET':
+        return this.parseSpreadsheet(content as Buffer, profile);
+      
+      case 'EDIFACT':
+        return this.parseEdifact(content as string);
+      
+      case 'X12':
+        return this.parseX12(content as string);
+      
+      case 'EMAIL_MIME':
+        return this.parseEmail(content as string, input);
       
       case 'MIXED':
-        return this.parseMixed(content);
+        return this.parseMixed(content, profile);
       
       default:
         return this.attemptBestEffort(content);
@@ -128,6 +177,22 @@ export class UniversalParser {
       }
     }
 
+    // Отправка, поезд, судно, рейс и коносамент обычно в шапке — общие для всех строк
+    const dispatch = extractDispatchInfo(text);
+    const vessel = extractVesselInfo(text);
+    const shipment = extractShipmentReferences(text);
+    for (const item of items) {
+      item.dispatchNumber ??= dispatch.dispatchNumber;
+      item.trainIndex ??= dispatch.trainIndex;
+      item.originEsr ??= dispatch.originEsr;
+      item.destinationEsr ??= dispatch.destinationEsr;
+      item.vesselName ??= vessel.vesselName;
+      item.imoNumber ??= vessel.imoNumber;
+      item.voyageNumber ??= vessel.voyageNumber;
+      item.blNumber ??= shipment.blNumber;
+      item.bookingNumber ??= shipment.bookingNumber;
+    }
+
     return { items, errors, warnings };
   }
 
@@ -190,10 +255,26 @@ export class UniversalParser {
     // Извлекаем комментарий оператора
     const operatorComment = this.extractOperatorComment(text);
 
+    // Номер вагона (в пакете — из строки контейнера)
+    const wagonNumber = extractWagonNumbers(text)[0]?.wagonNumber;
+
+    // ЖД-отправка и индекс поезда
+    const dispatch = extractDispatchInfo(text);
+
+    // Судно и рейс (морское плечо)
+    const vessel = extractVesselInfo(text);
+
+    // Коносамент и букинг
+    const shipment = extractShipmentReferences(text);
+
     if (containerNumber) confidence += 0.05;
 
     return {
       containerNumber,
+      wagonNumber,
+      ...dispatch,
+      ...vessel,
+      ...shipment,
       statusCode,
       statusText,
       location,
@@ -214,7 +295,7 @@ export class UniversalParser {
   /**
    * Парсинг JSON объекта
    */
-  private parseJsonObject(content: string | object): ParseResult {
+  private parseJsonObject(content: string | object, profile?: ParsingProfile): ParseResult {
     const items: ParsedItem[] = [];
     const errors: string[] = [];
     const warnings: string[] = [];
@@ -224,13 +305,13 @@ export class UniversalParser {
       
       // Проверяем вложенные массивы
       if (Array.isArray(obj.rows)) {
-        return this.parseJsonArray(obj.rows);
+        return this.parseJsonArray(obj.rows, profile);
       }
       if (Array.isArray(obj.data)) {
-        return this.parseJsonArray(obj.data);
+        return this.parseJsonArray(obj.data, profile);
       }
       if (Array.isArray(obj.containers)) {
-        return this.parseJsonArray(obj.containers);
+        return this.parseJsonArray(obj.containers, profile);
       }
 
       // Если есть поле body - это текстовое сообщение
@@ -246,7 +327,7 @@ export class UniversalParser {
       }
 
       // Пытаемся распарсить как строку таблицы
-      const item = this.mapTableRow(obj);
+      const item = this.mapTableRow(obj, profile);
       items.push(item);
 
     } catch (e) {
@@ -259,10 +340,11 @@ export class UniversalParser {
   /**
    * Парсинг JSON массива
    */
-  private parseJsonArray(content: string | object | unknown[]): ParseResult {
+  private parseJsonArray(content: string | object | unknown[], profile?: ParsingProfile): ParseResult {
     const items: ParsedItem[] = [];
     const errors: string[] = [];
     const warnings: string[] = [];
+    let skipped = 0;
 
     try {
       const arr = Array.isArray(content) 
@@ -278,8 +360,12 @@ export class UniversalParser {
             const textResult = this.parseText(row);
             items.push(...textResult.items);
           } else if (typeof row === 'object' && row !== null) {
+            if (profile && shouldSkipRow(row as Record<string, unknown>, profile)) {
+              skipped++;
+              continue;
+            }
             // Объект - маппим поля
-            const item = this.mapTableRow(row as Record<string, unknown>);
+            const item = this.mapTableRow(row as Record<string, unknown>, profile);
             items.push(item);
           }
         } catch (e) {
@@ -287,6 +373,10 @@ export class UniversalParser {
         }
       }
 
+      if (skipped > 0) {
+        warnings.push(`Пропущено строк по правилам профиля: ${skipped}`);
+      }
+
     } catch (e) {
       errors.push(`Failed to parse JSON array: ${e instanceof Error ? e.message : 'unknown error'}`);
     }
@@ -297,14 +387,14 @@ export class UniversalParser {
   /**
    * Парсинг строки таблицы
    */
-  private parseTableRow(content: string | object): ParseResult {
+  private parseTableRow(content: string | object, profile?: ParsingProfile): ParseResult {
     const items: ParsedItem[] = [];
     const errors: string[] = [];
     const warnings: string[] = [];
 
     try {
       const obj = typeof content === 'string' ? JSON.parse(content) : content;
-      const item = this.mapTableRow(obj as Record<string, unknown>);
+      const item = this.mapTableRow(obj as Record<string, unknown>, profile);
       items.push(item);
     } catch (e) {
       errors.push(`Failed to parse table row: ${e instanceof Error ? e.message : 'unknown error'}`);
@@ -315,21 +405,28 @@ export class UniversalParser {
 
   /**
    * Маппинг строки таблицы на ParsedItem
+   * 
+   * Колонки из профиля перевозчика берутся по явному маппингу,
+   * остальные — по синонимам названий.
    */
-  private mapTableRow(row: Record<string, unknown>): ParsedItem {
+  private mapTableRow(row: Record<string, unknown>, profile?: ParsingProfile): ParsedItem {
+    const mapped = profile
+      ? applyColumnMappings(row, profile)
+      : { values: {} as Partial<Record<ProfileField, unknown>>, usedKeys: new Set<string>() };
+
     // Нормализуем ключи (приводим к lowercase и убираем спецсимволы)
     const normalizedRow: Record<string, unknown> = {};
     for (const [key, value] of Object.entries(row)) {
-      // Убираем кавычки, пробелы, подчёркивания, дефисы
-      const normalizedKey = key.toLowerCase()
-        .replace(/^"|"$/g, '')
-        .replace(/[_\s\-]/g, '');
+      const normalizedKey = normalizeHeader(key);
+      // Колонки, разобранные профилем, в поиск по синонимам не попадают
+      if (mapped.usedKeys.has(normalizedKey)) continue;
       normalizedRow[normalizedKey] = value;
     }
 
-    let containerNumber = this.findField(normalizedRow, [
-      'containernumber', 'container', 'ktk', 'ктк', 'номер', 'number', 'containerid'
-    ]) as string | undefined;
+    const field = (name: Exclude<ProfileField, 'ignore'>): unknown =>
+      mapped.values[name] ?? this.findField(normalizedRow, TABLE_FIELD_SYNONYMS[name]);
+
+    let containerNumber = field('containerNumber') as string | undefined;
 
     // Если не нашли по ключу - ищем значение, похожее на номер контейнера
     if (!containerNumber) {
@@ -344,54 +441,47 @@ export class UniversalParser {
       }
     }
 
-    const statusCode = this.normalizeStatusCode(
-      this.findField(normalizedRow, [
-        'statuscode', 'status', 'state', 'состояние', 'статус'
-      ]) as string | undefined
-    );
-
-    const statusText = this.findField(normalizedRow, [
-      'statustext', 'statedescription', 'описание', 'состояниетекст'
-    ]) as string | undefined;
-
-    const location = this.findField(normalizedRow, [
-      'location', 'currentlocation', 'текущееместоположение', 'локация', 'местоположение', 
-      'station', 'станция', 'currentpoint', 'current', 'lastseen', 'текущая'
-    ]) as string | undefined;
-
-    const distanceRaw = this.findField(normalizedRow, [
-      'distance', 'расстояние', 'дистанция', 'distancetodestination', 'distancekm', 
-      'disttonext', 'км', 'dist'
-    ]);
+    const statusRaw = field('statusCode') as string | undefined;
+    let statusText = field('statusText') as string | undefined;
+
+    // Словарь статусов перевозчика важнее общих правил; если колонки
+    // статуса нет, ищем по тексту операции
+    const dictionaryStatus =
+      (statusRaw !== undefined ? lookupStatus(String(statusRaw), profile?.statusDictionary) : undefined)
+      ?? (statusText !== undefined ? lookupStatus(String(statusText), profile?.statusDictionary) : undefined);
+    const statusCode = dictionaryStatus ?? this.normalizeStatusCode(statusRaw);
+    if (dictionaryStatus && !statusText && statusRaw !== undefined) {
+      statusText = String(statusRaw);
+    }
+
+    const location = field('location') as string | undefined;
+
+    const distanceRaw = field('distanceToDestination');
     const distanceToDestination = distanceRaw !== undefined 
       ? this.parseNumber(distanceRaw) 
       : undefined;
 
-    const etaRaw = this.findField(normalizedRow, [
-      'eta', 'arrivaldate', 'датаприбытия', 'ориентировочнаядата', 'expectedarrival'
-    ]);
-    const eta = etaRaw !== undefined ? this.parseDate(etaRaw) : undefined;
-
-    const eventTimeRaw = this.findField(normalizedRow, [
-      'eventtime', 'datetime', 'date', 'дата', 'время', 'timestamp'
-    ]);
-    const eventTime = eventTimeRaw !== undefined ? this.parseDate(eventTimeRaw) : undefined;
-
-    const origin = this.findField(normalizedRow, [
-      'origin', 'from', 'пунктотправления', 'откуда', 'отправление'
-    ]) as string | undefined;
-
-    const destination = this.findField(normalizedRow, [
-      'destination', 'to', 'пунктназначения', 'куда', 'назначение'
-    ]) as string | undefined;
-
-    const carrierName = this.findField(normalizedRow, [
-      'carrier', 'carriername', 'перевозчик', 'оператор', 'operator'
-    ]) as string | undefined;
-
-    const carrierType = this.findField(normalizedRow, [
-      'carriertype', 'type', 'тип', 'типперевозчика', 'типктк'
-    ]) as string | undefined;
+    const etaRaw = field('eta');
+    const eta = etaRaw !== undefined ? this.parseProfileDate(etaRaw, profile) : undefined;
+
+    const eventTimeRaw = field('eventTime');
+    const eventTime = eventTimeRaw !== undefined ? this.parseProfileDate(eventTimeRaw, profile) : undefined;
+
+    const origin = field('origin') as string | undefined;
+    const destination = field('destination') as string | undefined;
+    const carrierName = field('carrierName') as string | undefined;
+    const carrierType = field('carrierType') as string | undefined;
+    const operatorComment = field('operatorComment') as string | undefined;
+    const wagonNumber = this.optionalString(field('wagonNumber'));
+    const dispatchNumber = this.optionalString(field('dispatchNumber'));
+    const trainIndex = this.optionalString(field('trainIndex'));
+    const originEsr = this.optionalString(field('originEsr'));
+    const destinationEsr = this.optionalString(field('destinationEsr'));
+    const vesselName = this.optionalString(field('vesselName'));
+    const imoNumber = this.optionalString(field('imoNumber'));
+    const voyageNumber = this.optionalString(field('voyageNumber'));
+    const blNumber = this.optionalString(field('blNumber'));
+    const bookingNumber = this.optionalString(field('bookingNumber'));
 
     // Определяем уверенность
     let confidence = 0.3;
@@ -400,9 +490,21 @@ export class UniversalParser {
     if (location) confidence += 0.1;
     if (eta) confidence += 0.05;
     if (distanceToDestination !== undefined) confidence += 0.05;
+    // Колонки размечены логистом вручную
+    if (profile && mapped.usedKeys.size > 0) confidence += 0.1;
 
     return {
       containerNumber,
+      wagonNumber,
+      dispatchNumber,
+      trainIndex,
+      originEsr,
+      destinationEsr,
+      vesselName,
+      imoNumber,
+      voyageNumber,
+      blNumber,
+      bookingNumber,
       statusCode,
       statusText,
       location,
@@ -413,28 +515,45 @@ export class UniversalParser {
       destination,
       carrierName,
       carrierType,
+      operatorComment,
       rawSource: JSON.stringify(row),
       extractionConfidence: Math.min(confidence, 1),
     };
   }
 
+  /**
+   * Парсинг даты с учётом форматов из профиля перевозчика
+   */
+  private parseProfileDate(value: unknown, profile?: ParsingProfile): string | null {
+    if (profile?.dateFormats?.length && !(value instanceof Date) && typeof value !== 'number') {
+      const date = parseDateWithFormats(value, profile.dateFormats);
+      if (date) return date.toISOString();
+    }
+
+    return this.parseDate(value);
+  }
+
   /**
    * Парсинг CSV текста
    */
-  private parseCSV(text: string): ParseResult {
+  private parseCSV(text: string, profile?: ParsingProfile): ParseResult {
     const items: ParsedItem[] = [];
     const errors: string[] = [];
     const warnings: string[] = [];
+    let skipped = 0;
 
     // Разделяем по \n, но также обрабатываем \r\n
-    const lines = text.split(/\r?\n/).filter(l => l.trim());
+    // (строки шапки отчёта до заголовков пропускаются по профилю)
+    const lines = text.split(/\r?\n/)
+      .slice(profile?.skipRules?.skipRows ?? 0)
+      .filter(l => l.trim());
     if (lines.length === 0) {
       errors.push('Empty CSV data');
       return { items, errors, warnings };
     }
 
-    // Определяем разделитель
-    const delimiter = this.detectDelimiter(lines[0]);
+    // Определяем разделитель (профиль перевозчика задаёт его явно)
+    const delimiter = profile?.delimiter || this.detectDelimiter(lines[0]);
 
     // Первая строка - заголовки
     const rawHeaders = this.parseCSVLine(lines[0], delimiter);
@@ -466,13 +585,217 @@ export class UniversalParser {
           row[headerKey] = value;
         }
 
-        const item = this.mapTableRow(row);
+        if (profile && shouldSkipRow(row, profile)) {
+          skipped++;
+          continue;
+        }
+
+        const item = this.mapTableRow(row, profile);
         items.push(item);
       } catch (e) {
         warnings.push(`Failed to parse CSV line ${i + 1}: ${e instanceof Error ? e.message : 'unknown'}`);
       }
     }
 
+    if (skipped > 0) {
+      warnings.push(`Пропущено строк по правилам профиля: ${skipped}`);
+    }
+
+    return { items, errors, warnings };
+  }
+
+  /**
+   * Чтение CSV в заголовки и строки (без маппинга на поля)
+   * 
+   * Используется при разметке образца файла в профиле перевозчика.
+   */
+  readCsvTable(text: string, options: { delimiter?: string | null; skipRows?: number } = {}): {
+    delimiter: string;
+    headerRow: number;
+    headers: string[];
+    rows: Array<Record<string, string>>;
+  } {
+    const allLines = text.split(/\r?\n/);
+    const skipRows = options.skipRows ?? 0;
+    const headerIndex = allLines.findIndex((line, i) => i >= skipRows && line.trim());
+    if (headerIndex === -1) {
+      return { delimiter: options.delimiter || ';', headerRow: 0, headers: [], rows: [] };
+    }
+
+    const delimiter = options.delimiter || this.detectDelimiter(allLines[headerIndex]);
+    const headers = this.parseCSVLine(allLines[headerIndex], delimiter)
+      .map(h => h.trim().replace(/^"|"$/g, ''));
+
+    const rows = allLines.slice(headerIndex + 1)
+      .filter(line => line.trim())
+      .map(line => {
+        const values = this.parseCSVLine(line, delimiter);
+        const row: Record<string, string> = {};
+        headers.forEach((header, j) => {
+          if (header) row[header] = values[j]?.trim().replace(/^"|"$/g, '') || '';
+        });
+        return row;
+      });
+
+    return { delimiter, headerRow: headerIndex + 1, headers: headers.filter(Boolean), rows };
+  }
+
+  /**
+   * Парсинг книги Excel
+   * 
+   * Строки всех листов маппятся так же, как строки таблицы из JSON.
+   */
+  private parseSpreadsheet(content: Buffer, profile?: ParsingProfile): ParseResult {
+    const items: ParsedItem[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    let skipped = 0;
+
+    try {
+      const workbook = parseSpreadsheet(content, {
+        skipRows: profile?.skipRules?.skipRows,
+        headerNames: profile ? Object.keys(profile.columnMappings) : undefined,
+      });
+      warnings.push(...workbook.warnings);
+
+      for (const sheet of workbook.sheets) {
+        sheet.rows.forEach((row, i) => {
+          if (profile && shouldSkipRow(row, profile)) {
+            skipped++;
+            return;
+          }
+          try {
+            items.push(this.mapTableRow(row, profile));
+          } catch (e) {
+            warnings.push(`Лист "${sheet.name}", строка ${sheet.headerRow + i + 1}: ${e instanceof Error ? e.message : 'unknown'}`);
+          }
+        });
+      }
+
+      if (skipped > 0) {
+        warnings.push(`Пропущено строк по правилам профиля: ${skipped}`);
+      }
+
+      if (workbook.sheets.length === 0) {
+        errors.push('No data rows found in spreadsheet');
+      }
+    } catch (e) {
+      errors.push(`Failed to read spreadsheet: ${e instanceof Error ? e.message : 'unknown error'}`);
+    }
+
+    return { items, errors, warnings };
+  }
+
+  /**
+   * Парсинг событий DCSA Track & Trace
+   */
+  private parseDcsa(content: string | object | unknown[]): ParseResult {
+    const errors: string[] = [];
+    let data: unknown = content;
+
+    if (typeof content === 'string') {
+      try {
+        data = JSON.parse(content);
+      } catch {
+        return { items: [], errors: ['Invalid DCSA JSON'], warnings: [] };
+      }
+    }
+
+    const { events, warnings } = mapDcsaEvents(unwrapDcsaEvents(data) ?? []);
+
+    const items: ParsedItem[] = events.map(event => ({
+      containerNumber: event.containerNumber,
+      vesselName: event.raw.transportCall?.vessel?.vesselName,
+      imoNumber: event.raw.transportCall?.vessel?.vesselIMONumber,
+      voyageNumber: event.raw.transportCall?.carrierVoyageNumber || event.raw.transportCall?.exportVoyageNumber,
+      blNumber: documentReference(event.raw, 'TRD'),
+      bookingNumber: documentReference(event.raw, 'BKG'),
+      statusCode: event.statusCode,
+      statusText: event.statusText,
+      location: event.location,
+      eventTime: event.eventTime,
+      eventClassifier: event.eventClassifier,
+      eta: event.eta,
+      sourceInfo: event.eventID ? `DCSA ${event.eventType} ${event.eventID}` : `DCSA ${event.eventType}`,
+      rawSource: JSON.stringify(event.raw),
+      extractionConfidence: event.statusCode === 'UNKNOWN' ? 0.6 : 0.95,
+    }));
+
+    if (items.length === 0) {
+      errors.push('No container events found in DCSA payload');
+    }
+
+    return { items, errors, warnings };
+  }
+
+  /**
+   * Парсинг обмена UN/EDIFACT (IFTSTA, CODECO, COARRI)
+   * 
+   * Каждый контейнер каждого сообщения — отдельный элемент
+   * со временем события из DTM.
+   */
+  private parseEdifact(text: string): ParseResult {
+    const { events, warnings } = extractEdifactEvents(text);
+    const errors: string[] = [];
+
+    const items: ParsedItem[] = events.map(event => {
+      const vessel = [event.vesselName, event.voyage && `рейс ${event.voyage}`].filter(Boolean).join(', ');
+
+      return {
+        containerNumber: event.containerNumber,
+        vesselName: event.vesselName,
+        voyageNumber: event.voyage,
+        statusCode: event.statusCode,
+        statusText: vessel ? `${event.statusText} (${vessel})` : event.statusText,
+        location: event.location,
+        eventTime: event.eventTime,
+        eta: event.eta,
+        sourceInfo: `EDIFACT ${event.messageType}`,
+        rawSource: event.raw,
+        extractionConfidence: event.statusCode === 'UNKNOWN' ? 0.6 : 0.95,
+      };
+    });
+
+    if (items.length === 0) {
+      errors.push('No container events found in EDIFACT interchange');
+    }
+
+    return { items, errors, warnings };
+  }
+
+  /**
+   * Парсинг обмена ANSI X12 (315)
+   * 
+   * Ошибки счётчиков SE/GE/IEA попадают в errors,
+   * но события из транзакций сохраняются.
+   */
+  private parseX12(text: string): ParseResult {
+    const { events, errors, warnings } = extractX12Events(text);
+
+    const items: ParsedItem[] = events.map(event => {
+      const vessel = [event.vesselName, event.voyage && `рейс ${event.voyage}`].filter(Boolean).join(', ');
+
+      return {
+        containerNumber: event.containerNumber,
+        vesselName: event.vesselName,
+        voyageNumber: event.voyage,
+        blNumber: event.references.BM,
+        bookingNumber: event.references.BN,
+        statusCode: event.statusCode,
+        statusText: vessel ? `${event.statusText} (${vessel})` : event.statusText,
+        location: event.location,
+        eventTime: event.eventTime,
+        eta: event.eta,
+        sourceInfo: `X12 ${event.transactionType} ${event.controlNumber}`,
+        rawSource: event.raw,
+        extractionConfidence: event.statusCode === 'UNKNOWN' ? 0.6 : 0.95,
+      };
+    });
+
+    if (items.length === 0) {
+      errors.push('No container events found in X12 interchange');
+    }
+
     return { items, errors, warnings };
   }
 
@@ -527,7 +850,7 @@ export class UniversalParser {
   /**
    * Парсинг смешанного формата
    */
-  private parseMixed(content: string | object | unknown[]): ParseResult {
+  private parseMixed(content: string | object | unknown[], profile?: ParsingProfile): ParseResult {
     // Пытаемся несколько стратегий
     
     if (typeof content === 'string') {
@@ -552,7 +875,7 @@ export class UniversalParser {
         if (typeof parsed.body === 'string') {
           return this.parseText(parsed.body);
         }
-        return this.parseJsonObject(parsed);
+        return this.parseJsonObject(parsed, profile);
       } catch {
         // Не JSON - как текст
         return this.parseText(content);
@@ -564,12 +887,104 @@ export class UniversalParser {
       if (typeof obj.body === 'string') {
         return this.parseText(obj.body);
       }
-      return this.parseJsonObject(obj);
+      return this.parseJsonObject(obj, profile);
     }
 
     return this.attemptBestEffort(content);
   }
 
+  /**
+   * Парсинг исходника письма (.eml)
+   * 
+   * Тело письма разбирается как текст, каждое вложение — отдельно,
+   * через FormatDetector. Заголовки письма дополняют метаданные входа
+   * (отправитель, тема, дата, Message-ID), не перезаписывая явно переданные.
+   */
+  private async parseEmail(source: string, input: RawInput): Promise<ParseResult> {
+    const items: ParsedItem[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const eml = await parseEml(source);
+
+    input.metadata = {
+      ...input.metadata,
+      sourceEmail: input.metadata?.sourceEmail || eml.from,
+      sourceSubject: input.metadata?.sourceSubject || eml.subject,
+      receivedAt: input.metadata?.receivedAt || eml.date,
+      messageId: input.metadata?.messageId || eml.messageId,
+    };
+
+    // Тело письма
+    let bodyErrors: string[] = [];
+    if (eml.text) {
+      const bodyResult = this.parseText(eml.text);
+      items.push(...bodyResult.items);
+      warnings.push(...bodyResult.warnings);
+      bodyErrors = bodyResult.errors;
+    }
+
+    // Вложения — отдельные элементы того же сообщения
+    const formatDetector = new FormatDetector();
+    for (const attachment of eml.attachments) {
+      try {
+        for (const childInput of this.attachmentToInputs(attachment, input)) {
+          const childFormat = formatDetector.detect(childInput);
+          const childResult = await this.parse(childInput, childFormat);
+
+          for (const item of childResult.items) {
+            item.sourceInfo = item.sourceInfo || `Вложение: ${attachment.filename}`;
+          }
+
+          items.push(...childResult.items);
+          warnings.push(...childResult.warnings.map(w => `[${attachment.filename}] ${w}`));
+          warnings.push(...childResult.errors.map(e => `[${attachment.filename}] ${e}`));
+        }
+      } catch (e) {
+        warnings.push(`Не удалось разобрать вложение ${attachment.filename}: ${e instanceof Error ? e.message : 'unknown'}`);
+      }
+    }
+
+    if (eml.skippedAttachments.length > 0) {
+      warnings.push(`Пропущены неподдерживаемые вложения: ${eml.skippedAttachments.join(', ')}`);
+    }
+
+    if (items.length === 0) {
+      errors.push(...(bodyErrors.length > 0 ? bodyErrors : ['No container data found in email body or attachments']));
+    } else if (bodyErrors.length > 0) {
+      warnings.push(...bodyErrors.map(e => `[тело письма] ${e}`));
+    }
+
+    return { items, errors, warnings };
+  }
+
+  /**
+   * Преобразование вложения письма во входные данные для повторного разбора
+   */
+  private attachmentToInputs(attachment: EmlAttachment, parent: RawInput): RawInput[] {
+    // Профиль перевозчика действует и на вложения
+    const { metadata, profile } = parent;
+
+    switch (attachment.kind) {
+      case 'xlsx':
+        return attachment.buffer ? [{ content: attachment.buffer, hint: 'xlsx', metadata, profile }] : [];
+      case 'csv':
+        return [{ content: attachment.text || '', hint: 'csv', metadata, profile }];
+      case 'json':
+        try {
+          return [{ content: JSON.parse(attachment.text || ''), metadata, profile }];
+        } catch {
+          return [{ content: attachment.text || '', hint: 'text', metadata, profile }];
+        }
+      case 'xml':
+        return [{ content: attachment.text || '', metadata, profile }];
+      case 'edi':
+        return [{ content: attachment.text || '', hint: 'edi', metadata, profile }];
+      default:
+        return [{ content: attachment.text || '', hint: 'text', metadata, profile }];
+    }
+  }
+
   /**
    * Парсинг XML формата
    */
@@ -1202,6 +1617,15 @@ export class UniversalParser {
     return undefined;
   }
 
+  /**
+   * Непустое значение ячейки строкой (числа из Excel — тоже)
+   */
+  private optionalString(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    const text = String(value).trim();
+    return text || undefined;
+  }
+
   /**
    * Поиск поля по альтернативным именам
    */
@@ -1310,6 +1734,16 @@ export class UniversalParser {
   private parseDate(value: unknown): string | null {
     if (!value) return null;
     
+    // Ячейка Excel с форматом даты
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : value.toISOString();
+    }
+    
+    // Серийный номер даты Excel в ячейке без формата (36526 = 01.01.2000)
+    if (typeof value === 'number' && value >= 36526 && value <= 73051) {
+      return excelSerialToDate(value)?.toISOString() ?? null;
+    }
+    
     const str = String(value).trim();
     
     // Форматы дат с регулярными выражениями
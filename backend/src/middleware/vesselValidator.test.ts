@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { validateImoNumber, extractVesselInfo, normalizeVesselName, normalizeVoyageNumber } from './vesselValidator.js';
+
+describe('validateImoNumber', () => {
+  it('checks the last digit against the 7..2 weighted sum', () => {
+    expect(validateImoNumber('IMO 9074729')).toMatchObject({ isValid: true, imoNumber: '9074729' });
+    expect(validateImoNumber('9321483').isValid).toBe(true);
+  });
+
+  it('explains a wrong check digit', () => {
+    const result = validateImoNumber('9074728');
+
+    expect(result).toMatchObject({ isValid: false, checkDigit: '8', calculatedCheckDigit: '9' });
+    expect(result.error).toContain('не совпадает');
+  });
+
+  it('rejects anything but seven digits', () => {
+    expect(validateImoNumber('IMO 90747').isValid).toBe(false);
+  });
+});
+
+describe('extractVesselInfo', () => {
+  it('reads a quoted Russian vessel name, IMO and voyage', () => {
+    expect(extractVesselInfo('MSKU1234565 погружен на т/х «FESCO MAGADAN» (IMO 9074729), рейс 123W')).toEqual({
+      vesselName: 'FESCO MAGADAN',
+      imoNumber: '9074729',
+      voyageNumber: '123W',
+    });
+  });
+
+  it('reads an uppercase name up to the IMO keyword', () => {
+    expect(extractVesselInfo('Vessel: MSC ANNA IMO 9321483 VOY 0FL1ZW1MA')).toEqual({
+      vesselName: 'MSC ANNA',
+      imoNumber: '9321483',
+      voyageNumber: '0FL1ZW1MA',
+    });
+  });
+
+  it('ignores a voyage without digits', () => {
+    expect(extractVesselInfo('Рейс отменён').voyageNumber).toBeUndefined();
+  });
+});
+
+describe('normalizers', () => {
+  it('collapse whitespace and upper-case names and voyages', () => {
+    expect(normalizeVesselName('  fesco   magadan ')).toBe('FESCO MAGADAN');
+    expect(normalizeVoyageNumber('123 w')).toBe('123W');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * ============================================
+ * VESSEL VALIDATOR - Судно, номер IMO и рейс
+ * ============================================
+ *
+ * Морские перевозчики в каждом сообщении называют судно и рейс:
+ *   "MSKU1234565 погружен на т/х «FESCO MAGADAN» (IMO 9074729), рейс 123W"
+ *
+ * Номер IMO — 7 цифр, последняя контрольная: сумма первых
+ * шести с весами 7-6-5-4-3-2, взятая по модулю 10.
+ */
+
+export interface VesselInfo {
+  vesselName?: string;
+  imoNumber?: string;
+  voyageNumber?: string;
+}
+
+export interface ImoValidationResult {
+  isValid: boolean;
+  imoNumber: string;
+  checkDigit: string;
+  calculatedCheckDigit: string;
+  error?: string;
+}
+
+const VESSEL_KEYWORD = /(?<![A-Za-zА-Яа-яЁё])(?:судн[оаеу]|т\/х|теплоход[аеу]?|vessel|m\/v|mv)\s*[:\-]?\s*/gi;
+const QUOTED_NAME = /^["«']([^"»'\n]{2,40})["»']/;
+// Название без кавычек — заглавными буквами ("MSC ANNA", "ФЕСКО МАГАДАН")
+const UPPERCASE_NAME = /^([A-ZА-ЯЁ][A-ZА-ЯЁ0-9.\-]*(?:\s(?!IMO\b|VOY)[A-ZА-ЯЁ0-9][A-ZА-ЯЁ0-9.\-]*)*)/;
+const IMO_PATTERN = /\bIMO\s*(?:№|#|no\.?)?\s*:?\s*(\d{7})\b/i;
+const VOYAGE_PATTERN = /(?:рейс|voyage|voy)\.?\s*(?:№|#|no\.?)?\s*:?\s*([A-Z0-9][A-Z0-9\-\/]{1,14})/i;
+
+/**
+ * Проверка номера IMO по контрольной цифре
+ */
+export function validateImoNumber(input: string): ImoValidationResult {
+  const digits = input.replace(/^IMO/i, '').replace(/[\s:]/g, '');
+
+  if (!/^\d{7}$/.test(digits)) {
+    return {
+      isValid: false,
+      imoNumber: input,
+      checkDigit: '',
+      calculatedCheckDigit: '',
+      error: 'Неверный формат номера IMO (должно быть 7 цифр)',
+    };
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 6; i++) {
+    sum += Number(digits[i]) * (7 - i);
+  }
+  const calculatedCheckDigit = String(sum % 10);
+  const checkDigit = digits[6];
+
+  return {
+    isValid: checkDigit === calculatedCheckDigit,
+    imoNumber: digits,
+    checkDigit,
+    calculatedCheckDigit,
+    error: checkDigit === calculatedCheckDigit
+      ? undefined
+      : `Контрольная цифра IMO ${checkDigit} не совпадает с расчётной ${calculatedCheckDigit}`,
+  };
+}
+
+/**
+ * Судно, IMO и рейс из текста
+ */
+export function extractVesselInfo(text: string): VesselInfo {
+  const voyage = text.match(VOYAGE_PATTERN)?.[1];
+
+  return {
+    vesselName: extractVesselName(text),
+    imoNumber: text.match(IMO_PATTERN)?.[1],
+    // Номер рейса всегда содержит цифры ("123W", "0FL1ZW1MA")
+    voyageNumber: voyage && /\d/.test(voyage) ? voyage.toUpperCase() : undefined,
+  };
+}
+
+/**
+ * Название судна: без лишних пробелов, заглавными
+ */
+export function normalizeVesselName(name: string): string {
+  return name.replace(/\s+/g, ' ').trim().toUpperCase();
+}
+
+/**
+ * Номер рейса: без пробелов, заглавными
+ */
+export function normalizeVoyageNumber(voyage: string): string {
+  return voyage.replace(/\s+/g, '').toUpperCase();
+}
+
+function extractVesselName(text: string): string | undefined {
+  VESSEL_KEYWORD.lastIndex = 0;
+  let match;
+
+  while ((match = VESSEL_KEYWORD.exec(text)) !== null) {
+    const rest = text.slice(match.index + match[0].length);
+    const name = rest.match(QUOTED_NAME)?.[1] ?? rest.match(UPPERCASE_NAME)?.[1];
+    if (name && name.trim().length >= 2) {
+      return name.trim();
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { validateWagonNumber, calculateWagonCheckDigit, extractWagonNumbers, looksLikeWagonNumber } from './wagonValidator.js';
+
+describe('calculateWagonCheckDigit', () => {
+  it('weights digits 2-1-2-1 and complements the sum to ten', () => {
+    expect(calculateWagonCheckDigit('5204632')).toBe('3');
+    expect(calculateWagonCheckDigit('6123456')).toBe('3');
+    expect(calculateWagonCheckDigit('4290031')).toBe('6');
+  });
+
+  it('returns 0 for anything but seven digits', () => {
+    expect(calculateWagonCheckDigit('123')).toBe('0');
+  });
+});
+
+describe('validateWagonNumber', () => {
+  it('gives full confidence to a known type with a valid check digit', () => {
+    expect(validateWagonNumber('6123 4563')).toMatchObject({
+      isValid: true,
+      wagonNumber: '61234563',
+      confidence: 1,
+      details: { typeCode: '6', wagonType: 'Полувагон', checkDigitValid: true },
+    });
+  });
+
+  it('keeps a wrong check digit visible in details', () => {
+    const result = validateWagonNumber('61234568');
+
+    expect(result.isValid).toBe(true);
+    expect(result.confidence).toBeCloseTo(0.75);
+    expect(result.details).toMatchObject({ checkDigit: '8', calculatedCheckDigit: '3', checkDigitValid: false });
+  });
+
+  it('rejects numbers that are not eight digits', () => {
+    expect(validateWagonNumber('1234567')).toMatchObject({ isValid: false, confidence: 0 });
+    expect(looksLikeWagonNumber('6123-4563')).toBe(true);
+    expect(looksLikeWagonNumber('MSCU1234560')).toBe(false);
+  });
+});
+
+describe('extractWagonNumbers', () => {
+  it('accepts a number next to "вагон" even with a wrong check digit', () => {
+    const [wagon] = extractWagonNumbers('Вагон 52046320 прибыл на станцию');
+
+    expect(wagon).toMatchObject({ wagonNumber: '52046320', details: { checkDigitValid: false } });
+  });
+
+  it('takes bare numbers only with a valid check digit and a known type', () => {
+    const numbers = extractWagonNumbers('Отправка 61234563, 61234568, 12345674');
+
+    expect(numbers.map(w => w.wagonNumber)).toEqual(['61234563']);
+  });
+
+  it('skips dates written as eight digits', () => {
+    expect(extractWagonNumbers('Дата отправки 20251201')).toEqual([]);
+  });
+});
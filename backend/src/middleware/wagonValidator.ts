@@ -0,0 +1,148 @@
+/**
+ * ============================================
+ * WAGON VALIDATOR - Номера вагонов РЖД
+ * ============================================
+ *
+ * Проверка восьмизначных номеров грузовых вагонов
+ * с расчётом контрольной (восьмой) цифры.
+ *
+ * Первая цифра — род вагона, контрольная цифра считается
+ * по первым семи: веса 2-1-2-1-2-1-2, у двузначных
+ * произведений складываются цифры, контрольная дополняет
+ * сумму до кратной 10.
+ */
+
+// Род вагона по первой цифре номера
+const WAGON_TYPES: Record<string, string> = {
+  '2': 'Крытый',
+  '4': 'Платформа',
+  '5': 'Собственный',
+  '6': 'Полувагон',
+  '7': 'Цистерна',
+  '8': 'Изотермический',
+  '9': 'Прочий',
+};
+
+// Упоминание вагона перед номером
+const WAGON_CONTEXT = /(?:вагон[а-я]*|ваг\.?|в\/н|платформ[а-я]*|пл\.|wagon|wag\.?|railcar|car\s*(?:no|#))[:\s#№]*(\d{8})\b/gi;
+
+export interface WagonValidationResult {
+  isValid: boolean;
+  wagonNumber: string;
+  confidence: number;
+  details: {
+    typeCode: string;
+    wagonType?: string;
+    checkDigit: string;
+    calculatedCheckDigit: string;
+    checkDigitValid: boolean;
+  };
+  error?: string;
+}
+
+/**
+ * Валидация номера вагона РЖД
+ */
+export function validateWagonNumber(input: string): WagonValidationResult {
+  const cleaned = input.replace(/[\s\-]/g, '');
+
+  if (!/^\d{8}$/.test(cleaned)) {
+    return {
+      isValid: false,
+      wagonNumber: input,
+      confidence: 0,
+      details: {
+        typeCode: '',
+        checkDigit: '',
+        calculatedCheckDigit: '',
+        checkDigitValid: false,
+      },
+      error: 'Неверный формат номера вагона (должно быть 8 цифр)',
+    };
+  }
+
+  const typeCode = cleaned[0];
+  const wagonType = WAGON_TYPES[typeCode];
+  const checkDigit = cleaned[7];
+  const calculatedCheckDigit = calculateWagonCheckDigit(cleaned.slice(0, 7));
+  const checkDigitValid = checkDigit === calculatedCheckDigit;
+
+  let confidence = 0.7;                  // Базовая уверенность для 8 цифр
+  if (checkDigitValid) confidence += 0.25; // +25% за верную контрольную цифру
+  if (wagonType) confidence += 0.05;       // +5% за известный род вагона
+
+  return {
+    isValid: true,
+    wagonNumber: cleaned,
+    confidence: Math.min(confidence, 1),
+    details: {
+      typeCode,
+      wagonType,
+      checkDigit,
+      calculatedCheckDigit,
+      checkDigitValid,
+    },
+  };
+}
+
+/**
+ * Расчёт контрольной цифры номера вагона
+ */
+export function calculateWagonCheckDigit(code: string): string {
+  if (!/^\d{7}$/.test(code)) return '0';
+
+  let sum = 0;
+  for (let i = 0; i < 7; i++) {
+    const product = Number(code[i]) * (i % 2 === 0 ? 2 : 1);
+    sum += product > 9 ? product - 9 : product;
+  }
+
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Извлечение номеров вагонов из текста
+ *
+ * Номер рядом со словом "вагон"/"платформа" принимается всегда
+ * (неверная контрольная цифра видна в details). Восемь цифр
+ * без пояснения — только с верной контрольной цифрой и если
+ * это не дата вида ГГГГММДД.
+ */
+export function extractWagonNumbers(text: string): WagonValidationResult[] {
+  const results: WagonValidationResult[] = [];
+  const seen = new Set<string>();
+
+  const add = (candidate: string, requireCheckDigit: boolean) => {
+    if (seen.has(candidate)) return;
+    const validation = validateWagonNumber(candidate);
+    if (!validation.isValid) return;
+    if (requireCheckDigit && (!validation.details.checkDigitValid || !validation.details.wagonType)) return;
+    seen.add(candidate);
+    results.push(validation);
+  };
+
+  let match;
+  WAGON_CONTEXT.lastIndex = 0;
+  while ((match = WAGON_CONTEXT.exec(text)) !== null) {
+    add(match[1], false);
+  }
+
+  const bare = /(?<![\d.\-\/])(\d{8})(?![\d.\-\/])/g;
+  while ((match = bare.exec(text)) !== null) {
+    if (looksLikeDate(match[1])) continue;
+    add(match[1], true);
+  }
+
+  return results;
+}
+
+/**
+ * Быстрая проверка - похоже ли на номер вагона
+ */
+export function looksLikeWagonNumber(text: string): boolean {
+  return /^\d{8}$/.test(text.replace(/[\s\-]/g, ''));
+}
+
+function looksLikeDate(digits: string): boolean {
+  return /^(?:19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])$/.test(digits);
+}
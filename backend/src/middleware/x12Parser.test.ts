@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { looksLikeX12, tokenizeX12, parseX12, extractX12Events, parseX12Date } from './x12Parser.js';
+
+const ISA = 'ISA*00*          *00*          *ZZ*SENDER         *ZZ*RECEIVER       *251201*1030*U*00401*000000042*0*P*>';
+
+function interchange(transaction: string[], counts: { se?: number; ge?: number; iea?: number } = {}): string {
+  return [
+    ISA,
+    'GS*QO*SENDER*RECEIVER*20251201*1030*7*X*004010',
+    'ST*315*0001',
+    ...transaction,
+    `SE*${counts.se ?? transaction.length + 2}*0001`,
+    `GE*${counts.ge ?? 1}*7`,
+    `IEA*${counts.iea ?? 1}*000000042`,
+  ].join('~\n') + '~';
+}
+
+const ARRIVAL = [
+  'B4***VA*20251201*1030*Vladivostok*MSCU*123456*L*4500*RUVVO*UN*0',
+  'N9*BM*MAEU123',
+  'Q2*9321483********425E****MAERSK KOLKATA',
+  'R4*D*UN*RUVVO*VLADIVOSTOK',
+  'R4*E*UN*XXZZZ*INLAND DEPOT',
+  'DTM*139*20251215*1200*UT',
+];
+
+describe('tokenizeX12', () => {
+  it('reads delimiters from the ISA segment', () => {
+    const content = ISA.replace(/\*/g, '|') + '^GS|QO^';
+    const segments = tokenizeX12(content);
+
+    expect(looksLikeX12(content)).toBe(true);
+    expect(segments.map(s => s.tag)).toEqual(['ISA', 'GS']);
+    expect(segments[1]).toMatchObject({ elements: ['QO'], position: 2 });
+  });
+});
+
+describe('parseX12', () => {
+  it('accepts a well-formed envelope', () => {
+    const result = parseX12(interchange(ARRIVAL));
+
+    expect(result.errors).toEqual([]);
+    expect(result).toMatchObject({ sender: 'SENDER', receiver: 'RECEIVER', controlNumber: '000000042' });
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0].segments).toHaveLength(ARRIVAL.length);
+  });
+
+  it('reports SE, GE and IEA count mismatches with the segment number', () => {
+    const result = parseX12(interchange(ARRIVAL, { se: 5, ge: 2, iea: 3 }));
+
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors[0]).toContain('X12 SE (сегмент 10)');
+    expect(result.errors[0]).toContain('фактически 8');
+    expect(result.errors[1]).toContain('X12 GE');
+    expect(result.errors[2]).toContain('X12 IEA');
+  });
+
+  it('reports a transaction left open', () => {
+    const result = parseX12(`${ISA}~GS*QO*A*B*20251201*1030*7*X*004010~ST*315*0001~B4***VA~`);
+    expect(result.errors.some(e => e.includes('не закрыта сегментом SE'))).toBe(true);
+  });
+});
+
+describe('extractX12Events', () => {
+  it('maps a 315 transaction to a container event', () => {
+    const { events, errors, warnings } = extractX12Events(interchange(ARRIVAL));
+
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([]);
+    expect(events[0]).toMatchObject({
+      containerNumber: 'MSCU1234560',
+      statusCode: 'ARRIVED_PORT',
+      eventCode: 'VA',
+      location: 'Владивосток',
+      locationCode: 'RUVVO',
+      eventTime: new Date(2025, 11, 1, 10, 30).toISOString(),
+      eta: '2025-12-15T12:00:00.000Z',
+      vesselName: 'MAERSK KOLKATA',
+      voyage: '425E',
+      references: { BM: 'MAEU123' },
+    });
+  });
+
+  it('still extracts events when the envelope counts are wrong', () => {
+    const { events, errors } = extractX12Events(interchange(ARRIVAL, { se: 99 }));
+
+    expect(errors).toHaveLength(1);
+    expect(events).toHaveLength(1);
+  });
+
+  it('warns about a status without a container number', () => {
+    const { events, warnings } = extractX12Events(interchange(['B4***VA*20251201*1030']));
+
+    expect(events).toEqual([]);
+    expect(warnings[0]).toContain('без номера контейнера');
+  });
+});
+
+describe('parseX12Date', () => {
+  it('parses long and short dates, local and UTC', () => {
+    expect(parseX12Date('20251201', '1030')).toBe(new Date(2025, 11, 1, 10, 30).toISOString());
+    expect(parseX12Date('251201', '103015', 'UT')).toBe('2025-12-01T10:30:15.000Z');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseX12Date('20250231')).toBeUndefined();
+    expect(parseX12Date('')).toBeUndefined();
+  });
+});
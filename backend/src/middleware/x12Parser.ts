@@ -0,0 +1,466 @@
+import { IFTSTA_EVENT_CODES } from './edifactParser.js';
+import { findLocation } from './locationDictionary.js';
+
+/**
+ * ============================================
+ * X12 PARSER - Разбор ANSI X12 315 (Status Details – Ocean)
+ * ============================================
+ *
+ * Экспедиторы из США присылают статусы в X12 315:
+ * ISA ... IEA — обмен, GS ... GE — функциональная группа,
+ * ST ... SE — транзакция с одним событием по контейнеру:
+ * - B4 — код статуса, дата/время, контейнер
+ * - N9 — ссылки (коносамент, букинг, контейнер)
+ * - Q2 — судно и рейс
+ * - R4 + DTM — порты маршрута с плановыми/фактическими датами
+ *
+ * Несовпадение счётчиков SE/GE/IEA — ошибка обработки с номером
+ * сегмента, но события из транзакций всё равно извлекаются.
+ */
+
+export interface X12Segment {
+  tag: string;
+  elements: string[];
+  /** Порядковый номер сегмента в файле (с 1) */
+  position: number;
+  raw: string;
+}
+
+export interface X12Transaction {
+  type: string;
+  controlNumber: string;
+  segments: X12Segment[];
+}
+
+export interface X12Interchange {
+  sender?: string;
+  receiver?: string;
+  controlNumber?: string;
+  transactions: X12Transaction[];
+  /** Ошибки конверта: счётчики и контрольные номера SE/GE/IEA */
+  errors: string[];
+}
+
+export interface X12Event {
+  transactionType: string;
+  controlNumber: string;
+  containerNumber: string;
+  statusCode: string;
+  statusText: string;
+  /** Код статуса из B403 */
+  eventCode?: string;
+  location?: string;
+  locationCode?: string;
+  eventTime?: string;
+  eta?: string;
+  vesselName?: string;
+  voyage?: string;
+  /** Ссылки из N9: квалификатор → значение (BM — коносамент, BN — букинг) */
+  references: Record<string, string>;
+  raw: string;
+}
+
+interface X12Delimiters {
+  element: string;
+  component: string;
+  segment: string;
+}
+
+const DEFAULT_DELIMITERS: X12Delimiters = {
+  element: '*',
+  component: '>',
+  segment: '~',
+};
+
+/** Функция порта R401: L — погрузки, D — выгрузки, E — доставки, 5 — место события */
+const ACTIVITY_PORT = '5';
+const DEPARTURE_STATUSES = ['AE', 'VD', 'I', 'AL', 'RL'];
+
+/** Квалификаторы DTM после R4: 139 — прогноз, 140 — факт, 371 — прогноз прихода */
+const ETA_QUALIFIERS = ['139', '371'];
+const ETA_PORTS = ['E', 'D'];
+
+/**
+ * Похоже ли содержимое на X12 (ISA, либо GS/ST без конверта)
+ */
+export function looksLikeX12(content: string): boolean {
+  const trimmed = content.replace(/^﻿/, '').trimStart();
+  return /^ISA[^A-Za-z0-9\s]/.test(trimmed) || /^(GS|ST)\*/.test(trimmed);
+}
+
+/**
+ * Разделители из сегмента ISA
+ *
+ * ISA фиксированной длины: 4-й символ — разделитель элементов,
+ * ISA16 — разделитель компонентов, следующий за ним символ —
+ * терминатор сегмента.
+ */
+function readDelimiters(text: string): X12Delimiters {
+  if (!text.startsWith('ISA')) return DEFAULT_DELIMITERS;
+
+  const element = text[3];
+  let index = 3;
+  for (let count = 1; count < 16 && index >= 0; count++) {
+    index = text.indexOf(element, index + 1);
+  }
+
+  if (index < 0 || index + 2 >= text.length) return { ...DEFAULT_DELIMITERS, element };
+
+  return {
+    element,
+    component: text[index + 1],
+    segment: /[\r\n]/.test(text[index + 2]) ? '\n' : text[index + 2],
+  };
+}
+
+/**
+ * Разбиение текста на сегменты
+ */
+export function tokenizeX12(content: string): X12Segment[] {
+  const text = content.replace(/^﻿/, '').trimStart();
+  const delimiters = readDelimiters(text);
+
+  return text
+    .split(delimiters.segment)
+    .map(raw => raw.replace(/[\r\n]/g, '').trim())
+    .filter(Boolean)
+    .map((raw, index) => {
+      const [tag, ...elements] = raw.split(delimiters.element);
+      return { tag: tag.trim(), elements, position: index + 1, raw };
+    });
+}
+
+/**
+ * Разбор обмена на транзакции с проверкой конверта
+ */
+export function parseX12(content: string): X12Interchange {
+  const interchange: X12Interchange = { transactions: [], errors: [] };
+
+  let transaction: X12Transaction | null = null;
+  let transactionStart = 0;
+  let group: { controlNumber: string; position: number; transactions: number } | null = null;
+  let groups = 0;
+  let interchangeOpen = false;
+
+  for (const segment of tokenizeX12(content)) {
+    const at = `X12 ${segment.tag} (сегмент ${segment.position})`;
+
+    switch (segment.tag) {
+      case 'ISA':
+        interchange.sender = segment.elements[5]?.trim();
+        interchange.receiver = segment.elements[7]?.trim();
+        interchange.controlNumber = segment.elements[12]?.trim();
+        interchangeOpen = true;
+        break;
+
+      case 'GS':
+        group = { controlNumber: segment.elements[5]?.trim() || '', position: segment.position, transactions: 0 };
+        groups++;
+        break;
+
+      case 'ST':
+        if (transaction) {
+          interchange.errors.push(`X12 ST (сегмент ${segment.position}): транзакция ${transaction.controlNumber} не закрыта сегментом SE`);
+        }
+        transaction = {
+          type: segment.elements[0]?.trim() || '',
+          controlNumber: segment.elements[1]?.trim() || '',
+          segments: [],
+        };
+        transactionStart = segment.position;
+        interchange.transactions.push(transaction);
+        if (group) group.transactions++;
+        break;
+
+      case 'SE': {
+        if (!transaction) {
+          interchange.errors.push(`${at}: SE без открывающего ST`);
+          break;
+        }
+        const declared = parseInt(segment.elements[0], 10);
+        const actual = segment.position - transactionStart + 1;
+        if (declared !== actual) {
+          interchange.errors.push(
+            `${at}: в транзакции ${transaction.controlNumber} указано сегментов ${segment.elements[0] || '—'}, фактически ${actual}`
+          );
+        }
+        if (segment.elements[1]?.trim() !== transaction.controlNumber) {
+          interchange.errors.push(
+            `${at}: контрольный номер ${segment.elements[1] || '—'} не совпадает с ST ${transaction.controlNumber}`
+          );
+        }
+        transaction = null;
+        break;
+      }
+
+      case 'GE':
+        if (!group) {
+          interchange.errors.push(`${at}: GE без открывающего GS`);
+          break;
+        }
+        if (parseInt(segment.elements[0], 10) !== group.transactions) {
+          interchange.errors.push(
+            `${at}: в группе ${group.controlNumber} указано транзакций ${segment.elements[0] || '—'}, фактически ${group.transactions}`
+          );
+        }
+        if (segment.elements[1]?.trim() !== group.controlNumber) {
+          interchange.errors.push(
+            `${at}: контрольный номер ${segment.elements[1] || '—'} не совпадает с GS ${group.controlNumber}`
+          );
+        }
+        group = null;
+        break;
+
+      case 'IEA':
+        if (parseInt(segment.elements[0], 10) !== groups) {
+          interchange.errors.push(`${at}: указано функциональных групп ${segment.elements[0] || '—'}, фактически ${groups}`);
+        }
+        if (interchange.controlNumber && segment.elements[1]?.trim() !== interchange.controlNumber) {
+          interchange.errors.push(
+            `${at}: контрольный номер ${segment.elements[1] || '—'} не совпадает с ISA ${interchange.controlNumber}`
+          );
+        }
+        interchangeOpen = false;
+        break;
+
+      default:
+        if (transaction) {
+          transaction.segments.push(segment);
+        }
+    }
+  }
+
+  if (transaction) {
+    interchange.errors.push(`X12: транзакция ${transaction.controlNumber} (сегмент ${transactionStart}) не закрыта сегментом SE`);
+  }
+  if (group) {
+    interchange.errors.push(`X12: группа ${group.controlNumber} (сегмент ${group.position}) не закрыта сегментом GE`);
+  }
+  if (interchangeOpen) {
+    interchange.errors.push(`X12: обмен ${interchange.controlNumber} не закрыт сегментом IEA`);
+  }
+
+  return interchange;
+}
+
+/**
+ * События по контейнерам из обмена X12
+ */
+export function extractX12Events(content: string): { events: X12Event[]; errors: string[]; warnings: string[] } {
+  const interchange = parseX12(content);
+  const events: X12Event[] = [];
+  const warnings: string[] = [];
+
+  if (interchange.transactions.length === 0) {
+    warnings.push('В обмене X12 нет транзакций (ST)');
+  }
+
+  for (const transaction of interchange.transactions) {
+    if (transaction.type !== '315') {
+      warnings.push(`Транзакция X12 ${transaction.type || '?'} (${transaction.controlNumber}) не поддерживается`);
+      continue;
+    }
+
+    const event = map315(transaction, warnings);
+    if (event) events.push(event);
+  }
+
+  return { events, errors: interchange.errors, warnings };
+}
+
+/**
+ * 315: B4 задаёт статус и контейнер, R4 + DTM — порты маршрута
+ */
+function map315(transaction: X12Transaction, warnings: string[]): X12Event | null {
+  const label = `X12 315 ${transaction.controlNumber}`;
+  const b4 = transaction.segments.find(segment => segment.tag === 'B4');
+
+  if (!b4) {
+    warnings.push(`${label}: нет сегмента B4`);
+    return null;
+  }
+
+  const references = n9References(transaction.segments);
+  const containerNumber = equipmentNumber(b4) || normalizeContainer(references.EQ);
+
+  if (!containerNumber) {
+    warnings.push(`${label}: статус ${element(b4, 3) || '?'} без номера контейнера (B407/B408)`);
+    return null;
+  }
+
+  // Перечень кодов B403 общий с IFTSTA
+  const eventCode = element(b4, 3)?.toUpperCase();
+  const mapped = eventCode ? IFTSTA_EVENT_CODES[eventCode] : undefined;
+  if (!mapped) {
+    warnings.push(`${label}: неизвестный код статуса ${eventCode || '?'}`);
+  }
+
+  const ports = portsOfCall(transaction.segments);
+  const q2 = transaction.segments.find(segment => segment.tag === 'Q2');
+
+  return {
+    transactionType: '315',
+    controlNumber: transaction.controlNumber,
+    containerNumber,
+    statusCode: mapped?.code || 'UNKNOWN',
+    statusText: mapped?.text || `Статус ${eventCode || '?'}`,
+    eventCode,
+    ...eventLocation(b4, ports, eventCode),
+    eventTime: parseX12Date(element(b4, 4) || '', element(b4, 5)),
+    eta: estimatedArrival(ports),
+    vesselName: element(q2, 13),
+    voyage: element(q2, 9),
+    references,
+    raw: transaction.segments.map(segment => segment.raw).join('~'),
+  };
+}
+
+interface PortOfCall {
+  functionCode: string;
+  locationCode?: string;
+  qualifier?: string;
+  name?: string;
+  dates: X12Segment[];
+}
+
+/**
+ * Петли R4: сегменты DTM после R4 относятся к этому порту
+ */
+function portsOfCall(segments: X12Segment[]): PortOfCall[] {
+  const ports: PortOfCall[] = [];
+
+  for (const segment of segments) {
+    if (segment.tag === 'R4') {
+      ports.push({
+        functionCode: element(segment, 1) || '',
+        qualifier: element(segment, 2),
+        locationCode: element(segment, 3),
+        name: element(segment, 4),
+        dates: [],
+      });
+    } else if (segment.tag === 'DTM' && ports.length > 0) {
+      ports[ports.length - 1].dates.push(segment);
+    }
+  }
+
+  return ports;
+}
+
+/**
+ * Место события: R4 с функцией 5, иначе порт погрузки/выгрузки
+ * по коду статуса, иначе место из B4
+ */
+function eventLocation(
+  b4: X12Segment,
+  ports: PortOfCall[],
+  eventCode?: string
+): { location?: string; locationCode?: string } {
+  const expected = eventCode && DEPARTURE_STATUSES.includes(eventCode) ? 'L' : 'D';
+  const port = ports.find(p => p.functionCode === ACTIVITY_PORT)
+    || ports.find(p => p.functionCode === expected);
+
+  if (port && (port.locationCode || port.name)) {
+    return resolveLocation(port.locationCode, port.qualifier, port.name);
+  }
+
+  // B411/B412 — код места, B406 — название
+  const code = element(b4, 11);
+  const name = element(b4, 6);
+  return code || name ? resolveLocation(code, element(b4, 12), name) : {};
+}
+
+/**
+ * Код UN/LOCODE разрешается через справочник локаций
+ */
+function resolveLocation(
+  code: string | undefined,
+  qualifier: string | undefined,
+  name: string | undefined
+): { location?: string; locationCode?: string } {
+  if (code && (!qualifier || qualifier === 'UN')) {
+    const match = findLocation(code);
+    if (match.found && match.location) {
+      return { location: match.location.name, locationCode: code };
+    }
+  }
+
+  return { location: name || code, locationCode: code };
+}
+
+/**
+ * ETA: прогнозная дата в петле порта доставки или выгрузки
+ */
+function estimatedArrival(ports: PortOfCall[]): string | undefined {
+  for (const functionCode of ETA_PORTS) {
+    for (const port of ports.filter(p => p.functionCode === functionCode)) {
+      const dtm = port.dates.find(segment => ETA_QUALIFIERS.includes(element(segment, 1) || ''));
+      if (dtm) {
+        const date = parseX12Date(element(dtm, 2) || '', element(dtm, 3), element(dtm, 4));
+        if (date) return date;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * N9*<квалификатор>*<значение>
+ */
+function n9References(segments: X12Segment[]): Record<string, string> {
+  const references: Record<string, string> = {};
+
+  for (const segment of segments.filter(s => s.tag === 'N9')) {
+    const qualifier = element(segment, 1);
+    const value = element(segment, 2);
+    if (qualifier && value && !references[qualifier]) {
+      references[qualifier] = value;
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Номер контейнера: B407 (префикс) + B408 (номер) + B413 (контрольная цифра)
+ */
+function equipmentNumber(b4: X12Segment): string | undefined {
+  const prefix = element(b4, 7) || '';
+  const number = element(b4, 8) || '';
+  const checkDigit = /^\d{6}$/.test(number) ? element(b4, 13) || '' : '';
+
+  return normalizeContainer(prefix + number + checkDigit);
+}
+
+function normalizeContainer(value?: string): string | undefined {
+  const normalized = (value || '').replace(/\s/g, '').toUpperCase();
+  return /^[A-Z]{4}\d{6,7}$/.test(normalized) ? normalized : undefined;
+}
+
+/**
+ * Дата X12 (CCYYMMDD или YYMMDD) и время (HHMM, HHMMSS) → ISO-строка
+ *
+ * Код зоны UT/GM — UTC, иначе время считается местным, как в EDIFACT.
+ */
+export function parseX12Date(date: string, time?: string, zone?: string): string | undefined {
+  const dateMatch = date.trim().match(/^(\d{2})?(\d{2})(\d{2})(\d{2})$/);
+  const timeMatch = (time || '').trim().match(/^(\d{2})(\d{2})(\d{2})?/);
+  if (!dateMatch) return undefined;
+
+  const [, century = '20', yy, month, day] = dateMatch;
+  const [, hour = '0', minute = '0', second = '0'] = timeMatch || [];
+  const parts: [number, number, number, number, number, number] = [
+    +(century + yy), +month - 1, +day, +hour, +minute, +second,
+  ];
+
+  const utc = ['UT', 'GM'].includes((zone || '').toUpperCase());
+  const result = utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+  const resultMonth = utc ? result.getUTCMonth() : result.getMonth();
+
+  return isNaN(result.getTime()) || resultMonth !== +month - 1 ? undefined : result.toISOString();
+}
+
+function element(segment: X12Segment | undefined, index: number): string | undefined {
+  const value = segment?.elements[index - 1]?.trim();
+  return value || undefined;
+}
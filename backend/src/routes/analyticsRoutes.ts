@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { analyticsController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/analytics/carriers
+ * Оценка перевозчиков: точность ETA, время в пути по маршрутам,
+ * частота обновлений, ошибки разбора и низкая уверенность
+ * 
+ * Query params:
+ * - from, to: период (default: последние 90 дней)
+ * - carrierId: один перевозчик
+ * - format: 'json' | 'csv' (default: 'json')
+ */
+router.get('/carriers', (req, res) => analyticsController.getCarrierScorecards(req, res));
+
+/**
+ * GET /api/analytics/dwell
+ * Время в пути и простои: перцентили и гистограмма длительности
+ * этапов (море, рейд, порт, СВХ, таможня, ЖД, авто)
+ * 
+ * Query params:
+ * - groupBy: 'route' | 'location' | 'month' (default: 'route')
+ * - stage: один этап
+ * - from, to: период по началу этапа (default: последние 90 дней)
+ * - carrierId, clientId: фильтр контейнеров
+ */
+router.get('/dwell', (req, res) => analyticsController.getDwell(req, res));
+
+/**
+ * GET /api/analytics/dwell/containers
+ * Контейнеры группы, от самого долгого этапа
+ * 
+ * Query params: те же, что у /dwell, плюс
+ * - key: ключ группы (маршрут, локация или месяц YYYY-MM)
+ */
+router.get('/dwell/containers', (req, res) => analyticsController.getDwellContainers(req, res));
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { carrierController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/carriers
+ * Список перевозчиков (для выбора в профилях разбора)
+ */
+router.get('/', (req, res) => carrierController.getCarriers(req, res));
+
+export default router;
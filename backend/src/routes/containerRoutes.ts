@@ -40,4 +40,19 @@ router.get('/:id', (req, res) => containerController.getContainerById(req, res))
  */
 router.get('/:id/notification', (req, res) => containerController.getContainerNotification(req, res));
 
+/**
+ * GET /api/containers/:id/route
+ * Плановый маршрут по плечам: даты план/факт, текущее плечо, прогресс
+ */
+router.get('/:id/route', (req, res) => containerController.getRoute(req, res));
+
+/**
+ * PUT /api/containers/:id/route
+ * Замена планового маршрута
+ * 
+ * Body:
+ * - legs: [{ mode: SEA|RAIL|AUTO, fromPoint, toPoint, plannedDeparture?, plannedArrival?, distanceKm? }]
+ */
+router.put('/:id/route', (req, res) => containerController.setRoute(req, res));
+
 export default router;
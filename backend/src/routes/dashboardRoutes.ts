@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { dashboardController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/dashboard
+ * Сводка по всем контейнерам: число контейнеров по статусам и этапам,
+ * обновлённые сегодня, просроченные ETA, без обновлений дольше порога,
+ * ближайшие прибытия (списки — страницами)
+ *
+ * Query params (по умолчанию — из настроек пользователя):
+ * - staleThresholdDays: порог устаревания, дней
+ * - upcomingDays: горизонт прибытий, дней
+ * - showDelivered: учитывать доставленные в этапах (true/false)
+ * - limit: размер страницы списков (default: 10, max: 100)
+ * - overduePage, stalePage, upcomingPage: страница каждого списка
+ *
+ * Headers:
+ * - X-User-Id: пользователь, чьи настройки применяются
+ *
+ * Авторизации нет: X-User-Id — случайный идентификатор, который
+ * браузер создаёт один раз и хранит в localStorage. Настройки
+ * привязаны к браузеру: после очистки хранилища или в другом
+ * браузере пользователь получает новый идентификатор и настройки
+ * по умолчанию.
+ */
+router.get('/', (req, res) => dashboardController.getDashboard(req, res));
+
+/**
+ * GET /api/dashboard/settings
+ * Настройки дашборда пользователя (X-User-Id)
+ */
+router.get('/settings', (req, res) => dashboardController.getSettings(req, res));
+
+/**
+ * PUT /api/dashboard/settings
+ * Изменение настроек дашборда
+ *
+ * Body: любые из staleThresholdDays, upcomingDays, autoRefreshMinutes,
+ * freeTimeWarningDays, showDelivered, notifyOverdue, notifyStale
+ */
+router.put('/settings', (req, res) => dashboardController.updateSettings(req, res));
+
+/**
+ * DELETE /api/dashboard/settings
+ * Сброс настроек дашборда к значениям по умолчанию
+ */
+router.delete('/settings', (req, res) => dashboardController.resetSettings(req, res));
+
+export default router;
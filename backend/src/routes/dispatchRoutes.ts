@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { dispatchController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/dispatches/:id
+ * ЖД-отправка: индекс поезда, станции и контейнеры с текущими статусами
+ *
+ * Params:
+ * - id: ID отправки или номер отправки (ЭЖ123456)
+ */
+router.get('/:id', (req, res) => dispatchController.getDispatch(req, res));
+
+export default router;
@@ -14,7 +14,7 @@ const router = Router();
  * Экспорт данных контейнеров в формате таблицы 1С
  * 
  * Query params:
- * - format: 'json' | 'csv' (default: 'json')
+ * - format: 'json' | 'csv' | 'xml' (default: 'json')
  * - containerIds: comma-separated list of container IDs (optional)
  * 
  * CSV формат включает колонки:
@@ -32,8 +32,51 @@ const router = Router();
  * - Текущее местоположение
  * - Расстояние до назначения
  * - Ориентировочная дата прибытия
+ * - Расчётная дата прибытия
+ * - Интервал расчётной даты
+ *
+ * XML — сообщение обмена EnterpriseData: документ ONEC_DOCUMENT
+ * на каждый контейнер с теми же реквизитами
  */
 router.get('/1c', (req, res) => exportController.exportFor1C(req, res));
 
+/**
+ * POST /api/export/1c/push
+ * Отправка изменений в 1С через OData (SyncJob EXPORT_1C)
+ *
+ * Body:
+ * - full: true — все контейнеры, а не только изменённые
+ * - containerIds: string[] — только указанные контейнеры
+ */
+router.post('/1c/push', (req, res) => exportController.pushTo1C(req, res));
+
+/**
+ * GET /api/export/1c/push/status
+ * Настройки отправки в 1С и последние запуски
+ *
+ * Query params:
+ * - limit: число запусков (default: 20, max: 100)
+ */
+router.get('/1c/push/status', (req, res) => exportController.getPushStatus(req, res));
+
+/**
+ * ============================================
+ * DCSA Track & Trace Routes
+ * ============================================
+ */
+
+/**
+ * GET /api/export/dcsa/events
+ * События DCSA Track & Trace v2 из истории статусов
+ * 
+ * Query params:
+ * - equipmentReference: номер контейнера
+ * - eventType: EQUIPMENT,TRANSPORT
+ * - eventClassifierCode: PLN,EST,ACT
+ * - eventCreatedDateTime:gte: ISO 8601
+ * - limit: default 100, max 1000
+ */
+router.get('/dcsa/events', (req, res) => exportController.exportDcsaEvents(req, res));
+
 export default router;
 
@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { freeTimeAgreementController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/free-time-agreements
+ * Соглашения о бесплатном времени
+ */
+router.get('/', (req, res) => freeTimeAgreementController.getAgreements(req, res));
+
+/**
+ * POST /api/free-time-agreements
+ * Создание соглашения
+ * 
+ * Body:
+ * - name: название
+ * - carrierId, clientId: к кому относится (оба пустые — соглашение по умолчанию)
+ * - currency: USD, EUR, RUB (default: USD)
+ * - portFreeDays, warehouseFreeDays, equipmentFreeDays: бесплатные дни
+ * - portTariff, warehouseTariff, equipmentTariff: [{ fromDay: 1, rate: 75 }, { fromDay: 8, rate: 150 }]
+ */
+router.post('/', (req, res) => freeTimeAgreementController.createAgreement(req, res));
+
+/**
+ * PUT /api/free-time-agreements/:id
+ * Изменение соглашения (передаются только изменяемые поля)
+ */
+router.put('/:id', (req, res) => freeTimeAgreementController.updateAgreement(req, res));
+
+/**
+ * DELETE /api/free-time-agreements/:id
+ * Удаление соглашения
+ */
+router.delete('/:id', (req, res) => freeTimeAgreementController.deleteAgreement(req, res));
+
+export default router;
@@ -1,18 +1,46 @@
 import { Router } from 'express';
 import containerRoutes from './containerRoutes.js';
 import rawDataRoutes from './rawDataRoutes.js';
+import rawMessageRoutes from './rawMessageRoutes.js';
 import statusEventRoutes from './statusEventRoutes.js';
 import exportRoutes from './exportRoutes.js';
 import ingestRoutes from './ingestRoutes.js';
+import mailboxRoutes from './mailboxRoutes.js';
+import carrierRoutes from './carrierRoutes.js';
+import parsingProfileRoutes from './parsingProfileRoutes.js';
+import locationRoutes from './locationRoutes.js';
+import reviewRoutes from './reviewRoutes.js';
+import learnedRuleRoutes from './learnedRuleRoutes.js';
+import wagonRoutes from './wagonRoutes.js';
+import dispatchRoutes from './dispatchRoutes.js';
+import shipmentRoutes from './shipmentRoutes.js';
+import freeTimeAgreementRoutes from './freeTimeAgreementRoutes.js';
+import reportRoutes from './reportRoutes.js';
+import analyticsRoutes from './analyticsRoutes.js';
+import dashboardRoutes from './dashboardRoutes.js';
 
 const router = Router();
 
 // API routes
 router.use('/containers', containerRoutes);
 router.use('/raw', rawDataRoutes);              // Legacy endpoints
+router.use('/raw-messages', rawMessageRoutes);  // Повторная обработка RawMessage
 router.use('/ingest', ingestRoutes);            // NEW: Универсальный приём данных
 router.use('/status-events', statusEventRoutes);
 router.use('/export', exportRoutes);
+router.use('/mailbox', mailboxRoutes);          // IMAP-ящик операторов
+router.use('/carriers', carrierRoutes);         // Справочник перевозчиков
+router.use('/parsing-profiles', parsingProfileRoutes); // Профили разбора перевозчиков
+router.use('/locations', locationRoutes);       // Справочник локаций
+router.use('/reviews', reviewRoutes);           // Очередь ручной проверки
+router.use('/learned-rules', learnedRuleRoutes); // Правила из исправлений логиста
+router.use('/wagons', wagonRoutes);             // Контейнеры на вагонах РЖД
+router.use('/dispatches', dispatchRoutes);      // ЖД-отправки
+router.use('/shipments', shipmentRoutes);       // Отгрузки (коносамент / букинг)
+router.use('/free-time-agreements', freeTimeAgreementRoutes); // Бесплатное время и тарифы
+router.use('/reports', reportRoutes);           // Отчёты (демерредж / детеншн)
+router.use('/analytics', analyticsRoutes);      // Аналитика по перевозчикам
+router.use('/dashboard', dashboardRoutes);      // Сводка дашборда и настройки пользователя
 
 // Health check
 router.get('/health', (req, res) => {
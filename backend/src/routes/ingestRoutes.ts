@@ -1,9 +1,10 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import {
   ingestUniversal,
   ingestText,
   ingestJson,
   ingestCsv,
+  ingestEml,
   ingestBatch,
   getProcessingLogs,
   getProcessingStats,
@@ -11,6 +12,7 @@ import {
   resetDatabase,
   seedDemoData,
 } from '../controllers/ingestController.js';
+import { fileUpload } from '../middleware/fileUpload.js';
 
 const router = Router();
 
@@ -21,10 +23,11 @@ const router = Router();
  * 
  * Все endpoints для загрузки данных в систему:
  * 
- * POST /api/ingest         - Универсальный приём (автодетект формата)
+ * POST /api/ingest         - Универсальный приём (автодетект формата, загрузка файла)
  * POST /api/ingest/text    - Текстовые данные (email, сообщения)
  * POST /api/ingest/json    - Структурированный JSON
  * POST /api/ingest/csv     - CSV данные
+ * POST /api/ingest/eml     - Исходник письма (.eml) с вложениями
  * POST /api/ingest/batch   - Пакетная загрузка
  * POST /api/ingest/test    - Тестовый парсинг (без сохранения)
  * 
@@ -33,17 +36,29 @@ const router = Router();
  * 
  * POST /api/ingest/reset   - Сброс базы данных
  * POST /api/ingest/seed    - Заполнить тестовыми данными
+ * 
+ * Повторная загрузка того же содержимого не создаёт дубликатов:
+ * заголовок Idempotency-Key возвращает результат первого запроса,
+ * одинаковые события сливаются, в ответе — processed / duplicates / failed.
  */
 
 // === ОСНОВНЫЕ ENDPOINTS ЗАГРУЗКИ ===
 
 // Универсальный приём с автоопределением формата
-router.post('/', ingestUniversal);
+// (исходник письма можно прислать как message/rfc822,
+// файл .xlsx/.xls/.csv/.eml — как multipart/form-data в поле "file")
+router.post(
+  '/',
+  express.text({ type: 'message/rfc822', limit: '25mb' }),
+  fileUpload.single('file'),
+  ingestUniversal
+);
 
 // Специализированные endpoints
 router.post('/text', ingestText);
 router.post('/json', ingestJson);
 router.post('/csv', ingestCsv);
+router.post('/eml', express.text({ type: ['message/rfc822', 'text/plain'], limit: '25mb' }), ingestEml);
 router.post('/batch', ingestBatch);
 
 // Тестовый парсинг без сохранения
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { learnedRuleController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/learned-rules
+ * Правила, выученные из исправлений логиста
+ *
+ * Query params:
+ * - kind: LOCATION_ALIAS, STATUS_PHRASE, OWNER_CODE
+ * - carrierId: ID перевозчика или global — только глобальные
+ * - active: true/false
+ */
+router.get('/', (req, res) => learnedRuleController.getRules(req, res));
+
+/**
+ * GET /api/learned-rules/:id
+ * Правило с последними обучающими парами
+ */
+router.get('/:id', (req, res) => learnedRuleController.getRuleById(req, res));
+
+/**
+ * PATCH /api/learned-rules/:id
+ * Включение / отключение правила
+ *
+ * Body:
+ * - isActive: boolean
+ */
+router.patch('/:id', (req, res) => learnedRuleController.updateRule(req, res));
+
+/**
+ * POST /api/learned-rules/:id/promote
+ * Правило перевозчика становится глобальным
+ */
+router.post('/:id/promote', (req, res) => learnedRuleController.promoteRule(req, res));
+
+export default router;
@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import { locationController } from '../controllers/index.js';
+import { fileUpload } from '../middleware/fileUpload.js';
+
+const router = Router();
+
+/**
+ * GET /api/locations
+ * Справочник локаций
+ *
+ * Query params:
+ * - search: название, написание, UN/LOCODE или код ЕСР
+ * - type: STATION, PORT, CITY, WAREHOUSE, CUSTOMS
+ * - country: код страны (RU, CN)
+ * - source: BUILTIN, MANUAL, ESR_IMPORT, UNLOCODE_IMPORT
+ * - page: номер страницы (default: 1)
+ * - limit: количество на странице (default: 50, max: 200)
+ */
+router.get('/', (req, res) => locationController.getLocations(req, res));
+
+/**
+ * GET /api/locations/lookup
+ * Проверка распознавания: что findLocation найдёт в тексте
+ *
+ * Query params:
+ * - text: текст локации ("ст. Иня-Восточная", "RUVVO", "850609")
+ */
+router.get('/lookup', (req, res) => locationController.lookup(req, res));
+
+/**
+ * POST /api/locations/import
+ * Массовый импорт реестра
+ *
+ * multipart/form-data:
+ * - file: реестр станций ЕСР (XLSX/CSV) или файл UN/LOCODE (CSV)
+ * - registry: esr | unlocode
+ * - transportOnly: для UN/LOCODE — только порты и ЖД (default: true)
+ *
+ * Запуск фиксируется в SyncJob (IMPORT_LOCATIONS).
+ */
+router.post(
+  '/import',
+  fileUpload.single('file'),
+  (req, res) => locationController.importRegistry(req, res)
+);
+
+/**
+ * GET /api/locations/:id
+ * Локация по ID
+ */
+router.get('/:id', (req, res) => locationController.getLocationById(req, res));
+
+/**
+ * POST /api/locations
+ * Добавление локации
+ *
+ * Body:
+ * - name, type, country (обязательные)
+ * - aliases: варианты написания
+ * - region, unLocode, esrCode, isActive
+ */
+router.post('/', (req, res) => locationController.createLocation(req, res));
+
+/**
+ * PUT /api/locations/:id
+ * Изменение локации (поля как при создании, все необязательны)
+ */
+router.put('/:id', (req, res) => locationController.updateLocation(req, res));
+
+/**
+ * DELETE /api/locations/:id
+ * Удаление локации
+ */
+router.delete('/:id', (req, res) => locationController.deleteLocation(req, res));
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { mailboxController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * POST /api/mailbox/poll
+ * Внеочередной опрос IMAP-ящика операторов
+ * 
+ * Забирает непрочитанные письма, сохраняет RawMessage,
+ * прогоняет через InputProcessor и помечает письма прочитанными.
+ * Запуск фиксируется в SyncJob (IMPORT_EMAIL).
+ */
+router.post('/poll', (req, res) => mailboxController.pollNow(req, res));
+
+/**
+ * GET /api/mailbox/status
+ * Настройки опроса и история запусков
+ * 
+ * Query params:
+ * - limit: количество запусков (default: 20, max: 100)
+ */
+router.get('/status', (req, res) => mailboxController.getStatus(req, res));
+
+export default router;
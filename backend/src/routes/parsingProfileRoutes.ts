@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { parsingProfileController } from '../controllers/index.js';
+import { fileUpload } from '../middleware/fileUpload.js';
+
+const router = Router();
+
+/**
+ * GET /api/parsing-profiles
+ * Список профилей разбора
+ * 
+ * Query params:
+ * - carrierId: фильтр по перевозчику
+ */
+router.get('/', (req, res) => parsingProfileController.getProfiles(req, res));
+
+/**
+ * POST /api/parsing-profiles/sample
+ * Разбор образца файла перевозчика (XLSX/CSV)
+ * 
+ * multipart/form-data:
+ * - file: образец файла
+ * - delimiter: разделитель CSV (опционально)
+ * - skipRows: сколько строк сверху пропустить (опционально)
+ * 
+ * Возвращает колонки, первые строки, предложенный маппинг
+ * и различные значения колонок для словаря статусов.
+ */
+router.post(
+  '/sample',
+  fileUpload.single('file'),
+  (req, res) => parsingProfileController.analyzeSample(req, res)
+);
+
+/**
+ * GET /api/parsing-profiles/:id
+ * Профиль по ID
+ */
+router.get('/:id', (req, res) => parsingProfileController.getProfileById(req, res));
+
+/**
+ * POST /api/parsing-profiles
+ * Создание профиля
+ * 
+ * Body:
+ * {
+ *   "carrierId": "...",
+ *   "name": "РЖД Логистика — дислокация",
+ *   "emailDomains": ["rzdlog.ru"],
+ *   "columnMappings": { "№ КТК": "containerNumber", "Операция": "statusText" },
+ *   "dateFormats": ["DD.MM.YYYY HH:mm"],
+ *   "delimiter": ";",
+ *   "statusDictionary": { "выгружен на станции": "UNLOADED" },
+ *   "skipRules": { "skipRows": 3, "skipIfEmpty": ["№ КТК"], "skipIfMatches": ["^Итого"] }
+ * }
+ */
+router.post('/', (req, res) => parsingProfileController.createProfile(req, res));
+
+/**
+ * PUT /api/parsing-profiles/:id
+ * Изменение профиля (передаются только изменяемые поля)
+ */
+router.put('/:id', (req, res) => parsingProfileController.updateProfile(req, res));
+
+/**
+ * DELETE /api/parsing-profiles/:id
+ * Удаление профиля
+ */
+router.delete('/:id', (req, res) => parsingProfileController.deleteProfile(req, res));
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { rawMessageController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * POST /api/raw-messages/reprocess
+ * Пакетная повторная обработка сохранённых сообщений
+ *
+ * Body или query params:
+ * - from, to: период получения (ISO 8601)
+ * - carrierId: перевозчик
+ * - processed: true/false
+ * - hasError: true — только сообщения с errorMessage
+ * - limit: максимум сообщений (default: 100, max: 1000)
+ * - dryRun: true — вернуть дифф без записи
+ *
+ * Запуск фиксируется в SyncJob (REPROCESS).
+ */
+router.post('/reprocess', (req, res) => rawMessageController.reprocessMessages(req, res));
+
+/**
+ * POST /api/raw-messages/:id/reprocess
+ * Повторная обработка одного сообщения
+ *
+ * Исходник заново проходит InputProcessor, новые события сравниваются
+ * с привязанными к сообщению: added / removed / changed.
+ * Замена применяется атомарно; dryRun: true — только дифф.
+ */
+router.post('/:id/reprocess', (req, res) => rawMessageController.reprocessMessage(req, res));
+
+export default router;
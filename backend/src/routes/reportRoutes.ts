@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { reportController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/reports/demurrage
+ * Демерредж, хранение и детеншн: начислено на сегодня и ожидается к ETA
+ * 
+ * Query params:
+ * - clientId, carrierId: фильтры
+ * - warningDays: за сколько дней до конца бесплатного времени предупреждать (default: 3)
+ * - expiringOnly: 'true' — только контейнеры с истекающим бесплатным временем
+ */
+router.get('/demurrage', (req, res) => reportController.getDemurrageReport(req, res));
+
+export default router;
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { reviewController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/reviews
+ * Очередь ручной проверки
+ *
+ * Query params:
+ * - status: PENDING (default), APPROVED, REJECTED
+ * - page: номер страницы (default: 1)
+ * - limit: количество на странице (default: 20, max: 100)
+ */
+router.get('/', (req, res) => reviewController.getReviews(req, res));
+
+/**
+ * GET /api/reviews/stats
+ * Количество элементов по статусам
+ */
+router.get('/stats', (req, res) => reviewController.getStats(req, res));
+
+/**
+ * GET /api/reviews/:id
+ * Элемент очереди с исходным сообщением
+ */
+router.get('/:id', (req, res) => reviewController.getReviewById(req, res));
+
+/**
+ * POST /api/reviews/:id/approve
+ * Подтверждение элемента — создаёт StatusEvent
+ *
+ * Body (все поля необязательны, заменяют извлечённые):
+ * - containerNumber, statusCode, statusText, location,
+ *   distanceToDestinationKm, eta, eventTime, eventClassifier
+ * - comment: комментарий логиста
+ */
+router.post('/:id/approve', (req, res) => reviewController.approve(req, res));
+
+/**
+ * POST /api/reviews/:id/reject
+ * Отклонение элемента (событие не создаётся)
+ *
+ * Body:
+ * - comment: причина
+ */
+router.post('/:id/reject', (req, res) => reviewController.reject(req, res));
+
+export default router;
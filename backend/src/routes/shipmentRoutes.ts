@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { shipmentController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/shipments
+ * Список отгрузок: отстающий контейнер, разброс ETA, общий прогресс
+ *
+ * Query params:
+ * - search: номер коносамента, букинга или контейнера
+ * - clientId, carrierId: фильтры
+ * - page, limit: пагинация
+ */
+router.get('/', (req, res) => shipmentController.getShipments(req, res));
+
+/**
+ * GET /api/shipments/:id
+ * Отгрузка с контейнерами и их текущими статусами
+ *
+ * Params:
+ * - id: ID отгрузки, номер коносамента или букинга
+ */
+router.get('/:id', (req, res) => shipmentController.getShipment(req, res));
+
+/**
+ * POST /api/shipments
+ * Создание отгрузки
+ *
+ * Body: { blNumber?, bookingNumber?, clientId?, carrierId?,
+ *         originPoint?, destinationPoint?, containerNumbers? }
+ */
+router.post('/', (req, res) => shipmentController.createShipment(req, res));
+
+/**
+ * PUT /api/shipments/:id
+ * Изменение отгрузки; containerNumbers добавляются к её контейнерам
+ */
+router.put('/:id', (req, res) => shipmentController.updateShipment(req, res));
+
+export default router;
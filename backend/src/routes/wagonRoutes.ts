@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { wagonController } from '../controllers/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/wagons/:wagonNumber
+ * Какие контейнеры сейчас на вагоне
+ *
+ * Params:
+ * - wagonNumber: номер вагона РЖД (8 цифр)
+ *
+ * Query params:
+ * - history: true — также контейнеры, уже снятые с вагона
+ */
+router.get('/:wagonNumber', (req, res) => wagonController.getWagon(req, res));
+
+export default router;
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  carrier: { findMany: vi.fn() },
+  container: { findMany: vi.fn() },
+  rawMessage: { findMany: vi.fn(async () => []) },
+  pendingReview: { findMany: vi.fn(async () => []) },
+}));
+vi.mock('../utils/prisma.js', () => ({ default: prismaMock, prisma: prismaMock }));
+
+import { carrierScorecardService } from './carrierScorecardService.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const start = new Date('2025-12-01T00:00:00Z').getTime();
+const period = { from: new Date(start), to: new Date(start + 30 * DAY) };
+
+function event(
+  statusCode: string,
+  day: number,
+  extra: { eta?: number; eventClassifier?: 'ACT' | 'EST'; reportedDay?: number } = {}
+) {
+  return {
+    statusCode,
+    eventTime: new Date(start + day * DAY),
+    eta: extra.eta !== undefined ? new Date(start + extra.eta * DAY) : null,
+    eventClassifier: extra.eventClassifier ?? 'ACT',
+    createdAt: new Date(start + (extra.reportedDay ?? day) * DAY),
+  };
+}
+
+describe('CarrierScorecardService.getScorecards', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.carrier.findMany.mockResolvedValue([{ id: 'k1', name: 'FESCO', type: 'SEA_LINE' }]);
+  });
+
+  it('takes reported ETAs from estimated arrivals as well as ETA fields', async () => {
+    prismaMock.container.findMany.mockResolvedValue([{
+      carrierId: 'k1',
+      originPoint: 'Шанхай',
+      destinationPoint: 'Владивосток',
+      statusEvents: [
+        event('ON_SHIP', 1, { eta: 8 }),
+        event('ARRIVED_PORT', 10),
+        // Прогноз прибытия, сообщённый на 4-й день
+        event('ARRIVED_PORT', 11, { eventClassifier: 'EST', reportedDay: 4 }),
+      ],
+    }]);
+
+    const [scorecard] = await carrierScorecardService.getScorecards(period);
+
+    expect(scorecard.eta).toMatchObject({ samples: 1, firstEtaErrorDays: 2, lastEtaErrorDays: 1, lastEtaBiasDays: -1 });
+    // Прогноз не считается событием и не сдвигает время в пути
+    expect(scorecard.updates.events).toBe(2);
+    expect(scorecard.transit).toEqual([
+      { originPoint: 'Шанхай', destinationPoint: 'Владивосток', containers: 1, avgDays: 9 },
+    ]);
+  });
+
+  it('ignores estimates reported after the arrival', async () => {
+    prismaMock.container.findMany.mockResolvedValue([{
+      carrierId: 'k1',
+      originPoint: null,
+      destinationPoint: null,
+      statusEvents: [
+        event('ON_SHIP', 1),
+        event('ARRIVED_PORT', 10),
+        event('ARRIVED_PORT', 12, { eventClassifier: 'EST', reportedDay: 11 }),
+      ],
+    }]);
+
+    const [scorecard] = await carrierScorecardService.getScorecards(period);
+
+    expect(scorecard.arrived).toBe(1);
+    expect(scorecard.eta.samples).toBe(0);
+  });
+});
@@ -0,0 +1,238 @@
+import { CarrierType, EventClassifier, StatusCode } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { CarrierScorecard, CarrierScorecardParams } from '../types/index.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Перерыв в обновлениях длиннее порога — контейнер «пропал» у оператора
+const STALE_GAP_DAYS = 3;
+
+// Прибытие в пределах суток от ETA считается своевременным
+const ON_TIME_TOLERANCE_DAYS = 1;
+
+// Прибытие, за которое отвечает перевозчик: порт для линии,
+// станция назначения для ЖД, доставка для авто и мультимодальных
+const ARRIVAL_STATUS: Record<CarrierType, StatusCode> = {
+  SEA_LINE: StatusCode.ARRIVED_PORT,
+  RAIL: StatusCode.RAIL_ARRIVED,
+  AUTO: StatusCode.DELIVERED,
+  MULTIMODAL: StatusCode.DELIVERED,
+};
+
+interface ScorecardEvent {
+  statusCode: StatusCode;
+  eta: Date | null;
+  eventTime: Date;
+  eventClassifier: EventClassifier;
+  createdAt: Date;
+}
+
+/**
+ * Сервис оценки перевозчиков
+ *
+ * По каждому перевозчику за период: точность ETA (фактическое
+ * прибытие против первого и последнего ETA), время в пути по
+ * маршрутам, частота и перерывы обновлений, доля сообщений с ошибкой
+ * разбора и доля извлечённых данных с низкой уверенностью.
+ */
+export class CarrierScorecardService {
+
+  async getScorecards(params: CarrierScorecardParams): Promise<CarrierScorecard[]> {
+    const { from, to, carrierId } = params;
+
+    const [carriers, containers, messages, reviews] = await Promise.all([
+      prisma.carrier.findMany({
+        where: carrierId ? { id: carrierId } : {},
+        orderBy: { name: 'asc' },
+      }),
+      prisma.container.findMany({
+        where: {
+          carrierId: carrierId ?? { not: null },
+          statusEvents: { some: { eventTime: { gte: from, lte: to }, eventClassifier: 'ACT' } },
+        },
+        select: {
+          carrierId: true,
+          originPoint: true,
+          destinationPoint: true,
+          statusEvents: {
+            where: { eventClassifier: { in: ['ACT', 'EST'] }, isRegression: false },
+            orderBy: { eventTime: 'asc' },
+            select: { statusCode: true, eta: true, eventTime: true, eventClassifier: true, createdAt: true },
+          },
+        },
+      }),
+      prisma.rawMessage.findMany({
+        where: {
+          carrierId: carrierId ?? { not: null },
+          createdAt: { gte: from, lte: to },
+        },
+        select: {
+          carrierId: true,
+          errorMessage: true,
+          _count: { select: { statusEvents: true } },
+        },
+      }),
+      prisma.pendingReview.findMany({
+        where: {
+          createdAt: { gte: from, lte: to },
+          rawMessage: { carrierId: carrierId ?? { not: null } },
+        },
+        select: {
+          reasons: true,
+          statusEventId: true,
+          rawMessage: { select: { carrierId: true } },
+        },
+      }),
+    ]);
+
+    return carriers.map(carrier => {
+      const own = containers.filter(c => c.carrierId === carrier.id);
+      const ownMessages = messages.filter(m => m.carrierId === carrier.id);
+      const ownReviews = reviews.filter(r => r.rawMessage?.carrierId === carrier.id);
+      const arrivalStatus = ARRIVAL_STATUS[carrier.type];
+
+      const etaFirstErrors: number[] = [];
+      const etaLastErrors: number[] = [];
+      const transitByRoute = new Map<string, { originPoint: string; destinationPoint: string; days: number[] }>();
+      const intervals: number[] = [];
+      let arrived = 0;
+      let events = 0;
+      let activeDays = 0;
+
+      for (const container of own) {
+        const actual = container.statusEvents.filter(e => e.eventClassifier === 'ACT');
+        const arrival = actual.find(e => e.statusCode === arrivalStatus);
+        const arrivedInPeriod = !!arrival && arrival.eventTime >= from && arrival.eventTime <= to;
+
+        if (arrival && arrivedInPeriod) {
+          arrived++;
+
+          const etas = this.reportedEtas(container.statusEvents, arrivalStatus, arrival.eventTime);
+          if (etas.length > 0) {
+            etaFirstErrors.push(daysBetween(etas[0], arrival.eventTime));
+            etaLastErrors.push(daysBetween(etas[etas.length - 1], arrival.eventTime));
+          }
+
+          if (container.originPoint && container.destinationPoint) {
+            const key = `${container.originPoint}→${container.destinationPoint}`;
+            const route = transitByRoute.get(key)
+              ?? { originPoint: container.originPoint, destinationPoint: container.destinationPoint, days: [] };
+            route.days.push(daysBetween(actual[0].eventTime, arrival.eventTime));
+            transitByRoute.set(key, route);
+          }
+        }
+
+        const inPeriod = this.eventsInPeriod(actual, from, to);
+        events += inPeriod.length;
+        for (let i = 1; i < inPeriod.length; i++) {
+          intervals.push(inPeriod[i].eventTime.getTime() - inPeriod[i - 1].eventTime.getTime());
+        }
+
+        // Время наблюдения: от первого события периода до прибытия или конца периода
+        if (inPeriod.length > 0) {
+          const end = arrival && arrival.eventTime <= to ? arrival.eventTime : to;
+          activeDays += Math.max(1, (end.getTime() - inPeriod[0].eventTime.getTime()) / MS_PER_DAY);
+        }
+      }
+
+      const transit = [...transitByRoute.values()]
+        .map(route => ({
+          originPoint: route.originPoint,
+          destinationPoint: route.destinationPoint,
+          containers: route.days.length,
+          avgDays: round(mean(route.days)!),
+        }))
+        .sort((a, b) => b.containers - a.containers);
+      const allTransit = [...transitByRoute.values()].flatMap(route => route.days);
+
+      const failed = ownMessages.filter(m => m.errorMessage).length;
+      // Подтверждённый элемент проверки уже учтён как событие сообщения
+      const items = ownMessages.reduce((sum, m) => sum + m._count.statusEvents, 0)
+        + ownReviews.filter(r => !r.statusEventId).length;
+      const lowConfidence = ownReviews.filter(r => r.reasons.includes('LOW_CONFIDENCE')).length;
+
+      return {
+        carrierId: carrier.id,
+        carrierName: carrier.name,
+        carrierType: carrier.type,
+        containers: own.length,
+        arrived,
+        eta: {
+          samples: etaLastErrors.length,
+          firstEtaErrorDays: roundOrNull(mean(etaFirstErrors.map(Math.abs))),
+          lastEtaErrorDays: roundOrNull(mean(etaLastErrors.map(Math.abs))),
+          lastEtaBiasDays: roundOrNull(mean(etaLastErrors)),
+          onTimeShare: share(etaLastErrors.filter(e => Math.abs(e) <= ON_TIME_TOLERANCE_DAYS).length, etaLastErrors.length),
+        },
+        transit,
+        avgTransitDays: roundOrNull(mean(allTransit)),
+        updates: {
+          events,
+          perContainerWeekly: activeDays > 0 ? round(events / (activeDays / 7)) : null,
+          avgIntervalHours: roundOrNull(mean(intervals.map(ms => ms / (60 * 60 * 1000)))),
+          maxGapDays: intervals.length > 0 ? round(Math.max(...intervals) / MS_PER_DAY) : null,
+          gapsOverThreshold: intervals.filter(ms => ms > STALE_GAP_DAYS * MS_PER_DAY).length,
+        },
+        parsing: {
+          messages: ownMessages.length,
+          failed,
+          failureRate: share(failed, ownMessages.length),
+        },
+        confidence: {
+          items,
+          lowConfidence,
+          lowConfidenceShare: share(lowConfidence, items),
+        },
+      };
+    });
+  }
+
+  /**
+   * ETA перевозчика, сообщённые до прибытия, по времени сообщения
+   *
+   * Поле ETA фактического события или прогноз (EST) самого прибытия:
+   * у прогноза время события — ожидаемое, сообщён он при записи.
+   */
+  private reportedEtas(events: ScorecardEvent[], arrivalStatus: StatusCode, arrivedAt: Date): Date[] {
+    return events
+      .flatMap(e => {
+        if (e.eventClassifier === 'EST') {
+          return e.statusCode === arrivalStatus ? [{ eta: e.eventTime, reportedAt: e.createdAt }] : [];
+        }
+        return e.eta ? [{ eta: e.eta, reportedAt: e.eventTime }] : [];
+      })
+      .filter(e => e.reportedAt < arrivedAt)
+      .sort((a, b) => a.reportedAt.getTime() - b.reportedAt.getTime())
+      .map(e => e.eta);
+  }
+
+  private eventsInPeriod(events: ScorecardEvent[], from: Date, to: Date): ScorecardEvent[] {
+    return events.filter(e => e.eventTime >= from && e.eventTime <= to);
+  }
+}
+
+/**
+ * Разница в сутках: положительная — факт позже
+ */
+function daysBetween(expected: Date, actual: Date): number {
+  return (actual.getTime() - expected.getTime()) / MS_PER_DAY;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function share(part: number, total: number): number | null {
+  return total > 0 ? round(part / total, 3) : null;
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function roundOrNull(value: number | null): number | null {
+  return value === null ? null : round(value);
+}
+
+export const carrierScorecardService = new CarrierScorecardService();
@@ -1,12 +1,24 @@
-import { StatusCode, SourceType, Prisma } from '@prisma/client';
+import { StatusCode, SourceType, Prisma, Container, StatusEvent } from '@prisma/client';
 import prisma from '../utils/prisma.js';
+import { statusLifecycleService } from './statusLifecycleService.js';
+import { voyageService } from './voyageService.js';
+import { routeService } from './routeService.js';
+import { etaPredictionService } from './etaPredictionService.js';
+import { demurrageService } from './demurrageService.js';
 import { 
   ContainerListItem, 
   ContainerDetails, 
   ContainerFilterParams,
-  StatusEventItem 
+  StatusEventItem,
+  WagonContainerItem,
 } from '../types/index.js';
 
+// Статусы, при которых контейнер остаётся на вагоне
+// даже без номера вагона в последнем событии
+const ON_WAGON_STATUSES: StatusCode[] = [StatusCode.ON_RAIL, StatusCode.RAIL_ARRIVED];
+
+type WagonEvent = Pick<StatusEventItem, 'statusCode' | 'wagonNumber' | 'eventTime' | 'eventClassifier' | 'isRegression'>;
+
 /**
  * Сервис для работы с контейнерами
  */
@@ -53,9 +65,12 @@ export class ContainerService {
           carrier: {
             select: { name: true },
           },
+          // Текущий статус — последний фактический без регресса
+          // (план/прогноз и события не по порядку не в счёт)
           statusEvents: {
+            where: { eventClassifier: 'ACT', isRegression: false },
             orderBy: { eventTime: 'desc' },
-            take: 1,
+            take: 5,
           },
         },
         orderBy: { updatedAt: 'desc' },
@@ -65,31 +80,23 @@ export class ContainerService {
       prisma.container.count({ where }),
     ]);
 
+    const withCurrent = containers.map(container => ({
+      container,
+      current: statusLifecycleService.currentStatus(container.statusEvents),
+    }));
+
     // Фильтрация по статусу (после получения данных)
-    let filteredContainers = containers;
+    let filteredContainers = withCurrent;
     if (statusCode) {
-      filteredContainers = containers.filter(
-        c => c.statusEvents[0]?.statusCode === statusCode
+      filteredContainers = withCurrent.filter(
+        ({ current }) => current?.statusCode === statusCode
       );
     }
 
     // Преобразуем в DTO
-    const data: ContainerListItem[] = filteredContainers.map(container => ({
-      id: container.id,
-      containerNumber: container.containerNumber,
-      containerType: container.containerType,
-      originPoint: container.originPoint,
-      destinationPoint: container.destinationPoint,
-      clientName: container.client?.name || null,
-      carrierName: container.carrier?.name || null,
-      lastStatus: container.statusEvents[0] ? {
-        statusCode: container.statusEvents[0].statusCode,
-        statusText: container.statusEvents[0].statusText,
-        location: container.statusEvents[0].location,
-        eta: container.statusEvents[0].eta,
-        eventTime: container.statusEvents[0].eventTime,
-      } : null,
-    }));
+    const data: ContainerListItem[] = filteredContainers.map(({ container, current }) =>
+      this.toListItem(container, current)
+    );
 
     return { data, total, page, limit };
   }
@@ -107,8 +114,18 @@ export class ContainerService {
         carrier: {
           select: { name: true },
         },
+        railDispatch: {
+          select: { id: true, dispatchNumber: true, trainIndex: true },
+        },
+        shipment: {
+          select: { id: true, blNumber: true, bookingNumber: true },
+        },
+        routeLegs: {
+          orderBy: { sequence: 'asc' },
+        },
         statusEvents: {
           orderBy: { eventTime: 'desc' },
+          include: { voyage: { include: { vessel: true } } },
         },
       },
     });
@@ -122,14 +139,22 @@ export class ContainerService {
       statusCode: event.statusCode,
       statusText: event.statusText,
       location: event.location,
+      wagonNumber: event.wagonNumber,
+      voyage: event.voyage ? voyageService.toSummary(event.voyage) : null,
+      routeLegId: event.routeLegId,
       distanceToDestinationKm: event.distanceToDestinationKm,
       eta: event.eta,
       eventTime: event.eventTime,
+      eventClassifier: event.eventClassifier,
+      isRegression: event.isRegression,
+      regressionReason: event.regressionReason,
       sourceType: event.sourceType,
       sourceRaw: event.sourceRaw,
       createdAt: event.createdAt,
     }));
 
+    const lastStatus = statusLifecycleService.currentStatus(statusHistory);
+
     return {
       id: container.id,
       containerNumber: container.containerNumber,
@@ -137,9 +162,21 @@ export class ContainerService {
       originPoint: container.originPoint,
       destinationPoint: container.destinationPoint,
       totalDistanceKm: container.totalDistanceKm,
+      currentWagon: this.currentWagon(statusHistory, lastStatus),
+      railDispatch: container.railDispatch,
+      // История отсортирована от новых к старым — первый рейс последний
+      voyage: statusHistory.find(event => event.voyage)?.voyage ?? null,
+      shipment: container.shipment,
+      route: routeService.buildProgress(container.routeLegs, statusHistory),
+      demurrage: await demurrageService.getContainerSummary(
+        container,
+        statusHistory,
+        lastStatus?.eta ? new Date(lastStatus.eta) : container.predictedEta
+      ),
       clientName: container.client?.name || null,
       carrierName: container.carrier?.name || null,
-      lastStatus: statusHistory[0] || null,
+      lastStatus,
+      predictedEta: etaPredictionService.toPrediction(container),
       statusHistory,
       createdAt: container.createdAt,
       updatedAt: container.updatedAt,
@@ -159,8 +196,18 @@ export class ContainerService {
         carrier: {
           select: { name: true },
         },
+        railDispatch: {
+          select: { id: true, dispatchNumber: true, trainIndex: true },
+        },
+        shipment: {
+          select: { id: true, blNumber: true, bookingNumber: true },
+        },
+        routeLegs: {
+          orderBy: { sequence: 'asc' },
+        },
         statusEvents: {
           orderBy: { eventTime: 'desc' },
+          include: { voyage: { include: { vessel: true } } },
         },
       },
     });
@@ -174,14 +221,22 @@ export class ContainerService {
       statusCode: event.statusCode,
       statusText: event.statusText,
       location: event.location,
+      wagonNumber: event.wagonNumber,
+      voyage: event.voyage ? voyageService.toSummary(event.voyage) : null,
+      routeLegId: event.routeLegId,
       distanceToDestinationKm: event.distanceToDestinationKm,
       eta: event.eta,
       eventTime: event.eventTime,
+      eventClassifier: event.eventClassifier,
+      isRegression: event.isRegression,
+      regressionReason: event.regressionReason,
       sourceType: event.sourceType,
       sourceRaw: event.sourceRaw,
       createdAt: event.createdAt,
     }));
 
+    const lastStatus = statusLifecycleService.currentStatus(statusHistory);
+
     return {
       id: container.id,
       containerNumber: container.containerNumber,
@@ -189,15 +244,129 @@ export class ContainerService {
       originPoint: container.originPoint,
       destinationPoint: container.destinationPoint,
       totalDistanceKm: container.totalDistanceKm,
+      currentWagon: this.currentWagon(statusHistory, lastStatus),
+      railDispatch: container.railDispatch,
+      // История отсортирована от новых к старым — первый рейс последний
+      voyage: statusHistory.find(event => event.voyage)?.voyage ?? null,
+      shipment: container.shipment,
+      route: routeService.buildProgress(container.routeLegs, statusHistory),
+      demurrage: await demurrageService.getContainerSummary(
+        container,
+        statusHistory,
+        lastStatus?.eta ? new Date(lastStatus.eta) : container.predictedEta
+      ),
       clientName: container.client?.name || null,
       carrierName: container.carrier?.name || null,
-      lastStatus: statusHistory[0] || null,
+      lastStatus,
+      predictedEta: etaPredictionService.toPrediction(container),
       statusHistory,
       createdAt: container.createdAt,
       updatedAt: container.updatedAt,
     };
   }
 
+  /**
+   * Контейнеры, ехавшие на вагоне
+   *
+   * isCurrent — вагон остаётся текущим для контейнера
+   * (см. currentWagon), остальные уже сняты с вагона.
+   */
+  async getContainersOnWagon(wagonNumber: string): Promise<WagonContainerItem[]> {
+    const seen = await prisma.statusEvent.groupBy({
+      by: ['containerId'],
+      where: { wagonNumber },
+      _min: { eventTime: true },
+      _max: { eventTime: true },
+    });
+
+    if (seen.length === 0) {
+      return [];
+    }
+
+    const containers = await prisma.container.findMany({
+      where: { id: { in: seen.map(s => s.containerId) } },
+      include: {
+        client: {
+          select: { name: true },
+        },
+        carrier: {
+          select: { name: true },
+        },
+        statusEvents: {
+          where: { eventClassifier: 'ACT', isRegression: false },
+          orderBy: { eventTime: 'desc' },
+        },
+      },
+    });
+    const seenById = new Map(seen.map(s => [s.containerId, s]));
+
+    return containers
+      .map(container => {
+        const current = statusLifecycleService.currentStatus(container.statusEvents);
+        const range = seenById.get(container.id)!;
+
+        return {
+          ...this.toListItem(container, current),
+          firstSeenAt: range._min.eventTime!,
+          lastSeenAt: range._max.eventTime!,
+          isCurrent: this.currentWagon(container.statusEvents, current) === wagonNumber,
+        };
+      })
+      .sort((a, b) => Number(b.isCurrent) - Number(a.isCurrent)
+        || b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  /**
+   * Текущий вагон контейнера
+   *
+   * Вагон из текущего статуса, а если в нём номера нет, но контейнер
+   * ещё на ЖД (в пути или прибыл на станцию) — из предыдущих
+   * фактических событий того же ЖД-плеча.
+   */
+  currentWagon(events: WagonEvent[], current: WagonEvent | null): string | null {
+    if (!current) return null;
+    if (current.wagonNumber) return current.wagonNumber;
+
+    const currentTime = new Date(current.eventTime).getTime();
+    const previous = events
+      .filter(e => e.eventClassifier === 'ACT' && !e.isRegression
+        && new Date(e.eventTime).getTime() <= currentTime)
+      .sort((a, b) => new Date(b.eventTime).getTime() - new Date(a.eventTime).getTime());
+
+    for (const event of [current, ...previous]) {
+      if (event.wagonNumber) return event.wagonNumber;
+      // Море, склад, авто — контейнер снят с вагона
+      if (!ON_WAGON_STATUSES.includes(event.statusCode)) return null;
+    }
+    return null;
+  }
+
+  /**
+   * Контейнер с текущим статусом → элемент списка
+   */
+  toListItem(
+    container: Container & { client: { name: string } | null; carrier: { name: string } | null },
+    current: StatusEvent | null
+  ): ContainerListItem {
+    return {
+      id: container.id,
+      containerNumber: container.containerNumber,
+      containerType: container.containerType,
+      originPoint: container.originPoint,
+      destinationPoint: container.destinationPoint,
+      clientName: container.client?.name || null,
+      carrierName: container.carrier?.name || null,
+      lastStatus: current ? {
+        statusCode: current.statusCode,
+        statusText: current.statusText,
+        location: current.location,
+        eta: current.eta,
+        eventTime: current.eventTime,
+      } : null,
+      predictedEta: etaPredictionService.toPrediction(container),
+    };
+  }
+
   /**
    * Создание или получение контейнера
    */
@@ -207,11 +376,12 @@ export class ContainerService {
       containerType?: string;
       originPoint?: string;
       destinationPoint?: string;
-    }
+    },
+    client: Prisma.TransactionClient = prisma
   ): Promise<{ id: string; containerNumber: string; created: boolean }> {
     const normalized = containerNumber.replace(/\s/g, '').toUpperCase();
 
-    const existing = await prisma.container.findUnique({
+    const existing = await client.container.findUnique({
       where: { containerNumber: normalized },
       select: { id: true, containerNumber: true },
     });
@@ -220,7 +390,7 @@ export class ContainerService {
       return { ...existing, created: false };
     }
 
-    const created = await prisma.container.create({
+    const created = await client.container.create({
       data: {
         containerNumber: normalized,
         containerType: options?.containerType,
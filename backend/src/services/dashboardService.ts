@@ -0,0 +1,178 @@
+import { Prisma, StatusCode } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { containerService } from './containerService.js';
+import { statusLifecycleService } from './statusLifecycleService.js';
+import {
+  ContainerListItem,
+  DashboardGroup,
+  DashboardList,
+  DashboardParams,
+  DashboardSummary,
+} from '../types/index.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Группировка статусов по этапам для карточек дашборда
+const STATUS_GROUPS: Record<DashboardGroup, StatusCode[]> = {
+  SEA: ['LOADED', 'IN_PORT', 'ON_SHIP', 'ON_ANCHORAGE'],
+  DESTINATION_PORT: ['ARRIVED_PORT', 'ON_WAREHOUSE', 'CUSTOMS_CLEARED'],
+  RAIL: ['ON_RAIL', 'RAIL_ARRIVED'],
+  DELIVERED: ['DELIVERED', 'ON_AUTO'],
+};
+
+interface CountsRow {
+  total: number;
+  delivered: number;
+  updatedToday: number;
+  overdue: number;
+  stale: number;
+  upcoming: number;
+}
+
+/**
+ * Сервис дашборда
+ *
+ * Все показатели считаются одним SQL по всем контейнерам: текущий
+ * статус — последнее фактическое событие без пометки регрессии
+ * (при равном времени — с большим рангом), ожидаемое прибытие —
+ * ETA перевозчика из текущего статуса, а без него — расчётный ETA.
+ * Списки отдаются страницами.
+ */
+export class DashboardService {
+
+  async getSummary(params: DashboardParams): Promise<DashboardSummary> {
+    const now = new Date();
+    const todayStart = new Date(now);
+    todayStart.setHours(0, 0, 0, 0);
+
+    const filters = {
+      overdue: Prisma.sql`"statusCode" IS DISTINCT FROM 'DELIVERED' AND "arrivalEta" < ${now}`,
+      stale: Prisma.sql`"statusCode" IS DISTINCT FROM 'DELIVERED'
+        AND "eventTime" < ${new Date(now.getTime() - params.staleThresholdDays * MS_PER_DAY)}`,
+      upcoming: Prisma.sql`"statusCode" IS DISTINCT FROM 'DELIVERED'
+        AND "arrivalEta" BETWEEN ${now} AND ${new Date(now.getTime() + params.upcomingDays * MS_PER_DAY)}`,
+    };
+
+    const [[counts], statusRows] = await Promise.all([
+      prisma.$queryRaw<CountsRow[]>`
+        WITH current AS (${this.currentStatusSql()})
+        SELECT
+          COUNT(*)::int AS "total",
+          COUNT(*) FILTER (WHERE "statusCode" = 'DELIVERED')::int AS "delivered",
+          COUNT(*) FILTER (WHERE "eventTime" >= ${todayStart})::int AS "updatedToday",
+          COUNT(*) FILTER (WHERE ${filters.overdue})::int AS "overdue",
+          COUNT(*) FILTER (WHERE ${filters.stale})::int AS "stale",
+          COUNT(*) FILTER (WHERE ${filters.upcoming})::int AS "upcoming"
+        FROM current
+      `,
+      prisma.$queryRaw<Array<{ statusCode: StatusCode; count: number }>>`
+        WITH current AS (${this.currentStatusSql()})
+        SELECT "statusCode", COUNT(*)::int AS "count"
+        FROM current
+        WHERE "statusCode" IS NOT NULL
+        GROUP BY "statusCode"
+      `,
+    ]);
+
+    const byStatus: Partial<Record<StatusCode, number>> = Object.fromEntries(
+      statusRows.map(row => [row.statusCode, row.count])
+    );
+
+    const groups = Object.fromEntries(
+      Object.entries(STATUS_GROUPS).map(([group, statuses]) => [
+        group,
+        statuses
+          .filter(status => params.showDelivered || status !== 'DELIVERED')
+          .reduce((sum, status) => sum + (byStatus[status] ?? 0), 0),
+      ])
+    ) as Record<DashboardGroup, number>;
+
+    const [overdue, stale, upcoming] = await Promise.all([
+      this.list(filters.overdue, Prisma.sql`"arrivalEta" ASC`, counts.overdue, params.overduePage, params.limit),
+      this.list(filters.stale, Prisma.sql`"eventTime" ASC`, counts.stale, params.stalePage, params.limit),
+      this.list(filters.upcoming, Prisma.sql`"arrivalEta" ASC`, counts.upcoming, params.upcomingPage, params.limit),
+    ]);
+
+    return {
+      generatedAt: now,
+      total: counts.total,
+      delivered: counts.delivered,
+      updatedToday: counts.updatedToday,
+      byStatus,
+      groups,
+      overdue,
+      stale,
+      upcoming,
+    };
+  }
+
+  /**
+   * Контейнеры с текущим статусом и ожидаемым прибытием
+   */
+  private currentStatusSql(): Prisma.Sql {
+    return Prisma.sql`
+      SELECT
+        c."id",
+        cur."id" AS "eventId",
+        cur."statusCode"::text AS "statusCode",
+        cur."eventTime",
+        COALESCE(cur."eta", c."predictedEta") AS "arrivalEta"
+      FROM "containers" c
+      LEFT JOIN LATERAL (
+        SELECT e."id", e."statusCode", e."eventTime", e."eta"
+        FROM "status_events" e
+        WHERE e."containerId" = c."id"
+          AND e."eventClassifier" = 'ACT'
+          AND NOT e."isRegression"
+        ORDER BY e."eventTime" DESC, ${statusLifecycleService.rankSql(Prisma.sql`e."statusCode"`)} DESC
+        LIMIT 1
+      ) cur ON true
+    `;
+  }
+
+  /**
+   * Страница списка: ID из SQL, элементы — как в списке контейнеров
+   */
+  private async list(
+    filter: Prisma.Sql,
+    orderBy: Prisma.Sql,
+    total: number,
+    page: number,
+    limit: number
+  ): Promise<DashboardList> {
+    const pagination = { page, limit, total, totalPages: Math.ceil(total / limit) };
+    if (total === 0) return { items: [], pagination };
+
+    const rows = await prisma.$queryRaw<Array<{ id: string; eventId: string | null }>>`
+      WITH current AS (${this.currentStatusSql()})
+      SELECT "id", "eventId"
+      FROM current
+      WHERE ${filter}
+      ORDER BY ${orderBy}, "id"
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `;
+
+    const [containers, events] = await Promise.all([
+      prisma.container.findMany({
+        where: { id: { in: rows.map(row => row.id) } },
+        include: {
+          client: { select: { name: true } },
+          carrier: { select: { name: true } },
+        },
+      }),
+      prisma.statusEvent.findMany({
+        where: { id: { in: rows.flatMap(row => (row.eventId ? [row.eventId] : [])) } },
+      }),
+    ]);
+
+    const items = rows.flatMap((row): ContainerListItem[] => {
+      const container = containers.find(c => c.id === row.id);
+      if (!container) return [];
+      return [containerService.toListItem(container, events.find(e => e.id === row.eventId) ?? null)];
+    });
+
+    return { items, pagination };
+  }
+}
+
+export const dashboardService = new DashboardService();
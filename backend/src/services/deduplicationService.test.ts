@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../utils/prisma.js', () => ({ default: {}, prisma: {} }));
+
+import { deduplicationService } from './deduplicationService.js';
+
+const event = {
+  containerId: 'c1',
+  statusCode: 'ARRIVED_PORT' as const,
+  location: 'Владивосток',
+  eventTime: new Date('2025-12-01T10:05:00Z'),
+};
+
+describe('DeduplicationService.eventKey', () => {
+  it('treats the same status, place and hour as one event', () => {
+    expect(deduplicationService.eventKey({
+      ...event,
+      location: '  ВЛАДИВОСТОК ',
+      eventTime: '2025-12-01T10:55:00Z',
+    })).toBe(deduplicationService.eventKey(event));
+  });
+
+  it('separates other hours, places, statuses and containers', () => {
+    const key = deduplicationService.eventKey(event);
+
+    expect(deduplicationService.eventKey({ ...event, eventTime: '2025-12-01T11:00:00Z' })).not.toBe(key);
+    expect(deduplicationService.eventKey({ ...event, location: 'Находка' })).not.toBe(key);
+    expect(deduplicationService.eventKey({ ...event, statusCode: 'UNLOADED' })).not.toBe(key);
+    expect(deduplicationService.eventKey({ ...event, containerId: 'c2' })).not.toBe(key);
+  });
+
+  it('keeps plans and estimates apart from the actual event', () => {
+    const actual = deduplicationService.eventKey({ ...event, eventClassifier: 'ACT' });
+    const estimate = deduplicationService.eventKey({ ...event, eventClassifier: 'EST' });
+    const plan = deduplicationService.eventKey({ ...event, eventClassifier: 'PLN' });
+
+    expect(new Set([actual, estimate, plan]).size).toBe(3);
+    // Без классификатора событие фактическое
+    expect(deduplicationService.eventKey(event)).toBe(actual);
+  });
+});
+
+describe('DeduplicationService.fingerprint', () => {
+  it('ignores email headers, whitespace and case', () => {
+    const first = 'Message-ID: <1@a>\r\nSubject: Статус\r\n\r\nMSCU1234560  ОТГРУЖЕН\r\n';
+    const resent = 'Message-ID: <2@b>\nSubject: Fwd: Статус\n\nmscu1234560 отгружен\n';
+
+    expect(deduplicationService.fingerprint(resent, 'OPS@rail.example'))
+      .toBe(deduplicationService.fingerprint(first, 'ops@rail.example'));
+    expect(deduplicationService.fingerprint(first, 'other@rail.example'))
+      .not.toBe(deduplicationService.fingerprint(first, 'ops@rail.example'));
+  });
+});
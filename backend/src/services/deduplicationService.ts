@@ -0,0 +1,106 @@
+import { createHash } from 'crypto';
+import { StatusCode, EventClassifier, StatusEvent, Container, RawMessage } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { looksLikeEml } from '../middleware/emlParser.js';
+
+/** Окно, в котором одинаковые события считаются повтором */
+const EVENT_BUCKET_MS = 60 * 60 * 1000;
+
+/**
+ * Сообщение, уже обработанное ранее, с его событиями
+ */
+export type ProcessedRawMessage = RawMessage & {
+  statusEvents: Array<StatusEvent & { container: Container }>;
+};
+
+/**
+ * Сервис защиты от повторной загрузки
+ *
+ * Два уровня:
+ * - отпечаток RawMessage: хэш нормализованного содержимого + отправитель,
+ *   повторно присланное письмо или файл не разбирается заново;
+ * - ключ события: контейнер + статус + место + час события
+ *   (+ классификатор для плана и прогноза), одинаковые события
+ *   из разных сообщений сливаются в одно.
+ */
+export class DeduplicationService {
+
+  /**
+   * Отпечаток содержимого сообщения
+   *
+   * У писем учитывается только тело: при пересылке меняются
+   * Message-ID, Received и прочие заголовки.
+   */
+  fingerprint(content: unknown, senderEmail?: string | null): string {
+    let text: string;
+
+    if (Buffer.isBuffer(content)) {
+      text = content.toString('base64');
+    } else if (typeof content === 'string') {
+      const headerEnd = looksLikeEml(content) ? content.search(/\r?\n\r?\n/) : -1;
+      text = (headerEnd >= 0 ? content.slice(headerEnd) : content)
+        .replace(/\r\n?/g, '\n')
+        .replace(/[ \t]+/g, ' ')
+        .replace(/\s*\n\s*/g, '\n')
+        .trim()
+        .toLowerCase();
+    } else {
+      text = JSON.stringify(content ?? null);
+    }
+
+    return createHash('sha256')
+      .update(`${(senderEmail || '').trim().toLowerCase()}\n${text}`)
+      .digest('hex');
+  }
+
+  /**
+   * Смысловой ключ события
+   *
+   * План и прогноз получают отдельный ключ: фактическое событие
+   * в тот же час не сливается с ними и не теряется. Ключ факта
+   * без классификатора — совпадает с ключами ранее записанных событий.
+   */
+  eventKey(event: {
+    containerId: string;
+    statusCode: StatusCode;
+    location?: string | null;
+    eventTime: Date | string;
+    eventClassifier?: EventClassifier | null;
+  }): string {
+    const location = (event.location || '').trim().toLowerCase().replace(/\s+/g, ' ');
+    const bucket = Math.floor(new Date(event.eventTime).getTime() / EVENT_BUCKET_MS);
+    const classifier = event.eventClassifier ?? 'ACT';
+
+    const parts = [event.containerId, event.statusCode, location, bucket];
+    if (classifier !== 'ACT') parts.push(classifier);
+
+    return createHash('sha256')
+      .update(parts.join('|'))
+      .digest('hex');
+  }
+
+  /**
+   * Сообщение, ранее принятое с тем же Idempotency-Key
+   */
+  async findByIdempotencyKey(idempotencyKey: string): Promise<ProcessedRawMessage | null> {
+    return prisma.rawMessage.findUnique({
+      where: { idempotencyKey },
+      include: { statusEvents: { include: { container: true } } },
+    });
+  }
+
+  /**
+   * Успешно обработанное сообщение с тем же отпечатком
+   *
+   * Сообщения с ошибкой не считаются — их можно прислать повторно.
+   */
+  async findProcessedDuplicate(fingerprint: string): Promise<ProcessedRawMessage | null> {
+    return prisma.rawMessage.findFirst({
+      where: { fingerprint, processed: true, errorMessage: null },
+      include: { statusEvents: { include: { container: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
+
+export const deduplicationService = new DeduplicationService();
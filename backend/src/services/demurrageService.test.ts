@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FreeTimeAgreement, StatusCode } from '@prisma/client';
+
+vi.mock('../utils/prisma.js', () => ({ default: {}, prisma: {} }));
+
+import { demurrageService } from './demurrageService.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const arrival = new Date('2025-12-01T08:00:00Z');
+const day = (n: number) => new Date(arrival.getTime() + n * DAY);
+
+const agreement = {
+  id: 'a1',
+  name: 'Стандарт',
+  currency: 'USD',
+  portFreeDays: 5,
+  portTariff: [{ fromDay: 1, rate: 10 }, { fromDay: 4, rate: 20 }],
+  warehouseFreeDays: 3,
+  warehouseTariff: [{ fromDay: 1, rate: 5 }],
+  equipmentFreeDays: 10,
+  equipmentTariff: [{ fromDay: 1, rate: 7 }],
+} as unknown as FreeTimeAgreement;
+
+function event(statusCode: StatusCode, eventTime: Date, eventClassifier: 'ACT' | 'EST' | 'PLN' = 'ACT') {
+  return { statusCode, eventTime, eventClassifier, isRegression: false };
+}
+
+const clock = (summary: ReturnType<typeof demurrageService.calculate>, kind: string) =>
+  summary?.clocks.find(c => c.kind === kind);
+
+describe('DemurrageService.calculate', () => {
+  it('counts the arrival day as the first free day', () => {
+    const atEdge = demurrageService.calculate(agreement, [event('ARRIVED_PORT', arrival)], null, 3, day(5));
+    const nextDay = demurrageService.calculate(agreement, [event('ARRIVED_PORT', arrival)], null, 3, day(5.1));
+
+    expect(clock(atEdge, 'DEMURRAGE')).toMatchObject({ usedDays: 5, chargeableDays: 0, accrued: 0, daysLeft: 0 });
+    expect(clock(nextDay, 'DEMURRAGE')).toMatchObject({ usedDays: 6, chargeableDays: 1, accrued: 10 });
+  });
+
+  it('charges each day at the rate of its tier', () => {
+    const summary = demurrageService.calculate(agreement, [event('ARRIVED_PORT', arrival)], null, 3, day(9.5));
+
+    // 10 дней: 5 бесплатных, платные 1–3 по 10, 4–5 по 20
+    expect(clock(summary, 'DEMURRAGE')).toMatchObject({ chargeableDays: 5, accrued: 70 });
+  });
+
+  it('stops each clock at its own status', () => {
+    const summary = demurrageService.calculate(agreement, [
+      event('ARRIVED_PORT', arrival),
+      event('ON_WAREHOUSE', day(7.5)),
+      event('CUSTOMS_CLEARED', day(9.5)),
+    ], null, 3, day(20));
+
+    expect(clock(summary, 'DEMURRAGE')).toMatchObject({ stoppedAt: day(7.5), usedDays: 8, accrued: 30, daysLeft: null });
+    expect(clock(summary, 'STORAGE')).toMatchObject({ stoppedAt: day(9.5), usedDays: 2, accrued: 0 });
+    expect(clock(summary, 'DETENTION')).toMatchObject({ stoppedAt: null, usedDays: 20, accrued: 70 });
+  });
+
+  it('ignores a stop status reported before the clock started and regressions', () => {
+    const summary = demurrageService.calculate(agreement, [
+      event('ON_RAIL', day(-3)),
+      event('ARRIVED_PORT', arrival),
+      { ...event('DELIVERED', day(1)), isRegression: true },
+    ], null, 3, day(2));
+
+    expect(clock(summary, 'DEMURRAGE')?.stoppedAt).toBeNull();
+    expect(clock(summary, 'DETENTION')?.stoppedAt).toBeNull();
+  });
+
+  it('projects detention to the arrival ETA, but not port demurrage', () => {
+    const summary = demurrageService.calculate(agreement, [event('ARRIVED_PORT', arrival)], day(14.5), 3, day(2));
+
+    expect(clock(summary, 'DETENTION')).toMatchObject({ expectedStopAt: day(14.5), accrued: 0, projected: 35 });
+    expect(clock(summary, 'DEMURRAGE')).toMatchObject({ expectedStopAt: null, projected: 0 });
+  });
+
+  it('projects port demurrage to the estimated departure from the port', () => {
+    const summary = demurrageService.calculate(agreement, [
+      event('ARRIVED_PORT', arrival),
+      event('ON_RAIL', day(7.5), 'PLN'),
+      event('ON_RAIL', day(6.5), 'EST'),
+    ], day(30), 3, day(2));
+
+    expect(clock(summary, 'DEMURRAGE')).toMatchObject({ expectedStopAt: day(6.5), projected: 20 });
+  });
+
+  it('keeps the passed expected stop and falls back to the accrued amount', () => {
+    const summary = demurrageService.calculate(agreement, [
+      event('ARRIVED_PORT', arrival),
+      event('ON_RAIL', day(6.5), 'EST'),
+    ], null, 3, day(8.5));
+
+    expect(clock(summary, 'DEMURRAGE')).toMatchObject({ expectedStopAt: day(6.5), accrued: 50, projected: 50 });
+  });
+
+  it('warns only while the free time is running out', () => {
+    const events = [event('ARRIVED_PORT', arrival)];
+
+    expect(demurrageService.calculate(agreement, events, null, 3, day(1))?.expiresSoon).toBe(false);
+    expect(demurrageService.calculate(agreement, events, null, 3, day(2.5))?.expiresSoon).toBe(true);
+    expect(demurrageService.calculate(agreement, [], null, 3, day(1))).toBeNull();
+  });
+});
@@ -0,0 +1,435 @@
+import { FreeTimeAgreement, Prisma, StatusCode } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { statusLifecycleService } from './statusLifecycleService.js';
+import {
+  ChargeClock,
+  ChargeKind,
+  DemurrageReport,
+  DemurrageReportRow,
+  DemurrageSummary,
+  FreeTimeAgreementInput,
+  StatusEventItem,
+  TariffTier,
+} from '../types/index.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Предупреждение на дашборде — за столько дней до конца бесплатного времени
+export const DEFAULT_WARNING_DAYS = 3;
+
+/**
+ * Часы начислений: какие статусы запускают и останавливают отсчёт
+ *
+ * Демерредж — контейнер в порту: от прибытия до размещения на СВХ
+ * или вывоза. Хранение — от размещения на СВХ до закрытия склада
+ * (выпуска). Детеншн — оборудование перевозчика у получателя:
+ * от прибытия в порт до доставки, поэтому только его можно
+ * прогнозировать до ETA прибытия.
+ */
+const CLOCKS: Array<{
+  kind: ChargeKind;
+  start: StatusCode[];
+  stop: StatusCode[];
+  freeDays: 'portFreeDays' | 'warehouseFreeDays' | 'equipmentFreeDays';
+  tariff: 'portTariff' | 'warehouseTariff' | 'equipmentTariff';
+  stopsOnArrival?: boolean;
+}> = [
+  {
+    kind: 'DEMURRAGE',
+    start: [StatusCode.ARRIVED_PORT],
+    stop: [StatusCode.ON_WAREHOUSE, StatusCode.ON_RAIL, StatusCode.ON_AUTO, StatusCode.DELIVERED],
+    freeDays: 'portFreeDays',
+    tariff: 'portTariff',
+  },
+  {
+    kind: 'STORAGE',
+    start: [StatusCode.ON_WAREHOUSE],
+    stop: [StatusCode.CUSTOMS_CLEARED, StatusCode.ON_RAIL, StatusCode.ON_AUTO, StatusCode.DELIVERED],
+    freeDays: 'warehouseFreeDays',
+    tariff: 'warehouseTariff',
+  },
+  {
+    kind: 'DETENTION',
+    start: [StatusCode.ARRIVED_PORT],
+    stop: [StatusCode.DELIVERED],
+    freeDays: 'equipmentFreeDays',
+    tariff: 'equipmentTariff',
+    stopsOnArrival: true,
+  },
+];
+
+// Статусы, с которых могут идти часы — для отбора контейнеров в отчёт
+const CLOCK_START_STATUSES = [...new Set(CLOCKS.flatMap(clock => clock.start))];
+
+type ClockEvent = Pick<StatusEventItem, 'statusCode' | 'eventTime' | 'eventClassifier' | 'isRegression'>;
+
+/**
+ * Сервис бесплатного времени и начислений (демерредж, хранение, детеншн)
+ *
+ * Соглашение выбирается по перевозчику и клиенту контейнера:
+ * точное совпадение обоих, затем только перевозчик, затем только
+ * клиент, затем общее. Часы запускаются и останавливаются фактическими
+ * событиями истории статусов. Идущие часы прогнозируются до события,
+ * которое их остановит: по плану или прогнозу этого статуса, для
+ * детеншна — до ETA прибытия. Без такого события прогноза нет.
+ */
+export class DemurrageService {
+
+  /**
+   * Список соглашений
+   */
+  async getAgreements() {
+    return prisma.freeTimeAgreement.findMany({
+      include: {
+        carrier: { select: { id: true, name: true } },
+        client: { select: { id: true, name: true } },
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Создание соглашения
+   */
+  async createAgreement(input: FreeTimeAgreementInput): Promise<FreeTimeAgreement> {
+    return prisma.freeTimeAgreement.create({
+      data: {
+        name: input.name.trim(),
+        carrierId: input.carrierId || null,
+        clientId: input.clientId || null,
+        isActive: input.isActive ?? true,
+        currency: input.currency?.trim().toUpperCase() || 'USD',
+        portFreeDays: input.portFreeDays,
+        portTariff: normalizeTiers(input.portTariff),
+        warehouseFreeDays: input.warehouseFreeDays,
+        warehouseTariff: normalizeTiers(input.warehouseTariff),
+        equipmentFreeDays: input.equipmentFreeDays,
+        equipmentTariff: normalizeTiers(input.equipmentTariff),
+      },
+    });
+  }
+
+  /**
+   * Изменение соглашения (передаются только изменяемые поля)
+   */
+  async updateAgreement(id: string, input: Partial<FreeTimeAgreementInput>): Promise<FreeTimeAgreement> {
+    const data: Prisma.FreeTimeAgreementUncheckedUpdateInput = {};
+
+    if (input.name !== undefined) data.name = input.name.trim();
+    if (input.carrierId !== undefined) data.carrierId = input.carrierId || null;
+    if (input.clientId !== undefined) data.clientId = input.clientId || null;
+    if (input.isActive !== undefined) data.isActive = input.isActive;
+    if (input.currency !== undefined) data.currency = input.currency.trim().toUpperCase();
+    if (input.portFreeDays !== undefined) data.portFreeDays = input.portFreeDays;
+    if (input.portTariff !== undefined) data.portTariff = normalizeTiers(input.portTariff);
+    if (input.warehouseFreeDays !== undefined) data.warehouseFreeDays = input.warehouseFreeDays;
+    if (input.warehouseTariff !== undefined) data.warehouseTariff = normalizeTiers(input.warehouseTariff);
+    if (input.equipmentFreeDays !== undefined) data.equipmentFreeDays = input.equipmentFreeDays;
+    if (input.equipmentTariff !== undefined) data.equipmentTariff = normalizeTiers(input.equipmentTariff);
+
+    return prisma.freeTimeAgreement.update({ where: { id }, data });
+  }
+
+  /**
+   * Удаление соглашения
+   */
+  async deleteAgreement(id: string): Promise<void> {
+    await prisma.freeTimeAgreement.delete({ where: { id } });
+  }
+
+  /**
+   * Проверка данных соглашения
+   *
+   * Возвращает список ошибок (пустой — данные корректны).
+   */
+  validateInput(input: Partial<FreeTimeAgreementInput>, partial: boolean = false): string[] {
+    const errors: string[] = [];
+
+    if (!partial || input.name !== undefined) {
+      if (!input.name || typeof input.name !== 'string' || !input.name.trim()) {
+        errors.push('name is required');
+      }
+    }
+
+    if (input.currency !== undefined && (typeof input.currency !== 'string' || !/^[A-Za-z]{3}$/.test(input.currency.trim()))) {
+      errors.push('currency must be a 3-letter code');
+    }
+
+    for (const { freeDays, tariff } of CLOCKS) {
+      if (!partial || input[freeDays] !== undefined) {
+        const value = input[freeDays];
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+          errors.push(`${freeDays} must be a non-negative integer`);
+        }
+      }
+
+      if (!partial || input[tariff] !== undefined) {
+        errors.push(...validateTiers(tariff, input[tariff]));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Начисления по контейнеру (null — нет подходящего соглашения
+   * или часы ещё не запускались)
+   */
+  async getContainerSummary(
+    container: { carrierId: string | null; clientId: string | null },
+    events: ClockEvent[],
+    expectedArrival: Date | null,
+    warningDays: number = DEFAULT_WARNING_DAYS
+  ): Promise<DemurrageSummary | null> {
+    const agreements = await prisma.freeTimeAgreement.findMany({ where: { isActive: true } });
+    const agreement = this.pickAgreement(agreements, container.carrierId, container.clientId);
+    if (!agreement) return null;
+
+    return this.calculate(agreement, events, expectedArrival, warningDays);
+  }
+
+  /**
+   * Отчёт по начислениям: контейнеры с идущими часами
+   *
+   * Доставленные контейнеры не загружаются: доставка останавливает
+   * все часы. Сначала — с истекающим бесплатным временем, затем
+   * по убыванию ожидаемой суммы.
+   */
+  async getReport(params: {
+    clientId?: string;
+    carrierId?: string;
+    warningDays?: number;
+    expiringOnly?: boolean;
+  }): Promise<DemurrageReport> {
+    const warningDays = params.warningDays ?? DEFAULT_WARNING_DAYS;
+
+    const [agreements, containers] = await Promise.all([
+      prisma.freeTimeAgreement.findMany({ where: { isActive: true } }),
+      prisma.container.findMany({
+        where: {
+          ...(params.clientId && { clientId: params.clientId }),
+          ...(params.carrierId && { carrierId: params.carrierId }),
+          AND: [
+            { statusEvents: { some: { statusCode: { in: CLOCK_START_STATUSES }, eventClassifier: 'ACT', isRegression: false } } },
+            { statusEvents: { none: { statusCode: StatusCode.DELIVERED, eventClassifier: 'ACT', isRegression: false } } },
+          ],
+        },
+        include: {
+          client: { select: { name: true } },
+          carrier: { select: { name: true } },
+          // План и прогноз нужны для ожидаемой остановки часов
+          statusEvents: {
+            where: { isRegression: false },
+            orderBy: { eventTime: 'asc' },
+          },
+        },
+      }),
+    ]);
+
+    const rows: DemurrageReportRow[] = [];
+    for (const container of containers) {
+      const agreement = this.pickAgreement(agreements, container.carrierId, container.clientId);
+      if (!agreement) continue;
+
+      const current = statusLifecycleService.currentStatus(container.statusEvents);
+      const summary = this.calculate(
+        agreement,
+        container.statusEvents,
+        current?.eta ?? container.predictedEta,
+        warningDays
+      );
+      if (!summary || summary.clocks.every(clock => clock.stoppedAt)) continue;
+      if (params.expiringOnly && !summary.expiresSoon) continue;
+
+      rows.push({
+        ...summary,
+        containerId: container.id,
+        containerNumber: container.containerNumber,
+        clientName: container.client?.name ?? null,
+        carrierName: container.carrier?.name ?? null,
+        statusCode: current?.statusCode ?? null,
+      });
+    }
+
+    rows.sort((a, b) => Number(b.expiresSoon) - Number(a.expiresSoon) || b.projected - a.projected);
+
+    const totals: DemurrageReport['totals'] = {};
+    for (const row of rows) {
+      const total = totals[row.currency] ??= { accrued: 0, projected: 0 };
+      total.accrued += row.accrued;
+      total.projected += row.projected;
+    }
+
+    return { rows, totals, warningDays };
+  }
+
+  /**
+   * Часы и начисления по истории статусов
+   *
+   * Дни считаются начатыми сутками: день прибытия — первый день.
+   * expectedArrival — ETA прибытия к получателю (для детеншна).
+   */
+  calculate(
+    agreement: FreeTimeAgreement,
+    events: ClockEvent[],
+    expectedArrival: Date | null,
+    warningDays: number = DEFAULT_WARNING_DAYS,
+    now: Date = new Date()
+  ): DemurrageSummary | null {
+    const sorted = events
+      .filter(e => !e.isRegression)
+      .sort((a, b) => new Date(a.eventTime).getTime() - new Date(b.eventTime).getTime());
+    const actual = sorted.filter(e => (e.eventClassifier ?? 'ACT') === 'ACT');
+
+    const clocks: ChargeClock[] = [];
+    for (const rule of CLOCKS) {
+      const start = actual.find(e => rule.start.includes(e.statusCode));
+      if (!start) continue;
+
+      const startedAt = new Date(start.eventTime);
+      const stop = actual.find(e => rule.stop.includes(e.statusCode) && new Date(e.eventTime) >= startedAt);
+      const stoppedAt = stop ? new Date(stop.eventTime) : null;
+
+      const freeDays = agreement[rule.freeDays];
+      const tiers = agreement[rule.tariff] as unknown as TariffTier[];
+      const freeTimeEndsAt = new Date(startedAt.getTime() + freeDays * MS_PER_DAY);
+
+      const usedDays = daysBetween(startedAt, stoppedAt ?? now);
+      const chargeableDays = Math.max(0, usedDays - freeDays);
+      const accrued = chargeFor(chargeableDays, tiers);
+
+      // Идущие часы — до ожидаемой остановки; если она уже прошла,
+      // прогноз равен начисленному, а дата остаётся в expectedStopAt
+      const expectedStopAt = stoppedAt ? null : expectedStop(rule, sorted, startedAt, expectedArrival);
+      const projected = expectedStopAt && expectedStopAt > now
+        ? chargeFor(Math.max(0, daysBetween(startedAt, expectedStopAt) - freeDays), tiers)
+        : accrued;
+
+      clocks.push({
+        kind: rule.kind,
+        startedAt,
+        stoppedAt,
+        freeDays,
+        usedDays,
+        freeTimeEndsAt,
+        daysLeft: stoppedAt ? null : Math.max(0, Math.ceil((freeTimeEndsAt.getTime() - now.getTime()) / MS_PER_DAY)),
+        chargeableDays,
+        accrued,
+        projected,
+        expectedStopAt,
+      });
+    }
+
+    if (clocks.length === 0) return null;
+
+    return {
+      agreementId: agreement.id,
+      agreementName: agreement.name,
+      currency: agreement.currency,
+      clocks,
+      accrued: clocks.reduce((sum, clock) => sum + clock.accrued, 0),
+      projected: clocks.reduce((sum, clock) => sum + clock.projected, 0),
+      expiresSoon: clocks.some(clock =>
+        clock.daysLeft !== null && clock.chargeableDays === 0 && clock.daysLeft <= warningDays
+      ),
+    };
+  }
+
+  /**
+   * Соглашение для перевозчика и клиента: чем точнее, тем выше
+   */
+  private pickAgreement(
+    agreements: FreeTimeAgreement[],
+    carrierId: string | null,
+    clientId: string | null
+  ): FreeTimeAgreement | null {
+    let best: FreeTimeAgreement | null = null;
+    let bestScore = -1;
+
+    for (const agreement of agreements) {
+      if (agreement.carrierId && agreement.carrierId !== carrierId) continue;
+      if (agreement.clientId && agreement.clientId !== clientId) continue;
+
+      const score = (agreement.carrierId ? 2 : 0) + (agreement.clientId ? 1 : 0);
+      if (score > bestScore) {
+        best = agreement;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+}
+
+/**
+ * Когда ожидается событие, останавливающее часы: прогноз, затем план
+ * этого статуса после запуска, для детеншна — ETA прибытия
+ */
+function expectedStop(
+  rule: (typeof CLOCKS)[number],
+  events: ClockEvent[],
+  startedAt: Date,
+  expectedArrival: Date | null
+): Date | null {
+  for (const classifier of ['EST', 'PLN'] as const) {
+    const planned = events.find(e =>
+      e.eventClassifier === classifier && rule.stop.includes(e.statusCode) && new Date(e.eventTime) >= startedAt
+    );
+    if (planned) return new Date(planned.eventTime);
+  }
+
+  return rule.stopsOnArrival ? expectedArrival : null;
+}
+
+/**
+ * Начатые сутки между датами (не меньше одного дня)
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.max(1, Math.ceil((to.getTime() - from.getTime()) / MS_PER_DAY));
+}
+
+/**
+ * Сумма за платные дни по ступеням: день d оплачивается по ставке
+ * ступени с наибольшим fromDay ≤ d
+ */
+function chargeFor(chargeableDays: number, tiers: TariffTier[]): number {
+  const sorted = [...tiers].sort((a, b) => a.fromDay - b.fromDay);
+  let total = 0;
+
+  for (let day = 1; day <= chargeableDays; day++) {
+    const tier = sorted.filter(t => t.fromDay <= day).pop();
+    total += tier?.rate ?? 0;
+  }
+
+  return Math.round(total * 100) / 100;
+}
+
+function normalizeTiers(tiers: TariffTier[]): Prisma.InputJsonArray {
+  return [...tiers]
+    .sort((a, b) => a.fromDay - b.fromDay)
+    .map(tier => ({ fromDay: tier.fromDay, rate: tier.rate }));
+}
+
+function validateTiers(field: string, tiers: unknown): string[] {
+  if (!Array.isArray(tiers)) {
+    return [`${field} must be an array of { fromDay, rate }`];
+  }
+
+  const errors: string[] = [];
+  tiers.forEach((tier: Partial<TariffTier>, index) => {
+    if (!tier || !Number.isInteger(tier.fromDay) || tier.fromDay! < 1) {
+      errors.push(`${field}[${index}].fromDay must be a positive integer`);
+    }
+    if (!tier || typeof tier.rate !== 'number' || tier.rate < 0) {
+      errors.push(`${field}[${index}].rate must be a non-negative number`);
+    }
+  });
+
+  if (tiers.length > 0 && !tiers.some((tier: Partial<TariffTier>) => tier?.fromDay === 1)) {
+    errors.push(`${field} must start with fromDay 1`);
+  }
+
+  return errors;
+}
+
+export const demurrageService = new DemurrageService();
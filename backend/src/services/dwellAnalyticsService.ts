@@ -0,0 +1,270 @@
+import { StatusCode } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { findLocation } from '../middleware/locationDictionary.js';
+import {
+  DurationStats,
+  DwellAnalytics,
+  DwellGroup,
+  DwellParams,
+  DwellSample,
+  DwellStage,
+} from '../types/index.js';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// Этап по статусу; погрузка, общий «в пути», выгрузка и выпуск
+// с таможни этап не начинают — только закрывают предыдущий
+const STAGE_BY_STATUS: Partial<Record<StatusCode, DwellStage>> = {
+  IN_PORT: 'PORT',
+  ARRIVED_PORT: 'PORT',
+  ON_SHIP: 'SEA',
+  ON_ANCHORAGE: 'ANCHORAGE',
+  ON_WAREHOUSE: 'WAREHOUSE',
+  CUSTOMS: 'CUSTOMS',
+  ON_RAIL: 'RAIL',
+  RAIL_ARRIVED: 'RAIL',
+  ON_AUTO: 'AUTO',
+};
+
+// Ширина столбца гистограммы, часы
+const HISTOGRAM_STEPS = [1, 2, 4, 6, 12, 24, 48, 72, 168, 336, 720];
+const HISTOGRAM_BUCKETS = 10;
+
+// Сколько контейнеров отдавать в детализации группы
+const SAMPLE_LIMIT = 500;
+
+interface DwellEvent {
+  statusCode: StatusCode;
+  location: string | null;
+  eventTime: Date;
+}
+
+interface DwellContainer {
+  id: string;
+  containerNumber: string;
+  originPoint: string | null;
+  destinationPoint: string | null;
+  statusEvents: DwellEvent[];
+}
+
+// Отрезок истории: один этап в одном месте
+interface Segment {
+  stage: DwellStage;
+  location: string | null;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Сервис анализа времени в пути и простоев
+ *
+ * Фактическая история контейнера режется на отрезки: новый отрезок
+ * начинается при смене этапа или места. Последний отрезок открыт
+ * (контейнер ещё там) и не учитывается.
+ *
+ * По маршруту и месяцу считается длительность этапа на контейнер
+ * (сумма его отрезков: всё море, вся ЖД), по локации — каждая
+ * стоянка в этом месте отдельно.
+ */
+export class DwellAnalyticsService {
+
+  async getAnalytics(params: DwellParams): Promise<DwellAnalytics> {
+    const samples = await this.collectSamples(params);
+
+    const groups = new Map<string, { key: string; stage: DwellStage; hours: number[] }>();
+    for (const { key, sample } of samples) {
+      const id = `${key}|${sample.stage}`;
+      const group = groups.get(id) ?? { key, stage: sample.stage, hours: [] };
+      group.hours.push(sample.hours);
+      groups.set(id, group);
+    }
+
+    return {
+      from: params.from,
+      to: params.to,
+      groupBy: params.groupBy,
+      groups: [...groups.values()]
+        .map((group): DwellGroup => ({ key: group.key, stage: group.stage, stats: this.computeStats(group.hours) }))
+        .sort((a, b) => b.stats.count - a.stats.count || a.key.localeCompare(b.key)),
+    };
+  }
+
+  /**
+   * Контейнеры группы, от самого долгого этапа
+   */
+  async getSamples(params: DwellParams & { key: string }): Promise<DwellSample[]> {
+    const samples = await this.collectSamples(params);
+
+    return samples
+      .filter(({ key }) => key === params.key)
+      .map(({ sample }) => sample)
+      .sort((a, b) => b.hours - a.hours)
+      .slice(0, SAMPLE_LIMIT);
+  }
+
+  /**
+   * Отрезки истории контейнера по фактическим событиям
+   */
+  buildSegments(events: DwellEvent[]): Segment[] {
+    const segments: Segment[] = [];
+    let open: Omit<Segment, 'end'> | null = null;
+
+    for (const event of events) {
+      const stage = STAGE_BY_STATUS[event.statusCode] ?? null;
+      const location = event.location ? locationName(event.location) : null;
+
+      // Повторное сообщение о том же этапе в том же месте продолжает отрезок
+      if (open && stage === open.stage && (!location || location === open.location)) {
+        continue;
+      }
+      if (open) {
+        segments.push({ ...open, end: event.eventTime });
+      }
+      open = stage ? { stage, location, start: event.eventTime } : null;
+    }
+
+    return segments;
+  }
+
+  /**
+   * Перцентили и гистограмма длительностей
+   */
+  computeStats(hours: number[]): DurationStats {
+    const sorted = [...hours].sort((a, b) => a - b);
+    const max = sorted[sorted.length - 1];
+
+    const step = HISTOGRAM_STEPS.find(s => s * HISTOGRAM_BUCKETS >= max) ?? Math.ceil(max / HISTOGRAM_BUCKETS);
+    const buckets = Math.max(1, Math.ceil(max / step));
+    const histogram = Array.from({ length: buckets }, (_, i) => ({
+      fromHours: i * step,
+      toHours: (i + 1) * step,
+      count: 0,
+    }));
+    for (const value of sorted) {
+      histogram[Math.min(buckets - 1, Math.floor(value / step))].count++;
+    }
+
+    return {
+      count: sorted.length,
+      avgHours: round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+      minHours: round(sorted[0]),
+      p50Hours: round(percentile(sorted, 0.5)),
+      p75Hours: round(percentile(sorted, 0.75)),
+      p90Hours: round(percentile(sorted, 0.9)),
+      maxHours: round(max),
+      histogram,
+    };
+  }
+
+  /**
+   * Длительности этапов за период с ключом группы
+   *
+   * Этап относится к периоду по времени начала.
+   */
+  private async collectSamples(params: DwellParams): Promise<Array<{ key: string; sample: DwellSample }>> {
+    const { from, to, groupBy, stage, carrierId, clientId } = params;
+
+    const containers: DwellContainer[] = await prisma.container.findMany({
+      where: {
+        ...(carrierId && { carrierId }),
+        ...(clientId && { clientId }),
+        statusEvents: { some: { eventTime: { gte: from, lte: to }, eventClassifier: 'ACT' } },
+      },
+      select: {
+        id: true,
+        containerNumber: true,
+        originPoint: true,
+        destinationPoint: true,
+        statusEvents: {
+          where: { eventClassifier: 'ACT', isRegression: false },
+          orderBy: { eventTime: 'asc' },
+          select: { statusCode: true, location: true, eventTime: true },
+        },
+      },
+    });
+
+    const result: Array<{ key: string; sample: DwellSample }> = [];
+
+    for (const container of containers) {
+      const segments = this.buildSegments(container.statusEvents)
+        .filter(segment => !stage || segment.stage === stage);
+
+      const base = {
+        containerId: container.id,
+        containerNumber: container.containerNumber,
+        originPoint: container.originPoint,
+        destinationPoint: container.destinationPoint,
+      };
+
+      if (groupBy === 'location') {
+        for (const segment of segments) {
+          if (!segment.location || segment.start < from || segment.start > to) continue;
+          result.push({
+            key: segment.location,
+            sample: { ...base, ...this.toSample(segment.stage, [segment]), location: segment.location },
+          });
+        }
+        continue;
+      }
+
+      // Маршрут и месяц — этап целиком: от первого отрезка, сумма отрезков
+      const byStage = new Map<DwellStage, Segment[]>();
+      for (const segment of segments) {
+        byStage.set(segment.stage, [...(byStage.get(segment.stage) ?? []), segment]);
+      }
+
+      for (const [segmentStage, stageSegments] of byStage) {
+        const started = stageSegments[0].start;
+        if (started < from || started > to) continue;
+
+        let key: string | null;
+        if (groupBy === 'month') {
+          key = started.toISOString().slice(0, 7);
+        } else {
+          key = container.originPoint && container.destinationPoint
+            ? `${container.originPoint}→${container.destinationPoint}`
+            : null;
+        }
+        if (!key) continue;
+
+        result.push({ key, sample: { ...base, ...this.toSample(segmentStage, stageSegments), location: null } });
+      }
+    }
+
+    return result;
+  }
+
+  private toSample(stage: DwellStage, segments: Segment[]): Pick<DwellSample, 'stage' | 'startedAt' | 'endedAt' | 'hours'> {
+    const ms = segments.reduce((sum, s) => sum + (s.end.getTime() - s.start.getTime()), 0);
+    return {
+      stage,
+      startedAt: segments[0].start,
+      endedAt: segments[segments.length - 1].end,
+      hours: round(ms / MS_PER_HOUR),
+    };
+  }
+}
+
+/**
+ * Название места: из справочника, иначе как прислали
+ */
+function locationName(text: string): string {
+  return findLocation(text).location?.name ?? text.trim();
+}
+
+/**
+ * Перцентиль с линейной интерполяцией (значения отсортированы)
+ */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function round(value: number, digits: number = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export const dwellAnalyticsService = new DwellAnalyticsService();
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Prisma, StatusCode } from '@prisma/client';
+
+vi.mock('../utils/prisma.js', () => ({ default: {}, prisma: {} }));
+
+import { etaPredictionService } from './etaPredictionService.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const start = new Date('2025-12-01T00:00:00Z').getTime();
+
+function reading(statusCode: StatusCode, day: number, distanceToDestinationKm: number | null) {
+  return {
+    statusCode,
+    distanceToDestinationKm,
+    eventTime: new Date(start + day * DAY),
+    eventClassifier: 'ACT' as const,
+    isRegression: false,
+  };
+}
+
+/**
+ * Клиент с событиями контейнера и скоростями других контейнеров
+ */
+function client(events: ReturnType<typeof reading>[], historySpeeds: number[] = []) {
+  const container = {
+    findUnique: vi.fn(async () => ({ id: 'c1', originPoint: 'Владивосток', destinationPoint: 'Иня-Восточная', carrierId: 'k1' })),
+    findMany: vi.fn(async () => historySpeeds.map(observedSpeedKmDay => ({ observedSpeedKmDay }))),
+    update: vi.fn(async (_args: { where: { id: string }; data: Record<string, unknown> }) => ({})),
+  };
+  const statusEvent = { findMany: vi.fn(async () => events) };
+
+  return { container, client: { container, statusEvent } as unknown as Prisma.TransactionClient };
+}
+
+describe('EtaPredictionService.refresh', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(start);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('projects the remaining distance at the observed speed', async () => {
+    const { container, client: tx } = client([
+      reading('ON_RAIL', 0, 2000),
+      reading('ON_RAIL', 1, 1400),
+      reading('ON_RAIL', 2, 800),
+    ]);
+
+    const prediction = await etaPredictionService.refresh('c1', tx);
+
+    const eta = new Date(start + 2 * DAY + (800 / 600) * DAY);
+    expect(prediction).toMatchObject({ basis: 'OBSERVED_SPEED', eta, earliest: eta, latest: eta });
+    expect(container.update).toHaveBeenCalledWith({
+      where: { id: 'c1' },
+      data: expect.objectContaining({ predictedEta: eta, observedSpeedKmDay: 600 }),
+    });
+  });
+
+  it('measures speed only since the distance last grew', async () => {
+    const { client: tx } = client([
+      reading('ON_RAIL', 0, 300),
+      reading('ON_RAIL', 1, 1000),
+      reading('ON_RAIL', 1.5, 500),
+    ]);
+
+    const prediction = await etaPredictionService.refresh('c1', tx);
+
+    // 500 км за полсуток, разброс по умолчанию 25%
+    expect(prediction?.eta).toEqual(new Date(start + 2 * DAY));
+    expect(prediction?.earliest).toEqual(new Date(start + 1.5 * DAY + (500 / 1250) * DAY));
+    expect(prediction?.latest).toEqual(new Date(start + 1.5 * DAY + (500 / 750) * DAY));
+  });
+
+  it('falls back to the average speed of similar containers', async () => {
+    const { container, client: tx } = client([reading('ON_RAIL', 0, 1000)], [400, 500, 600]);
+
+    const prediction = await etaPredictionService.refresh('c1', tx);
+
+    expect(prediction).toMatchObject({ basis: 'HISTORICAL_SPEED', eta: new Date(start + 2 * DAY) });
+    expect(container.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: {
+        destinationPoint: 'Иня-Восточная',
+        originPoint: 'Владивосток',
+        carrierId: 'k1',
+        id: { not: 'c1' },
+        observedSpeedKmDay: { not: null },
+      },
+    }));
+    expect(container.update.mock.calls[0][0].data).not.toHaveProperty('observedSpeedKmDay');
+  });
+
+  it('gives no prediction without enough history or with an implausible speed', async () => {
+    const { client: tx } = client([
+      reading('ON_RAIL', 0, 1000),
+      reading('ON_RAIL', 0.5, 100),
+    ], [500, 600]);
+
+    expect(await etaPredictionService.refresh('c1', tx)).toBeNull();
+  });
+
+  it('ignores distances reported before the rail leg', async () => {
+    const { client: tx } = client([
+      reading('ON_SHIP', 0, 900),
+      reading('ON_RAIL', 1, 2000),
+      reading('ON_RAIL', 1.5, 1700),
+    ]);
+
+    const prediction = await etaPredictionService.refresh('c1', tx);
+
+    // 300 км за полсуток — без морской отметки «900 км до порта»
+    expect(prediction).toMatchObject({ basis: 'OBSERVED_SPEED', eta: new Date(start + 1.5 * DAY + (1700 / 600) * DAY) });
+  });
+
+  it('does not predict an arrival in the past from a stale reading', async () => {
+    vi.setSystemTime(start + 10 * DAY);
+    const { client: tx } = client([
+      reading('ON_RAIL', 0, 2000),
+      reading('ON_RAIL', 1, 1400),
+    ]);
+
+    const prediction = await etaPredictionService.refresh('c1', tx);
+
+    expect(prediction?.eta).toEqual(new Date(start + 10 * DAY));
+    expect(prediction?.latest).toEqual(new Date(start + 10 * DAY));
+  });
+
+  it('clears the prediction once the container has arrived', async () => {
+    const { container, client: tx } = client([
+      reading('ON_RAIL', 0, 2000),
+      reading('ON_RAIL', 1, 1400),
+      reading('RAIL_ARRIVED', 3, null),
+    ]);
+
+    expect(await etaPredictionService.refresh('c1', tx)).toBeNull();
+    expect(container.update).toHaveBeenCalledWith({
+      where: { id: 'c1' },
+      data: { predictedEta: null, predictedEtaEarliest: null, predictedEtaLatest: null, predictedEtaBasis: null, predictedAt: null },
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { Container, EtaBasis, Prisma, StatusCode } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { statusLifecycleService } from './statusLifecycleService.js';
+import { EtaPrediction } from '../types/index.js';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Отметки ближе по времени дают шум, а не скорость
+const MIN_SPAN_MS = 6 * 60 * 60 * 1000;
+
+// Правдоподобная скорость контейнерного поезда, км/сутки
+const MIN_SPEED_KM_DAY = 50;
+const MAX_SPEED_KM_DAY = 1500;
+
+// Разброс, если по данным его не оценить (одна пара отметок)
+const DEFAULT_SPREAD = 0.25;
+
+// Историческая средняя — не меньше стольких контейнеров
+const MIN_HISTORY_SAMPLES = 3;
+const HISTORY_LIMIT = 50;
+
+// Расстояние до станции назначения — только из ЖД-статусов:
+// у морского плеча оно до порта
+const RAIL_STATUSES: StatusCode[] = [StatusCode.ON_RAIL, StatusCode.RAIL_ARRIVED];
+
+// После прибытия на станцию назначения прогноз по ЖД не нужен
+const ARRIVED_STATUSES: StatusCode[] = [StatusCode.RAIL_ARRIVED, StatusCode.ON_AUTO, StatusCode.DELIVERED];
+
+interface DistanceReading {
+  distanceKm: number;
+  eventTime: Date;
+}
+
+interface SpeedEstimate {
+  speed: number;                   // км/сутки
+  spread: number;                  // стандартное отклонение, км/сутки
+  basis: EtaBasis;
+}
+
+type PredictionFields = Pick<
+  Container,
+  'predictedEta' | 'predictedEtaEarliest' | 'predictedEtaLatest' | 'predictedEtaBasis' | 'predictedAt'
+>;
+
+/**
+ * Сервис расчётного ETA по ЖД
+ *
+ * Операторы часто сообщают только «1857 км до Иня-Восточная».
+ * Скорость контейнера считается по последовательным отметкам
+ * расстояния; пока отметка одна — берётся средняя скорость других
+ * контейнеров того же маршрута и перевозчика. Прогноз хранится
+ * в контейнере отдельно от ETA перевозчика.
+ */
+export class EtaPredictionService {
+
+  /**
+   * Пересчёт прогноза после нового события
+   */
+  async refresh(containerId: string, client: Prisma.TransactionClient = prisma): Promise<EtaPrediction | null> {
+    const container = await client.container.findUnique({
+      where: { id: containerId },
+      select: { id: true, originPoint: true, destinationPoint: true, carrierId: true },
+    });
+    if (!container) return null;
+
+    const events = await client.statusEvent.findMany({
+      where: { containerId, eventClassifier: 'ACT', isRegression: false },
+      orderBy: { eventTime: 'asc' },
+      select: { statusCode: true, distanceToDestinationKm: true, eventTime: true, eventClassifier: true, isRegression: true },
+    });
+
+    const current = statusLifecycleService.currentStatus(events);
+    const readings = current && !ARRIVED_STATUSES.includes(current.statusCode)
+      ? this.currentRun(events)
+      : [];
+
+    const observed = this.observedSpeed(readings);
+    const estimate = observed
+      ?? (readings.length > 0 ? await this.historicalSpeed(container, client) : null);
+
+    const prediction = estimate ? this.project(readings[readings.length - 1], estimate) : null;
+
+    await client.container.update({
+      where: { id: containerId },
+      data: {
+        predictedEta: prediction?.eta ?? null,
+        predictedEtaEarliest: prediction?.earliest ?? null,
+        predictedEtaLatest: prediction?.latest ?? null,
+        predictedEtaBasis: prediction?.basis ?? null,
+        predictedAt: prediction?.predictedAt ?? null,
+        // Наблюдаемую скорость сохраняем и после прибытия — для средних
+        ...(observed && { observedSpeedKmDay: observed.speed }),
+      },
+    });
+
+    return prediction;
+  }
+
+  /**
+   * Прогноз из полей контейнера
+   */
+  toPrediction(container: PredictionFields): EtaPrediction | null {
+    if (!container.predictedEta || !container.predictedEtaBasis || !container.predictedAt) return null;
+
+    return {
+      eta: container.predictedEta,
+      earliest: container.predictedEtaEarliest ?? container.predictedEta,
+      latest: container.predictedEtaLatest ?? container.predictedEta,
+      basis: container.predictedEtaBasis,
+      predictedAt: container.predictedAt,
+    };
+  }
+
+  /**
+   * Последняя серия отметок с убывающим расстоянием
+   *
+   * Рост расстояния — новое плечо или другая станция назначения:
+   * отметки до него к текущему движению не относятся.
+   */
+  private currentRun(
+    events: Array<{ statusCode: StatusCode; distanceToDestinationKm: number | null; eventTime: Date }>
+  ): DistanceReading[] {
+    const readings = events
+      .filter(e => RAIL_STATUSES.includes(e.statusCode) && e.distanceToDestinationKm !== null)
+      .map(e => ({ distanceKm: e.distanceToDestinationKm!, eventTime: e.eventTime }));
+
+    let start = readings.length - 1;
+    while (start > 0 && readings[start - 1].distanceKm >= readings[start].distanceKm) {
+      start--;
+    }
+
+    return readings.slice(Math.max(start, 0));
+  }
+
+  /**
+   * Скорость по отметкам: пройденное за всё время серии,
+   * разброс — по скоростям между соседними отметками
+   */
+  private observedSpeed(readings: DistanceReading[]): SpeedEstimate | null {
+    if (readings.length < 2) return null;
+
+    const first = readings[0];
+    const last = readings[readings.length - 1];
+    const spanMs = last.eventTime.getTime() - first.eventTime.getTime();
+    const covered = first.distanceKm - last.distanceKm;
+    if (spanMs < MIN_SPAN_MS || covered <= 0) return null;
+
+    const speed = covered / (spanMs / MS_PER_DAY);
+    if (speed < MIN_SPEED_KM_DAY || speed > MAX_SPEED_KM_DAY) return null;
+
+    const pairSpeeds: number[] = [];
+    for (let i = 1; i < readings.length; i++) {
+      const dt = readings[i].eventTime.getTime() - readings[i - 1].eventTime.getTime();
+      if (dt >= MIN_SPAN_MS) {
+        pairSpeeds.push((readings[i - 1].distanceKm - readings[i].distanceKm) / (dt / MS_PER_DAY));
+      }
+    }
+
+    return {
+      speed,
+      spread: pairSpeeds.length >= 2 ? standardDeviation(pairSpeeds) : speed * DEFAULT_SPREAD,
+      basis: EtaBasis.OBSERVED_SPEED,
+    };
+  }
+
+  /**
+   * Средняя скорость других контейнеров: маршрут и перевозчик,
+   * затем только маршрут, затем только перевозчик
+   */
+  private async historicalSpeed(
+    container: { id: string; originPoint: string | null; destinationPoint: string | null; carrierId: string | null },
+    client: Prisma.TransactionClient
+  ): Promise<SpeedEstimate | null> {
+    const route: Prisma.ContainerWhereInput | null = container.destinationPoint
+      ? { destinationPoint: container.destinationPoint, ...(container.originPoint && { originPoint: container.originPoint }) }
+      : null;
+    const carrier: Prisma.ContainerWhereInput | null = container.carrierId
+      ? { carrierId: container.carrierId }
+      : null;
+
+    const scopes = [
+      route && carrier ? { ...route, ...carrier } : null,
+      route,
+      carrier,
+    ].filter((scope): scope is Prisma.ContainerWhereInput => scope !== null);
+
+    for (const scope of scopes) {
+      const samples = await client.container.findMany({
+        where: { ...scope, id: { not: container.id }, observedSpeedKmDay: { not: null } },
+        select: { observedSpeedKmDay: true },
+        orderBy: { updatedAt: 'desc' },
+        take: HISTORY_LIMIT,
+      });
+      if (samples.length < MIN_HISTORY_SAMPLES) continue;
+
+      const speeds = samples.map(s => s.observedSpeedKmDay!);
+      const speed = speeds.reduce((sum, v) => sum + v, 0) / speeds.length;
+
+      return {
+        speed,
+        spread: Math.max(standardDeviation(speeds), speed * DEFAULT_SPREAD / 2),
+        basis: EtaBasis.HISTORICAL_SPEED,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Прогноз от последней отметки: оставшееся расстояние / скорость,
+   * интервал — та же оценка при скорости ± разброс
+   *
+   * Прибытия ещё не было, поэтому прогноз не раньше текущего
+   * момента: по давней отметке контейнер «уже должен был приехать».
+   */
+  private project(reading: DistanceReading, estimate: SpeedEstimate): EtaPrediction {
+    const now = Date.now();
+    const at = (speed: number) => new Date(Math.max(
+      reading.eventTime.getTime() + (reading.distanceKm / speed) * MS_PER_DAY,
+      now
+    ));
+
+    return {
+      eta: at(estimate.speed),
+      earliest: at(Math.min(estimate.speed + estimate.spread, MAX_SPEED_KM_DAY)),
+      latest: at(Math.max(estimate.speed - estimate.spread, MIN_SPEED_KM_DAY)),
+      basis: estimate.basis,
+      predictedAt: new Date(now),
+    };
+  }
+}
+
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+}
+
+export const etaPredictionService = new EtaPredictionService();
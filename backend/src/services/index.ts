@@ -1,3 +1,42 @@
 export { containerService, ContainerService } from './containerService.js';
 export { statusEventService, StatusEventService } from './statusEventService.js';
+export { statusLifecycleService, StatusLifecycleService, LifecycleAssessment } from './statusLifecycleService.js';
+export { railDispatchService, RailDispatchService } from './railDispatchService.js';
+export { voyageService, VoyageService } from './voyageService.js';
+export { shipmentService, ShipmentService } from './shipmentService.js';
+export { routeService, RouteService } from './routeService.js';
+export { etaPredictionService, EtaPredictionService } from './etaPredictionService.js';
+export { demurrageService, DemurrageService, DEFAULT_WARNING_DAYS } from './demurrageService.js';
+export { carrierScorecardService, CarrierScorecardService } from './carrierScorecardService.js';
+export { dwellAnalyticsService, DwellAnalyticsService } from './dwellAnalyticsService.js';
+export { dashboardService, DashboardService } from './dashboardService.js';
+export { userSettingsService, UserSettingsService, DEFAULT_DASHBOARD_SETTINGS } from './userSettingsService.js';
+export { deduplicationService, DeduplicationService, ProcessedRawMessage } from './deduplicationService.js';
 
+export { syncJobService, SyncJobService, SyncJobStats } from './syncJobService.js';
+export {
+  rawMessageService,
+  RawMessageService,
+  ReprocessResult,
+  ReprocessEventItem,
+  ReprocessFilter,
+  ReprocessBatchResult,
+} from './rawMessageService.js';
+export { pendingReviewService, PendingReviewService, ReviewCorrection } from './pendingReviewService.js';
+export { learnedRuleService, LearnedRuleService, CorrectionPair } from './learnedRuleService.js';
+export {
+  locationService,
+  LocationService,
+  LocationInput,
+  LocationRegistryKind,
+  LocationImportResult,
+} from './locationService.js';
+export { mailboxPollerService, MailboxPollerService, MailboxPollResult } from './mailboxPollerService.js';
+export { oneCExportService, OneCExportService, OneCPushOptions, OneCPushResult } from './oneCExportService.js';
+export {
+  parsingProfileService,
+  ParsingProfileService,
+  ParsingProfileInput,
+  ProfileSampleAnalysis,
+} from './parsingProfileService.js';
+export { parsingContextService, ParsingContextService } from './parsingContextService.js';
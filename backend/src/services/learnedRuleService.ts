@@ -0,0 +1,251 @@
+import { LearnedRule, LearnedRuleKind, PendingReview, Prisma, StatusCode, TrainingPair } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { LearnedRules, emptyLearnedRules, normalizePhrase } from '../middleware/learnedRules.js';
+import { findLocation, normalizeLocationName } from '../middleware/locationDictionary.js';
+import { NormalizedStatusEvent } from '../types/index.js';
+
+/**
+ * Пара «исходная фраза → исправленное значение» из одного исправления
+ */
+export interface CorrectionPair {
+  kind: LearnedRuleKind;
+  rawPhrase: string;
+  correctedValue: string;
+}
+
+/**
+ * Правила в памяти живут недолго: изменения из других
+ * процессов подхватываются без перезапуска
+ */
+const CACHE_TTL_MS = 60_000;
+
+const GLOBAL_KEY = '*';
+
+const RULE_INCLUDE = {
+  carrier: { select: { id: true, name: true } },
+  _count: { select: { pairs: true } },
+} satisfies Prisma.LearnedRuleInclude;
+
+/**
+ * Сервис правил, выученных из исправлений логиста
+ *
+ * Подтверждение элемента очереди проверки с исправленными
+ * локацией, статусом или номером контейнера сохраняет обучающие
+ * пары и правила в рамках перевозчика. Администратор может
+ * отключить правило или сделать его глобальным.
+ */
+export class LearnedRuleService {
+  private cache = new Map<string, { rules: LearnedRules; expiresAt: number }>();
+
+  /**
+   * Активные правила для разбора сообщений перевозчика
+   *
+   * Глобальные правила дополняются правилами перевозчика,
+   * при совпадении фразы побеждает правило перевозчика.
+   */
+  async getRules(carrierId?: string): Promise<LearnedRules> {
+    const key = carrierId || GLOBAL_KEY;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.rules;
+
+    const records = await prisma.learnedRule.findMany({
+      where: {
+        isActive: true,
+        OR: carrierId ? [{ carrierId: null }, { carrierId }] : [{ carrierId: null }],
+      },
+    });
+
+    // Глобальные первыми — правила перевозчика перезапишут их
+    records.sort((a, b) => Number(a.carrierId !== null) - Number(b.carrierId !== null));
+
+    const rules = emptyLearnedRules();
+    for (const record of records) {
+      switch (record.kind) {
+        case LearnedRuleKind.LOCATION_ALIAS:
+          rules.locationAliases.set(record.phrase, record.value);
+          break;
+        case LearnedRuleKind.STATUS_PHRASE:
+          rules.statusPhrases.set(record.phrase, record.value as StatusCode);
+          break;
+        case LearnedRuleKind.OWNER_CODE:
+          rules.ownerCodes.set(record.phrase, record.value);
+          break;
+      }
+    }
+
+    this.cache.set(key, { rules, expiresAt: Date.now() + CACHE_TTL_MS });
+    return rules;
+  }
+
+  /**
+   * Сброс кэша после изменения правил
+   */
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * Обучающие пары из разницы извлечённых и исправленных полей
+   */
+  derivePairs(extracted: NormalizedStatusEvent, corrected: NormalizedStatusEvent): CorrectionPair[] {
+    const pairs: CorrectionPair[] = [];
+
+    // Локация: исходное написание → название (по справочнику, если есть)
+    if (extracted.location && corrected.location) {
+      const known = findLocation(corrected.location);
+      const value = known.found && known.location ? known.location.name : normalizeLocationName(corrected.location);
+      const rawPhrase = normalizePhrase(extracted.location);
+      if (rawPhrase && rawPhrase !== normalizePhrase(value)) {
+        pairs.push({ kind: LearnedRuleKind.LOCATION_ALIAS, rawPhrase, correctedValue: value });
+      }
+    }
+
+    // Статус: текст оператора → исправленный код
+    if (
+      extracted.statusText &&
+      corrected.statusCode !== extracted.statusCode &&
+      corrected.statusCode !== StatusCode.UNKNOWN
+    ) {
+      const rawPhrase = normalizePhrase(extracted.statusText);
+      if (rawPhrase) {
+        pairs.push({ kind: LearnedRuleKind.STATUS_PHRASE, rawPhrase, correctedValue: corrected.statusCode });
+      }
+    }
+
+    // Код владельца: тот же серийный номер, другой префикс
+    const before = extracted.containerNumber?.replace(/[\s-]/g, '').toUpperCase();
+    const after = corrected.containerNumber?.replace(/[\s-]/g, '').toUpperCase();
+    if (
+      before && after &&
+      before.length === 11 && after.length === 11 &&
+      before.slice(4, 10) === after.slice(4, 10) &&
+      before.slice(0, 4) !== after.slice(0, 4)
+    ) {
+      pairs.push({
+        kind: LearnedRuleKind.OWNER_CODE,
+        rawPhrase: before.slice(0, 4),
+        correctedValue: after.slice(0, 4),
+      });
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Сохранение обучающих пар и правил из подтверждённого элемента
+   *
+   * Повторное исправление той же фразы увеличивает hits;
+   * исправление на другое значение заменяет правило.
+   * Отключённое правило остаётся отключённым.
+   */
+  async learnFromReview(review: PendingReview, corrected: NormalizedStatusEvent): Promise<TrainingPair[]> {
+    const extracted = review.extracted as unknown as NormalizedStatusEvent;
+    const pairs = this.derivePairs(extracted, corrected);
+    if (pairs.length === 0) return [];
+
+    const rawMessage = review.rawMessageId
+      ? await prisma.rawMessage.findUnique({ where: { id: review.rawMessageId }, select: { carrierId: true } })
+      : null;
+    const carrierId = rawMessage?.carrierId ?? null;
+
+    const saved = await prisma.$transaction(async tx => {
+      const created: TrainingPair[] = [];
+
+      for (const pair of pairs) {
+        const existing = await tx.learnedRule.findFirst({
+          where: { kind: pair.kind, carrierId, phrase: pair.rawPhrase },
+        });
+
+        const rule = !existing
+          ? await tx.learnedRule.create({
+              data: { kind: pair.kind, carrierId, phrase: pair.rawPhrase, value: pair.correctedValue },
+            })
+          : existing.value === pair.correctedValue
+            ? await tx.learnedRule.update({ where: { id: existing.id }, data: { hits: { increment: 1 } } })
+            : await tx.learnedRule.update({ where: { id: existing.id }, data: { value: pair.correctedValue, hits: 1 } });
+
+        created.push(await tx.trainingPair.create({
+          data: { ...pair, reviewId: review.id, ruleId: rule.id },
+        }));
+      }
+
+      return created;
+    });
+
+    this.invalidate();
+    return saved;
+  }
+
+  /**
+   * Список правил для администратора
+   */
+  async getLearnedRules(params: { kind?: LearnedRuleKind; carrierId?: string | null; isActive?: boolean }) {
+    const where: Prisma.LearnedRuleWhereInput = {};
+    if (params.kind) where.kind = params.kind;
+    if (params.carrierId !== undefined) where.carrierId = params.carrierId;
+    if (params.isActive !== undefined) where.isActive = params.isActive;
+
+    return prisma.learnedRule.findMany({
+      where,
+      include: RULE_INCLUDE,
+      orderBy: [{ hits: 'desc' }, { updatedAt: 'desc' }],
+    });
+  }
+
+  /**
+   * Правило с последними обучающими парами
+   */
+  async getRuleById(id: string) {
+    return prisma.learnedRule.findUnique({
+      where: { id },
+      include: {
+        ...RULE_INCLUDE,
+        pairs: {
+          include: { review: { select: { id: true, rawSnippet: true, reviewedAt: true, reviewComment: true } } },
+          orderBy: { createdAt: 'desc' },
+          take: 20,
+        },
+      },
+    });
+  }
+
+  /**
+   * Включение / отключение правила
+   */
+  async setActive(id: string, isActive: boolean): Promise<LearnedRule> {
+    const rule = await prisma.learnedRule.update({ where: { id }, data: { isActive } });
+    this.invalidate();
+    return rule;
+  }
+
+  /**
+   * Перевод правила перевозчика в глобальные
+   *
+   * Если глобальное правило для той же фразы уже есть,
+   * оно получает значение и пары правила перевозчика.
+   */
+  async promote(rule: LearnedRule): Promise<LearnedRule> {
+    const promoted = await prisma.$transaction(async tx => {
+      const global = await tx.learnedRule.findFirst({
+        where: { kind: rule.kind, carrierId: null, phrase: rule.phrase },
+      });
+
+      if (!global) {
+        return tx.learnedRule.update({ where: { id: rule.id }, data: { carrierId: null, isActive: true } });
+      }
+
+      await tx.trainingPair.updateMany({ where: { ruleId: rule.id }, data: { ruleId: global.id } });
+      await tx.learnedRule.delete({ where: { id: rule.id } });
+
+      return tx.learnedRule.update({
+        where: { id: global.id },
+        data: { value: rule.value, isActive: true, hits: global.hits + rule.hits },
+      });
+    });
+
+    this.invalidate();
+    return promoted;
+  }
+}
+
+export const learnedRuleService = new LearnedRuleService();
@@ -0,0 +1,358 @@
+import { Location, LocationSource, LocationType, Prisma, SyncJobType } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import {
+  DEFAULT_LOCATIONS,
+  KnownLocation,
+  rebuildLocationIndex,
+} from '../middleware/locationDictionary.js';
+import { parseEsrRegister, parseUnLocodeCsv, RegistryParseResult } from '../middleware/locationRegistry.js';
+import { syncJobService } from './syncJobService.js';
+
+/**
+ * Данные для создания/изменения локации
+ */
+export interface LocationInput {
+  name: string;
+  type: LocationType;
+  aliases?: string[];
+  region?: string | null;
+  country: string;
+  unLocode?: string | null;
+  esrCode?: string | null;
+  isActive?: boolean;
+}
+
+export type LocationRegistryKind = 'esr' | 'unlocode';
+
+/**
+ * Итог импорта реестра
+ */
+export interface LocationImportResult {
+  syncJobId: string;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  warnings: string[];
+}
+
+const IMPORT_CHUNK = 1000;
+
+// Порядок построения индекса: при совпадении написаний
+// ручные и встроенные локации важнее импортированных
+const SOURCE_PRIORITY: Record<LocationSource, number> = {
+  UNLOCODE_IMPORT: 0,
+  ESR_IMPORT: 1,
+  BUILTIN: 2,
+  MANUAL: 3,
+};
+
+/**
+ * Сервис справочника локаций
+ *
+ * Локации хранятся в БД, findLocation работает по индексу в памяти:
+ * после каждого изменения индекс перестраивается.
+ */
+export class LocationService {
+
+  /**
+   * Загрузка индекса при старте
+   *
+   * Пустой справочник заполняется встроенным набором.
+   */
+  async loadIndex(): Promise<number> {
+    const count = await prisma.location.count();
+    if (count === 0) {
+      await prisma.location.createMany({
+        data: DEFAULT_LOCATIONS.map(loc => ({ ...this.toCreateData(loc), source: LocationSource.BUILTIN })),
+        skipDuplicates: true,
+      });
+    }
+    return this.refreshIndex();
+  }
+
+  /**
+   * Перестроение индекса по активным локациям
+   */
+  async refreshIndex(): Promise<number> {
+    const records = await prisma.location.findMany({
+      where: { isActive: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    records.sort((a, b) => SOURCE_PRIORITY[a.source] - SOURCE_PRIORITY[b.source]);
+    rebuildLocationIndex(records.map(record => this.toKnownLocation(record)));
+    return records.length;
+  }
+
+  /**
+   * Список локаций с поиском и пагинацией
+   */
+  async getLocations(params: {
+    search?: string;
+    type?: LocationType;
+    country?: string;
+    source?: LocationSource;
+    page?: number;
+    limit?: number;
+  }) {
+    const { search, type, country, source, page = 1, limit = 50 } = params;
+    const where: Prisma.LocationWhereInput = {};
+
+    if (type) where.type = type;
+    if (country) where.country = country.toUpperCase();
+    if (source) where.source = source;
+    if (search) {
+      const term = search.trim();
+      where.OR = [
+        { name: { contains: term, mode: 'insensitive' } },
+        { aliases: { has: term.toLowerCase() } },
+        { unLocode: term.toUpperCase() },
+        { esrCode: term },
+      ];
+    }
+
+    const [data, total] = await Promise.all([
+      prisma.location.findMany({
+        where,
+        orderBy: [{ name: 'asc' }, { type: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.location.count({ where }),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  /**
+   * Локация по ID
+   */
+  async getLocationById(id: string): Promise<Location | null> {
+    return prisma.location.findUnique({ where: { id } });
+  }
+
+  /**
+   * Создание локации
+   */
+  async createLocation(input: LocationInput): Promise<Location> {
+    const location = await prisma.location.create({
+      data: { ...this.toCreateData(input), isActive: input.isActive ?? true, source: LocationSource.MANUAL },
+    });
+    await this.refreshIndex();
+    return location;
+  }
+
+  /**
+   * Изменение локации
+   */
+  async updateLocation(id: string, input: Partial<LocationInput>): Promise<Location> {
+    const data: Prisma.LocationUpdateInput = {};
+
+    if (input.name !== undefined) data.name = input.name.trim();
+    if (input.type !== undefined) data.type = input.type;
+    if (input.aliases !== undefined) data.aliases = this.normalizeAliases(input.aliases);
+    if (input.region !== undefined) data.region = input.region?.trim() || null;
+    if (input.country !== undefined) data.country = input.country.trim().toUpperCase();
+    if (input.unLocode !== undefined) data.unLocode = input.unLocode?.trim().toUpperCase() || null;
+    if (input.esrCode !== undefined) data.esrCode = input.esrCode?.trim() || null;
+    if (input.isActive !== undefined) data.isActive = input.isActive;
+
+    const location = await prisma.location.update({ where: { id }, data });
+    await this.refreshIndex();
+    return location;
+  }
+
+  /**
+   * Удаление локации
+   */
+  async deleteLocation(id: string): Promise<void> {
+    await prisma.location.delete({ where: { id } });
+    await this.refreshIndex();
+  }
+
+  /**
+   * Проверка данных локации
+   *
+   * Возвращает список ошибок (пустой — данные корректны).
+   */
+  validateInput(input: Partial<LocationInput>, partial: boolean = false): string[] {
+    const errors: string[] = [];
+
+    if (!partial || input.name !== undefined) {
+      if (!input.name || typeof input.name !== 'string' || !input.name.trim()) {
+        errors.push('name is required');
+      }
+    }
+
+    if (!partial || input.type !== undefined) {
+      if (!input.type || !Object.values(LocationType).includes(input.type)) {
+        errors.push(`type must be one of: ${Object.values(LocationType).join(', ')}`);
+      }
+    }
+
+    if (!partial || input.country !== undefined) {
+      if (!input.country || typeof input.country !== 'string' || !/^[A-Za-z]{2}$/.test(input.country.trim())) {
+        errors.push('country must be an ISO 3166-1 alpha-2 code');
+      }
+    }
+
+    if (input.aliases !== undefined && (!Array.isArray(input.aliases) || !input.aliases.every(a => typeof a === 'string'))) {
+      errors.push('aliases must be an array of strings');
+    }
+
+    if (input.unLocode && !/^[A-Z]{2}[A-Z2-9]{3}$/.test(String(input.unLocode).trim().toUpperCase())) {
+      errors.push(`Invalid UN/LOCODE: ${input.unLocode}`);
+    }
+
+    if (input.esrCode && !/^\d{5,6}$/.test(String(input.esrCode).trim())) {
+      errors.push(`Invalid ESR code: ${input.esrCode}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Импорт реестра станций ЕСР или файла UN/LOCODE
+   *
+   * Новые коды создаются, у существующих дополняются написания
+   * и пустые поля — название и тип, заданные вручную, не меняются.
+   * Станции встроенного справочника без кода ЕСР сопоставляются
+   * по названию. Запуск фиксируется в SyncJob (IMPORT_LOCATIONS).
+   */
+  async importRegistry(
+    kind: LocationRegistryKind,
+    content: Buffer | string,
+    options: { transportOnly?: boolean } = {}
+  ): Promise<LocationImportResult> {
+    const syncJob = await syncJobService.start(SyncJobType.IMPORT_LOCATIONS);
+    let parsed: RegistryParseResult = { locations: [], skipped: 0, warnings: [] };
+    let created = 0;
+    let updated = 0;
+
+    try {
+      parsed = kind === 'esr'
+        ? parseEsrRegister(content)
+        : parseUnLocodeCsv(content, { transportOnly: options.transportOnly });
+
+      const source = kind === 'esr' ? LocationSource.ESR_IMPORT : LocationSource.UNLOCODE_IMPORT;
+      const codeField = kind === 'esr' ? 'esrCode' : 'unLocode';
+
+      // Повторы кода внутри файла — берём последнюю строку
+      const byCode = new Map<string, KnownLocation>();
+      for (const loc of parsed.locations) {
+        byCode.set(loc[codeField]!, loc);
+      }
+      const locations = [...byCode.values()];
+
+      for (let i = 0; i < locations.length; i += IMPORT_CHUNK) {
+        const chunk = locations.slice(i, i + IMPORT_CHUNK);
+        const codes = chunk.map(loc => loc[codeField]!);
+
+        const existing = await prisma.location.findMany({ where: { [codeField]: { in: codes } } });
+        const existingByCode = new Map(existing.map(record => [record[codeField]!, record]));
+
+        // Станции без кода ЕСР (встроенные, ручные) — по названию
+        // или написанию без пометок ("Гончарово (эксп.)" → "Гончарово")
+        const byName = kind === 'esr'
+          ? await prisma.location.findMany({
+              where: {
+                type: LocationType.STATION,
+                esrCode: null,
+                name: { in: chunk.flatMap(loc => [loc.name, ...loc.aliases]), mode: 'insensitive' },
+              },
+            })
+          : [];
+        const byNameKey = new Map(byName.map(record => [record.name.toLowerCase(), record]));
+
+        const toCreate: Prisma.LocationCreateManyInput[] = [];
+
+        for (const loc of chunk) {
+          const nameKey = [loc.name.toLowerCase(), ...loc.aliases].find(key => byNameKey.has(key));
+          const record = existingByCode.get(loc[codeField]!) ?? (nameKey ? byNameKey.get(nameKey) : undefined);
+
+          if (!record) {
+            toCreate.push({ ...this.toCreateData(loc), source });
+            continue;
+          }
+          if (nameKey) byNameKey.delete(nameKey);
+
+          const aliases = this.normalizeAliases([...record.aliases, ...loc.aliases, loc.name]);
+          const data: Prisma.LocationUpdateInput = {};
+          if (aliases.length !== record.aliases.length) data.aliases = aliases;
+          if (!record.region && loc.region) data.region = loc.region;
+          if (!record.esrCode && loc.esrCode) data.esrCode = loc.esrCode;
+          if (!record.unLocode && loc.unLocode) data.unLocode = loc.unLocode;
+
+          if (Object.keys(data).length > 0) {
+            await prisma.location.update({ where: { id: record.id }, data });
+            updated++;
+          }
+        }
+
+        if (toCreate.length > 0) {
+          const result = await prisma.location.createMany({ data: toCreate, skipDuplicates: true });
+          created += result.count;
+        }
+      }
+
+      await this.refreshIndex();
+
+      const total = parsed.locations.length;
+      await syncJobService.complete(
+        syncJob.id,
+        { itemsTotal: total + parsed.skipped, itemsProcessed: total, itemsFailed: parsed.skipped },
+        parsed.warnings
+      );
+
+      return {
+        syncJobId: syncJob.id,
+        total,
+        created,
+        updated,
+        skipped: parsed.skipped,
+        warnings: parsed.warnings,
+      };
+    } catch (error) {
+      await syncJobService.fail(syncJob.id, error, {
+        itemsTotal: parsed.locations.length + parsed.skipped,
+        itemsProcessed: created + updated,
+        itemsFailed: parsed.skipped,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Запись БД → локация для индекса
+   */
+  toKnownLocation(record: Location): KnownLocation {
+    return {
+      name: record.name,
+      type: record.type,
+      aliases: record.aliases,
+      region: record.region ?? undefined,
+      country: record.country,
+      unLocode: record.unLocode ?? undefined,
+      esrCode: record.esrCode ?? undefined,
+    };
+  }
+
+  private toCreateData(input: LocationInput | KnownLocation): Prisma.LocationCreateManyInput {
+    return {
+      name: input.name.trim(),
+      type: input.type as LocationType,
+      aliases: this.normalizeAliases(input.aliases ?? []),
+      region: input.region?.trim() || null,
+      country: input.country.trim().toUpperCase(),
+      unLocode: input.unLocode?.trim().toUpperCase() || null,
+      esrCode: input.esrCode?.trim() || null,
+    };
+  }
+
+  private normalizeAliases(aliases: string[]): string[] {
+    return [...new Set(aliases.map(a => a.trim().toLowerCase()).filter(Boolean))];
+  }
+}
+
+export const locationService = new LocationService();
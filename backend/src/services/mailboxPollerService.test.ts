@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+/**
+ * Ящик IMAP в памяти вместо сервера: письма с флагом \Seen
+ */
+const mailbox = vi.hoisted(() => ({
+  messages: [] as Array<{ uid: number; source: Buffer; seen: boolean }>,
+}));
+
+vi.mock('imapflow', () => ({
+  ImapFlow: class {
+    async connect() {}
+    async logout() {}
+    close() {}
+    async getMailboxLock() {
+      return { release: () => undefined };
+    }
+    async search(query: { seen: boolean }) {
+      return mailbox.messages.filter(m => m.seen === query.seen).map(m => m.uid);
+    }
+    async fetchAll(uids: number[]) {
+      return mailbox.messages
+        .filter(m => uids.includes(m.uid))
+        .map(m => ({ uid: m.uid, source: m.source, internalDate: new Date('2025-12-01T10:00:00Z') }));
+    }
+    async messageFlagsAdd(uid: number, flags: string[]) {
+      const message = mailbox.messages.find(m => m.uid === uid);
+      if (message && flags.includes('\\Seen')) message.seen = true;
+    }
+  },
+}));
+
+const prismaMock = vi.hoisted(() => ({
+  carrier: { findFirst: vi.fn() },
+  rawMessage: { create: vi.fn(), update: vi.fn() },
+}));
+vi.mock('../utils/prisma.js', () => ({ default: prismaMock, prisma: prismaMock }));
+
+vi.mock('./syncJobService.js', () => ({
+  syncJobService: {
+    start: vi.fn(async () => ({ id: 'job-1' })),
+    complete: vi.fn(),
+    fail: vi.fn(),
+  },
+}));
+
+vi.mock('./statusEventService.js', () => ({
+  statusEventService: {
+    saveNormalizedEvents: vi.fn(async (events: unknown[]) => ({
+      savedEvents: events,
+      duplicates: [],
+      errors: [],
+    })),
+  },
+}));
+
+vi.mock('./pendingReviewService.js', () => ({
+  pendingReviewService: { enqueue: vi.fn(async () => 0) },
+}));
+
+vi.mock('./parsingContextService.js', () => ({
+  parsingContextService: { resolve: vi.fn(async () => ({})) },
+}));
+
+vi.mock('../middleware/index.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../middleware/index.js')>()),
+  inputProcessor: {
+    process: vi.fn(async () => ({
+      success: true,
+      data: [{ containerNumber: 'MSCU1234560', statusCode: 'ON_RAIL', statusText: 'Отгружен на ЖД' }],
+    })),
+  },
+}));
+
+import { mailboxPollerService } from './mailboxPollerService.js';
+import { syncJobService } from './syncJobService.js';
+
+function eml(subject: string): Buffer {
+  return Buffer.from([
+    'From: Оператор <ops@rail.example>',
+    'To: logist@example.com',
+    `Subject: ${subject}`,
+    'Date: Mon, 01 Dec 2025 10:00:00 +0300',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    'MSCU1234560 отгружен на ЖД, ст. Гончарово',
+    '',
+  ].join('\r\n'));
+}
+
+describe('MailboxPollerService.poll', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mailbox.messages = [];
+    prismaMock.carrier.findFirst.mockResolvedValue(null);
+    prismaMock.rawMessage.create.mockImplementation(async ({ data }) => ({ id: `raw-${data.subject}`, ...data }));
+    prismaMock.rawMessage.update.mockResolvedValue({});
+  });
+
+  it('imports unseen messages and marks them as seen', async () => {
+    mailbox.messages = [
+      { uid: 1, source: eml('old'), seen: true },
+      { uid: 2, source: eml('new'), seen: false },
+    ];
+
+    const result = await mailboxPollerService.poll();
+
+    expect(result).toMatchObject({ itemsTotal: 1, itemsProcessed: 1, itemsFailed: 0 });
+    expect(prismaMock.rawMessage.create).toHaveBeenCalledTimes(1);
+    expect(prismaMock.rawMessage.create.mock.calls[0][0].data).toMatchObject({
+      sourceType: 'EMAIL',
+      senderEmail: 'ops@rail.example',
+      subject: 'new',
+    });
+    expect(mailbox.messages.every(m => m.seen)).toBe(true);
+    expect(syncJobService.complete).toHaveBeenCalledWith(
+      'job-1',
+      { itemsTotal: 1, itemsProcessed: 1, itemsFailed: 0 },
+      []
+    );
+  });
+
+  it('leaves a message unseen when the raw message cannot be stored', async () => {
+    mailbox.messages = [{ uid: 7, source: eml('db down'), seen: false }];
+    prismaMock.rawMessage.create.mockRejectedValueOnce(new Error('connection refused'));
+
+    const result = await mailboxPollerService.poll();
+
+    expect(result).toMatchObject({ itemsTotal: 1, itemsProcessed: 0, itemsFailed: 1 });
+    expect(mailbox.messages[0].seen).toBe(false);
+    expect(syncJobService.complete).toHaveBeenCalledWith(
+      'job-1',
+      expect.anything(),
+      [expect.objectContaining({ uid: 7, error: 'connection refused' })]
+    );
+  });
+
+  it('marks a message as seen even when nothing could be parsed from it', async () => {
+    mailbox.messages = [{ uid: 3, source: eml('empty'), seen: false }];
+    const { inputProcessor } = await import('../middleware/index.js');
+    vi.mocked(inputProcessor.process).mockResolvedValueOnce({ success: false, errors: ['No status events found'] } as never);
+
+    const result = await mailboxPollerService.poll();
+
+    expect(result).toMatchObject({ itemsProcessed: 0, itemsFailed: 1 });
+    expect(mailbox.messages[0].seen).toBe(true);
+    expect(prismaMock.rawMessage.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ errorMessage: 'No status events found' }),
+    }));
+  });
+});
@@ -0,0 +1,277 @@
+import { ImapFlow, FetchMessageObject } from 'imapflow';
+import { SourceType, SyncJobType } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { config } from '../config/index.js';
+import { inputProcessor, parseEml, RawInput } from '../middleware/index.js';
+import { statusEventService } from './statusEventService.js';
+import { deduplicationService } from './deduplicationService.js';
+import { pendingReviewService } from './pendingReviewService.js';
+import { syncJobService } from './syncJobService.js';
+import { parsingContextService } from './parsingContextService.js';
+
+/**
+ * ============================================
+ * MAILBOX POLLER - Фоновый приём писем операторов
+ * ============================================
+ *
+ * Периодически забирает непрочитанные письма из IMAP-ящика,
+ * сохраняет исходник каждого (.eml) как RawMessage и прогоняет через
+ * InputProcessor — тело и вложения разбираются как EMAIL_MIME.
+ *
+ * Письмо помечается прочитанным (\Seen) только после того, как
+ * RawMessage успешно записан в БД — при падении БД письмо
+ * останется непрочитанным и будет забрано в следующем цикле.
+ *
+ * Каждый цикл фиксируется в SyncJob с типом IMPORT_EMAIL.
+ */
+
+export interface MailboxPollResult {
+  syncJobId: string;
+  itemsTotal: number;
+  itemsProcessed: number;
+  itemsFailed: number;
+}
+
+interface MailImportError {
+  uid: number;
+  subject?: string;
+  error: string;
+}
+
+export class MailboxPollerService {
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  /**
+   * Запуск периодического опроса ящика
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const intervalMs = config.mailbox.pollIntervalSeconds * 1000;
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('Mailbox poll error:', error));
+    }, intervalMs);
+
+    // Первый цикл — сразу при старте
+    this.poll().catch(error => console.error('Mailbox poll error:', error));
+  }
+
+  /**
+   * Остановка опроса
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Идёт ли сейчас цикл опроса
+   */
+  isPolling(): boolean {
+    return this.polling;
+  }
+
+  /**
+   * Один цикл опроса ящика
+   *
+   * Возвращает null, если предыдущий цикл ещё не завершился.
+   */
+  async poll(): Promise<MailboxPollResult | null> {
+    if (this.polling) return null;
+    this.polling = true;
+
+    let syncJob;
+    try {
+      syncJob = await syncJobService.start(SyncJobType.IMPORT_EMAIL);
+    } catch (error) {
+      this.polling = false;
+      throw error;
+    }
+
+    const stats = { itemsTotal: 0, itemsProcessed: 0, itemsFailed: 0 };
+    const itemErrors: MailImportError[] = [];
+    const client = this.createClient();
+
+    try {
+      await client.connect();
+      const lock = await client.getMailboxLock(config.mailbox.folder);
+
+      try {
+        const uids = (await client.search({ seen: false }, { uid: true })) || [];
+        const batch = uids.slice(0, config.mailbox.maxMessagesPerRun);
+        stats.itemsTotal = batch.length;
+
+        if (batch.length > 0) {
+          // Сначала забираем письма целиком: во время fetch нельзя
+          // выполнять другие IMAP-команды (в т.ч. установку флагов)
+          const messages = await client.fetchAll(
+            batch,
+            { uid: true, source: true, internalDate: true },
+            { uid: true }
+          );
+
+          for (const message of messages) {
+            const imported = await this.importMessage(message, itemErrors);
+
+            if (imported.persisted) {
+              await client.messageFlagsAdd(message.uid, ['\\Seen'], { uid: true });
+            }
+
+            if (imported.success) {
+              stats.itemsProcessed++;
+            } else {
+              stats.itemsFailed++;
+            }
+          }
+        }
+      } finally {
+        lock.release();
+      }
+
+      await client.logout();
+      await syncJobService.complete(syncJob.id, stats, itemErrors);
+
+      return { syncJobId: syncJob.id, ...stats };
+    } catch (error) {
+      console.error('Mailbox poll failed:', error);
+      client.close();
+      await syncJobService.fail(syncJob.id, error, stats);
+      throw error;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Импорт одного письма
+   *
+   * persisted — RawMessage сохранён (можно ставить \Seen),
+   * success — из письма извлечены и сохранены события.
+   */
+  private async importMessage(
+    message: FetchMessageObject,
+    itemErrors: MailImportError[]
+  ): Promise<{ persisted: boolean; success: boolean }> {
+    if (!message.source) {
+      itemErrors.push({ uid: message.uid, error: 'Empty message source' });
+      return { persisted: false, success: false };
+    }
+
+    let subject: string | undefined;
+    let rawMessageId: string | undefined;
+
+    try {
+      const source = message.source.toString('utf-8');
+      const eml = await parseEml(message.source);
+      subject = eml.subject;
+
+      const senderEmail = eml.from;
+      const receivedAt = eml.date
+        ?? (message.internalDate ? new Date(message.internalDate).toISOString() : new Date().toISOString());
+
+      const carrier = senderEmail
+        ? await prisma.carrier.findFirst({
+            where: { contactEmail: { equals: senderEmail, mode: 'insensitive' } },
+            select: { id: true },
+          })
+        : null;
+
+      // Сохраняем сырое письмо до парсинга — это точка «успешной записи»
+      const rawMessage = await prisma.rawMessage.create({
+        data: {
+          sourceType: SourceType.EMAIL,
+          content: source,
+          senderEmail,
+          subject,
+          carrierId: carrier?.id,
+          fingerprint: deduplicationService.fingerprint(source, senderEmail),
+        },
+      });
+      rawMessageId = rawMessage.id;
+
+      const input: RawInput = {
+        content: source,
+        hint: 'eml',
+        metadata: {
+          sourceEmail: senderEmail,
+          sourceSubject: subject,
+          sourceCarrierId: carrier?.id,
+          receivedAt,
+          messageId: eml.messageId,
+        },
+      };
+      const result = await inputProcessor.process(input, await parsingContextService.resolve(input));
+
+      if (!result.success) {
+        const error = result.errors?.join('; ') || 'Failed to process operator email';
+        await prisma.rawMessage.update({
+          where: { id: rawMessage.id },
+          data: { processed: true, processedAt: new Date(), errorMessage: error },
+        });
+        itemErrors.push({ uid: message.uid, subject, error });
+        return { persisted: true, success: false };
+      }
+
+      const { savedEvents, duplicates, errors } = await statusEventService.saveNormalizedEvents(
+        result.data ?? [],
+        { sourceType: SourceType.EMAIL, rawMessageId: rawMessage.id }
+      );
+      const pendingReview = result.review
+        ? await pendingReviewService.enqueue(result.review, { sourceType: SourceType.EMAIL, rawMessageId: rawMessage.id })
+        : 0;
+
+      await prisma.rawMessage.update({
+        where: { id: rawMessage.id },
+        data: {
+          processed: true,
+          processedAt: new Date(),
+          errorMessage: errors.length > 0 ? JSON.stringify(errors) : null,
+        },
+      });
+
+      // Повторно присланное письмо или ожидание проверки — не ошибка
+      if (savedEvents.length === 0 && duplicates.length === 0 && pendingReview === 0) {
+        itemErrors.push({ uid: message.uid, subject, error: 'No status events saved' });
+        return { persisted: true, success: false };
+      }
+
+      return { persisted: true, success: true };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      itemErrors.push({ uid: message.uid, subject, error: errorMessage });
+
+      // Письмо уже сохранено — фиксируем ошибку, повторная обработка через RawMessage
+      if (rawMessageId) {
+        await prisma.rawMessage
+          .update({
+            where: { id: rawMessageId },
+            data: { processed: true, processedAt: new Date(), errorMessage },
+          })
+          .catch(() => undefined);
+      }
+
+      return { persisted: !!rawMessageId, success: false };
+    }
+  }
+
+  /**
+   * Создание IMAP-клиента по конфигурации
+   */
+  private createClient(): ImapFlow {
+    return new ImapFlow({
+      host: config.mailbox.host,
+      port: config.mailbox.port,
+      secure: config.mailbox.secure,
+      auth: {
+        user: config.mailbox.user,
+        pass: config.mailbox.password,
+      },
+      logger: false,
+    });
+  }
+}
+
+export const mailboxPollerService = new MailboxPollerService();
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  container: { findMany: vi.fn() },
+}));
+vi.mock('../utils/prisma.js', () => ({ default: prismaMock, prisma: prismaMock }));
+
+vi.mock('./syncJobService.js', () => ({
+  syncJobService: {
+    start: vi.fn(async () => ({ id: 'job-1' })),
+    complete: vi.fn(),
+    fail: vi.fn(),
+    getLastCompleted: vi.fn(async () => null),
+  },
+}));
+
+import { oneCExportService } from './oneCExportService.js';
+import { syncJobService } from './syncJobService.js';
+import { config } from '../config/index.js';
+
+type Failure = 'network' | 'after-write' | number;
+
+/**
+ * OData 1С в памяти: наборы записей, фильтр `<реквизит> eq '...'`
+ * и запланированные сбои для очередных запросов
+ */
+function fakeOneC() {
+  const sets = new Map<string, Array<Record<string, unknown>>>();
+  const planned: Array<{ method: string; failure: Failure }> = [];
+  const calls: string[] = [];
+
+  const fetchMock = vi.fn(async (url: string, init: { method: string; body?: string }) => {
+    const parsed = new URL(url);
+    const entitySet = decodeURIComponent(parsed.pathname.split('/').pop()!);
+    calls.push(`${init.method} ${entitySet}`);
+
+    const index = planned.findIndex(p => p.method === init.method);
+    const failure = index >= 0 ? planned.splice(index, 1)[0].failure : null;
+    if (failure === 'network') throw new TypeError('fetch failed');
+    if (typeof failure === 'number') return new Response('{}', { status: failure });
+
+    const records = sets.get(entitySet) ?? [];
+    if (init.method === 'GET') {
+      const match = parsed.searchParams.get('$filter')?.match(/^(\S+) eq '(.*)'$/);
+      const value = match ? records.filter(r => r[match[1]] === match[2]) : records;
+      return new Response(JSON.stringify({ value }), { status: 200 });
+    }
+
+    const record = { ...JSON.parse(init.body!), Ref_Key: `${entitySet}-${records.length + 1}` };
+    sets.set(entitySet, [...records, record]);
+    if (failure === 'after-write') return new Response('{}', { status: 503 });
+    return new Response(JSON.stringify(record), { status: 201 });
+  });
+
+  return {
+    sets,
+    calls,
+    fetchMock,
+    fail: (method: 'GET' | 'POST', failure: Failure) => planned.push({ method, failure }),
+    documents: () => sets.get(`Document_${config.oneC.documentName}`) ?? [],
+  };
+}
+
+const container = {
+  id: 'c1',
+  containerNumber: 'MSCU1234560',
+  containerType: '40HC',
+  originPoint: 'Шанхай',
+  destinationPoint: 'Москва',
+  predictedEta: null,
+  predictedEtaEarliest: null,
+  predictedEtaLatest: null,
+  predictedEtaBasis: null,
+  predictedAt: null,
+  statusEvents: [{
+    statusCode: 'ARRIVED_PORT',
+    statusText: 'Прибыл в порт',
+    location: 'Владивосток',
+    distanceToDestinationKm: null,
+    eta: null,
+    eventTime: new Date('2025-12-01T10:00:00Z'),
+  }],
+};
+
+describe('OneCExportService.push', () => {
+  let oneC: ReturnType<typeof fakeOneC>;
+  const saved = { ...config.oneC };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    oneC = fakeOneC();
+    vi.stubGlobal('fetch', oneC.fetchMock);
+    Object.assign(config.oneC, { maxRetries: 2, retryDelayMs: 0 });
+    prismaMock.container.findMany.mockResolvedValue([container]);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    Object.assign(config.oneC, saved);
+  });
+
+  it('creates the catalog item and a document linked to it', async () => {
+    const result = await oneCExportService.push({ containerIds: ['c1'] });
+
+    expect(result).toMatchObject({ itemsTotal: 1, itemsProcessed: 1, itemsFailed: 0 });
+    expect(oneC.documents()).toHaveLength(1);
+    expect(oneC.documents()[0]).toMatchObject({
+      [config.oneC.containerAttribute]: `Catalog_${config.oneC.catalogName}-1`,
+      [config.oneC.eventKeyAttribute]: expect.stringMatching(/^MSCU1234560-[0-9a-f]{16}$/),
+      НомерКТК: 'MSCU1234560',
+    });
+  });
+
+  it('retries GET after 503 and network errors', async () => {
+    oneC.fail('GET', 503);
+    oneC.fail('GET', 'network');
+
+    await oneCExportService.push({ containerIds: ['c1'] });
+
+    expect(oneC.calls.slice(0, 3)).toEqual(Array(3).fill(`GET Catalog_${config.oneC.catalogName}`));
+    expect(oneC.documents()).toHaveLength(1);
+  });
+
+  it('does not retry a request 1C rejected', async () => {
+    oneC.fail('GET', 400);
+
+    await expect(oneCExportService.push({ containerIds: ['c1'] })).rejects.toThrow('HTTP 400');
+
+    expect(oneC.calls).toHaveLength(1);
+    expect(syncJobService.fail).toHaveBeenCalled();
+  });
+
+  it('looks the object up again instead of posting it twice when the answer was lost', async () => {
+    oneC.fail('POST', 'after-write');
+
+    await oneCExportService.push({ containerIds: ['c1'] });
+
+    // Ответ на создание элемента справочника потерян — повторный поиск его находит
+    expect(oneC.sets.get(`Catalog_${config.oneC.catalogName}`)).toHaveLength(1);
+    expect(oneC.documents()).toHaveLength(1);
+    expect(oneC.calls.filter(c => c.startsWith('POST'))).toHaveLength(2);
+  });
+
+  it('posts again after a failure that did not reach 1C', async () => {
+    oneC.fail('POST', 'network');
+    oneC.fail('POST', 503);
+
+    const result = await oneCExportService.push({ containerIds: ['c1'] });
+
+    expect(result?.itemsProcessed).toBe(1);
+    expect(oneC.sets.get(`Catalog_${config.oneC.catalogName}`)).toHaveLength(1);
+    expect(oneC.documents()).toHaveLength(1);
+  });
+
+  it('does not send the same status snapshot twice', async () => {
+    await oneCExportService.push({ containerIds: ['c1'] });
+    await oneCExportService.push({ containerIds: ['c1'] });
+
+    expect(oneC.documents()).toHaveLength(1);
+  });
+
+  it('gives up on POST after the configured retries', async () => {
+    oneC.fail('POST', 503);
+    oneC.fail('POST', 503);
+    oneC.fail('POST', 503);
+
+    await expect(oneCExportService.push({ containerIds: ['c1'] })).rejects.toThrow('HTTP 503');
+    expect(oneC.sets.get(`Catalog_${config.oneC.catalogName}`)).toBeUndefined();
+  });
+});
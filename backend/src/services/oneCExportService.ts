@@ -0,0 +1,333 @@
+import { createHash } from 'crypto';
+import { Prisma, SyncJob, SyncJobType } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { config } from '../config/index.js';
+import {
+  exportContainersFor1C,
+  oneCAttributeValue,
+  ONE_C_ATTRIBUTES,
+  OneCExportRow,
+} from '../exporters/index.js';
+import { etaPredictionService } from './etaPredictionService.js';
+import { syncJobService } from './syncJobService.js';
+
+/**
+ * ============================================
+ * 1C EXPORT - Строки выгрузки и отправка в 1С через OData
+ * ============================================
+ *
+ * Отправка идёт в стандартный REST-интерфейс 1С (/odata/standard.odata):
+ * контейнер — элемент справочника Catalog_<catalogName> (Description =
+ * номер КТК, создаётся при первой отправке), каждое изменение —
+ * новый документ Document_<documentName> со ссылкой на контейнер
+ * и реквизитами строки выгрузки. Документ несёт ключ — хеш реквизитов:
+ * тот же снимок статуса повторно не записывается.
+ *
+ * Отправляются только изменения: контейнеры, обновлённые или
+ * получившие события после старта последней успешной отправки,
+ * плюс не отправленные в ней из-за ошибок. Сетевые ошибки, 429 и 5xx
+ * повторяются с нарастающей паузой; остальные ответы 1С — ошибка
+ * элемента. GET повторяется сразу, POST — только после повторного
+ * поиска: 1С могла записать объект, но не успеть ответить. Каждый
+ * запуск фиксируется в SyncJob с типом EXPORT_1C.
+ */
+
+export interface OneCPushOptions {
+  full?: boolean;                 // Все контейнеры, а не только изменения
+  containerIds?: string[];        // Только указанные контейнеры
+}
+
+export interface OneCPushResult {
+  syncJobId: string;
+  itemsTotal: number;
+  itemsProcessed: number;
+  itemsFailed: number;
+}
+
+interface OneCPushError {
+  containerNumber: string;
+  error: string;
+}
+
+/**
+ * Ошибка ответа 1С (retryable — имеет смысл повторить запрос)
+ */
+class ODataRequestError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'ODataRequestError';
+  }
+}
+
+export class OneCExportService {
+  private timer: NodeJS.Timeout | null = null;
+  private pushing = false;
+
+  /**
+   * Строки выгрузки 1С по контейнерам (последние изменённые — первыми)
+   */
+  async getRows(where: Prisma.ContainerWhereInput = {}): Promise<OneCExportRow[]> {
+    const containers = await prisma.container.findMany({
+      where,
+      include: {
+        statusEvents: {
+          where: { eventClassifier: 'ACT', isRegression: false },
+          orderBy: { eventTime: 'desc' },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return exportContainersFor1C(containers.map(c => ({
+      containerNumber: c.containerNumber,
+      containerType: c.containerType,
+      originPoint: c.originPoint,
+      destinationPoint: c.destinationPoint,
+      statusHistory: c.statusEvents.map(e => ({
+        statusCode: e.statusCode,
+        statusText: e.statusText,
+        location: e.location,
+        distanceToDestinationKm: e.distanceToDestinationKm,
+        eta: e.eta,
+        eventTime: e.eventTime,
+      })),
+      predictedEta: etaPredictionService.toPrediction(c),
+    })));
+  }
+
+  /**
+   * Запуск периодической отправки изменений
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const intervalMs = config.oneC.pushIntervalMinutes * 60 * 1000;
+    this.timer = setInterval(() => {
+      this.push().catch(error => console.error('1C push error:', error));
+    }, intervalMs);
+  }
+
+  /**
+   * Остановка периодической отправки
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Идёт ли сейчас отправка
+   */
+  isPushing(): boolean {
+    return this.pushing;
+  }
+
+  /**
+   * Одна отправка в 1С
+   *
+   * Возвращает null, если предыдущая отправка ещё не завершилась.
+   * Если не отправлен ни один контейнер (1С недоступна), задача
+   * FAILED — следующая отправка повторит те же изменения.
+   */
+  async push(options: OneCPushOptions = {}): Promise<OneCPushResult | null> {
+    if (this.pushing) return null;
+    this.pushing = true;
+
+    let syncJob: SyncJob;
+    try {
+      syncJob = await syncJobService.start(SyncJobType.EXPORT_1C);
+    } catch (error) {
+      this.pushing = false;
+      throw error;
+    }
+
+    const stats = { itemsTotal: 0, itemsProcessed: 0, itemsFailed: 0 };
+    const itemErrors: OneCPushError[] = [];
+
+    try {
+      const rows = await this.getRows(await this.pushScope(options));
+      stats.itemsTotal = rows.length;
+
+      for (const row of rows) {
+        try {
+          await this.pushRow(row);
+          stats.itemsProcessed++;
+        } catch (error) {
+          stats.itemsFailed++;
+          itemErrors.push({
+            containerNumber: row.container_number,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      if (stats.itemsTotal > 0 && stats.itemsProcessed === 0) {
+        throw new Error(`1C OData push failed: ${itemErrors[0].error}`);
+      }
+
+      await syncJobService.complete(syncJob.id, stats, itemErrors);
+
+      return { syncJobId: syncJob.id, ...stats };
+    } catch (error) {
+      console.error('1C push failed:', error);
+      await syncJobService.fail(syncJob.id, error, stats);
+      throw error;
+    } finally {
+      this.pushing = false;
+    }
+  }
+
+  /**
+   * Какие контейнеры отправлять
+   */
+  private async pushScope(options: OneCPushOptions): Promise<Prisma.ContainerWhereInput> {
+    if (options.containerIds?.length) {
+      return { id: { in: options.containerIds } };
+    }
+    if (options.full) return {};
+
+    const last = await syncJobService.getLastCompleted(SyncJobType.EXPORT_1C);
+    if (!last?.startedAt) return {};
+
+    const since = last.startedAt;
+    const failed = failedContainerNumbers(last);
+
+    return {
+      OR: [
+        { updatedAt: { gt: since } },
+        { statusEvents: { some: { createdAt: { gt: since } } } },
+        ...(failed.length > 0 ? [{ containerNumber: { in: failed } }] : []),
+      ],
+    };
+  }
+
+  /**
+   * Отправка одной строки: элемент справочника и документ статуса
+   */
+  private async pushRow(row: OneCExportRow): Promise<void> {
+    const { catalogName, documentName, containerAttribute, eventKeyAttribute } = config.oneC;
+
+    const containerRef = await this.findOrCreate(
+      `Catalog_${catalogName}`,
+      'Description',
+      row.container_number,
+      { Description: row.container_number }
+    );
+
+    const attributes = Object.fromEntries(
+      ONE_C_ATTRIBUTES
+        .map(attribute => [attribute.name, oneCAttributeValue(row, attribute)] as const)
+        .filter(([, value]) => value !== null)
+    );
+    const eventKey = documentKey(row.container_number, attributes);
+
+    await this.findOrCreate(`Document_${documentName}`, eventKeyAttribute, eventKey, {
+      Date: new Date().toISOString().slice(0, 19),
+      [containerAttribute]: containerRef,
+      [eventKeyAttribute]: eventKey,
+      ...attributes,
+    });
+  }
+
+  /**
+   * Ref_Key объекта с полем field = value; создаёт объект, если его нет
+   *
+   * POST не повторяется вслепую: после временной ошибки объект
+   * сначала ищется снова.
+   */
+  private async findOrCreate(entitySet: string, field: string, value: string, body: object): Promise<string> {
+    const { maxRetries, retryDelayMs } = config.oneC;
+    const filter = encodeURIComponent(`${field} eq '${value.replace(/'/g, "''")}'`);
+
+    for (let attempt = 0; ; attempt++) {
+      const found = await this.request<{ value: Array<{ Ref_Key: string }> }>(
+        'GET',
+        `${entitySet}?$format=json&$select=Ref_Key&$filter=${filter}`
+      );
+      if (found.value[0]) return found.value[0].Ref_Key;
+
+      try {
+        return (await this.request<{ Ref_Key: string }>('POST', `${entitySet}?$format=json`, body)).Ref_Key;
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= maxRetries) throw error;
+        await sleep(retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+
+  /**
+   * Запрос к OData 1С; временные ошибки GET повторяются
+   */
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const { odataUrl, user, password, maxRetries, retryDelayMs, timeoutMs } = config.oneC;
+    const [entitySet, query] = path.split('?');
+    const url = `${odataUrl.replace(/\/$/, '')}/${encodeURIComponent(entitySet)}${query ? `?${query}` : ''}`;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await fetch(url, {
+          method,
+          headers: {
+            Accept: 'application/json',
+            ...(body !== undefined && { 'Content-Type': 'application/json' }),
+            ...(user && { Authorization: `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}` }),
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+
+        if (!response.ok) {
+          const text = (await response.text()).slice(0, 300);
+          throw new ODataRequestError(
+            `${method} ${entitySet}: HTTP ${response.status}${text ? ` ${text}` : ''}`,
+            response.status === 429 || response.status >= 500
+          );
+        }
+
+        return (await response.json()) as T;
+      } catch (error) {
+        // POST повторяет findOrCreate — после проверки, что объекта нет
+        if (method !== 'GET' || !isRetryable(error) || attempt >= maxRetries) {
+          throw error instanceof Error ? error : new Error(String(error));
+        }
+        await sleep(retryDelayMs * 2 ** attempt);
+      }
+    }
+  }
+}
+
+/**
+ * Номера контейнеров, не отправленных в задаче (из errorDetails)
+ */
+function failedContainerNumbers(job: SyncJob): string[] {
+  if (!job.errorDetails) return [];
+  try {
+    const errors = JSON.parse(job.errorDetails) as OneCPushError[];
+    return errors.map(e => e.containerNumber).filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Ключ документа: номер КТК и хеш реквизитов строки
+ */
+function documentKey(containerNumber: string, attributes: Record<string, unknown>): string {
+  const hash = createHash('sha256').update(JSON.stringify(attributes)).digest('hex').slice(0, 16);
+  return `${containerNumber}-${hash}`;
+}
+
+/**
+ * Стоит ли повторять запрос (сеть и таймаут — тоже временные ошибки)
+ */
+function isRetryable(error: unknown): boolean {
+  return error instanceof ODataRequestError ? error.retryable : true;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export const oneCExportService = new OneCExportService();
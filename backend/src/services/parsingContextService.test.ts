@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../utils/prisma.js', () => ({ default: {}, prisma: {} }));
+
+vi.mock('./parsingProfileService.js', () => ({
+  parsingProfileService: { resolveProfile: vi.fn() },
+}));
+
+vi.mock('./learnedRuleService.js', () => ({
+  learnedRuleService: { getRules: vi.fn(async () => undefined) },
+}));
+
+vi.mock('./railDispatchService.js', () => ({
+  railDispatchService: { getContainerNumbers: vi.fn(async () => ['MSCU1234560', 'TGHU7654321']) },
+}));
+
+import { parsingContextService } from './parsingContextService.js';
+import { parsingProfileService } from './parsingProfileService.js';
+import { learnedRuleService } from './learnedRuleService.js';
+import { railDispatchService } from './railDispatchService.js';
+import { inputProcessor } from '../middleware/inputProcessor.js';
+
+describe('ParsingContextService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('takes the profile carrier for learned rules', async () => {
+    vi.mocked(parsingProfileService.resolveProfile).mockResolvedValueOnce({ carrierId: 'carrier-1' } as never);
+
+    const options = await parsingContextService.resolve({
+      content: 'From: ops@carrier.ru\nSubject: статус\n\nMSCU1234560 прибыл',
+    });
+
+    expect(parsingProfileService.resolveProfile).toHaveBeenCalledWith({
+      carrierId: undefined,
+      senderEmail: 'ops@carrier.ru',
+    });
+    expect(learnedRuleService.getRules).toHaveBeenCalledWith('carrier-1');
+    expect(options.profile?.carrierId).toBe('carrier-1');
+  });
+
+  it('keeps parsing without the profile when the database is down', async () => {
+    vi.mocked(parsingProfileService.resolveProfile).mockRejectedValueOnce(new Error('connection refused'));
+
+    const options = await parsingContextService.resolve({
+      content: 'MSCU1234560 прибыл',
+      metadata: { sourceCarrierId: 'carrier-1' },
+    });
+
+    expect(options.profile).toBeUndefined();
+    expect(options.warnings).toEqual(['Профиль перевозчика не загружен: connection refused']);
+  });
+
+  it('loads each group once per message', async () => {
+    const loadGroup = parsingContextService.groupLoader();
+
+    await loadGroup({ kind: 'dispatch', dispatchNumber: '12345678' });
+    const numbers = await loadGroup({ kind: 'dispatch', dispatchNumber: '12345678' });
+
+    expect(numbers).toEqual(['MSCU1234560', 'TGHU7654321']);
+    expect(railDispatchService.getContainerNumbers).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves InputProcessor without database access when no options are given', async () => {
+    const result = await inputProcessor.process({
+      content: 'Отправка 12345678 прибыла на ст. Забайкальск',
+    });
+
+    expect(railDispatchService.getContainerNumbers).not.toHaveBeenCalled();
+    expect(parsingProfileService.resolveProfile).not.toHaveBeenCalled();
+    expect(learnedRuleService.getRules).not.toHaveBeenCalled();
+    expect(result.warnings?.some(w => w.includes('статус применён'))).toBe(false);
+  });
+});
@@ -0,0 +1,114 @@
+import { RawInput, ProcessOptions, ContainerGroup } from '../middleware/inputProcessor.js';
+import { ParsingProfile } from '../middleware/parsingProfile.js';
+import { LearnedRules } from '../middleware/learnedRules.js';
+import { looksLikeEml } from '../middleware/emlParser.js';
+import { parsingProfileService } from './parsingProfileService.js';
+import { learnedRuleService } from './learnedRuleService.js';
+import { railDispatchService } from './railDispatchService.js';
+import { voyageService } from './voyageService.js';
+import { shipmentService } from './shipmentService.js';
+
+/**
+ * Сервис данных для разбора сообщений
+ *
+ * Подбирает из БД то, что InputProcessor использует при разборе:
+ * профиль перевозчика, выученные правила и составы отправок,
+ * рейсов и отгрузок. Для пакета подбирается один раз — строки
+ * одного файла приходят от одного отправителя.
+ */
+export class ParsingContextService {
+
+  /**
+   * Опции разбора для входящего сообщения
+   *
+   * Недоступность БД не должна ломать разбор — профиль и правила
+   * не загружаются, причина уходит в предупреждения.
+   */
+  async resolve(input: RawInput): Promise<ProcessOptions> {
+    const warnings: string[] = [];
+
+    const profile = input.profile ?? await this.resolveProfile(input, warnings);
+    const learnedRules = await this.resolveLearnedRules(
+      input.metadata?.sourceCarrierId ?? profile?.carrierId,
+      warnings
+    );
+
+    return {
+      profile,
+      learnedRules,
+      loadGroup: this.groupLoader(),
+      warnings,
+    };
+  }
+
+  /**
+   * Загрузка номеров контейнеров группы
+   *
+   * Одна и та же группа в пределах сообщения (пакета) читается
+   * из БД один раз.
+   */
+  groupLoader(): (group: ContainerGroup) => Promise<string[]> {
+    const loaded = new Map<string, Promise<string[]>>();
+
+    return (group) => {
+      const key = JSON.stringify(group);
+      let numbers = loaded.get(key);
+      if (!numbers) {
+        numbers = this.loadGroup(group);
+        loaded.set(key, numbers);
+      }
+      return numbers;
+    };
+  }
+
+  private loadGroup(group: ContainerGroup): Promise<string[]> {
+    switch (group.kind) {
+      case 'dispatch':
+        return railDispatchService.getContainerNumbers(group.dispatchNumber);
+      case 'voyage':
+        return voyageService.getContainerNumbers(group);
+      case 'shipment':
+        return shipmentService.getContainerNumbers(group);
+    }
+  }
+
+  /**
+   * Поиск профиля перевозчика по метаданным источника
+   */
+  private async resolveProfile(input: RawInput, warnings: string[]): Promise<ParsingProfile | undefined> {
+    const { sourceCarrierId } = input.metadata || {};
+    let { sourceEmail } = input.metadata || {};
+
+    // Исходник письма без метаданных — берём адрес из заголовка From
+    if (!sourceEmail && typeof input.content === 'string' && looksLikeEml(input.content)) {
+      const headers = input.content.split(/\r?\n\r?\n/)[0];
+      sourceEmail = headers.match(/^From:.*?([\w.+-]+@[\w.-]+)/im)?.[1];
+    }
+
+    if (!sourceCarrierId && !sourceEmail) return undefined;
+
+    try {
+      return (await parsingProfileService.resolveProfile({
+        carrierId: sourceCarrierId,
+        senderEmail: sourceEmail,
+      })) ?? undefined;
+    } catch (error) {
+      warnings.push(`Профиль перевозчика не загружен: ${error instanceof Error ? error.message : 'unknown'}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Правила из исправлений логиста для перевозчика-источника
+   */
+  private async resolveLearnedRules(carrierId: string | undefined, warnings: string[]): Promise<LearnedRules | undefined> {
+    try {
+      return await learnedRuleService.getRules(carrierId);
+    } catch (error) {
+      warnings.push(`Выученные правила не загружены: ${error instanceof Error ? error.message : 'unknown'}`);
+      return undefined;
+    }
+  }
+}
+
+export const parsingContextService = new ParsingContextService();
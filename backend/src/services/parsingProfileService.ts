@@ -0,0 +1,331 @@
+import { CarrierParsingProfile, Prisma, StatusCode } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import {
+  ParsingProfile,
+  ProfileField,
+  ProfileSkipRules,
+  PROFILE_FIELDS,
+  suggestField,
+} from '../middleware/parsingProfile.js';
+import { parseSpreadsheet, looksLikeSpreadsheet } from '../middleware/spreadsheetParser.js';
+import { UniversalParser } from '../middleware/universalParser.js';
+import { decodeText } from '../middleware/emlParser.js';
+
+/**
+ * Данные для создания/изменения профиля
+ */
+export interface ParsingProfileInput {
+  carrierId: string;
+  name: string;
+  isActive?: boolean;
+  emailDomains?: string[];
+  columnMappings: Record<string, ProfileField>;
+  dateFormats?: string[];
+  delimiter?: string | null;
+  statusDictionary?: Record<string, string> | null;
+  skipRules?: ProfileSkipRules | null;
+}
+
+/**
+ * Разметка образца файла: колонки, первые строки и предложенный маппинг
+ */
+export interface ProfileSampleAnalysis {
+  format: 'xlsx' | 'csv';
+  sheetName?: string;
+  headerRow: number;
+  delimiter?: string;
+  headers: string[];
+  rows: Array<Record<string, unknown>>;
+  suggestedMappings: Record<string, ProfileField>;
+  /** Различные значения каждой колонки (для словаря статусов) */
+  distinctValues: Record<string, string[]>;
+  warnings: string[];
+}
+
+const SAMPLE_ROWS = 20;
+const MAX_DISTINCT_VALUES = 50;
+
+/**
+ * Сервис профилей разбора данных перевозчиков
+ */
+export class ParsingProfileService {
+  private universalParser = new UniversalParser();
+
+  /**
+   * Список профилей (опционально по перевозчику)
+   */
+  async getProfiles(carrierId?: string) {
+    return prisma.carrierParsingProfile.findMany({
+      where: carrierId ? { carrierId } : {},
+      include: { carrier: { select: { id: true, name: true } } },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Профиль по ID
+   */
+  async getProfileById(id: string) {
+    return prisma.carrierParsingProfile.findUnique({
+      where: { id },
+      include: { carrier: { select: { id: true, name: true } } },
+    });
+  }
+
+  /**
+   * Создание профиля
+   */
+  async createProfile(input: ParsingProfileInput): Promise<CarrierParsingProfile> {
+    return prisma.carrierParsingProfile.create({
+      data: {
+        carrierId: input.carrierId,
+        name: input.name.trim(),
+        isActive: input.isActive ?? true,
+        emailDomains: this.normalizeDomains(input.emailDomains),
+        columnMappings: input.columnMappings,
+        dateFormats: input.dateFormats ?? [],
+        delimiter: input.delimiter || null,
+        statusDictionary: input.statusDictionary ?? Prisma.DbNull,
+        skipRules: input.skipRules ? (input.skipRules as Prisma.InputJsonObject) : Prisma.DbNull,
+      },
+    });
+  }
+
+  /**
+   * Изменение профиля (передаются только изменяемые поля)
+   */
+  async updateProfile(id: string, input: Partial<ParsingProfileInput>): Promise<CarrierParsingProfile> {
+    const data: Prisma.CarrierParsingProfileUncheckedUpdateInput = {};
+
+    if (input.carrierId !== undefined) data.carrierId = input.carrierId;
+    if (input.name !== undefined) data.name = input.name.trim();
+    if (input.isActive !== undefined) data.isActive = input.isActive;
+    if (input.emailDomains !== undefined) data.emailDomains = this.normalizeDomains(input.emailDomains);
+    if (input.columnMappings !== undefined) data.columnMappings = input.columnMappings;
+    if (input.dateFormats !== undefined) data.dateFormats = input.dateFormats;
+    if (input.delimiter !== undefined) data.delimiter = input.delimiter || null;
+    if (input.statusDictionary !== undefined) {
+      data.statusDictionary = input.statusDictionary ?? Prisma.DbNull;
+    }
+    if (input.skipRules !== undefined) {
+      data.skipRules = input.skipRules ? (input.skipRules as Prisma.InputJsonObject) : Prisma.DbNull;
+    }
+
+    return prisma.carrierParsingProfile.update({ where: { id }, data });
+  }
+
+  /**
+   * Удаление профиля
+   */
+  async deleteProfile(id: string): Promise<void> {
+    await prisma.carrierParsingProfile.delete({ where: { id } });
+  }
+
+  /**
+   * Проверка данных профиля
+   *
+   * Возвращает список ошибок (пустой — данные корректны).
+   */
+  validateInput(input: Partial<ParsingProfileInput>, partial: boolean = false): string[] {
+    const errors: string[] = [];
+    const statusCodes = Object.values(StatusCode) as string[];
+
+    if (!partial || input.carrierId !== undefined) {
+      if (!input.carrierId || typeof input.carrierId !== 'string') {
+        errors.push('carrierId is required');
+      }
+    }
+
+    if (!partial || input.name !== undefined) {
+      if (!input.name || typeof input.name !== 'string' || !input.name.trim()) {
+        errors.push('name is required');
+      }
+    }
+
+    if (!partial || input.columnMappings !== undefined) {
+      if (!input.columnMappings || typeof input.columnMappings !== 'object' || Array.isArray(input.columnMappings)) {
+        errors.push('columnMappings must be an object { "column": "field" }');
+      } else {
+        for (const [column, field] of Object.entries(input.columnMappings)) {
+          if (!PROFILE_FIELDS.includes(field)) {
+            errors.push(`Unknown field "${field}" for column "${column}"`);
+          }
+        }
+      }
+    }
+
+    if (input.emailDomains !== undefined && !isStringArray(input.emailDomains)) {
+      errors.push('emailDomains must be an array of strings');
+    }
+
+    if (input.dateFormats !== undefined && !isStringArray(input.dateFormats)) {
+      errors.push('dateFormats must be an array of strings');
+    }
+
+    if (input.statusDictionary) {
+      for (const [phrase, code] of Object.entries(input.statusDictionary)) {
+        if (!statusCodes.includes(code)) {
+          errors.push(`Unknown status code "${code}" for "${phrase}"`);
+        }
+      }
+    }
+
+    if (input.skipRules) {
+      const { skipRows, skipIfEmpty, skipIfMatches } = input.skipRules;
+      if (skipRows !== undefined && (!Number.isInteger(skipRows) || skipRows < 0)) {
+        errors.push('skipRules.skipRows must be a non-negative integer');
+      }
+      if (skipIfEmpty !== undefined && !isStringArray(skipIfEmpty)) {
+        errors.push('skipRules.skipIfEmpty must be an array of column names');
+      }
+      for (const pattern of skipIfMatches || []) {
+        try {
+          new RegExp(pattern);
+        } catch {
+          errors.push(`Invalid regular expression in skipRules.skipIfMatches: ${pattern}`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Подбор активного профиля для входящих данных
+   *
+   * Порядок: явный carrierId → домен отправителя в emailDomains профиля →
+   * перевозчик, чей contactEmail на том же домене.
+   */
+  async resolveProfile(params: { carrierId?: string; senderEmail?: string }): Promise<ParsingProfile | null> {
+    if (params.carrierId) {
+      const profile = await prisma.carrierParsingProfile.findFirst({
+        where: { carrierId: params.carrierId, isActive: true },
+        orderBy: { updatedAt: 'desc' },
+      });
+      if (profile) return this.toParsingProfile(profile);
+    }
+
+    const domain = params.senderEmail?.split('@')[1]?.toLowerCase().trim();
+    if (!domain) return null;
+
+    // mail.rzd.ru → [mail.rzd.ru, rzd.ru]
+    const parts = domain.split('.');
+    const domains = parts.slice(0, -1).map((_, i) => parts.slice(i).join('.'));
+
+    const byDomain = await prisma.carrierParsingProfile.findFirst({
+      where: { emailDomains: { hasSome: domains }, isActive: true },
+      orderBy: { updatedAt: 'desc' },
+    });
+    if (byDomain) return this.toParsingProfile(byDomain);
+
+    const byCarrierEmail = await prisma.carrierParsingProfile.findFirst({
+      where: {
+        isActive: true,
+        carrier: { contactEmail: { endsWith: `@${domain}`, mode: 'insensitive' } },
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return byCarrierEmail ? this.toParsingProfile(byCarrierEmail) : null;
+  }
+
+  /**
+   * Разбор образца файла для построения профиля
+   */
+  analyzeSample(
+    content: Buffer | string,
+    options: { delimiter?: string | null; skipRows?: number } = {}
+  ): ProfileSampleAnalysis {
+    if (Buffer.isBuffer(content) && looksLikeSpreadsheet(content)) {
+      const workbook = parseSpreadsheet(content, { skipRows: options.skipRows });
+      const sheet = workbook.sheets[0];
+
+      if (workbook.sheets.length > 1) {
+        workbook.warnings.push(
+          `В книге ${workbook.sheets.length} листа(ов) с данными, для разметки взят первый: "${sheet.name}"`
+        );
+      }
+
+      return this.buildAnalysis({
+        format: 'xlsx',
+        sheetName: sheet?.name,
+        headerRow: sheet?.headerRow ?? 0,
+        headers: sheet?.headers ?? [],
+        rows: sheet?.rows ?? [],
+        warnings: workbook.warnings,
+      });
+    }
+
+    const text = Buffer.isBuffer(content) ? decodeText(content) : content;
+    const table = this.universalParser.readCsvTable(text, options);
+
+    return this.buildAnalysis({
+      format: 'csv',
+      delimiter: table.delimiter,
+      headerRow: table.headerRow,
+      headers: table.headers,
+      rows: table.rows,
+      warnings: [],
+    });
+  }
+
+  /**
+   * Запись БД → профиль для парсера
+   */
+  toParsingProfile(record: CarrierParsingProfile): ParsingProfile {
+    return {
+      id: record.id,
+      name: record.name,
+      carrierId: record.carrierId,
+      columnMappings: (record.columnMappings ?? {}) as Record<string, ProfileField>,
+      dateFormats: record.dateFormats,
+      delimiter: record.delimiter,
+      statusDictionary: record.statusDictionary as Record<string, string> | null,
+      skipRules: record.skipRules as ProfileSkipRules | null,
+    };
+  }
+
+  private buildAnalysis(
+    table: Omit<ProfileSampleAnalysis, 'suggestedMappings' | 'distinctValues'> & {
+      rows: Array<Record<string, unknown>>;
+    }
+  ): ProfileSampleAnalysis {
+    const suggestedMappings: Record<string, ProfileField> = {};
+    const distinctValues: Record<string, string[]> = {};
+
+    for (const header of table.headers) {
+      const field = suggestField(header);
+      if (field) suggestedMappings[header] = field;
+
+      const values = new Set<string>();
+      for (const row of table.rows) {
+        const value = row[header];
+        if (value === undefined || value === null || value === '') continue;
+        values.add(value instanceof Date ? value.toISOString() : String(value).trim());
+        if (values.size >= MAX_DISTINCT_VALUES) break;
+      }
+      distinctValues[header] = [...values];
+    }
+
+    return {
+      ...table,
+      rows: table.rows.slice(0, SAMPLE_ROWS),
+      suggestedMappings,
+      distinctValues,
+    };
+  }
+
+  private normalizeDomains(domains?: string[]): string[] {
+    return [...new Set(
+      (domains ?? [])
+        .map(domain => domain.trim().toLowerCase().replace(/^.*@/, ''))
+        .filter(Boolean)
+    )];
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+export const parsingProfileService = new ParsingProfileService();
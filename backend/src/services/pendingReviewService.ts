@@ -0,0 +1,282 @@
+import { PendingReview, ReviewStatus, SourceType, StatusCode, EventClassifier, Prisma, TrainingPair } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { ReviewCandidate, validateContainerNumber, validateWagonNumber } from '../middleware/index.js';
+import { NormalizedStatusEvent } from '../types/index.js';
+import { statusEventService } from './statusEventService.js';
+import { learnedRuleService } from './learnedRuleService.js';
+
+/**
+ * Поля, которые логист может исправить перед подтверждением
+ */
+export interface ReviewCorrection {
+  containerNumber?: string;
+  statusCode?: StatusCode;
+  statusText?: string;
+  location?: string | null;
+  wagonNumber?: string | null;
+  distanceToDestinationKm?: number | null;
+  eta?: string | null;
+  eventTime?: string;
+  eventClassifier?: EventClassifier;
+}
+
+const CORRECTION_FIELDS: Array<keyof ReviewCorrection> = [
+  'containerNumber',
+  'statusCode',
+  'statusText',
+  'location',
+  'wagonNumber',
+  'distanceToDestinationKm',
+  'eta',
+  'eventTime',
+  'eventClassifier',
+];
+
+const REVIEW_LIST_INCLUDE = {
+  rawMessage: {
+    select: {
+      id: true,
+      fileName: true,
+      subject: true,
+      senderEmail: true,
+      createdAt: true,
+      carrier: { select: { id: true, name: true } },
+    },
+  },
+} satisfies Prisma.PendingReviewInclude;
+
+/**
+ * Сервис очереди ручной проверки
+ *
+ * Элементы с низкой уверенностью, ошибкой контрольной цифры
+ * или без номера контейнера не сохраняются как StatusEvent:
+ * логист сверяет поля с исходным текстом, исправляет и подтверждает.
+ */
+export class PendingReviewService {
+
+  /**
+   * Постановка элементов в очередь
+   *
+   * Повторная обработка того же сообщения не дублирует
+   * ещё не разобранные элементы.
+   */
+  async enqueue(
+    candidates: ReviewCandidate[],
+    options: { sourceType: SourceType; rawMessageId?: string },
+    client: Prisma.TransactionClient = prisma
+  ): Promise<number> {
+    let queued = 0;
+
+    for (const candidate of candidates) {
+      if (options.rawMessageId) {
+        const existing = await client.pendingReview.findFirst({
+          where: {
+            rawMessageId: options.rawMessageId,
+            rawSnippet: candidate.rawSnippet,
+            status: ReviewStatus.PENDING,
+          },
+          select: { id: true },
+        });
+        if (existing) continue;
+      }
+
+      await client.pendingReview.create({
+        data: {
+          reasons: candidate.reasons,
+          confidence: candidate.confidence,
+          issues: candidate.issues,
+          rawSnippet: candidate.rawSnippet,
+          extracted: candidate.data as unknown as Prisma.InputJsonObject,
+          sourceType: options.sourceType,
+          rawMessageId: options.rawMessageId,
+        },
+      });
+      queued++;
+    }
+
+    return queued;
+  }
+
+  /**
+   * Очередь с пагинацией
+   */
+  async getReviews(params: { status?: ReviewStatus; page?: number; limit?: number }) {
+    const { status = ReviewStatus.PENDING, page = 1, limit = 20 } = params;
+    const where: Prisma.PendingReviewWhereInput = { status };
+
+    const [data, total] = await Promise.all([
+      prisma.pendingReview.findMany({
+        where,
+        include: REVIEW_LIST_INCLUDE,
+        orderBy: { createdAt: status === ReviewStatus.PENDING ? 'asc' : 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.pendingReview.count({ where }),
+    ]);
+
+    return { data, total, page, limit };
+  }
+
+  /**
+   * Количество элементов по статусам
+   */
+  async getCounts(): Promise<Record<ReviewStatus, number>> {
+    const groups = await prisma.pendingReview.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    });
+
+    const counts: Record<ReviewStatus, number> = { PENDING: 0, APPROVED: 0, REJECTED: 0 };
+    for (const group of groups) {
+      counts[group.status] = group._count._all;
+    }
+    return counts;
+  }
+
+  /**
+   * Элемент с полным исходным сообщением
+   */
+  async getReviewById(id: string) {
+    return prisma.pendingReview.findUnique({
+      where: { id },
+      include: {
+        rawMessage: {
+          include: { carrier: { select: { id: true, name: true } } },
+        },
+        statusEvent: true,
+      },
+    });
+  }
+
+  /**
+   * Поля события после исправлений логиста
+   */
+  applyCorrection(review: PendingReview, correction: ReviewCorrection): NormalizedStatusEvent {
+    const extracted = review.extracted as unknown as NormalizedStatusEvent;
+    const merged: NormalizedStatusEvent = { ...extracted };
+
+    for (const field of CORRECTION_FIELDS) {
+      if (correction[field] !== undefined) {
+        (merged as unknown as Record<string, unknown>)[field] = correction[field];
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Проверка исправленных полей перед созданием события
+   */
+  validateCorrection(data: NormalizedStatusEvent): string[] {
+    const errors: string[] = [];
+
+    if (!data.containerNumber) {
+      errors.push('Container number is required');
+    } else {
+      const validation = validateContainerNumber(data.containerNumber);
+      if (!validation.isValid) {
+        errors.push(validation.error || `Invalid container number: ${data.containerNumber}`);
+      }
+    }
+
+    if (!Object.values(StatusCode).includes(data.statusCode)) {
+      errors.push(`Invalid status code: ${data.statusCode}`);
+    }
+    if (!data.statusText?.trim()) {
+      errors.push('Status text is required');
+    }
+    if (data.wagonNumber && !validateWagonNumber(data.wagonNumber).isValid) {
+      errors.push(`Invalid wagon number: ${data.wagonNumber}`);
+    }
+    if (data.eventTime && isNaN(new Date(data.eventTime).getTime())) {
+      errors.push(`Invalid event time: ${data.eventTime}`);
+    }
+    if (data.eta && isNaN(new Date(data.eta).getTime())) {
+      errors.push(`Invalid ETA: ${data.eta}`);
+    }
+    if (data.eventClassifier && !Object.values(EventClassifier).includes(data.eventClassifier)) {
+      errors.push(`Invalid event classifier: ${data.eventClassifier}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Подтверждение: создание StatusEvent и закрытие элемента
+   *
+   * Выполняется одной транзакцией — событие без закрытого
+   * элемента очереди (или наоборот) не остаётся.
+   * Исправления затем сохраняются как обучающие пары;
+   * ошибка обучения подтверждение не отменяет.
+   */
+  async approve(review: PendingReview, data: NormalizedStatusEvent, comment?: string) {
+    const containerNumber = validateContainerNumber(data.containerNumber!).containerNumber;
+
+    const approved = await prisma.$transaction(async tx => {
+      const container = await statusEventService.findOrCreateContainer(
+        containerNumber,
+        { origin: data.origin, destination: data.destination, dispatch: data.dispatch, shipment: data.shipment },
+        tx
+      );
+
+      const { event, duplicate } = await statusEventService.recordEvent({
+        containerId: container.id,
+        statusCode: data.statusCode,
+        statusText: data.statusText.trim(),
+        location: data.location || null,
+        wagonNumber: data.wagonNumber ? validateWagonNumber(data.wagonNumber).wagonNumber : null,
+        voyage: data.voyage,
+        distanceToDestinationKm: data.distanceToDestinationKm ?? null,
+        eta: data.eta ? new Date(data.eta) : null,
+        eventTime: data.eventTime ? new Date(data.eventTime) : review.createdAt,
+        eventClassifier: data.eventClassifier,
+        sourceType: review.sourceType,
+        sourceRaw: review.rawSnippet,
+        rawMessageId: review.rawMessageId,
+      }, tx);
+
+      // Повтор события, уже подтверждённого из другого элемента очереди
+      const linked = duplicate
+        ? await tx.pendingReview.findUnique({ where: { statusEventId: event.id }, select: { id: true } })
+        : null;
+
+      return tx.pendingReview.update({
+        where: { id: review.id },
+        data: {
+          status: ReviewStatus.APPROVED,
+          corrected: { ...data, containerNumber } as unknown as Prisma.InputJsonObject,
+          reviewComment: comment,
+          reviewedAt: new Date(),
+          statusEventId: linked ? undefined : event.id,
+        },
+        include: { statusEvent: true },
+      });
+    });
+
+    let trainingPairs: TrainingPair[] = [];
+    try {
+      trainingPairs = await learnedRuleService.learnFromReview(review, { ...data, containerNumber });
+    } catch (error) {
+      console.error('Error learning from review correction:', error);
+    }
+
+    return { ...approved, trainingPairs };
+  }
+
+  /**
+   * Отклонение элемента (событие не создаётся)
+   */
+  async reject(id: string, comment?: string): Promise<PendingReview> {
+    return prisma.pendingReview.update({
+      where: { id },
+      data: {
+        status: ReviewStatus.REJECTED,
+        reviewComment: comment,
+        reviewedAt: new Date(),
+      },
+    });
+  }
+}
+
+export const pendingReviewService = new PendingReviewService();
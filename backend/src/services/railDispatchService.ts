@@ -0,0 +1,119 @@
+import { Prisma, RailDispatch } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { findLocationByEsrCode } from '../middleware/locationDictionary.js';
+import { normalizeDispatchNumber } from '../middleware/railDispatch.js';
+import { containerService } from './containerService.js';
+import { statusLifecycleService } from './statusLifecycleService.js';
+import { RailDispatchDetails, RailDispatchRef } from '../types/index.js';
+
+/**
+ * Сервис ЖД-отправок
+ *
+ * Контейнер привязан к последней отправке, в которой его видели.
+ * Сообщение только с номером отправки (без контейнеров) применяется
+ * ко всем её контейнерам — см. InputProcessor.
+ */
+export class RailDispatchService {
+
+  /**
+   * Привязка контейнера к отправке
+   *
+   * Отправка создаётся при первом упоминании; индекс поезда и коды
+   * ЕСР обновляются последним сообщением (состав могут переформировать).
+   */
+  async attach(
+    containerId: string,
+    ref: RailDispatchRef,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<RailDispatch> {
+    const details = {
+      ...(ref.trainIndex && { trainIndex: ref.trainIndex }),
+      ...(ref.originEsr && { originEsr: ref.originEsr }),
+      ...(ref.destinationEsr && { destinationEsr: ref.destinationEsr }),
+    };
+
+    const dispatch = await client.railDispatch.upsert({
+      where: { dispatchNumber: ref.dispatchNumber },
+      create: { dispatchNumber: ref.dispatchNumber, ...details },
+      update: details,
+    });
+
+    await client.container.update({
+      where: { id: containerId },
+      data: { railDispatchId: dispatch.id },
+    });
+
+    return dispatch;
+  }
+
+  /**
+   * Номера контейнеров отправки
+   */
+  async getContainerNumbers(dispatchNumber: string): Promise<string[]> {
+    const normalized = normalizeDispatchNumber(dispatchNumber);
+    if (!normalized) return [];
+
+    const containers = await prisma.container.findMany({
+      where: { railDispatch: { dispatchNumber: normalized } },
+      select: { containerNumber: true },
+      orderBy: { containerNumber: 'asc' },
+    });
+
+    return containers.map(c => c.containerNumber);
+  }
+
+  /**
+   * Отправка по ID или номеру — с контейнерами и их текущими статусами
+   */
+  async getDispatch(idOrNumber: string): Promise<RailDispatchDetails | null> {
+    const dispatchNumber = normalizeDispatchNumber(idOrNumber);
+
+    const dispatch = await prisma.railDispatch.findFirst({
+      where: {
+        OR: [
+          { id: idOrNumber },
+          ...(dispatchNumber ? [{ dispatchNumber }] : []),
+        ],
+      },
+      include: {
+        containers: {
+          include: {
+            client: {
+              select: { name: true },
+            },
+            carrier: {
+              select: { name: true },
+            },
+            statusEvents: {
+              where: { eventClassifier: 'ACT', isRegression: false },
+              orderBy: { eventTime: 'desc' },
+              take: 5,
+            },
+          },
+          orderBy: { containerNumber: 'asc' },
+        },
+      },
+    });
+
+    if (!dispatch) {
+      return null;
+    }
+
+    return {
+      id: dispatch.id,
+      dispatchNumber: dispatch.dispatchNumber,
+      trainIndex: dispatch.trainIndex,
+      originEsr: dispatch.originEsr,
+      destinationEsr: dispatch.destinationEsr,
+      originStation: dispatch.originEsr ? findLocationByEsrCode(dispatch.originEsr)?.name ?? null : null,
+      destinationStation: dispatch.destinationEsr ? findLocationByEsrCode(dispatch.destinationEsr)?.name ?? null : null,
+      containers: dispatch.containers.map(container =>
+        containerService.toListItem(container, statusLifecycleService.currentStatus(container.statusEvents))
+      ),
+      createdAt: dispatch.createdAt,
+      updatedAt: dispatch.updatedAt,
+    };
+  }
+}
+
+export const railDispatchService = new RailDispatchService();
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const prismaMock = vi.hoisted(() => ({
+  rawMessage: { findUnique: vi.fn(), update: vi.fn() },
+  statusEvent: { findMany: vi.fn() },
+  container: { findUnique: vi.fn() },
+  $transaction: vi.fn(),
+}));
+vi.mock('../utils/prisma.js', () => ({ default: prismaMock, prisma: prismaMock }));
+
+vi.mock('./syncJobService.js', () => ({
+  syncJobService: {
+    start: vi.fn(async () => ({ id: 'job-1' })),
+    complete: vi.fn(),
+    fail: vi.fn(),
+  },
+}));
+
+vi.mock('./statusEventService.js', () => ({
+  statusEventService: {
+    findOrCreateContainer: vi.fn(async () => ({ id: 'c1' })),
+    recordEvent: vi.fn(async () => ({ event: {}, duplicate: false })),
+  },
+}));
+
+vi.mock('./pendingReviewService.js', () => ({
+  pendingReviewService: { enqueue: vi.fn(async () => 0) },
+}));
+
+vi.mock('./parsingContextService.js', () => ({
+  parsingContextService: { resolve: vi.fn(async () => ({})) },
+}));
+
+vi.mock('../middleware/index.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../middleware/index.js')>()),
+  inputProcessor: { process: vi.fn() },
+}));
+
+import { rawMessageService } from './rawMessageService.js';
+import { inputProcessor } from '../middleware/index.js';
+
+const message = {
+  id: 'm1',
+  sourceType: 'API',
+  content: '{"events":[]}',
+  fileName: null,
+  senderEmail: null,
+  subject: null,
+  carrierId: null,
+  createdAt: new Date('2025-12-01T12:00:00Z'),
+};
+
+function linkedEvent(id: string, statusCode: string, eventClassifier: 'ACT' | 'EST' = 'ACT') {
+  return {
+    id,
+    containerId: 'c1',
+    container: { id: 'c1', containerNumber: 'MSCU1234560' },
+    statusCode,
+    statusText: statusCode,
+    location: 'Владивосток',
+    wagonNumber: null,
+    distanceToDestinationKm: null,
+    eta: null,
+    eventTime: new Date('2025-12-01T10:00:00Z'),
+    eventClassifier,
+    rawMessageId: 'm1',
+  };
+}
+
+function parsed(statusCode: string, eventClassifier: 'ACT' | 'EST' = 'ACT') {
+  return {
+    containerNumber: 'MSCU1234560',
+    statusCode,
+    statusText: statusCode,
+    location: 'Владивосток',
+    eventTime: '2025-12-01T10:30:00Z',
+    eventClassifier,
+  };
+}
+
+describe('RawMessageService.reprocess', () => {
+  const tx = {
+    statusEvent: { update: vi.fn(), deleteMany: vi.fn() },
+    statusEventSource: { deleteMany: vi.fn(), findMany: vi.fn() },
+    rawMessage: { update: vi.fn() },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    prismaMock.rawMessage.findUnique.mockResolvedValue(message);
+    prismaMock.container.findUnique.mockResolvedValue({ id: 'c1' });
+    prismaMock.$transaction.mockImplementation(async (fn: (client: typeof tx) => unknown) => fn(tx));
+    tx.statusEventSource.findMany.mockResolvedValue([]);
+  });
+
+  it('reports an estimate corrected to an actual event as removed and added', async () => {
+    prismaMock.statusEvent.findMany.mockResolvedValue([linkedEvent('e1', 'ARRIVED_PORT', 'EST')]);
+    vi.mocked(inputProcessor.process).mockResolvedValue({ success: true, data: [parsed('ARRIVED_PORT', 'ACT')] } as never);
+
+    const result = await rawMessageService.reprocess('m1', { dryRun: true });
+
+    expect(result).toMatchObject({ applied: false, unchanged: 0 });
+    expect(result?.changed).toEqual([]);
+    expect(result?.removed.map(e => e.eventClassifier)).toEqual(['EST']);
+    expect(result?.added.map(e => e.eventClassifier)).toEqual(['ACT']);
+  });
+
+  it('keeps removed events that other messages still refer to', async () => {
+    prismaMock.statusEvent.findMany.mockResolvedValue([
+      linkedEvent('e1', 'ON_SHIP'),
+      linkedEvent('e2', 'UNLOADED'),
+    ]);
+    vi.mocked(inputProcessor.process).mockResolvedValue({ success: true, data: [parsed('ARRIVED_PORT')] } as never);
+    tx.statusEventSource.findMany.mockResolvedValue([
+      { statusEventId: 'e1', rawMessageId: 'm2' },
+      { statusEventId: 'e1', rawMessageId: 'm3' },
+    ]);
+
+    const result = await rawMessageService.reprocess('m1');
+
+    expect(result).toMatchObject({ applied: true });
+    expect(result?.removed).toHaveLength(2);
+    expect(tx.statusEventSource.deleteMany).toHaveBeenCalledWith({
+      where: { rawMessageId: 'm1', statusEventId: { in: ['e1', 'e2'] } },
+    });
+    expect(tx.statusEvent.update).toHaveBeenCalledWith({ where: { id: 'e1' }, data: { rawMessageId: 'm2' } });
+    expect(tx.statusEvent.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['e2'] } } });
+  });
+});
@@ -0,0 +1,519 @@
+import { RawMessage, StatusEvent, Container, EventClassifier, SyncJobType, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { inputProcessor, RawInput, looksLikeEml } from '../middleware/index.js';
+import { NormalizedStatusEvent } from '../types/index.js';
+import { statusEventService } from './statusEventService.js';
+import { deduplicationService } from './deduplicationService.js';
+import { syncJobService } from './syncJobService.js';
+import { pendingReviewService } from './pendingReviewService.js';
+import { parsingContextService } from './parsingContextService.js';
+
+/** Максимум сообщений за один пакетный запуск */
+const MAX_BATCH = 1000;
+
+/**
+ * Событие в диффе повторной обработки
+ */
+export interface ReprocessEventItem {
+  id?: string;
+  containerNumber: string;
+  statusCode: string;
+  statusText: string;
+  location: string | null;
+  wagonNumber: string | null;
+  distanceToDestinationKm: number | null;
+  eta: string | null;
+  eventTime: string;
+  eventClassifier: EventClassifier;
+}
+
+/**
+ * Результат повторной обработки одного сообщения
+ *
+ * added — новые события, removed — события, которых больше нет
+ * в результате разбора, changed — то же событие с другим текстом,
+ * вагоном, ETA или расстоянием.
+ */
+export interface ReprocessResult {
+  rawMessageId: string;
+  success: boolean;
+  applied: boolean;
+  detectedFormat?: string;
+  added: ReprocessEventItem[];
+  removed: ReprocessEventItem[];
+  changed: Array<{ before: ReprocessEventItem; after: ReprocessEventItem }>;
+  unchanged: number;
+  duplicates: number;
+  /** Элементы для ручной проверки (в dryRun — сколько попало бы в очередь) */
+  pendingReview: number;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Отбор сообщений для пакетной повторной обработки
+ */
+export interface ReprocessFilter {
+  from?: Date;
+  to?: Date;
+  carrierId?: string;
+  processed?: boolean;
+  hasError?: boolean;
+  limit?: number;
+}
+
+export interface ReprocessBatchResult {
+  syncJobId: string;
+  dryRun: boolean;
+  itemsTotal: number;
+  itemsProcessed: number;
+  itemsFailed: number;
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+  results: ReprocessResult[];
+}
+
+type LinkedEvent = StatusEvent & { container: Container };
+
+/**
+ * Сервис повторной обработки сохранённых RawMessage
+ *
+ * После исправления парсера или профиля перевозчика исходник
+ * прогоняется через InputProcessor заново. Новые события сравниваются
+ * с уже привязанными к сообщению (по смысловому ключу: контейнер,
+ * статус, место, час, у плана/прогноза — классификатор), замена
+ * применяется в одной транзакции.
+ * В режиме dryRun возвращается только дифф.
+ *
+ * Каждый запуск фиксируется в SyncJob с типом REPROCESS.
+ */
+export class RawMessageService {
+
+  /**
+   * Повторная обработка одного сообщения
+   *
+   * Возвращает null, если сообщение не найдено.
+   */
+  async reprocess(
+    id: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<(ReprocessResult & { syncJobId: string }) | null> {
+    const message = await prisma.rawMessage.findUnique({ where: { id } });
+    if (!message) return null;
+
+    const syncJob = await syncJobService.start(SyncJobType.REPROCESS);
+
+    try {
+      const result = await this.reprocessMessage(message, !!options.dryRun);
+      await syncJobService.complete(
+        syncJob.id,
+        { itemsTotal: 1, itemsProcessed: result.success ? 1 : 0, itemsFailed: result.success ? 0 : 1 },
+        result.success ? [] : [{ rawMessageId: message.id, errors: result.errors }]
+      );
+
+      return { syncJobId: syncJob.id, ...result };
+    } catch (error) {
+      await syncJobService.fail(syncJob.id, error, { itemsTotal: 1, itemsProcessed: 0, itemsFailed: 1 });
+      throw error;
+    }
+  }
+
+  /**
+   * Пакетная повторная обработка по фильтру
+   *
+   * Сообщения обрабатываются по одному, каждое — своей транзакцией:
+   * ошибка одного не откатывает остальные.
+   */
+  async reprocessMany(
+    filter: ReprocessFilter,
+    options: { dryRun?: boolean } = {}
+  ): Promise<ReprocessBatchResult> {
+    const dryRun = !!options.dryRun;
+    const syncJob = await syncJobService.start(SyncJobType.REPROCESS);
+
+    const stats = { itemsTotal: 0, itemsProcessed: 0, itemsFailed: 0 };
+    const itemErrors: Array<{ rawMessageId: string; errors: string[] }> = [];
+    const results: ReprocessResult[] = [];
+
+    try {
+      const messages = await prisma.rawMessage.findMany({
+        where: this.buildWhere(filter),
+        orderBy: { createdAt: 'asc' },
+        take: Math.min(filter.limit || 100, MAX_BATCH),
+      });
+      stats.itemsTotal = messages.length;
+
+      for (const message of messages) {
+        let result: ReprocessResult;
+        try {
+          result = await this.reprocessMessage(message, dryRun);
+        } catch (error) {
+          result = this.emptyResult(message.id, [error instanceof Error ? error.message : 'Unknown error']);
+        }
+
+        results.push(result);
+        if (result.success) {
+          stats.itemsProcessed++;
+        } else {
+          stats.itemsFailed++;
+          itemErrors.push({ rawMessageId: message.id, errors: result.errors });
+        }
+      }
+
+      await syncJobService.complete(syncJob.id, stats, itemErrors);
+    } catch (error) {
+      console.error('Reprocess failed:', error);
+      await syncJobService.fail(syncJob.id, error, stats);
+      throw error;
+    }
+
+    return {
+      syncJobId: syncJob.id,
+      dryRun,
+      ...stats,
+      summary: {
+        added: results.reduce((sum, r) => sum + r.added.length, 0),
+        removed: results.reduce((sum, r) => sum + r.removed.length, 0),
+        changed: results.reduce((sum, r) => sum + r.changed.length, 0),
+        unchanged: results.reduce((sum, r) => sum + r.unchanged, 0),
+      },
+      results,
+    };
+  }
+
+  /**
+   * Разбор сообщения, дифф и (вне dryRun) применение
+   */
+  private async reprocessMessage(message: RawMessage, dryRun: boolean): Promise<ReprocessResult> {
+    const input = this.toInput(message);
+    const processing = await inputProcessor.process(input, await parsingContextService.resolve(input));
+
+    // Разбор не удался — привязанные события не трогаем
+    if (!processing.success) {
+      const errors = processing.errors?.length ? processing.errors : ['No status events found'];
+
+      if (!dryRun) {
+        await prisma.rawMessage.update({
+          where: { id: message.id },
+          data: { processed: true, processedAt: new Date(), errorMessage: errors.join('; ') },
+        });
+      }
+
+      return {
+        ...this.emptyResult(message.id, errors),
+        detectedFormat: processing.detectedFormat?.type,
+        warnings: processing.warnings ?? [],
+      };
+    }
+
+    const linked = await prisma.statusEvent.findMany({
+      where: { rawMessageId: message.id },
+      include: { container: true },
+    });
+
+    const diff = await this.diffEvents(message, linked, processing.data ?? []);
+    const review = processing.review ?? [];
+    const errors = [...(processing.errors ?? []), ...diff.errors];
+
+    const result: ReprocessResult = {
+      rawMessageId: message.id,
+      success: true,
+      applied: false,
+      detectedFormat: processing.detectedFormat?.type,
+      added: diff.added.map(entry => entry.item),
+      removed: diff.removed.map(event => this.toItem(event)),
+      changed: diff.changed.map(entry => ({ before: this.toItem(entry.event), after: entry.item })),
+      unchanged: diff.unchanged,
+      duplicates: 0,
+      pendingReview: review.length,
+      errors,
+      warnings: processing.warnings ?? [],
+    };
+
+    if (dryRun) return result;
+
+    result.duplicates = await prisma.$transaction(async tx => {
+      if (diff.removed.length > 0) {
+        await this.detachEvents(message.id, diff.removed.map(event => event.id), tx);
+      }
+
+      for (const { event, data } of diff.changed) {
+        await tx.statusEvent.update({
+          where: { id: event.id },
+          data: {
+            statusText: data.statusText,
+            wagonNumber: data.wagonNumber,
+            eta: data.eta,
+            distanceToDestinationKm: data.distanceToDestinationKm,
+            sourceRaw: data.sourceRaw,
+          },
+        });
+      }
+
+      let duplicates = 0;
+      for (const { normalized, data } of diff.added) {
+        const container = await statusEventService.findOrCreateContainer(
+          normalized.containerNumber!,
+          {
+            origin: normalized.origin,
+            destination: normalized.destination,
+            dispatch: normalized.dispatch,
+            shipment: normalized.shipment,
+          },
+          tx
+        );
+        const { duplicate } = await statusEventService.recordEvent(
+          { ...data, containerId: container.id, voyage: normalized.voyage },
+          tx
+        );
+        if (duplicate) duplicates++;
+      }
+
+      result.pendingReview = await pendingReviewService.enqueue(
+        review,
+        { sourceType: message.sourceType, rawMessageId: message.id },
+        tx
+      );
+
+      await tx.rawMessage.update({
+        where: { id: message.id },
+        data: {
+          processed: true,
+          processedAt: new Date(),
+          errorMessage: errors.length > 0 ? errors.join('; ') : null,
+        },
+      });
+
+      return duplicates;
+    }, { timeout: 30000 });
+
+    result.applied = true;
+    return result;
+  }
+
+  /**
+   * Отвязка событий, которых больше нет в сообщении
+   *
+   * Событие, в которое слиты повторы из других сообщений, остаётся
+   * и переходит к первому из них; удаляются только события,
+   * встретившиеся лишь в этом сообщении.
+   */
+  private async detachEvents(
+    rawMessageId: string,
+    eventIds: string[],
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    await tx.statusEventSource.deleteMany({
+      where: { rawMessageId, statusEventId: { in: eventIds } },
+    });
+
+    const otherSources = await tx.statusEventSource.findMany({
+      where: { statusEventId: { in: eventIds } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const shared = new Map<string, string>();
+    for (const source of otherSources) {
+      if (!shared.has(source.statusEventId)) shared.set(source.statusEventId, source.rawMessageId);
+    }
+
+    for (const [id, owner] of shared) {
+      await tx.statusEvent.update({ where: { id }, data: { rawMessageId: owner } });
+    }
+
+    const orphaned = eventIds.filter(id => !shared.has(id));
+    if (orphaned.length > 0) {
+      await tx.statusEvent.deleteMany({ where: { id: { in: orphaned } } });
+    }
+  }
+
+  /**
+   * Сравнение новых событий с привязанными к сообщению
+   *
+   * Ключ события тот же, что при дедупликации: исправление прогноза
+   * на факт — удалённое и новое событие, а не изменение. Для контейнера,
+   * которого ещё нет в базе, событие всегда новое.
+   */
+  private async diffEvents(
+    message: RawMessage,
+    linked: LinkedEvent[],
+    events: NormalizedStatusEvent[]
+  ): Promise<{
+    added: Array<{ normalized: NormalizedStatusEvent; data: Prisma.StatusEventUncheckedCreateInput; item: ReprocessEventItem }>;
+    removed: LinkedEvent[];
+    changed: Array<{ event: LinkedEvent; data: Prisma.StatusEventUncheckedCreateInput; item: ReprocessEventItem }>;
+    unchanged: number;
+    errors: string[];
+  }> {
+    const existing = new Map(linked.map(event => [deduplicationService.eventKey(event), event]));
+    const matched = new Set<string>();
+
+    const added: Array<{ normalized: NormalizedStatusEvent; data: Prisma.StatusEventUncheckedCreateInput; item: ReprocessEventItem }> = [];
+    const changed: Array<{ event: LinkedEvent; data: Prisma.StatusEventUncheckedCreateInput; item: ReprocessEventItem }> = [];
+    const errors: string[] = [];
+    let unchanged = 0;
+
+    for (const normalized of events) {
+      if (!normalized.containerNumber) {
+        errors.push(`Missing container number: ${normalized.statusText}`);
+        continue;
+      }
+
+      const containerNumber = normalized.containerNumber.replace(/\s/g, '').toUpperCase();
+      const container = await prisma.container.findUnique({
+        where: { containerNumber },
+        select: { id: true },
+      });
+
+      const data: Prisma.StatusEventUncheckedCreateInput = {
+        containerId: container?.id ?? '',
+        statusCode: normalized.statusCode,
+        statusText: normalized.statusText,
+        location: normalized.location || null,
+        wagonNumber: normalized.wagonNumber || null,
+        distanceToDestinationKm: normalized.distanceToDestinationKm || null,
+        eta: normalized.eta ? new Date(normalized.eta) : null,
+        // Без даты события — время получения сообщения, а не текущее:
+        // иначе каждый повтор давал бы новое событие
+        eventTime: normalized.eventTime ? new Date(normalized.eventTime) : message.createdAt,
+        eventClassifier: normalized.eventClassifier,
+        sourceType: message.sourceType,
+        sourceRaw: normalized.sourceRaw || null,
+        rawMessageId: message.id,
+      };
+      const item = this.toItem({ ...data, container: { containerNumber } });
+
+      const key = container ? deduplicationService.eventKey(data) : null;
+      const event = key ? existing.get(key) : undefined;
+
+      if (!key || !event) {
+        added.push({ normalized, data, item });
+        continue;
+      }
+      if (matched.has(key)) continue;
+      matched.add(key);
+
+      if (this.differs(event, item)) {
+        changed.push({ event, data, item });
+      } else {
+        unchanged++;
+      }
+    }
+
+    const removed = [...existing.entries()]
+      .filter(([key]) => !matched.has(key))
+      .map(([, event]) => event);
+
+    return { added, removed, changed, unchanged, errors };
+  }
+
+  /**
+   * Отличается ли сохранённое событие от нового разбора
+   */
+  private differs(event: LinkedEvent, item: ReprocessEventItem): boolean {
+    const before = this.toItem(event);
+    return before.statusText !== item.statusText
+      || before.wagonNumber !== item.wagonNumber
+      || before.eta !== item.eta
+      || before.distanceToDestinationKm !== item.distanceToDestinationKm
+      || before.eventClassifier !== item.eventClassifier;
+  }
+
+  /**
+   * Исходник RawMessage в виде входа InputProcessor
+   *
+   * Книги Excel хранятся в base64, JSON — строкой.
+   */
+  private toInput(message: RawMessage): RawInput {
+    const ext = message.fileName?.toLowerCase().split('.').pop() || '';
+    const metadata: RawInput['metadata'] = {
+      sourceEmail: message.senderEmail ?? undefined,
+      sourceSubject: message.subject ?? undefined,
+      sourceCarrierId: message.carrierId ?? undefined,
+      receivedAt: message.createdAt.toISOString(),
+    };
+
+    if (['xlsx', 'xls'].includes(ext)) {
+      return { content: Buffer.from(message.content, 'base64'), hint: 'xlsx', metadata };
+    }
+    if (ext === 'csv') {
+      return { content: message.content, hint: 'csv', metadata };
+    }
+    if (ext === 'eml' || looksLikeEml(message.content)) {
+      return { content: message.content, hint: 'eml', metadata };
+    }
+    if (['edi', 'edifact', 'x12'].includes(ext)) {
+      return { content: message.content, hint: 'edi', metadata };
+    }
+
+    const trimmed = message.content.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        return { content: JSON.parse(trimmed), metadata };
+      } catch {
+        // Не JSON — разбираем как текст
+      }
+    }
+
+    return { content: message.content, metadata };
+  }
+
+  private buildWhere(filter: ReprocessFilter): Prisma.RawMessageWhereInput {
+    const where: Prisma.RawMessageWhereInput = {};
+
+    if (filter.from || filter.to) {
+      where.createdAt = {
+        ...(filter.from && { gte: filter.from }),
+        ...(filter.to && { lte: filter.to }),
+      };
+    }
+    if (filter.carrierId) where.carrierId = filter.carrierId;
+    if (filter.processed !== undefined) where.processed = filter.processed;
+    if (filter.hasError) where.errorMessage = { not: null };
+
+    return where;
+  }
+
+  private toItem(event: {
+    id?: string;
+    container: { containerNumber: string };
+    statusCode: string;
+    statusText: string;
+    location?: string | null;
+    wagonNumber?: string | null;
+    distanceToDestinationKm?: number | null;
+    eta?: Date | string | null;
+    eventTime: Date | string;
+    eventClassifier?: EventClassifier;
+  }): ReprocessEventItem {
+    return {
+      id: event.id,
+      containerNumber: event.container.containerNumber,
+      statusCode: event.statusCode,
+      statusText: event.statusText,
+      location: event.location ?? null,
+      wagonNumber: event.wagonNumber ?? null,
+      distanceToDestinationKm: event.distanceToDestinationKm ?? null,
+      eta: event.eta ? new Date(event.eta).toISOString() : null,
+      eventTime: new Date(event.eventTime).toISOString(),
+      eventClassifier: event.eventClassifier ?? 'ACT',
+    };
+  }
+
+  private emptyResult(rawMessageId: string, errors: string[]): ReprocessResult {
+    return {
+      rawMessageId,
+      success: false,
+      applied: false,
+      added: [],
+      removed: [],
+      changed: [],
+      unchanged: 0,
+      duplicates: 0,
+      pendingReview: 0,
+      errors,
+      warnings: [],
+    };
+  }
+}
+
+export const rawMessageService = new RawMessageService();
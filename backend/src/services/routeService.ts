@@ -0,0 +1,317 @@
+import { Prisma, RouteLeg, StatusCode, TransportMode } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { findLocation } from '../middleware/locationDictionary.js';
+import { locationKey } from '../middleware/locationMatcher.js';
+import { statusLifecycleService } from './statusLifecycleService.js';
+import { RouteLegInput, RouteLegItem, RouteProgress, StatusEventItem } from '../types/index.js';
+
+// Вид транспорта по статусу; склад, таможня и выгрузка — по месту события
+const MODE_BY_STATUS: Partial<Record<StatusCode, TransportMode>> = {
+  IN_PORT: TransportMode.SEA,
+  ON_SHIP: TransportMode.SEA,
+  ON_ANCHORAGE: TransportMode.SEA,
+  ARRIVED_PORT: TransportMode.SEA,
+  ON_RAIL: TransportMode.RAIL,
+  RAIL_ARRIVED: TransportMode.RAIL,
+  ON_AUTO: TransportMode.AUTO,
+  DELIVERED: TransportMode.AUTO,
+};
+
+// Статус, которым заканчивается плечо
+const ARRIVAL_STATUS: Record<TransportMode, StatusCode> = {
+  SEA: StatusCode.ARRIVED_PORT,
+  RAIL: StatusCode.RAIL_ARRIVED,
+  AUTO: StatusCode.DELIVERED,
+};
+
+type LegEvent = Pick<StatusEventItem, 'statusCode' | 'location' | 'eventTime'>;
+
+/**
+ * Сервис планового маршрута по плечам (море → ЖД → авто)
+ *
+ * Событие относится к плечу по виду транспорта статуса и месту:
+ * совпадение с пунктом плеча решает, иначе — ближайшее плечо того
+ * же вида, не раньше текущего. Прогресс — пройденные плечи плюс
+ * пройденная часть текущего (по distanceToDestinationKm).
+ */
+export class RouteService {
+
+  /**
+   * Плечо для нового события (undefined — маршрут не задан или место не распознано)
+   */
+  async attributeEvent(
+    event: LegEvent & { containerId: string },
+    client: Prisma.TransactionClient = prisma
+  ): Promise<string | undefined> {
+    const legs = await client.routeLeg.findMany({
+      where: { containerId: event.containerId },
+      orderBy: { sequence: 'asc' },
+    });
+    if (legs.length === 0) return undefined;
+
+    // Текущее плечо — у последнего события до этого
+    const previous = await client.statusEvent.findFirst({
+      where: {
+        containerId: event.containerId,
+        routeLegId: { not: null },
+        eventTime: { lte: new Date(event.eventTime) },
+      },
+      orderBy: { eventTime: 'desc' },
+      select: { routeLeg: { select: { sequence: true } } },
+    });
+
+    return this.pickLeg(legs, event, previous?.routeLeg?.sequence ?? 1)?.id;
+  }
+
+  /**
+   * Маршрут контейнера с прогрессом (null — контейнер не найден или маршрут не задан)
+   */
+  async getRoute(containerIdOrNumber: string): Promise<RouteProgress | null> {
+    const container = await this.findContainer(containerIdOrNumber);
+    if (!container) return null;
+
+    const [legs, events] = await Promise.all([
+      prisma.routeLeg.findMany({ where: { containerId: container.id }, orderBy: { sequence: 'asc' } }),
+      prisma.statusEvent.findMany({ where: { containerId: container.id } }),
+    ]);
+
+    return this.buildProgress(legs, events);
+  }
+
+  /**
+   * Замена планового маршрута
+   *
+   * События контейнера заново распределяются по новым плечам.
+   * Пустой пункт отправления/назначения контейнера берётся
+   * из первого/последнего плеча. null — контейнер не найден.
+   */
+  async setRoute(
+    containerIdOrNumber: string,
+    input: RouteLegInput[]
+  ): Promise<{ route: RouteProgress | null } | null> {
+    const container = await this.findContainer(containerIdOrNumber);
+    if (!container) return null;
+
+    await prisma.$transaction(async tx => {
+      await tx.routeLeg.deleteMany({ where: { containerId: container.id } });
+
+      const legs: RouteLeg[] = [];
+      for (const [index, leg] of input.entries()) {
+        legs.push(await tx.routeLeg.create({
+          data: {
+            containerId: container.id,
+            sequence: index + 1,
+            mode: leg.mode,
+            fromPoint: leg.fromPoint.trim(),
+            toPoint: leg.toPoint.trim(),
+            plannedDeparture: leg.plannedDeparture ? new Date(leg.plannedDeparture) : null,
+            plannedArrival: leg.plannedArrival ? new Date(leg.plannedArrival) : null,
+            distanceKm: leg.distanceKm ?? null,
+          },
+        }));
+      }
+
+      const totalDistance = legs.every(leg => leg.distanceKm !== null)
+        ? legs.reduce((sum, leg) => sum + leg.distanceKm!, 0)
+        : undefined;
+
+      await tx.container.update({
+        where: { id: container.id },
+        data: {
+          ...(legs.length > 0 && !container.originPoint && { originPoint: legs[0].fromPoint }),
+          ...(legs.length > 0 && !container.destinationPoint && { destinationPoint: legs[legs.length - 1].toPoint }),
+          ...(legs.length > 0 && totalDistance !== undefined && { totalDistanceKm: totalDistance }),
+        },
+      });
+
+      await this.reattribute(container.id, legs, tx);
+    }, { timeout: 30000 });
+
+    return { route: await this.getRoute(container.id) };
+  }
+
+  /**
+   * Проверка плеч маршрута
+   *
+   * Возвращает список ошибок (пустой — данные корректны).
+   */
+  validateLegs(input: unknown): string[] {
+    if (!Array.isArray(input)) {
+      return ['legs must be an array'];
+    }
+
+    const errors: string[] = [];
+    const modes = Object.values(TransportMode) as string[];
+
+    input.forEach((leg: Partial<RouteLegInput>, index) => {
+      const label = `Leg ${index + 1}`;
+      if (!leg || typeof leg !== 'object') {
+        errors.push(`${label}: must be an object`);
+        return;
+      }
+      if (!leg.mode || !modes.includes(leg.mode)) {
+        errors.push(`${label}: mode must be one of ${modes.join(', ')}`);
+      }
+      for (const field of ['fromPoint', 'toPoint'] as const) {
+        if (typeof leg[field] !== 'string' || !leg[field]!.trim()) {
+          errors.push(`${label}: ${field} is required`);
+        }
+      }
+      for (const field of ['plannedDeparture', 'plannedArrival'] as const) {
+        const value = leg[field];
+        if (value !== undefined && value !== null && isNaN(new Date(value).getTime())) {
+          errors.push(`${label}: ${field} is not a valid date`);
+        }
+      }
+      if (leg.plannedDeparture && leg.plannedArrival && new Date(leg.plannedArrival) < new Date(leg.plannedDeparture)) {
+        errors.push(`${label}: plannedArrival is before plannedDeparture`);
+      }
+      if (leg.distanceKm !== undefined && leg.distanceKm !== null
+        && (!Number.isInteger(leg.distanceKm) || leg.distanceKm < 0)) {
+        errors.push(`${label}: distanceKm must be a non-negative integer`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Плечи с фактическими датами, текущее плечо и прогресс
+   */
+  buildProgress(
+    legs: RouteLeg[],
+    events: Array<Pick<StatusEventItem, 'statusCode' | 'eventTime' | 'distanceToDestinationKm' | 'eventClassifier' | 'isRegression' | 'routeLegId'>>
+  ): RouteProgress | null {
+    if (legs.length === 0) return null;
+
+    const actual = events.filter(e => e.eventClassifier === 'ACT' && !e.isRegression && e.routeLegId);
+    const current = statusLifecycleService.currentStatus(actual);
+    const currentLeg = legs.find(leg => leg.id === current?.routeLegId);
+
+    const items: RouteLegItem[] = legs.map(leg => {
+      const legEvents = actual
+        .filter(e => e.routeLegId === leg.id)
+        .sort((a, b) => new Date(a.eventTime).getTime() - new Date(b.eventTime).getTime());
+      const arrival = legEvents.find(e => e.statusCode === ARRIVAL_STATUS[leg.mode]);
+
+      let state: RouteLegItem['state'] = 'PLANNED';
+      if (currentLeg && leg.sequence < currentLeg.sequence) state = 'COMPLETED';
+      if (leg === currentLeg) state = arrival ? 'COMPLETED' : 'ACTIVE';
+
+      return {
+        id: leg.id,
+        sequence: leg.sequence,
+        mode: leg.mode,
+        fromPoint: leg.fromPoint,
+        toPoint: leg.toPoint,
+        plannedDeparture: leg.plannedDeparture,
+        plannedArrival: leg.plannedArrival,
+        actualDeparture: legEvents[0] ? new Date(legEvents[0].eventTime) : null,
+        actualArrival: arrival ? new Date(arrival.eventTime) : null,
+        distanceKm: leg.distanceKm,
+        state,
+      };
+    });
+
+    const completed = items.filter(item => item.state === 'COMPLETED');
+    const active = items.find(item => item.state === 'ACTIVE');
+
+    // Пройденная доля активного плеча — по расстоянию до конца плеча
+    let activeDoneKm = 0;
+    if (active?.distanceKm && current?.distanceToDestinationKm !== null && current?.distanceToDestinationKm !== undefined) {
+      activeDoneKm = Math.max(0, active.distanceKm - Math.min(current.distanceToDestinationKm, active.distanceKm));
+    }
+
+    const totalKm = items.every(item => item.distanceKm !== null)
+      ? items.reduce((sum, item) => sum + item.distanceKm!, 0)
+      : null;
+
+    let progress: number;
+    let remainingKm: number | null = null;
+    if (totalKm) {
+      const doneKm = completed.reduce((sum, item) => sum + item.distanceKm!, 0) + activeDoneKm;
+      progress = doneKm / totalKm;
+      remainingKm = totalKm - doneKm;
+    } else {
+      // Протяжённость известна не у всех плеч — считаем по числу плеч
+      const activeShare = active?.distanceKm ? activeDoneKm / active.distanceKm : 0;
+      progress = (completed.length + activeShare) / items.length;
+    }
+
+    return {
+      legs: items,
+      currentLegId: currentLeg?.id ?? null,
+      completedLegs: completed.length,
+      progressPercent: Math.round(progress * 100),
+      remainingKm,
+    };
+  }
+
+  /**
+   * Выбор плеча для события
+   */
+  private pickLeg(legs: RouteLeg[], event: LegEvent, currentSequence: number): RouteLeg | undefined {
+    const mode = MODE_BY_STATUS[event.statusCode];
+    const candidates = mode ? legs.filter(leg => leg.mode === mode) : legs;
+
+    if (event.location) {
+      const place = placeKey(event.location);
+      // Прибытие в пункт — конец плеча, поэтому toPoint проверяется первым
+      const byPlace = candidates.find(leg => placeKey(leg.toPoint) === place)
+        ?? candidates.find(leg => placeKey(leg.fromPoint) === place);
+      if (byPlace) return byPlace;
+    }
+
+    // Склад или таможня в неизвестном месте — плечо не определить
+    if (!mode) return undefined;
+
+    return candidates.find(leg => leg.sequence >= currentSequence) ?? candidates[candidates.length - 1];
+  }
+
+  private async reattribute(containerId: string, legs: RouteLeg[], client: Prisma.TransactionClient): Promise<void> {
+    if (legs.length === 0) return;
+
+    const events = await client.statusEvent.findMany({
+      where: { containerId },
+      orderBy: { eventTime: 'asc' },
+      select: { id: true, statusCode: true, location: true, eventTime: true },
+    });
+
+    const byLeg = new Map<string, string[]>();
+    let currentSequence = 1;
+    for (const event of events) {
+      const leg = this.pickLeg(legs, event, currentSequence);
+      if (!leg) continue;
+      currentSequence = Math.max(currentSequence, leg.sequence);
+      byLeg.set(leg.id, [...(byLeg.get(leg.id) ?? []), event.id]);
+    }
+
+    for (const [routeLegId, ids] of byLeg) {
+      await client.statusEvent.updateMany({
+        where: { id: { in: ids } },
+        data: { routeLegId },
+      });
+    }
+  }
+
+  private findContainer(idOrNumber: string) {
+    return prisma.container.findFirst({
+      where: {
+        OR: [
+          { id: idOrNumber },
+          { containerNumber: idOrNumber.replace(/\s/g, '').toUpperCase() },
+        ],
+      },
+      select: { id: true, originPoint: true, destinationPoint: true },
+    });
+  }
+}
+
+/**
+ * Пункт маршрута для сравнения: название из справочника или скелет написания
+ */
+function placeKey(text: string): string {
+  return findLocation(text).location?.name ?? locationKey(text);
+}
+
+export const routeService = new RouteService();
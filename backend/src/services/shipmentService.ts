@@ -0,0 +1,386 @@
+import { Prisma, Shipment, StatusCode } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { normalizeShipmentReference } from '../middleware/shipmentReference.js';
+import { validateContainerNumber } from '../middleware/containerValidator.js';
+import { containerService } from './containerService.js';
+import { statusLifecycleService } from './statusLifecycleService.js';
+import {
+  ContainerListItem,
+  ShipmentDetails,
+  ShipmentFilterParams,
+  ShipmentInput,
+  ShipmentListItem,
+  ShipmentRef,
+} from '../types/index.js';
+
+// Контейнеры отгрузки с текущим статусом (как в списке контейнеров)
+const SHIPMENT_INCLUDE = {
+  client: {
+    select: { name: true },
+  },
+  carrier: {
+    select: { name: true },
+  },
+  containers: {
+    include: {
+      client: {
+        select: { name: true },
+      },
+      carrier: {
+        select: { name: true },
+      },
+      statusEvents: {
+        where: { eventClassifier: 'ACT', isRegression: false },
+        orderBy: { eventTime: 'desc' },
+        take: 5,
+      },
+    },
+    orderBy: { containerNumber: 'asc' },
+  },
+} satisfies Prisma.ShipmentInclude;
+
+type ShipmentWithContainers = Prisma.ShipmentGetPayload<{ include: typeof SHIPMENT_INCLUDE }>;
+
+/**
+ * Сервис отгрузок (коносамент / букинг)
+ *
+ * Контейнер привязывается к отгрузке по номеру коносамента или
+ * букинга из сообщения. Отгрузка, созданная из сообщения, берёт
+ * клиента, перевозчика и маршрут первого контейнера.
+ */
+export class ShipmentService {
+
+  /**
+   * Привязка контейнера к отгрузке
+   *
+   * Второй номер (букинг к коносаменту и наоборот) дописывается,
+   * если он не принадлежит другой отгрузке.
+   */
+  async attach(
+    containerId: string,
+    ref: ShipmentRef,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Shipment> {
+    let shipment = await this.findByRef(ref, client);
+
+    if (!shipment) {
+      const container = await client.container.findUniqueOrThrow({
+        where: { id: containerId },
+        select: { clientId: true, carrierId: true, originPoint: true, destinationPoint: true },
+      });
+      shipment = await client.shipment.create({
+        data: { blNumber: ref.blNumber, bookingNumber: ref.bookingNumber, ...container },
+      });
+    } else {
+      const data: Prisma.ShipmentUpdateInput = {};
+      if (!shipment.blNumber && ref.blNumber && !(await this.findByRef({ blNumber: ref.blNumber }, client))) {
+        data.blNumber = ref.blNumber;
+      }
+      if (!shipment.bookingNumber && ref.bookingNumber && !(await this.findByRef({ bookingNumber: ref.bookingNumber }, client))) {
+        data.bookingNumber = ref.bookingNumber;
+      }
+      if (Object.keys(data).length > 0) {
+        shipment = await client.shipment.update({ where: { id: shipment.id }, data });
+      }
+    }
+
+    await client.container.update({
+      where: { id: containerId },
+      data: { shipmentId: shipment.id },
+    });
+
+    // Клиент отгрузки — клиент её контейнеров
+    if (shipment.clientId) {
+      await client.container.updateMany({
+        where: { id: containerId, clientId: null },
+        data: { clientId: shipment.clientId },
+      });
+    }
+
+    return shipment;
+  }
+
+  /**
+   * Номера контейнеров отгрузки (для сообщений только с коносаментом)
+   */
+  async getContainerNumbers(ref: ShipmentRef): Promise<string[]> {
+    const shipment = await this.findByRef(ref, prisma);
+    if (!shipment) return [];
+
+    const containers = await prisma.container.findMany({
+      where: { shipmentId: shipment.id },
+      select: { containerNumber: true },
+      orderBy: { containerNumber: 'asc' },
+    });
+
+    return containers.map(c => c.containerNumber);
+  }
+
+  /**
+   * Список отгрузок со сводкой по контейнерам
+   */
+  async getShipments(params: ShipmentFilterParams): Promise<{
+    data: ShipmentListItem[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { search, clientId, carrierId, page = 1, limit = 20 } = params;
+    const where: Prisma.ShipmentWhereInput = {};
+
+    if (search) {
+      const text = search.trim();
+      where.OR = [
+        { blNumber: { contains: text, mode: 'insensitive' } },
+        { bookingNumber: { contains: text, mode: 'insensitive' } },
+        { containers: { some: { containerNumber: { contains: text, mode: 'insensitive' } } } },
+      ];
+    }
+
+    if (clientId) {
+      where.clientId = clientId;
+    }
+
+    if (carrierId) {
+      where.carrierId = carrierId;
+    }
+
+    const [shipments, total] = await Promise.all([
+      prisma.shipment.findMany({
+        where,
+        include: SHIPMENT_INCLUDE,
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.shipment.count({ where }),
+    ]);
+
+    return {
+      data: shipments.map(shipment => this.toListItem(shipment, this.containerItems(shipment))),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Отгрузка по ID, номеру коносамента или букинга
+   */
+  async getShipment(idOrReference: string): Promise<ShipmentDetails | null> {
+    const reference = normalizeShipmentReference(idOrReference);
+
+    const shipment = await prisma.shipment.findFirst({
+      where: {
+        OR: [
+          { id: idOrReference },
+          ...(reference ? [{ blNumber: reference }, { bookingNumber: reference }] : []),
+        ],
+      },
+      include: SHIPMENT_INCLUDE,
+    });
+
+    if (!shipment) {
+      return null;
+    }
+
+    const containers = this.containerItems(shipment);
+
+    return {
+      ...this.toListItem(shipment, containers),
+      clientId: shipment.clientId,
+      carrierId: shipment.carrierId,
+      containers,
+    };
+  }
+
+  /**
+   * Создание отгрузки вручную
+   *
+   * Отсутствующие контейнеры создаются — отгрузку можно завести
+   * по букингу до первого статуса.
+   */
+  async createShipment(input: ShipmentInput): Promise<ShipmentDetails> {
+    const shipment = await prisma.$transaction(async tx => {
+      const created = await tx.shipment.create({ data: this.toData(input) });
+      await this.addContainers(created, input.containerNumbers ?? [], tx);
+      return created;
+    });
+
+    return (await this.getShipment(shipment.id))!;
+  }
+
+  /**
+   * Изменение отгрузки и добавление контейнеров
+   *
+   * Новый клиент отгрузки переносится на все её контейнеры.
+   */
+  async updateShipment(id: string, input: ShipmentInput): Promise<ShipmentDetails> {
+    await prisma.$transaction(async tx => {
+      const shipment = await tx.shipment.update({ where: { id }, data: this.toData(input) });
+
+      if (input.clientId !== undefined) {
+        await tx.container.updateMany({
+          where: { shipmentId: id },
+          data: { clientId: shipment.clientId },
+        });
+      }
+
+      await this.addContainers(shipment, input.containerNumbers ?? [], tx);
+    });
+
+    return (await this.getShipment(id))!;
+  }
+
+  /**
+   * Проверка данных отгрузки
+   *
+   * Возвращает список ошибок (пустой — данные корректны).
+   */
+  validateInput(input: ShipmentInput, partial: boolean = false): string[] {
+    const errors: string[] = [];
+
+    for (const field of ['blNumber', 'bookingNumber'] as const) {
+      const value = input[field];
+      if (value === undefined || value === null) continue;
+      if (typeof value !== 'string' || !normalizeShipmentReference(value)) {
+        errors.push(`${field} must be 5-20 letters and digits`);
+      }
+    }
+
+    if (!partial && !input.blNumber && !input.bookingNumber) {
+      errors.push('blNumber or bookingNumber is required');
+    }
+
+    for (const field of ['clientId', 'carrierId', 'originPoint', 'destinationPoint'] as const) {
+      const value = input[field];
+      if (value !== undefined && value !== null && typeof value !== 'string') {
+        errors.push(`${field} must be a string`);
+      }
+    }
+
+    if (input.containerNumbers !== undefined) {
+      if (!Array.isArray(input.containerNumbers)) {
+        errors.push('containerNumbers must be an array of strings');
+      } else {
+        for (const number of input.containerNumbers) {
+          if (typeof number !== 'string' || !validateContainerNumber(number).isValid) {
+            errors.push(`Invalid container number "${number}"`);
+          }
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Сводка по контейнерам: отстающий контейнер, разброс ETA, прогресс
+   */
+  private toListItem(shipment: ShipmentWithContainers, containers: ContainerListItem[]): ShipmentListItem {
+    const deliveredRank = statusLifecycleService.rank(StatusCode.DELIVERED)!;
+
+    // Контейнер без статуса — в начале пути
+    const ranked = containers
+      .map(container => {
+        const statusCode = container.lastStatus?.statusCode;
+        return { container, rank: statusCode ? statusLifecycleService.rank(statusCode) : 0 };
+      })
+      .filter((entry): entry is { container: ContainerListItem; rank: number } => entry.rank !== null);
+
+    const leastAdvanced = ranked.reduce<(typeof ranked)[number] | null>(
+      (min, entry) => (!min || entry.rank < min.rank ? entry : min),
+      null
+    )?.container;
+
+    // ETA доставленных контейнеров уже не ожидается
+    const etas = containers
+      .filter(container => container.lastStatus?.statusCode !== StatusCode.DELIVERED && container.lastStatus?.eta)
+      .map(container => new Date(container.lastStatus!.eta!).getTime());
+
+    const eventTimes = containers
+      .filter(container => container.lastStatus)
+      .map(container => new Date(container.lastStatus!.eventTime).getTime());
+
+    const progress = ranked.length > 0
+      ? ranked.reduce((sum, entry) => sum + entry.rank, 0) / (ranked.length * deliveredRank)
+      : 0;
+
+    return {
+      id: shipment.id,
+      blNumber: shipment.blNumber,
+      bookingNumber: shipment.bookingNumber,
+      clientName: shipment.client?.name || null,
+      carrierName: shipment.carrier?.name || null,
+      originPoint: shipment.originPoint,
+      destinationPoint: shipment.destinationPoint,
+      containerCount: containers.length,
+      deliveredCount: containers.filter(c => c.lastStatus?.statusCode === StatusCode.DELIVERED).length,
+      progressPercent: Math.round(progress * 100),
+      leastAdvanced: leastAdvanced ? {
+        containerNumber: leastAdvanced.containerNumber,
+        statusCode: leastAdvanced.lastStatus?.statusCode ?? null,
+        statusText: leastAdvanced.lastStatus?.statusText ?? null,
+      } : null,
+      earliestEta: etas.length > 0 ? new Date(Math.min(...etas)) : null,
+      latestEta: etas.length > 0 ? new Date(Math.max(...etas)) : null,
+      lastEventTime: eventTimes.length > 0 ? new Date(Math.max(...eventTimes)) : null,
+      createdAt: shipment.createdAt,
+      updatedAt: shipment.updatedAt,
+    };
+  }
+
+  private containerItems(shipment: ShipmentWithContainers): ContainerListItem[] {
+    return shipment.containers.map(container =>
+      containerService.toListItem(container, statusLifecycleService.currentStatus(container.statusEvents))
+    );
+  }
+
+  private async addContainers(
+    shipment: Shipment,
+    containerNumbers: string[],
+    client: Prisma.TransactionClient
+  ): Promise<void> {
+    for (const number of containerNumbers) {
+      const container = await containerService.findOrCreateContainer(
+        validateContainerNumber(number).containerNumber,
+        { originPoint: shipment.originPoint ?? undefined, destinationPoint: shipment.destinationPoint ?? undefined },
+        client
+      );
+      await client.container.update({
+        where: { id: container.id },
+        data: {
+          shipmentId: shipment.id,
+          ...(shipment.clientId && { clientId: shipment.clientId }),
+        },
+      });
+    }
+  }
+
+  private toData(input: ShipmentInput): Prisma.ShipmentUncheckedCreateInput {
+    const reference = (value: string | null | undefined) =>
+      value === undefined || value === null ? value : normalizeShipmentReference(value);
+
+    return {
+      blNumber: reference(input.blNumber),
+      bookingNumber: reference(input.bookingNumber),
+      clientId: input.clientId,
+      carrierId: input.carrierId,
+      originPoint: input.originPoint,
+      destinationPoint: input.destinationPoint,
+    };
+  }
+
+  private async findByRef(ref: ShipmentRef, client: Prisma.TransactionClient): Promise<Shipment | null> {
+    if (ref.blNumber) {
+      const byBl = await client.shipment.findUnique({ where: { blNumber: ref.blNumber } });
+      if (byBl) return byBl;
+    }
+    if (ref.bookingNumber) {
+      return client.shipment.findUnique({ where: { bookingNumber: ref.bookingNumber } });
+    }
+    return null;
+  }
+}
+
+export const shipmentService = new ShipmentService();
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+vi.mock('../utils/prisma.js', () => ({ default: {}, prisma: {} }));
+vi.mock('./routeService.js', () => ({ routeService: { attributeEvent: vi.fn(async () => null) } }));
+vi.mock('./voyageService.js', () => ({ voyageService: { linkEvent: vi.fn(async () => null) } }));
+vi.mock('./etaPredictionService.js', () => ({ etaPredictionService: { refresh: vi.fn(async () => null) } }));
+
+import { statusEventService } from './statusEventService.js';
+
+type Row = Record<string, unknown> & { id: string; dedupeKey?: string | null };
+
+/**
+ * Таблицы status_events и status_event_sources в памяти (только то, что нужно recordEvent)
+ */
+function memoryClient() {
+  const rows: Row[] = [];
+  const sources: Array<{ statusEventId: string; rawMessageId: string }> = [];
+  const container = { id: 'c1', containerNumber: 'MSCU1234560' };
+  const withContainer = (row: Row | undefined) => (row ? { ...row, container } : null);
+
+  const statusEvent = {
+    findUnique: vi.fn(async ({ where }: { where: { dedupeKey: string } }) =>
+      withContainer(rows.find(r => r.dedupeKey === where.dedupeKey))),
+    findUniqueOrThrow: vi.fn(async ({ where }: { where: { id?: string; dedupeKey?: string } }) =>
+      withContainer(rows.find(r => (where.id ? r.id === where.id : r.dedupeKey === where.dedupeKey)))),
+    findMany: vi.fn(async ({ where }: { where: Record<string, unknown> }) =>
+      rows.filter(r => Object.entries(where).every(([field, value]) => (r[field] ?? false) === value))),
+    // INSERT ... ON CONFLICT DO NOTHING RETURNING *
+    createManyAndReturn: vi.fn(async ({ data }: { data: Array<Record<string, unknown>> }) => {
+      const created: Row[] = [];
+      for (const item of data) {
+        if (rows.some(r => r.dedupeKey === item.dedupeKey)) continue;
+        const row: Row = { id: `e${rows.length + 1}`, eventClassifier: 'ACT', ...item };
+        rows.push(row);
+        created.push(row);
+      }
+      return created;
+    }),
+    update: vi.fn(async ({ where, data }: { where: { id: string }; data: Record<string, unknown> }) => {
+      const row = rows.find(r => r.id === where.id)!;
+      Object.assign(row, data);
+      return withContainer(row);
+    }),
+  };
+
+  const statusEventSource = {
+    createMany: vi.fn(async ({ data }: { data: Array<{ statusEventId: string; rawMessageId: string }> }) => {
+      for (const link of data) {
+        if (!sources.some(s => s.statusEventId === link.statusEventId && s.rawMessageId === link.rawMessageId)) {
+          sources.push(link);
+        }
+      }
+      return { count: data.length };
+    }),
+  };
+
+  return { rows, sources, client: { statusEvent, statusEventSource } as unknown as Prisma.TransactionClient };
+}
+
+const arrival = {
+  containerId: 'c1',
+  statusCode: 'ARRIVED_PORT' as const,
+  statusText: 'Прибыл в порт',
+  location: 'Владивосток',
+  sourceType: 'API' as const,
+};
+
+describe('StatusEventService.recordEvent', () => {
+  let memory: ReturnType<typeof memoryClient>;
+
+  beforeEach(() => {
+    memory = memoryClient();
+  });
+
+  it('merges a repeated event into the stored one', async () => {
+    await statusEventService.recordEvent({ ...arrival, eventTime: new Date('2025-12-01T10:05:00Z') }, memory.client);
+    const repeat = await statusEventService.recordEvent({
+      ...arrival,
+      eventTime: new Date('2025-12-01T10:40:00Z'),
+      eta: new Date('2025-12-05T00:00:00Z'),
+    }, memory.client);
+
+    expect(repeat.duplicate).toBe(true);
+    expect(memory.rows).toHaveLength(1);
+    expect(memory.rows[0].eta).toEqual(new Date('2025-12-05T00:00:00Z'));
+  });
+
+  it('stores an actual event that follows an estimate in the same hour', async () => {
+    await statusEventService.recordEvent({
+      ...arrival,
+      statusText: 'Прогноз: Прибыл в порт',
+      eventClassifier: 'EST',
+      eventTime: new Date('2025-12-01T10:00:00Z'),
+    }, memory.client);
+
+    const actual = await statusEventService.recordEvent({
+      ...arrival,
+      eventClassifier: 'ACT',
+      eventTime: new Date('2025-12-01T10:30:00Z'),
+    }, memory.client);
+
+    expect(actual.duplicate).toBe(false);
+    expect(actual.event).toMatchObject({ eventClassifier: 'ACT', statusCode: 'ARRIVED_PORT', isRegression: false });
+    expect(memory.rows.map(r => r.eventClassifier)).toEqual(['EST', 'ACT']);
+  });
+
+  it('does not let an estimate replace a stored actual event', async () => {
+    await statusEventService.recordEvent({ ...arrival, eventTime: new Date('2025-12-01T10:30:00Z') }, memory.client);
+    const estimate = await statusEventService.recordEvent({
+      ...arrival,
+      eventClassifier: 'EST',
+      eventTime: new Date('2025-12-01T10:00:00Z'),
+    }, memory.client);
+
+    expect(estimate.duplicate).toBe(false);
+    expect(memory.rows[0].eventClassifier).toBe('ACT');
+  });
+
+  it('links every message that repeated the event', async () => {
+    const first = await statusEventService.recordEvent(
+      { ...arrival, eventTime: new Date('2025-12-01T10:05:00Z'), rawMessageId: 'm1' },
+      memory.client
+    );
+    await statusEventService.recordEvent(
+      { ...arrival, eventTime: new Date('2025-12-01T10:20:00Z'), rawMessageId: 'm2' },
+      memory.client
+    );
+
+    expect(memory.rows).toHaveLength(1);
+    expect(memory.rows[0].rawMessageId).toBe('m1');
+    expect(memory.sources).toEqual([
+      { statusEventId: first.event.id, rawMessageId: 'm1' },
+      { statusEventId: first.event.id, rawMessageId: 'm2' },
+    ]);
+  });
+
+  it('treats an insert that lost a race as a repeat without failing', async () => {
+    const data = { ...arrival, eventTime: new Date('2025-12-01T10:05:00Z') };
+    // Параллельная загрузка записала событие между проверкой и вставкой
+    memory.client.statusEvent.findUnique = vi.fn(async () => null) as never;
+    await statusEventService.recordEvent(data, memory.client);
+
+    const repeat = await statusEventService.recordEvent(data, memory.client);
+
+    expect(repeat.duplicate).toBe(true);
+    expect(memory.rows).toHaveLength(1);
+  });
+});
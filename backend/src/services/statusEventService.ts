@@ -1,9 +1,19 @@
-import { StatusCode, SourceType } from '@prisma/client';
+import { StatusCode, SourceType, StatusEvent, Container, Prisma } from '@prisma/client';
 import prisma from '../utils/prisma.js';
 import { normalizerService } from '../normalizers/index.js';
 import { containerService } from './containerService.js';
+import { statusLifecycleService } from './statusLifecycleService.js';
+import { deduplicationService } from './deduplicationService.js';
+import { railDispatchService } from './railDispatchService.js';
+import { voyageService } from './voyageService.js';
+import { shipmentService } from './shipmentService.js';
+import { routeService } from './routeService.js';
+import { etaPredictionService } from './etaPredictionService.js';
 import { 
   NormalizedStatusEvent, 
+  RailDispatchRef,
+  ShipmentRef,
+  VoyageRef,
   EmailInput, 
   TableRowInput,
   StatusEventItem 
@@ -28,9 +38,13 @@ export class StatusEventService {
       statusCode: event.statusCode,
       statusText: event.statusText,
       location: event.location,
+      wagonNumber: event.wagonNumber,
       distanceToDestinationKm: event.distanceToDestinationKm,
       eta: event.eta,
       eventTime: event.eventTime,
+      eventClassifier: event.eventClassifier,
+      isRegression: event.isRegression,
+      regressionReason: event.regressionReason,
       sourceType: event.sourceType,
       sourceRaw: event.sourceRaw,
       createdAt: event.createdAt,
@@ -106,20 +120,18 @@ export class StatusEventService {
         normalizedData.containerNumber
       );
 
-      // Создаём событие статуса
-      const statusEvent = await prisma.statusEvent.create({
-        data: {
-          containerId: container.id,
-          statusCode: normalizedData.statusCode,
-          statusText: normalizedData.statusText,
-          location: normalizedData.location,
-          distanceToDestinationKm: normalizedData.distanceToDestinationKm,
-          eta: normalizedData.eta,
-          eventTime: normalizedData.eventTime,
-          sourceType: SourceType.EMAIL,
-          sourceRaw: input.body,
-          rawMessageId: rawMessage.id,
-        },
+      // Создаём событие статуса (повтор сливается с существующим)
+      const { event: statusEvent } = await this.recordEvent({
+        containerId: container.id,
+        statusCode: normalizedData.statusCode,
+        statusText: normalizedData.statusText,
+        location: normalizedData.location,
+        distanceToDestinationKm: normalizedData.distanceToDestinationKm,
+        eta: normalizedData.eta,
+        eventTime: normalizedData.eventTime,
+        sourceType: SourceType.EMAIL,
+        sourceRaw: input.body,
+        rawMessageId: rawMessage.id,
       });
 
       // Обновляем сырое сообщение
@@ -235,20 +247,18 @@ export class StatusEventService {
         }
       );
 
-      // Создаём событие статуса
-      const statusEvent = await prisma.statusEvent.create({
-        data: {
-          containerId: container.id,
-          statusCode: normalizedData.statusCode,
-          statusText: normalizedData.statusText,
-          location: normalizedData.location,
-          distanceToDestinationKm: normalizedData.distanceToDestinationKm,
-          eta: normalizedData.eta,
-          eventTime: normalizedData.eventTime,
-          sourceType: SourceType.EXCEL,
-          sourceRaw: JSON.stringify(input),
-          rawMessageId: rawMessage.id,
-        },
+      // Создаём событие статуса (повтор сливается с существующим)
+      const { event: statusEvent } = await this.recordEvent({
+        containerId: container.id,
+        statusCode: normalizedData.statusCode,
+        statusText: normalizedData.statusText,
+        location: normalizedData.location,
+        distanceToDestinationKm: normalizedData.distanceToDestinationKm,
+        eta: normalizedData.eta,
+        eventTime: normalizedData.eventTime,
+        sourceType: SourceType.EXCEL,
+        sourceRaw: JSON.stringify(input),
+        rawMessageId: rawMessage.id,
       });
 
       // Обновляем сырое сообщение
@@ -311,12 +321,240 @@ export class StatusEventService {
       origin?: string;
       destination?: string;
       containerType?: string;
-    }
+      dispatch?: RailDispatchRef;
+      shipment?: ShipmentRef;
+    },
+    client: Prisma.TransactionClient = prisma
   ) {
-    return containerService.findOrCreateContainer(containerNumber, {
+    const container = await containerService.findOrCreateContainer(containerNumber, {
       originPoint: additionalData?.origin,
       destinationPoint: additionalData?.destination,
       containerType: additionalData?.containerType,
+    }, client);
+
+    // Контейнер из сообщения с номером отправки — привязываем к ней
+    if (additionalData?.dispatch) {
+      await railDispatchService.attach(container.id, additionalData.dispatch, client);
+    }
+
+    // ...и к отгрузке по коносаменту / букингу
+    if (additionalData?.shipment) {
+      await shipmentService.attach(container.id, additionalData.shipment, client);
+    }
+
+    return container;
+  }
+
+  /**
+   * Сохранение нормализованных событий из InputProcessor
+   *
+   * Общий шаг для универсального приёма (/api/ingest) и фоновых импортов
+   * (почтовый ящик): находит/создаёт контейнер и пишет StatusEvent,
+   * привязанный к RawMessage.
+   */
+  async saveNormalizedEvents(
+    events: NormalizedStatusEvent[],
+    options: {
+      sourceType: SourceType;
+      rawMessageId?: string;
+    }
+  ): Promise<{
+    savedEvents: Array<StatusEvent & { container: Container }>;
+    duplicates: Array<StatusEvent & { container: Container }>;
+    errors: Array<{ error: string; data: NormalizedStatusEvent }>;
+  }> {
+    const savedEvents: Array<StatusEvent & { container: Container }> = [];
+    const duplicates: Array<StatusEvent & { container: Container }> = [];
+    const errors: Array<{ error: string; data: NormalizedStatusEvent }> = [];
+
+    for (const normalized of events) {
+      try {
+        // Пропускаем записи без номера контейнера
+        if (!normalized.containerNumber) {
+          errors.push({
+            error: 'Missing container number',
+            data: normalized,
+          });
+          continue;
+        }
+
+        // Создаём или находим контейнер
+        const container = await this.findOrCreateContainer(
+          normalized.containerNumber,
+          {
+            origin: normalized.origin,
+            destination: normalized.destination,
+            dispatch: normalized.dispatch,
+            shipment: normalized.shipment,
+          }
+        );
+
+        // Создаём событие (повтор сливается с существующим)
+        const { event, duplicate } = await this.recordEvent({
+          containerId: container.id,
+          statusCode: normalized.statusCode,
+          statusText: normalized.statusText,
+          location: normalized.location || null,
+          wagonNumber: normalized.wagonNumber || null,
+          voyage: normalized.voyage,
+          distanceToDestinationKm: normalized.distanceToDestinationKm || null,
+          eta: normalized.eta ? new Date(normalized.eta) : null,
+          eventTime: normalized.eventTime ? new Date(normalized.eventTime) : new Date(),
+          eventClassifier: normalized.eventClassifier,
+          sourceType: options.sourceType,
+          sourceRaw: normalized.sourceRaw || null,
+          rawMessageId: options.rawMessageId,
+        });
+
+        (duplicate ? duplicates : savedEvents).push(event);
+      } catch (err) {
+        errors.push({
+          error: err instanceof Error ? err.message : 'Unknown error',
+          data: normalized,
+        });
+      }
+    }
+
+    return { savedEvents, duplicates, errors };
+  }
+
+  /**
+   * Запись события с проверкой повторов и жизненного цикла
+   *
+   * Повтор (тот же контейнер, статус, место и час события) не создаёт
+   * новую строку: в найденное событие дописываются недостающие
+   * ETA и расстояние до назначения, сообщение повтора записывается
+   * в источники события.
+   *
+   * Событие морского плеча связывается с рейсом судна; ETA из
+   * сообщения о рейсе переносится на все контейнеры рейса.
+   * Если у контейнера задан маршрут — событие относится к плечу.
+   * Фактическое событие пересчитывает расчётный ETA контейнера.
+   *
+   * client — транзакция, если запись входит в атомарную операцию.
+   */
+  async recordEvent(
+    input: Prisma.StatusEventUncheckedCreateInput & { voyage?: VoyageRef },
+    client: Prisma.TransactionClient = prisma
+  ): Promise<{
+    event: StatusEvent & { container: Container };
+    duplicate: boolean;
+  }> {
+    const { voyage, ...data } = input;
+    if (voyage) {
+      const eta = data.eta ? new Date(data.eta) : null;
+      data.voyageId = await voyageService.linkEvent(voyage, data.statusCode, eta, client);
+    }
+    data.routeLegId ??= await routeService.attributeEvent({
+      containerId: data.containerId,
+      statusCode: data.statusCode,
+      location: data.location ?? null,
+      eventTime: new Date(data.eventTime),
+    }, client);
+
+    const dedupeKey = deduplicationService.eventKey(data);
+
+    const existing = await client.statusEvent.findUnique({
+      where: { dedupeKey },
+      include: { container: true },
+    });
+    if (existing) {
+      return { event: await this.mergeRepeat(existing, data, client), duplicate: true };
+    }
+
+    // Проверяем порядок статусов: регресс сохраняется с пометкой
+    const lifecycle = await statusLifecycleService.assessEvent(data.containerId, data, client);
+
+    // ON CONFLICT DO NOTHING: параллельная загрузка того же события
+    // не прерывает транзакцию (ошибка уникальности в Postgres прервала бы)
+    const [created] = await client.statusEvent.createManyAndReturn({
+      data: [{ ...data, ...lifecycle, dedupeKey }],
+      skipDuplicates: true,
+    });
+
+    if (!created) {
+      const concurrent = await client.statusEvent.findUniqueOrThrow({
+        where: { dedupeKey },
+        include: { container: true },
+      });
+      return { event: await this.mergeRepeat(concurrent, data, client), duplicate: true };
+    }
+
+    await this.linkSource(created.id, data.rawMessageId, client);
+    await this.refreshPrediction(data, client);
+
+    const event = await client.statusEvent.findUniqueOrThrow({
+      where: { id: created.id },
+      include: { container: true },
+    });
+    return { event, duplicate: false };
+  }
+
+  /**
+   * Повтор уже записанного события: дополнение и ссылка на сообщение
+   */
+  private async mergeRepeat(
+    existing: StatusEvent & { container: Container },
+    data: Prisma.StatusEventUncheckedCreateInput,
+    client: Prisma.TransactionClient
+  ): Promise<StatusEvent & { container: Container }> {
+    await this.linkSource(existing.id, data.rawMessageId, client);
+
+    const merged = await this.mergeDuplicate(existing, data, client);
+    if (merged !== existing) await this.refreshPrediction(data, client);
+    return merged;
+  }
+
+  /**
+   * Сообщение, в котором встретилось событие (повторная привязка — без ошибки)
+   */
+  private async linkSource(
+    statusEventId: string,
+    rawMessageId: string | null | undefined,
+    client: Prisma.TransactionClient
+  ): Promise<void> {
+    if (!rawMessageId) return;
+    await client.statusEventSource.createMany({
+      data: [{ statusEventId, rawMessageId }],
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Пересчёт расчётного ETA (план и прогноз перевозчика не влияют)
+   */
+  private async refreshPrediction(
+    data: Prisma.StatusEventUncheckedCreateInput,
+    client: Prisma.TransactionClient
+  ): Promise<void> {
+    if (data.eventClassifier && data.eventClassifier !== 'ACT') return;
+    await etaPredictionService.refresh(data.containerId, client);
+  }
+
+  /**
+   * Дополнение существующего события данными из повтора
+   */
+  private async mergeDuplicate(
+    existing: StatusEvent & { container: Container },
+    data: Prisma.StatusEventUncheckedCreateInput,
+    client: Prisma.TransactionClient
+  ): Promise<StatusEvent & { container: Container }> {
+    const update: Prisma.StatusEventUncheckedUpdateInput = {};
+
+    if (!existing.eta && data.eta) update.eta = data.eta;
+    if (!existing.wagonNumber && data.wagonNumber) update.wagonNumber = data.wagonNumber;
+    if (!existing.voyageId && data.voyageId) update.voyageId = data.voyageId;
+    if (!existing.routeLegId && data.routeLegId) update.routeLegId = data.routeLegId;
+    if (existing.distanceToDestinationKm === null && typeof data.distanceToDestinationKm === 'number') {
+      update.distanceToDestinationKm = data.distanceToDestinationKm;
+    }
+
+    if (Object.keys(update).length === 0) return existing;
+
+    return client.statusEvent.update({
+      where: { id: existing.id },
+      data: update,
+      include: { container: true },
     });
   }
 
@@ -332,9 +570,12 @@ export class StatusEventService {
     eta?: Date;
     eventTime: Date;
   }): Promise<StatusEventItem> {
+    const lifecycle = await statusLifecycleService.assessEvent(input.containerId, input);
+
     const event = await prisma.statusEvent.create({
       data: {
         ...input,
+        ...lifecycle,
         sourceType: SourceType.MANUAL,
       },
     });
@@ -349,9 +590,13 @@ export class StatusEventService {
       statusCode: event.statusCode,
       statusText: event.statusText,
       location: event.location,
+      wagonNumber: event.wagonNumber,
       distanceToDestinationKm: event.distanceToDestinationKm,
       eta: event.eta,
       eventTime: event.eventTime,
+      eventClassifier: event.eventClassifier,
+      isRegression: event.isRegression,
+      regressionReason: event.regressionReason,
       sourceType: event.sourceType,
       sourceRaw: event.sourceRaw,
       createdAt: event.createdAt,
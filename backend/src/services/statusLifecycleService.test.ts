@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StatusCode } from '@prisma/client';
+
+vi.mock('../utils/prisma.js', () => ({ default: {}, prisma: {} }));
+
+import { statusLifecycleService } from './statusLifecycleService.js';
+
+function event(statusCode: StatusCode, eventTime: string, extra: { eventClassifier?: 'PLN' | 'EST' | 'ACT'; isRegression?: boolean } = {}) {
+  return { statusCode, eventTime: new Date(eventTime), ...extra };
+}
+
+const history = [
+  event('ARRIVED_PORT', '2025-11-20T08:00:00Z'),
+  event('ON_RAIL', '2025-11-25T08:00:00Z'),
+];
+
+describe('StatusLifecycleService.assessAgainst', () => {
+  it('accepts the next stage of the lifecycle', () => {
+    expect(statusLifecycleService.assessAgainst(history, event('RAIL_ARRIVED', '2025-12-01T08:00:00Z')))
+      .toEqual({ isRegression: false, regressionReason: null });
+  });
+
+  it('flags a late sea status for a container already on rail', () => {
+    const result = statusLifecycleService.assessAgainst(history, event('ON_SHIP', '2025-11-26T08:00:00Z'));
+
+    expect(result.isRegression).toBe(true);
+    expect(result.regressionReason).toBe('Откат статуса: ON_SHIP после ON_RAIL от 2025-11-25T08:00:00.000Z');
+  });
+
+  it('flags an event placed before a stage it cannot precede', () => {
+    const result = statusLifecycleService.assessAgainst(history, event('ON_AUTO', '2025-11-22T08:00:00Z'));
+
+    expect(result.isRegression).toBe(true);
+    expect(result.regressionReason).toContain('раньше ON_RAIL');
+  });
+
+  it('accepts an older event that fits between known stages', () => {
+    expect(statusLifecycleService.assessAgainst(history, event('CUSTOMS_CLEARED', '2025-11-23T08:00:00Z')).isRegression)
+      .toBe(false);
+  });
+
+  it('allows the listed step-backs', () => {
+    const onAnchorage = [event('ON_ANCHORAGE', '2025-11-18T08:00:00Z')];
+    const railArrived = [event('RAIL_ARRIVED', '2025-11-28T08:00:00Z')];
+
+    expect(statusLifecycleService.assessAgainst(onAnchorage, event('ON_SHIP', '2025-11-19T08:00:00Z')).isRegression).toBe(false);
+    expect(statusLifecycleService.assessAgainst(railArrived, event('ON_RAIL', '2025-11-29T08:00:00Z')).isRegression).toBe(false);
+  });
+
+  it('does not check plans, estimates and statuses outside the lifecycle', () => {
+    expect(statusLifecycleService.assessAgainst(history, event('ON_SHIP', '2025-11-26T08:00:00Z', { eventClassifier: 'EST' })).isRegression)
+      .toBe(false);
+    expect(statusLifecycleService.assessAgainst(history, event('UNLOADED', '2025-11-26T08:00:00Z')).isRegression)
+      .toBe(false);
+  });
+});
+
+describe('StatusLifecycleService.currentStatus', () => {
+  it('takes the latest actual event that is not a regression', () => {
+    const current = statusLifecycleService.currentStatus([
+      ...history,
+      event('ON_SHIP', '2025-11-26T08:00:00Z', { isRegression: true }),
+      event('DELIVERED', '2025-12-10T08:00:00Z', { eventClassifier: 'PLN' }),
+    ]);
+
+    expect(current?.statusCode).toBe('ON_RAIL');
+  });
+
+  it('prefers the further stage at the same time', () => {
+    const current = statusLifecycleService.currentStatus([
+      event('ON_RAIL', '2025-11-25T08:00:00Z'),
+      event('CUSTOMS_CLEARED', '2025-11-25T08:00:00Z'),
+    ]);
+
+    expect(current?.statusCode).toBe('ON_RAIL');
+  });
+});
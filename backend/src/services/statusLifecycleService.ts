@@ -0,0 +1,192 @@
+import { StatusCode, EventClassifier, Prisma } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+
+/**
+ * Ранг статуса в жизненном цикле перевозки
+ *
+ * LOADED → IN_PORT → ON_SHIP → ON_ANCHORAGE → ARRIVED_PORT →
+ * ON_WAREHOUSE/CUSTOMS → CUSTOMS_CLEARED → ON_RAIL → RAIL_ARRIVED →
+ * ON_AUTO → DELIVERED
+ *
+ * IN_TRANSIT, UNLOADED и UNKNOWN встречаются на разных этапах
+ * (выгрузка с судна и с платформы) — они не участвуют в проверке.
+ */
+const LIFECYCLE_RANK: Record<StatusCode, number | null> = {
+  LOADED: 1,
+  IN_PORT: 2,
+  ON_SHIP: 3,
+  ON_ANCHORAGE: 4,
+  ARRIVED_PORT: 5,
+  ON_WAREHOUSE: 6,
+  CUSTOMS: 6,
+  CUSTOMS_CLEARED: 7,
+  ON_RAIL: 8,
+  RAIL_ARRIVED: 9,
+  ON_AUTO: 10,
+  DELIVERED: 11,
+  IN_TRANSIT: null,
+  UNLOADED: null,
+  UNKNOWN: null,
+};
+
+/**
+ * Допустимые возвраты на шаг назад: судно уходит с рейда к причалу,
+ * контейнер перегружается и отправляется дальше по ЖД
+ */
+const ALLOWED_RETURNS: Partial<Record<StatusCode, StatusCode[]>> = {
+  ON_SHIP: ['ON_ANCHORAGE'],
+  ON_RAIL: ['RAIL_ARRIVED'],
+};
+
+/**
+ * Результат проверки события по жизненному циклу
+ */
+export interface LifecycleAssessment {
+  isRegression: boolean;
+  regressionReason: string | null;
+}
+
+interface LifecycleEvent {
+  statusCode: StatusCode;
+  eventTime: Date | string;
+  eventClassifier?: EventClassifier;
+  isRegression?: boolean;
+}
+
+/**
+ * Сервис жизненного цикла статусов
+ *
+ * Событие, нарушающее порядок этапов (поздно пришедшее письмо
+ * «в пути морем» для контейнера, уже идущего по ЖД), сохраняется
+ * в истории с пометкой isRegression и не становится текущим статусом.
+ */
+export class StatusLifecycleService {
+
+  /**
+   * Ранг статуса (null — статус вне жизненного цикла)
+   */
+  rank(statusCode: StatusCode): number | null {
+    return LIFECYCLE_RANK[statusCode] ?? null;
+  }
+
+  /**
+   * Ранг статуса в SQL (для выбора текущего статуса в запросах; вне цикла — 0)
+   */
+  rankSql(column: Prisma.Sql): Prisma.Sql {
+    // Коды и ранги — константы модуля, поэтому подставляются в текст запроса
+    const branches = Object.entries(LIFECYCLE_RANK)
+      .filter(([, rank]) => rank !== null)
+      .map(([code, rank]) => `WHEN '${code}' THEN ${rank}`)
+      .join(' ');
+    return Prisma.sql`CASE ${column}::text ${Prisma.raw(branches)} ELSE 0 END`;
+  }
+
+  /**
+   * Допустим ли переход from → to
+   */
+  canTransition(from: StatusCode, to: StatusCode): boolean {
+    const fromRank = this.rank(from);
+    const toRank = this.rank(to);
+
+    if (fromRank === null || toRank === null || toRank >= fromRank) return true;
+    return ALLOWED_RETURNS[to]?.includes(from) ?? false;
+  }
+
+  /**
+   * Проверка нового события по истории контейнера
+   *
+   * Сравнивается с фактическими событиями без пометки регресса:
+   * предыдущий по времени этап не должен быть дальше нового,
+   * следующий по времени — не должен быть раньше.
+   * План и прогноз (PLN/EST) не проверяются.
+   */
+  async assessEvent(
+    containerId: string,
+    event: LifecycleEvent,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<LifecycleAssessment> {
+    const ok: LifecycleAssessment = { isRegression: false, regressionReason: null };
+
+    if ((event.eventClassifier ?? 'ACT') !== 'ACT' || this.rank(event.statusCode) === null) {
+      return ok;
+    }
+
+    const history = await client.statusEvent.findMany({
+      where: { containerId, eventClassifier: 'ACT', isRegression: false },
+      select: { statusCode: true, eventTime: true },
+      orderBy: { eventTime: 'asc' },
+    });
+
+    return this.assessAgainst(history, event);
+  }
+
+  /**
+   * Проверка события по уже загруженной истории
+   */
+  assessAgainst(history: LifecycleEvent[], event: LifecycleEvent): LifecycleAssessment {
+    const rank = this.rank(event.statusCode);
+    if ((event.eventClassifier ?? 'ACT') !== 'ACT' || rank === null) {
+      return { isRegression: false, regressionReason: null };
+    }
+
+    const ranked = history.filter(e => this.rank(e.statusCode) !== null);
+    const time = timeOf(event);
+
+    // Самый дальний этап, достигнутый до события
+    const before = ranked
+      .filter(e => timeOf(e) <= time)
+      .reduce<LifecycleEvent | null>(
+        (max, e) => (!max || this.rank(e.statusCode)! > this.rank(max.statusCode)! ? e : max),
+        null
+      );
+
+    if (before && !this.canTransition(before.statusCode, event.statusCode)) {
+      return {
+        isRegression: true,
+        regressionReason: `Откат статуса: ${event.statusCode} после ${before.statusCode} от ${new Date(before.eventTime).toISOString()}`,
+      };
+    }
+
+    // Самый ранний этап, зафиксированный после события
+    const after = ranked
+      .filter(e => timeOf(e) > time)
+      .reduce<LifecycleEvent | null>(
+        (min, e) => (!min || this.rank(e.statusCode)! < this.rank(min.statusCode)! ? e : min),
+        null
+      );
+
+    if (after && !this.canTransition(event.statusCode, after.statusCode)) {
+      return {
+        isRegression: true,
+        regressionReason: `Статус ${event.statusCode} раньше ${after.statusCode} от ${new Date(after.eventTime).toISOString()}`,
+      };
+    }
+
+    return { isRegression: false, regressionReason: null };
+  }
+
+  /**
+   * Текущий статус контейнера
+   *
+   * Последнее по eventTime фактическое событие без пометки регресса;
+   * при одинаковом времени — дальний по жизненному циклу этап.
+   */
+  currentStatus<T extends LifecycleEvent>(events: T[]): T | null {
+    const candidates = events.filter(e => (e.eventClassifier ?? 'ACT') === 'ACT' && !e.isRegression);
+
+    return candidates.reduce<T | null>((current, e) => {
+      if (!current) return e;
+
+      const diff = timeOf(e) - timeOf(current);
+      if (diff !== 0) return diff > 0 ? e : current;
+
+      return (this.rank(e.statusCode) ?? 0) > (this.rank(current.statusCode) ?? 0) ? e : current;
+    }, null);
+  }
+}
+
+function timeOf(event: LifecycleEvent): number {
+  return new Date(event.eventTime).getTime();
+}
+
+export const statusLifecycleService = new StatusLifecycleService();
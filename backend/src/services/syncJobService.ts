@@ -0,0 +1,93 @@
+import { SyncJob, SyncJobType, SyncJobStatus } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+
+/**
+ * Статистика выполнения задачи синхронизации
+ */
+export interface SyncJobStats {
+  itemsTotal: number;
+  itemsProcessed: number;
+  itemsFailed: number;
+}
+
+/**
+ * Сервис для журнала задач синхронизации (SyncJob)
+ *
+ * Каждый запуск импорта/экспорта фиксируется отдельной записью:
+ * RUNNING при старте, COMPLETED/FAILED по завершении.
+ */
+export class SyncJobService {
+
+  /**
+   * Регистрация запуска задачи
+   */
+  async start(type: SyncJobType): Promise<SyncJob> {
+    return prisma.syncJob.create({
+      data: {
+        type,
+        status: SyncJobStatus.RUNNING,
+        startedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Успешное завершение задачи
+   *
+   * Ошибки отдельных элементов не валят задачу целиком -
+   * они попадают в itemsFailed и errorDetails.
+   */
+  async complete(id: string, stats: SyncJobStats, itemErrors: unknown[] = []): Promise<SyncJob> {
+    return prisma.syncJob.update({
+      where: { id },
+      data: {
+        status: SyncJobStatus.COMPLETED,
+        ...stats,
+        errorMessage: itemErrors.length > 0
+          ? `${itemErrors.length} item(s) failed`
+          : null,
+        errorDetails: itemErrors.length > 0 ? JSON.stringify(itemErrors) : null,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Аварийное завершение задачи (например, нет соединения с сервером)
+   */
+  async fail(id: string, error: unknown, stats?: Partial<SyncJobStats>): Promise<SyncJob> {
+    return prisma.syncJob.update({
+      where: { id },
+      data: {
+        status: SyncJobStatus.FAILED,
+        ...stats,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        errorDetails: error instanceof Error ? error.stack : JSON.stringify(error),
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Последняя успешно завершённая задача типа
+   */
+  async getLastCompleted(type: SyncJobType): Promise<SyncJob | null> {
+    return prisma.syncJob.findFirst({
+      where: { type, status: SyncJobStatus.COMPLETED },
+      orderBy: { startedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Последние задачи (опционально по типу)
+   */
+  async getRecentJobs(type?: SyncJobType, limit: number = 20): Promise<SyncJob[]> {
+    return prisma.syncJob.findMany({
+      where: type ? { type } : {},
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+}
+
+export const syncJobService = new SyncJobService();
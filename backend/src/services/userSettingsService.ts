@@ -0,0 +1,105 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { DashboardSettings } from '../types/index.js';
+
+export const DEFAULT_DASHBOARD_SETTINGS: DashboardSettings = {
+  staleThresholdDays: 3,
+  upcomingDays: 7,
+  autoRefreshMinutes: 5,
+  showDelivered: true,
+  notifyOverdue: true,
+  notifyStale: true,
+  freeTimeWarningDays: 3,
+};
+
+// Допустимые диапазоны числовых настроек
+const NUMBER_RANGES: Record<'staleThresholdDays' | 'upcomingDays' | 'autoRefreshMinutes' | 'freeTimeWarningDays', [number, number]> = {
+  staleThresholdDays: [1, 30],
+  upcomingDays: [1, 30],
+  autoRefreshMinutes: [1, 60],
+  freeTimeWarningDays: [0, 30],
+};
+
+const BOOLEAN_FIELDS = ['showDelivered', 'notifyOverdue', 'notifyStale'] as const;
+
+/**
+ * Сервис настроек пользователя
+ *
+ * Хранятся только изменённые значения; при чтении они накладываются
+ * на значения по умолчанию, поэтому новые настройки появляются
+ * у всех пользователей без миграции данных.
+ */
+export class UserSettingsService {
+
+  async getDashboardSettings(userId: string): Promise<DashboardSettings> {
+    const saved = await prisma.userSettings.findUnique({ where: { userId } });
+    return { ...DEFAULT_DASHBOARD_SETTINGS, ...(saved?.dashboard as Partial<DashboardSettings> | undefined) };
+  }
+
+  /**
+   * Сохранение настроек дашборда (частичное — остальные не меняются)
+   */
+  async updateDashboardSettings(userId: string, input: Partial<DashboardSettings>): Promise<DashboardSettings> {
+    const saved = await prisma.userSettings.findUnique({ where: { userId } });
+    const dashboard = {
+      ...(saved?.dashboard as Partial<DashboardSettings> | undefined),
+      ...pickSettings(input),
+    } as Prisma.InputJsonObject;
+
+    await prisma.userSettings.upsert({
+      where: { userId },
+      create: { userId, dashboard },
+      update: { dashboard },
+    });
+
+    return this.getDashboardSettings(userId);
+  }
+
+  /**
+   * Сброс настроек дашборда к значениям по умолчанию
+   */
+  async resetDashboardSettings(userId: string): Promise<DashboardSettings> {
+    await prisma.userSettings.deleteMany({ where: { userId } });
+    return { ...DEFAULT_DASHBOARD_SETTINGS };
+  }
+
+  /**
+   * Проверка настроек дашборда
+   *
+   * Возвращает список ошибок (пустой — данные корректны).
+   */
+  validateDashboardSettings(input: unknown): string[] {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return ['settings must be an object'];
+    }
+
+    const errors: string[] = [];
+    const settings = input as Record<string, unknown>;
+
+    for (const [field, [min, max]] of Object.entries(NUMBER_RANGES)) {
+      const value = settings[field];
+      if (value === undefined) continue;
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        errors.push(`${field} must be an integer from ${min} to ${max}`);
+      }
+    }
+    for (const field of BOOLEAN_FIELDS) {
+      if (settings[field] !== undefined && typeof settings[field] !== 'boolean') {
+        errors.push(`${field} must be a boolean`);
+      }
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Только известные поля настроек (лишние ключи не сохраняются)
+ */
+function pickSettings(input: Partial<DashboardSettings>): Partial<DashboardSettings> {
+  return Object.fromEntries(
+    Object.entries(input).filter(([field, value]) => field in DEFAULT_DASHBOARD_SETTINGS && value !== undefined)
+  );
+}
+
+export const userSettingsService = new UserSettingsService();
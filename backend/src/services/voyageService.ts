@@ -0,0 +1,157 @@
+import { Prisma, StatusCode, Vessel, Voyage } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import { normalizeVesselName, normalizeVoyageNumber } from '../middleware/vesselValidator.js';
+import { VoyageRef, VoyageSummary } from '../types/index.js';
+
+// Статусы морского плеча — такие события связываются с рейсом
+const SEA_LEG_STATUSES: StatusCode[] = [StatusCode.ON_SHIP, StatusCode.ON_ANCHORAGE, StatusCode.ARRIVED_PORT];
+
+/**
+ * Сервис судов и рейсов
+ *
+ * Судно ищется по номеру IMO, затем по названию. ETA рейса —
+ * общий для всех его контейнеров: новый ETA из любого сообщения
+ * переносится в текущие события контейнеров рейса.
+ */
+export class VoyageService {
+
+  /**
+   * Связь события с рейсом
+   *
+   * Рейс создаётся при первом упоминании. Возвращает ID рейса,
+   * если событие относится к морскому плечу.
+   */
+  async linkEvent(
+    ref: VoyageRef,
+    statusCode: StatusCode,
+    eta: Date | null,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<string | undefined> {
+    const voyage = await this.resolveVoyage(ref, client);
+
+    if (eta && voyage.eta?.getTime() !== eta.getTime()) {
+      await this.updateEta(voyage.id, eta, client);
+    }
+
+    return SEA_LEG_STATUSES.includes(statusCode) ? voyage.id : undefined;
+  }
+
+  /**
+   * Рейс по данным сообщения (создаётся при необходимости)
+   */
+  async resolveVoyage(
+    ref: VoyageRef,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<Voyage & { vessel: Vessel }> {
+    const vessel = await this.resolveVessel(ref, client);
+    const voyageNumber = normalizeVoyageNumber(ref.voyageNumber);
+
+    return client.voyage.upsert({
+      where: { vesselId_voyageNumber: { vesselId: vessel.id, voyageNumber } },
+      create: { vesselId: vessel.id, voyageNumber },
+      update: {},
+      include: { vessel: true },
+    });
+  }
+
+  /**
+   * Новый ETA рейса
+   *
+   * Обновляется последнее событие рейса у каждого контейнера —
+   * его ETA показывается в карточке контейнера.
+   * Возвращает число обновлённых событий.
+   */
+  async updateEta(voyageId: string, eta: Date, client: Prisma.TransactionClient = prisma): Promise<number> {
+    const latest = await client.statusEvent.findMany({
+      where: { voyageId },
+      orderBy: { eventTime: 'desc' },
+      distinct: ['containerId'],
+      select: { id: true, eta: true },
+    });
+    const stale = latest.filter(event => event.eta?.getTime() !== eta.getTime()).map(event => event.id);
+
+    if (stale.length > 0) {
+      await client.statusEvent.updateMany({
+        where: { id: { in: stale } },
+        data: { eta },
+      });
+    }
+    await client.voyage.update({ where: { id: voyageId }, data: { eta } });
+
+    return stale.length;
+  }
+
+  /**
+   * Номера контейнеров рейса (для сообщений только о судне)
+   */
+  async getContainerNumbers(ref: VoyageRef): Promise<string[]> {
+    const vessel = await this.findVessel(ref, prisma);
+    if (!vessel) return [];
+
+    const containers = await prisma.container.findMany({
+      where: {
+        statusEvents: {
+          some: { voyage: { vesselId: vessel.id, voyageNumber: normalizeVoyageNumber(ref.voyageNumber) } },
+        },
+      },
+      select: { containerNumber: true },
+      orderBy: { containerNumber: 'asc' },
+    });
+
+    return containers.map(c => c.containerNumber);
+  }
+
+  /**
+   * Рейс → краткое описание для карточки контейнера
+   */
+  toSummary(voyage: Voyage & { vessel: Vessel }): VoyageSummary {
+    return {
+      id: voyage.id,
+      voyageNumber: voyage.voyageNumber,
+      vesselName: voyage.vessel.name,
+      imoNumber: voyage.vessel.imoNumber,
+      eta: voyage.eta,
+    };
+  }
+
+  private async resolveVessel(ref: VoyageRef, client: Prisma.TransactionClient): Promise<Vessel> {
+    const name = ref.vesselName ? normalizeVesselName(ref.vesselName) : undefined;
+    const existing = await this.findVessel(ref, client);
+
+    if (existing) {
+      // Дополняем IMO, найденное по названию, и название, найденное по IMO
+      const data: Prisma.VesselUpdateInput = {};
+      if (!existing.imoNumber && ref.imoNumber) data.imoNumber = ref.imoNumber;
+      if (name && existing.name !== name && existing.imoNumber && existing.imoNumber === ref.imoNumber) {
+        data.name = name;
+      }
+      return Object.keys(data).length > 0
+        ? client.vessel.update({ where: { id: existing.id }, data })
+        : existing;
+    }
+
+    return client.vessel.create({
+      data: { name: name ?? `IMO ${ref.imoNumber}`, imoNumber: ref.imoNumber },
+    });
+  }
+
+  private async findVessel(ref: VoyageRef, client: Prisma.TransactionClient): Promise<Vessel | null> {
+    if (ref.imoNumber) {
+      const byImo = await client.vessel.findUnique({ where: { imoNumber: ref.imoNumber } });
+      if (byImo) return byImo;
+    }
+    if (ref.vesselName) {
+      // Одноимённое судно с другим IMO — другое судно
+      return client.vessel.findFirst({
+        where: {
+          name: normalizeVesselName(ref.vesselName),
+          ...(ref.imoNumber && { imoNumber: null }),
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+    }
+    return null;
+  }
+}
+
+export const voyageService = new VoyageService();
@@ -1,4 +1,4 @@
-import { StatusCode, SourceType } from '@prisma/client';
+import { StatusCode, SourceType, EventClassifier, TransportMode, EtaBasis, CarrierType } from '@prisma/client';
 
 // ============================================
 // DTOs для API
@@ -8,6 +8,10 @@ import { StatusCode, SourceType } from '@prisma/client';
 export interface NormalizedStatusEvent {
   containerId?: string;
   containerNumber?: string;
+  wagonNumber?: string | null;      // Номер вагона РЖД
+  dispatch?: RailDispatchRef;       // ЖД-отправка, к которой относится контейнер
+  voyage?: VoyageRef;               // Судно и рейс (морское плечо)
+  shipment?: ShipmentRef;           // Коносамент / букинг
   statusCode: StatusCode;
   statusText: string;
   location?: string | null;
@@ -15,6 +19,7 @@ export interface NormalizedStatusEvent {
   eta?: string | null;
   etaUnload?: string | null;        // Дата разгрузки
   eventTime?: string;
+  eventClassifier?: EventClassifier; // PLN/EST/ACT (DCSA), по умолчанию ACT
   sourceType: SourceType;
   sourceRaw?: string | null;
   
@@ -26,13 +31,34 @@ export interface NormalizedStatusEvent {
   operatorComment?: string;         // Комментарий оператора
 }
 
+// ЖД-отправка из сообщения оператора
+export interface RailDispatchRef {
+  dispatchNumber: string;
+  trainIndex?: string;
+  originEsr?: string;
+  destinationEsr?: string;
+}
+
+// Судно и рейс из сообщения перевозчика
+export interface VoyageRef {
+  vesselName?: string;
+  imoNumber?: string;
+  voyageNumber: string;
+}
+
+// Коносамент и букинг из сообщения
+export interface ShipmentRef {
+  blNumber?: string;
+  bookingNumber?: string;
+}
+
 // Входные данные для универсального процессора
 export interface UniversalInput {
   /** Сырые данные - текст, JSON, массив */
   content: string | object | unknown[];
   
   /** Подсказка формата (опционально) */
-  hint?: 'text' | 'json' | 'csv' | 'table' | 'api';
+  hint?: 'text' | 'json' | 'csv' | 'table' | 'api' | 'eml' | 'xlsx' | 'edi';
   
   /** Метаданные источника */
   metadata?: {
@@ -41,6 +67,7 @@ export interface UniversalInput {
     sourceCarrierId?: string;
     sourceUrl?: string;
     receivedAt?: string;
+    messageId?: string;
   };
 }
 
@@ -90,23 +117,358 @@ export interface ContainerListItem {
     eta: Date | null;
     eventTime: Date;
   } | null;
+  predictedEta: EtaPrediction | null; // Расчётный ETA (не от перевозчика)
+}
+
+// Расчётный ETA по скорости движения
+export interface EtaPrediction {
+  eta: Date;
+  earliest: Date;                  // Интервал уверенности
+  latest: Date;
+  basis: EtaBasis;
+  predictedAt: Date;
 }
 
 export interface ContainerDetails extends ContainerListItem {
   totalDistanceKm: number | null;
+  currentWagon: string | null;     // Вагон, на котором контейнер едет сейчас
+  railDispatch: { id: string; dispatchNumber: string; trainIndex: string | null } | null;
+  voyage: VoyageSummary | null;    // Последний рейс (морское плечо)
+  shipment: { id: string; blNumber: string | null; bookingNumber: string | null } | null;
+  route: RouteProgress | null;     // Плановый маршрут по плечам
+  demurrage: DemurrageSummary | null; // Бесплатное время и начисления
   statusHistory: StatusEventItem[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface VoyageSummary {
+  id: string;
+  voyageNumber: string;
+  vesselName: string;
+  imoNumber: string | null;
+  eta: Date | null;                // ETA судна
+}
+
+export interface RailDispatchDetails {
+  id: string;
+  dispatchNumber: string;
+  trainIndex: string | null;
+  originEsr: string | null;
+  destinationEsr: string | null;
+  originStation: string | null;      // Станция по коду ЕСР из справочника
+  destinationStation: string | null;
+  containers: ContainerListItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Плечо маршрута: план и факт
+export interface RouteLegItem {
+  id: string;
+  sequence: number;
+  mode: TransportMode;
+  fromPoint: string;
+  toPoint: string;
+  plannedDeparture: Date | null;
+  plannedArrival: Date | null;
+  actualDeparture: Date | null;    // Первое событие плеча
+  actualArrival: Date | null;      // Событие прибытия плеча
+  distanceKm: number | null;
+  state: 'PLANNED' | 'ACTIVE' | 'COMPLETED';
+}
+
+export interface RouteProgress {
+  legs: RouteLegItem[];
+  currentLegId: string | null;
+  completedLegs: number;
+  progressPercent: number;         // Пройденные плечи + пройденная часть текущего
+  remainingKm: number | null;      // Если известны протяжённости всех плеч
+}
+
+export interface RouteLegInput {
+  mode: TransportMode;
+  fromPoint: string;
+  toPoint: string;
+  plannedDeparture?: string | null;
+  plannedArrival?: string | null;
+  distanceKm?: number | null;
+}
+
+export interface ShipmentListItem {
+  id: string;
+  blNumber: string | null;
+  bookingNumber: string | null;
+  clientName: string | null;
+  carrierName: string | null;
+  originPoint: string | null;      // Плановый маршрут
+  destinationPoint: string | null;
+  containerCount: number;
+  deliveredCount: number;
+  progressPercent: number;         // Средний этап контейнеров (0-100)
+  // Контейнер, дальше всех от доставки
+  leastAdvanced: { containerNumber: string; statusCode: StatusCode | null; statusText: string | null } | null;
+  earliestEta: Date | null;
+  latestEta: Date | null;
+  lastEventTime: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ShipmentDetails extends ShipmentListItem {
+  clientId: string | null;
+  carrierId: string | null;
+  containers: ContainerListItem[];
+}
+
+export interface ShipmentInput {
+  blNumber?: string | null;
+  bookingNumber?: string | null;
+  clientId?: string | null;
+  carrierId?: string | null;
+  originPoint?: string | null;
+  destinationPoint?: string | null;
+  containerNumbers?: string[];     // Контейнеры, добавляемые в отгрузку
+}
+
+export interface ShipmentFilterParams {
+  search?: string;                 // Коносамент, букинг или номер контейнера
+  clientId?: string;
+  carrierId?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Бесплатное время: демерредж (порт), хранение (СВХ), детеншн (оборудование)
+export type ChargeKind = 'DEMURRAGE' | 'STORAGE' | 'DETENTION';
+
+export interface TariffTier {
+  fromDay: number;                 // С какого платного дня действует ставка (с 1)
+  rate: number;                    // Ставка за день
+}
+
+export interface FreeTimeAgreementInput {
+  name: string;
+  carrierId?: string | null;
+  clientId?: string | null;
+  isActive?: boolean;
+  currency?: string;
+  portFreeDays: number;
+  portTariff: TariffTier[];
+  warehouseFreeDays: number;
+  warehouseTariff: TariffTier[];
+  equipmentFreeDays: number;
+  equipmentTariff: TariffTier[];
+}
+
+export interface ChargeClock {
+  kind: ChargeKind;
+  startedAt: Date;
+  stoppedAt: Date | null;          // null — часы идут
+  freeDays: number;
+  usedDays: number;
+  freeTimeEndsAt: Date;
+  daysLeft: number | null;         // До конца бесплатного времени (только для идущих часов)
+  chargeableDays: number;
+  accrued: number;                 // Начислено на сегодня
+  projected: number;               // Ожидается к expectedStopAt (без него — равно accrued)
+  expectedStopAt: Date | null;     // Ожидаемая остановка идущих часов: план/прогноз, для детеншна — ETA
+}
+
+export interface DemurrageSummary {
+  agreementId: string;
+  agreementName: string;
+  currency: string;
+  clocks: ChargeClock[];
+  accrued: number;
+  projected: number;
+  expiresSoon: boolean;            // Бесплатное время истекает в ближайшие дни
+}
+
+export interface DemurrageReportRow extends DemurrageSummary {
+  containerId: string;
+  containerNumber: string;
+  clientName: string | null;
+  carrierName: string | null;
+  statusCode: StatusCode | null;
+}
+
+export interface DemurrageReport {
+  rows: DemurrageReportRow[];
+  totals: Record<string, { accrued: number; projected: number }>; // По валютам
+  warningDays: number;
+}
+
+// Оценка перевозчика за период
+export interface CarrierScorecard {
+  carrierId: string;
+  carrierName: string;
+  carrierType: CarrierType;
+  containers: number;              // Контейнеры с событиями за период
+  arrived: number;                 // Прибыли за период
+  eta: {
+    samples: number;               // Прибывшие контейнеры с ETA от перевозчика
+    firstEtaErrorDays: number | null;  // Средняя абсолютная ошибка первого ETA
+    lastEtaErrorDays: number | null;   // ... последнего ETA до прибытия
+    lastEtaBiasDays: number | null;    // Среднее опоздание (+) / опережение (−) относительно последнего ETA
+    onTimeShare: number | null;        // Доля прибытий в пределах суток от последнего ETA
+  };
+  transit: Array<{
+    originPoint: string;
+    destinationPoint: string;
+    containers: number;
+    avgDays: number;
+  }>;
+  avgTransitDays: number | null;
+  updates: {
+    events: number;
+    perContainerWeekly: number | null; // Событий на контейнер в неделю
+    avgIntervalHours: number | null;
+    maxGapDays: number | null;
+    gapsOverThreshold: number;     // Перерывы длиннее порога устаревания
+  };
+  parsing: {
+    messages: number;
+    failed: number;
+    failureRate: number | null;
+  };
+  confidence: {
+    items: number;                 // Извлечённые из сообщений события и элементы проверки
+    lowConfidence: number;
+    lowConfidenceShare: number | null;
+  };
+}
+
+export interface CarrierScorecardParams {
+  from: Date;
+  to: Date;
+  carrierId?: string;
+}
+
+// Настройки дашборда пользователя
+export interface DashboardSettings {
+  staleThresholdDays: number;      // Дней без обновлений до «устаревания»
+  upcomingDays: number;            // Горизонт ближайших прибытий
+  autoRefreshMinutes: number;
+  showDelivered: boolean;
+  notifyOverdue: boolean;
+  notifyStale: boolean;
+  freeTimeWarningDays: number;     // За сколько дней предупреждать о бесплатном времени
+}
+
+export type DashboardGroup = 'SEA' | 'DESTINATION_PORT' | 'RAIL' | 'DELIVERED';
+
+export interface DashboardParams {
+  staleThresholdDays: number;
+  upcomingDays: number;
+  showDelivered: boolean;
+  limit: number;                   // Размер страницы каждого списка
+  overduePage: number;
+  stalePage: number;
+  upcomingPage: number;
+}
+
+export interface DashboardList {
+  items: ContainerListItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface DashboardSummary {
+  generatedAt: Date;
+  total: number;
+  delivered: number;
+  updatedToday: number;
+  byStatus: Partial<Record<StatusCode, number>>;
+  groups: Record<DashboardGroup, number>;
+  overdue: DashboardList;          // ETA прошёл, не доставлен (от самого просроченного)
+  stale: DashboardList;            // Нет обновлений дольше порога (от самого давнего)
+  upcoming: DashboardList;         // Прибытие в горизонте (от ближайшего)
+}
+
+// Этап перевозки для анализа времени в пути и простоев
+export type DwellStage = 'SEA' | 'ANCHORAGE' | 'PORT' | 'WAREHOUSE' | 'CUSTOMS' | 'RAIL' | 'AUTO';
+
+// Группировка: маршрут, локация или месяц начала этапа
+export type DwellGroupBy = 'route' | 'location' | 'month';
+
+export interface DwellParams {
+  from: Date;
+  to: Date;
+  groupBy: DwellGroupBy;
+  stage?: DwellStage;
+  carrierId?: string;
+  clientId?: string;
+}
+
+export interface DurationStats {
+  count: number;
+  avgHours: number;
+  minHours: number;
+  p50Hours: number;
+  p75Hours: number;
+  p90Hours: number;
+  maxHours: number;
+  histogram: Array<{ fromHours: number; toHours: number; count: number }>;
+}
+
+export interface DwellGroup {
+  key: string;                     // "Владивосток→Москва", "Забайкальск" или "2026-10"
+  stage: DwellStage;
+  stats: DurationStats;
+}
+
+export interface DwellAnalytics {
+  from: Date;
+  to: Date;
+  groupBy: DwellGroupBy;
+  groups: DwellGroup[];
+}
+
+// Длительность этапа у одного контейнера (для детализации группы)
+export interface DwellSample {
+  containerId: string;
+  containerNumber: string;
+  stage: DwellStage;
+  location: string | null;         // Для группировки по локации — где стоял
+  originPoint: string | null;
+  destinationPoint: string | null;
+  startedAt: Date;
+  endedAt: Date;
+  hours: number;
+}
+
+export interface WagonContainerItem extends ContainerListItem {
+  firstSeenAt: Date;               // Первое событие с этим вагоном
+  lastSeenAt: Date;                // Последнее событие с этим вагоном
+  isCurrent: boolean;              // Контейнер всё ещё на вагоне
+}
+
+export interface WagonDetails {
+  wagonNumber: string;
+  wagonType: string | null;        // Род вагона по первой цифре
+  checkDigitValid: boolean;
+  containers: WagonContainerItem[];
+}
+
 export interface StatusEventItem {
   id: string;
   statusCode: StatusCode;
   statusText: string;
   location: string | null;
+  wagonNumber: string | null;
+  voyage?: VoyageSummary | null;
+  routeLegId?: string | null;      // Плечо маршрута
   distanceToDestinationKm: number | null;
   eta: Date | null;
   eventTime: Date;
+  eventClassifier: EventClassifier;
+  isRegression: boolean;
+  regressionReason: string | null;
   sourceType: SourceType;
   sourceRaw: string | null;
   createdAt: Date;
@@ -3,8 +3,16 @@ import Layout from './components/Layout';
 import DashboardPage from './pages/DashboardPage';
 import ContainersPage from './pages/ContainersPage';
 import ContainerDetailsPage from './pages/ContainerDetailsPage';
+import ShipmentsPage from './pages/ShipmentsPage';
+import ShipmentDetailsPage from './pages/ShipmentDetailsPage';
+import CarrierAnalyticsPage from './pages/CarrierAnalyticsPage';
+import DwellAnalyticsPage from './pages/DwellAnalyticsPage';
 import TestConsolePage from './pages/TestConsolePage';
 import IngestPage from './pages/IngestPage';
+import ParsingProfilesPage from './pages/ParsingProfilesPage';
+import LocationsPage from './pages/LocationsPage';
+import ReviewsPage from './pages/ReviewsPage';
+import LearnedRulesPage from './pages/LearnedRulesPage';
 
 function App() {
   return (
@@ -15,7 +23,15 @@ function App() {
           <Route path="dashboard" element={<DashboardPage />} />
           <Route path="containers" element={<ContainersPage />} />
           <Route path="containers/:id" element={<ContainerDetailsPage />} />
+          <Route path="shipments" element={<ShipmentsPage />} />
+          <Route path="shipments/:id" element={<ShipmentDetailsPage />} />
+          <Route path="analytics/carriers" element={<CarrierAnalyticsPage />} />
+          <Route path="analytics/dwell" element={<DwellAnalyticsPage />} />
           <Route path="ingest" element={<IngestPage />} />
+          <Route path="reviews" element={<ReviewsPage />} />
+          <Route path="learned-rules" element={<LearnedRulesPage />} />
+          <Route path="parsing-profiles" element={<ParsingProfilesPage />} />
+          <Route path="locations" element={<LocationsPage />} />
           <Route path="test-console" element={<TestConsolePage />} />
         </Route>
       </Routes>
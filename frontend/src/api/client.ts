@@ -6,10 +6,67 @@ import type {
   ContainerDetails,
   StatusEventItem,
   ContainerFilterParams,
+  ShipmentListItem,
+  ShipmentDetails,
+  ShipmentFilterParams,
+  DemurrageReport,
+  DemurrageReportParams,
+  CarrierItem,
+  CarrierScorecard,
+  CarrierScorecardParams,
+  DwellAnalytics,
+  DwellParams,
+  DwellSample,
+  DashboardParams,
+  DashboardSettings,
+  DashboardSummary,
+  ParsingProfileItem,
+  ParsingProfileInput,
+  ProfileSampleAnalysis,
+  ReviewItem,
+  ReviewStatus,
+  ReviewCorrection,
+  LocationItem,
+  LocationInput,
+  LocationFilterParams,
+  LocationRegistry,
+  LocationImportResult,
+  LearnedRuleItem,
+  LearnedRuleFilterParams,
 } from '../types';
 
 const API_BASE = '/api';
 
+// No authentication: the browser keeps a generated user ID, settings live on the server
+const USER_ID_KEY = 'userId';
+
+/**
+ * Random user ID. crypto.randomUUID exists only in secure contexts
+ * (https or localhost), so plain http on a LAN host falls back to
+ * getRandomValues, and failing that to time plus Math.random.
+ */
+const generateUserId = (): string => {
+  if (typeof crypto !== 'undefined') {
+    if (typeof crypto.randomUUID === 'function') {
+      return crypto.randomUUID();
+    }
+    if (typeof crypto.getRandomValues === 'function') {
+      const bytes = crypto.getRandomValues(new Uint8Array(16));
+      return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    }
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+};
+
+const getUserId = (): string => {
+  let userId = localStorage.getItem(USER_ID_KEY);
+  if (!userId) {
+    userId = generateUserId();
+    localStorage.setItem(USER_ID_KEY, userId);
+  }
+  return userId;
+};
+
 const apiClient = axios.create({
   baseURL: API_BASE,
   headers: {
@@ -17,6 +74,12 @@ const apiClient = axios.create({
   },
 });
 
+// The ID is read per request, so the client can be created before storage is available
+apiClient.interceptors.request.use(config => {
+  config.headers.set('X-User-Id', getUserId());
+  return config;
+});
+
 // Containers API
 export const containersApi = {
   /**
@@ -61,6 +124,151 @@ export const containersApi = {
   },
 };
 
+// Shipments API
+export const shipmentsApi = {
+  /**
+   * Get shipments (B/L, booking) with container summary
+   */
+  getShipments: async (
+    params: ShipmentFilterParams = {}
+  ): Promise<PaginatedResponse<ShipmentListItem>> => {
+    const { data } = await apiClient.get<PaginatedResponse<ShipmentListItem>>(
+      '/shipments',
+      { params }
+    );
+    return data;
+  },
+
+  /**
+   * Get shipment by ID, B/L or booking number
+   */
+  getShipment: async (id: string): Promise<ShipmentDetails> => {
+    const { data } = await apiClient.get<ApiResponse<ShipmentDetails>>(
+      `/shipments/${id}`
+    );
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch shipment');
+    }
+    return data.data;
+  },
+};
+
+// Analytics API
+export const analyticsApi = {
+  /**
+   * Carrier scorecards for a period (default: last 90 days)
+   */
+  getCarrierScorecards: async (
+    params: CarrierScorecardParams = {}
+  ): Promise<{ from: string; to: string; carriers: CarrierScorecard[] }> => {
+    const { data } = await apiClient.get<ApiResponse<{ from: string; to: string; carriers: CarrierScorecard[] }>>(
+      '/analytics/carriers',
+      { params }
+    );
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch carrier scorecards');
+    }
+    return data.data;
+  },
+
+  /**
+   * Carrier scorecards as CSV, returns blob URL for download
+   */
+  downloadCarrierScorecards: async (params: CarrierScorecardParams = {}): Promise<string> => {
+    const response = await apiClient.get('/analytics/carriers', {
+      params: { ...params, format: 'csv' },
+      responseType: 'blob',
+    });
+    return URL.createObjectURL(response.data);
+  },
+
+  /**
+   * Stage duration percentiles grouped by route, location or month
+   */
+  getDwell: async (params: DwellParams = {}): Promise<DwellAnalytics> => {
+    const { data } = await apiClient.get<ApiResponse<DwellAnalytics>>('/analytics/dwell', { params });
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch dwell analytics');
+    }
+    return data.data;
+  },
+
+  /**
+   * Containers behind one dwell group, longest first
+   */
+  getDwellContainers: async (params: DwellParams & { key: string }): Promise<DwellSample[]> => {
+    const { data } = await apiClient.get<ApiResponse<DwellSample[]>>('/analytics/dwell/containers', { params });
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch dwell containers');
+    }
+    return data.data;
+  },
+};
+
+// Dashboard API
+export const dashboardApi = {
+  /**
+   * Aggregates over all containers; thresholds default to the user's settings
+   */
+  getDashboard: async (params: DashboardParams = {}): Promise<DashboardSummary> => {
+    const { data } = await apiClient.get<ApiResponse<DashboardSummary>>('/dashboard', { params });
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch dashboard');
+    }
+    return data.data;
+  },
+
+  /**
+   * Dashboard settings of the current user
+   */
+  getSettings: async (): Promise<DashboardSettings> => {
+    const { data } = await apiClient.get<ApiResponse<DashboardSettings>>('/dashboard/settings');
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch dashboard settings');
+    }
+    return data.data;
+  },
+
+  /**
+   * Save changed dashboard settings
+   */
+  updateSettings: async (settings: Partial<DashboardSettings>): Promise<DashboardSettings> => {
+    const { data } = await apiClient.put<ApiResponse<DashboardSettings>>('/dashboard/settings', settings);
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to update dashboard settings');
+    }
+    return data.data;
+  },
+
+  /**
+   * Reset dashboard settings to defaults
+   */
+  resetSettings: async (): Promise<DashboardSettings> => {
+    const { data } = await apiClient.delete<ApiResponse<DashboardSettings>>('/dashboard/settings');
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to reset dashboard settings');
+    }
+    return data.data;
+  },
+};
+
+// Reports API
+export const reportsApi = {
+  /**
+   * Demurrage, storage and detention: accrued and projected charges
+   */
+  getDemurrageReport: async (params: DemurrageReportParams = {}): Promise<DemurrageReport> => {
+    const { data } = await apiClient.get<ApiResponse<DemurrageReport>>(
+      '/reports/demurrage',
+      { params }
+    );
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch demurrage report');
+    }
+    return data.data;
+  },
+};
+
 // Status events API
 export const statusEventsApi = {
   /**
@@ -126,4 +334,229 @@ export const exportApi = {
   },
 };
 
+// Carriers API
+export const carriersApi = {
+  /**
+   * Get list of carriers
+   */
+  getCarriers: async (): Promise<CarrierItem[]> => {
+    const { data } = await apiClient.get<ApiResponse<CarrierItem[]>>('/carriers');
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch carriers');
+    }
+    return data.data;
+  },
+};
+
+// Carrier parsing profiles API
+export const parsingProfilesApi = {
+  /**
+   * Get parsing profiles (optionally for one carrier)
+   */
+  getProfiles: async (carrierId?: string): Promise<ParsingProfileItem[]> => {
+    const { data } = await apiClient.get<ApiResponse<ParsingProfileItem[]>>(
+      '/parsing-profiles',
+      { params: { carrierId } }
+    );
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch parsing profiles');
+    }
+    return data.data;
+  },
+
+  createProfile: async (input: ParsingProfileInput): Promise<ParsingProfileItem> => {
+    const { data } = await apiClient.post<ApiResponse<ParsingProfileItem>>('/parsing-profiles', input);
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to create parsing profile');
+    }
+    return data.data;
+  },
+
+  updateProfile: async (id: string, input: Partial<ParsingProfileInput>): Promise<ParsingProfileItem> => {
+    const { data } = await apiClient.put<ApiResponse<ParsingProfileItem>>(`/parsing-profiles/${id}`, input);
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to update parsing profile');
+    }
+    return data.data;
+  },
+
+  deleteProfile: async (id: string): Promise<void> => {
+    await apiClient.delete(`/parsing-profiles/${id}`);
+  },
+
+  /**
+   * Upload a sample file and get its columns with suggested mappings
+   */
+  analyzeSample: async (
+    file: File,
+    options: { delimiter?: string; skipRows?: number } = {}
+  ): Promise<ProfileSampleAnalysis> => {
+    const form = new FormData();
+    form.append('file', file);
+    if (options.delimiter) form.append('delimiter', options.delimiter);
+    if (options.skipRows) form.append('skipRows', String(options.skipRows));
+
+    const { data } = await apiClient.post<ApiResponse<ProfileSampleAnalysis>>(
+      '/parsing-profiles/sample',
+      form,
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to analyze sample file');
+    }
+    return data.data;
+  },
+};
+
+// Location dictionary API
+export const locationsApi = {
+  /**
+   * Get locations with search and pagination
+   */
+  getLocations: async (params: LocationFilterParams = {}): Promise<PaginatedResponse<LocationItem>> => {
+    const { data } = await apiClient.get<PaginatedResponse<LocationItem>>('/locations', { params });
+    return data;
+  },
+
+  createLocation: async (input: LocationInput): Promise<LocationItem> => {
+    const { data } = await apiClient.post<ApiResponse<LocationItem>>('/locations', input);
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to create location');
+    }
+    return data.data;
+  },
+
+  updateLocation: async (id: string, input: Partial<LocationInput>): Promise<LocationItem> => {
+    const { data } = await apiClient.put<ApiResponse<LocationItem>>(`/locations/${id}`, input);
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to update location');
+    }
+    return data.data;
+  },
+
+  deleteLocation: async (id: string): Promise<void> => {
+    await apiClient.delete(`/locations/${id}`);
+  },
+
+  /**
+   * Import ESR station register (XLSX/CSV) or UN/LOCODE CSV
+   */
+  importRegistry: async (
+    file: File,
+    registry: LocationRegistry,
+    options: { transportOnly?: boolean } = {}
+  ): Promise<LocationImportResult> => {
+    const form = new FormData();
+    form.append('file', file);
+    form.append('registry', registry);
+    if (options.transportOnly !== undefined) form.append('transportOnly', String(options.transportOnly));
+
+    const { data } = await apiClient.post<ApiResponse<LocationImportResult>>(
+      '/locations/import',
+      form,
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to import location registry');
+    }
+    return data.data;
+  },
+};
+
+// Review queue API
+export const reviewsApi = {
+  /**
+   * Get review queue items by status
+   */
+  getReviews: async (
+    status: ReviewStatus = 'PENDING',
+    page: number = 1
+  ): Promise<PaginatedResponse<ReviewItem>> => {
+    const { data } = await apiClient.get<PaginatedResponse<ReviewItem>>(
+      '/reviews',
+      { params: { status, page } }
+    );
+    return data;
+  },
+
+  getStats: async (): Promise<Record<ReviewStatus, number>> => {
+    const { data } = await apiClient.get<ApiResponse<Record<ReviewStatus, number>>>('/reviews/stats');
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch review stats');
+    }
+    return data.data;
+  },
+
+  /**
+   * Get review item with full source message
+   */
+  getReview: async (id: string): Promise<ReviewItem> => {
+    const { data } = await apiClient.get<ApiResponse<ReviewItem>>(`/reviews/${id}`);
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch review item');
+    }
+    return data.data;
+  },
+
+  approve: async (id: string, correction: ReviewCorrection): Promise<ReviewItem> => {
+    const { data } = await apiClient.post<ApiResponse<ReviewItem>>(`/reviews/${id}/approve`, correction);
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to approve review item');
+    }
+    return data.data;
+  },
+
+  reject: async (id: string, comment?: string): Promise<ReviewItem> => {
+    const { data } = await apiClient.post<ApiResponse<ReviewItem>>(`/reviews/${id}/reject`, { comment });
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to reject review item');
+    }
+    return data.data;
+  },
+};
+
+// Learned rules API
+export const learnedRulesApi = {
+  /**
+   * Get rules learned from logist corrections
+   */
+  getRules: async (params: LearnedRuleFilterParams = {}): Promise<LearnedRuleItem[]> => {
+    const { data } = await apiClient.get<ApiResponse<LearnedRuleItem[]>>('/learned-rules', { params });
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch learned rules');
+    }
+    return data.data;
+  },
+
+  /**
+   * Get rule with its recent training pairs
+   */
+  getRule: async (id: string): Promise<LearnedRuleItem> => {
+    const { data } = await apiClient.get<ApiResponse<LearnedRuleItem>>(`/learned-rules/${id}`);
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to fetch learned rule');
+    }
+    return data.data;
+  },
+
+  setActive: async (id: string, isActive: boolean): Promise<LearnedRuleItem> => {
+    const { data } = await apiClient.patch<ApiResponse<LearnedRuleItem>>(`/learned-rules/${id}`, { isActive });
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to update learned rule');
+    }
+    return data.data;
+  },
+
+  /**
+   * Make a carrier rule apply to all carriers
+   */
+  promote: async (id: string): Promise<LearnedRuleItem> => {
+    const { data } = await apiClient.post<ApiResponse<LearnedRuleItem>>(`/learned-rules/${id}/promote`);
+    if (!data.success || !data.data) {
+      throw new Error(data.error || 'Failed to promote learned rule');
+    }
+    return data.data;
+  },
+};
+
 export default apiClient;
@@ -21,7 +21,14 @@ import {
   Server,
   Database,
   CheckCircle,
-  ExternalLink
+  ExternalLink,
+  SlidersHorizontal,
+  ClipboardCheck,
+  GraduationCap,
+  MapPin,
+  Boxes,
+  BarChart3,
+  Timer
 } from 'lucide-react';
 import { exportApi } from '../api/client';
 
@@ -98,7 +105,14 @@ export default function Layout() {
   const navItems = [
     { path: '/dashboard', label: 'Дашборд', icon: TrendingUp },
     { path: '/containers', label: 'Контейнеры', icon: Container },
+    { path: '/shipments', label: 'Отгрузки', icon: Boxes },
+    { path: '/analytics/carriers', label: 'Перевозчики', icon: BarChart3 },
+    { path: '/analytics/dwell', label: 'Простои', icon: Timer },
     { path: '/ingest', label: 'Загрузка данных', icon: ArrowDownToLine },
+    { path: '/reviews', label: 'Проверка данных', icon: ClipboardCheck },
+    { path: '/learned-rules', label: 'Обученные правила', icon: GraduationCap },
+    { path: '/parsing-profiles', label: 'Профили разбора', icon: SlidersHorizontal },
+    { path: '/locations', label: 'Локации', icon: MapPin },
     { path: '/test-console', label: 'Тест-консоль', icon: Terminal },
   ];
 
@@ -152,7 +166,7 @@ export default function Layout() {
           {navItems.map((item) => {
             const Icon = item.icon;
             const isActive = location.pathname === item.path || 
-              (item.path === '/containers' && location.pathname.startsWith('/containers/'));
+              (['/containers', '/shipments'].includes(item.path) && location.pathname.startsWith(`${item.path}/`));
             return (
               <Link
                 key={item.path}
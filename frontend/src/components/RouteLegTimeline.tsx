@@ -0,0 +1,90 @@
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Ship, TrainFront, Truck } from 'lucide-react';
+import { RouteProgress, RouteLegItem, TransportMode, TRANSPORT_MODE_LABELS } from '../types';
+
+const MODE_ICONS: Record<TransportMode, React.ReactNode> = {
+  SEA: <Ship className="w-4 h-4" />,
+  RAIL: <TrainFront className="w-4 h-4" />,
+  AUTO: <Truck className="w-4 h-4" />,
+};
+
+const STATE_STYLES: Record<RouteLegItem['state'], string> = {
+  COMPLETED: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/40',
+  ACTIVE: 'bg-brand-500/20 text-brand-400 border-brand-500/40',
+  PLANNED: 'bg-slate-800/50 text-slate-500 border-slate-700/50',
+};
+
+interface RouteLegTimelineProps {
+  route: RouteProgress;
+}
+
+const formatDate = (dateStr: string | null) => {
+  if (!dateStr) return '—';
+  try {
+    return format(new Date(dateStr), 'd MMM', { locale: ru });
+  } catch {
+    return '—';
+  }
+};
+
+// Факт позже плана более чем на сутки — подсвечиваем
+const isLate = (planned: string | null, actual: string | null) =>
+  !!planned && !!actual && new Date(actual).getTime() - new Date(planned).getTime() > 24 * 60 * 60 * 1000;
+
+export default function RouteLegTimeline({ route }: RouteLegTimelineProps) {
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="text-slate-300">
+          {route.progressPercent}% · плечо {route.completedLegs} из {route.legs.length} пройдено
+        </span>
+        {route.remainingKm !== null && (
+          <span className="text-slate-500">осталось {route.remainingKm} км</span>
+        )}
+      </div>
+      <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden mb-4">
+        <div
+          className="h-full rounded-full bg-brand-500"
+          style={{ width: `${route.progressPercent}%` }}
+        />
+      </div>
+
+      <div className="grid gap-3" style={{ gridTemplateColumns: `repeat(${route.legs.length}, minmax(0, 1fr))` }}>
+        {route.legs.map((leg) => (
+          <div key={leg.id} className={`rounded-lg border p-3 ${STATE_STYLES[leg.state]}`}>
+            <div className="flex items-center gap-2 text-sm font-medium mb-1">
+              {MODE_ICONS[leg.mode]}
+              {TRANSPORT_MODE_LABELS[leg.mode]}
+              {leg.distanceKm !== null && (
+                <span className="text-xs text-slate-500 font-normal">{leg.distanceKm} км</span>
+              )}
+            </div>
+            <div className="text-sm text-slate-300 mb-2">
+              {leg.fromPoint} → {leg.toPoint}
+            </div>
+            <div className="text-xs text-slate-500 space-y-0.5">
+              <div>
+                Отправление: {formatDate(leg.plannedDeparture)}
+                {leg.actualDeparture && (
+                  <> / <span className={isLate(leg.plannedDeparture, leg.actualDeparture) ? 'text-amber-400' : 'text-slate-300'}>
+                    {formatDate(leg.actualDeparture)}
+                  </span></>
+                )}
+              </div>
+              <div>
+                Прибытие: {formatDate(leg.plannedArrival)}
+                {leg.actualArrival && (
+                  <> / <span className={isLate(leg.plannedArrival, leg.actualArrival) ? 'text-amber-400' : 'text-slate-300'}>
+                    {formatDate(leg.actualArrival)}
+                  </span></>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="text-xs text-slate-600 mt-2">Даты: план / факт</div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { ShipmentListItem } from '../types';
+
+interface ShipmentProgressProps {
+  shipment: Pick<ShipmentListItem, 'progressPercent' | 'deliveredCount' | 'containerCount'>;
+}
+
+export default function ShipmentProgress({ shipment }: ShipmentProgressProps) {
+  const done = shipment.containerCount > 0 && shipment.deliveredCount === shipment.containerCount;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className={done ? 'text-emerald-400' : 'text-slate-300'}>
+          {shipment.progressPercent}%
+        </span>
+        <span className="text-slate-500">
+          доставлено {shipment.deliveredCount} из {shipment.containerCount}
+        </span>
+      </div>
+      <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full ${done ? 'bg-emerald-500' : 'bg-brand-500'}`}
+          style={{ width: `${shipment.progressPercent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { BarChart3, Download, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+import { analyticsApi } from '../api/client';
+import { CarrierScorecard, CARRIER_TYPE_LABELS } from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+
+const PERIODS = [
+  { days: 30, label: '30 дней' },
+  { days: 90, label: '90 дней' },
+  { days: 180, label: 'Полгода' },
+  { days: 365, label: 'Год' },
+];
+
+const formatPercent = (share: number | null) =>
+  share === null ? '—' : `${Math.round(share * 1000) / 10}%`;
+
+const formatNumber = (value: number | null, unit = '') =>
+  value === null ? '—' : `${value.toLocaleString('ru-RU')}${unit}`;
+
+// Цвет по порогам: хорошо / терпимо / плохо
+const tone = (value: number | null, good: number, bad: number, higherIsBetter = false) => {
+  if (value === null) return 'text-slate-500';
+  const better = higherIsBetter ? value >= good : value <= good;
+  const worse = higherIsBetter ? value < bad : value > bad;
+  if (better) return 'text-emerald-400';
+  if (worse) return 'text-red-400';
+  return 'text-amber-400';
+};
+
+export default function CarrierAnalyticsPage() {
+  const [periodDays, setPeriodDays] = useState(90);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  const params = {
+    from: new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+  };
+
+  const { data, isLoading, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ['carrier-scorecards', { periodDays }],
+    queryFn: () => analyticsApi.getCarrierScorecards(params),
+  });
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const blobUrl = await analyticsApi.downloadCarrierScorecards(params);
+      const a = document.createElement('a');
+      a.href = blobUrl;
+      a.download = `carrier_scorecards_${new Date().toISOString().split('T')[0]}.csv`;
+      a.click();
+      URL.revokeObjectURL(blobUrl);
+    } catch (err) {
+      console.error('Download failed:', err);
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const carriers: CarrierScorecard[] = data?.carriers || [];
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="h-16 border-b border-slate-800/50 flex items-center justify-between px-6 bg-slate-900/30">
+        <div className="flex items-center gap-3">
+          <BarChart3 className="w-5 h-5 text-brand-400" />
+          <h1 className="text-lg font-semibold text-white">Оценка перевозчиков</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-800/50 rounded-lg p-0.5">
+            {PERIODS.map(period => (
+              <button
+                key={period.days}
+                onClick={() => setPeriodDays(period.days)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  periodDays === period.days ? 'bg-brand-500 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {period.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-400 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 rounded-lg transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+            Обновить
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={downloading || carriers.length === 0}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm text-white bg-brand-500 hover:bg-brand-600 disabled:opacity-50 rounded-lg transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto p-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <LoadingSpinner text="Расчёт показателей..." />
+          </div>
+        ) : isError ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-center">
+              <div className="text-red-400 mb-2">Ошибка загрузки</div>
+              <div className="text-sm text-slate-500">
+                {error instanceof Error ? error.message : 'Неизвестная ошибка'}
+              </div>
+            </div>
+          </div>
+        ) : carriers.length === 0 ? (
+          <EmptyState
+            title="Перевозчиков нет"
+            description="Показатели появятся, когда у контейнеров будут указаны перевозчики"
+          />
+        ) : (
+          <div className="bg-slate-900/30 rounded-xl border border-slate-800/50 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>Перевозчик</th>
+                    <th>Контейнеры</th>
+                    <th title="Средняя абсолютная ошибка первого / последнего ETA">Ошибка ETA, дн</th>
+                    <th title="Прибытие в пределах суток от последнего ETA">В срок</th>
+                    <th>В пути, дн</th>
+                    <th title="Событий на контейнер в неделю">Обновления</th>
+                    <th>Макс. перерыв</th>
+                    <th>Ошибки разбора</th>
+                    <th>Низкая уверенность</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {carriers.map(card => (
+                    <CarrierRow
+                      key={card.carrierId}
+                      card={card}
+                      expanded={expanded === card.carrierId}
+                      onToggle={() => setExpanded(expanded === card.carrierId ? null : card.carrierId)}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CarrierRow({ card, expanded, onToggle }: {
+  card: CarrierScorecard;
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <>
+      <tr className="cursor-pointer" onClick={onToggle}>
+        <td>
+          <div className="flex items-center gap-2">
+            {card.transit.length > 0 ? (
+              expanded
+                ? <ChevronDown className="w-4 h-4 text-slate-500" />
+                : <ChevronRight className="w-4 h-4 text-slate-500" />
+            ) : (
+              <span className="w-4" />
+            )}
+            <div>
+              <div className="font-medium text-white">{card.carrierName}</div>
+              <div className="text-xs text-slate-500">{CARRIER_TYPE_LABELS[card.carrierType]}</div>
+            </div>
+          </div>
+        </td>
+        <td className="text-sm text-slate-300">
+          {card.containers}
+          <div className="text-xs text-slate-500">прибыло {card.arrived}</div>
+        </td>
+        <td className="text-sm">
+          <span className="text-slate-400">{formatNumber(card.eta.firstEtaErrorDays)}</span>
+          {' / '}
+          <span className={tone(card.eta.lastEtaErrorDays, 1, 3)}>{formatNumber(card.eta.lastEtaErrorDays)}</span>
+          {card.eta.lastEtaBiasDays !== null && card.eta.lastEtaBiasDays !== 0 && (
+            <div className="text-xs text-slate-500">
+              {card.eta.lastEtaBiasDays > 0 ? 'опаздывает' : 'опережает'} в среднем на {Math.abs(card.eta.lastEtaBiasDays)} дн
+            </div>
+          )}
+        </td>
+        <td className={`text-sm ${tone(card.eta.onTimeShare, 0.8, 0.5, true)}`}>
+          {formatPercent(card.eta.onTimeShare)}
+          {card.eta.samples > 0 && <div className="text-xs text-slate-500">из {card.eta.samples}</div>}
+        </td>
+        <td className="text-sm text-slate-300">{formatNumber(card.avgTransitDays)}</td>
+        <td className="text-sm text-slate-300">
+          {formatNumber(card.updates.perContainerWeekly)} / нед
+          <div className="text-xs text-slate-500">интервал {formatNumber(card.updates.avgIntervalHours, ' ч')}</div>
+        </td>
+        <td className={`text-sm ${tone(card.updates.maxGapDays, 2, 3)}`}>
+          {formatNumber(card.updates.maxGapDays, ' дн')}
+          {card.updates.gapsOverThreshold > 0 && (
+            <div className="text-xs text-slate-500">перерывов &gt; 3 дн: {card.updates.gapsOverThreshold}</div>
+          )}
+        </td>
+        <td className={`text-sm ${tone(card.parsing.failureRate, 0.02, 0.1)}`}>
+          {formatPercent(card.parsing.failureRate)}
+          <div className="text-xs text-slate-500">{card.parsing.failed} из {card.parsing.messages}</div>
+        </td>
+        <td className={`text-sm ${tone(card.confidence.lowConfidenceShare, 0.05, 0.2)}`}>
+          {formatPercent(card.confidence.lowConfidenceShare)}
+          <div className="text-xs text-slate-500">{card.confidence.lowConfidence} из {card.confidence.items}</div>
+        </td>
+      </tr>
+      {expanded && card.transit.length > 0 && (
+        <tr>
+          <td colSpan={9} className="bg-slate-900/50">
+            <div className="text-xs text-slate-500 mb-2">Время в пути по маршрутам</div>
+            <div className="grid grid-cols-3 gap-2">
+              {card.transit.map(route => (
+                <div
+                  key={`${route.originPoint}→${route.destinationPoint}`}
+                  className="flex items-center justify-between text-sm p-2 bg-slate-800/30 rounded-lg"
+                >
+                  <span className="text-slate-300 truncate">
+                    {route.originPoint} → {route.destinationPoint}
+                  </span>
+                  <span className="text-slate-400 whitespace-nowrap ml-2">
+                    {route.avgDays} дн · {route.containers} КТК
+                  </span>
+                </div>
+              ))}
+            </div>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
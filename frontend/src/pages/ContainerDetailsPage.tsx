@@ -18,9 +18,10 @@ import {
   Check
 } from 'lucide-react';
 import { containersApi } from '../api/client';
-import { SourceType, SOURCE_LABELS } from '../types';
+import { SourceType, SOURCE_LABELS, ETA_BASIS_LABELS, CHARGE_KIND_LABELS } from '../types';
 import StatusBadge from '../components/StatusBadge';
 import LoadingSpinner from '../components/LoadingSpinner';
+import RouteLegTimeline from '../components/RouteLegTimeline';
 import { useState } from 'react';
 
 const SOURCE_ICONS: Record<SourceType, React.ReactNode> = {
@@ -133,6 +134,16 @@ export default function ContainerDetailsPage() {
                 {container.carrierName && (
                   <span>Перевозчик: {container.carrierName}</span>
                 )}
+                {container.shipment && (
+                  <Link
+                    to={`/shipments/${container.shipment.id}`}
+                    className="text-brand-400 hover:text-brand-300"
+                  >
+                    {container.shipment.blNumber
+                      ? `B/L ${container.shipment.blNumber}`
+                      : `Букинг ${container.shipment.bookingNumber}`}
+                  </Link>
+                )}
               </div>
             </div>
             <div className="flex items-center gap-3">
@@ -168,6 +179,14 @@ export default function ContainerDetailsPage() {
               <div className="text-slate-400">{container.originPoint || '—'}</div>
               <div className="text-white font-medium">→ {container.destinationPoint || '—'}</div>
             </div>
+            {container.railDispatch && (
+              <div className="text-xs text-slate-500 mt-1">
+                Отправка <span className="font-mono text-slate-300">{container.railDispatch.dispatchNumber}</span>
+                {container.railDispatch.trainIndex && (
+                  <>, поезд <span className="font-mono text-slate-300">{container.railDispatch.trainIndex}</span></>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="bg-slate-800/30 rounded-lg p-4">
@@ -183,6 +202,11 @@ export default function ContainerDetailsPage() {
                 {container.statusHistory[0].distanceToDestinationKm} км до назначения
               </div>
             )}
+            {container.currentWagon && (
+              <div className="text-xs text-slate-500 mt-1">
+                Вагон <span className="font-mono text-slate-300">{container.currentWagon}</span>
+              </div>
+            )}
           </div>
 
           <div className="bg-slate-800/30 rounded-lg p-4">
@@ -193,6 +217,20 @@ export default function ContainerDetailsPage() {
             <div className="text-white font-medium">
               {formatDate(container.lastStatus?.eta)}
             </div>
+            {container.predictedEta && (
+              <div className="text-xs text-slate-500 mt-1">
+                Прогноз <span className="text-slate-300">{formatDate(container.predictedEta.eta)}</span>
+                {' '}({formatDate(container.predictedEta.earliest)} — {formatDate(container.predictedEta.latest)}),{' '}
+                {ETA_BASIS_LABELS[container.predictedEta.basis]}
+              </div>
+            )}
+            {container.voyage && (
+              <div className="text-xs text-slate-500 mt-1">
+                Судно <span className="text-slate-300">{container.voyage.vesselName}</span>, рейс{' '}
+                <span className="font-mono text-slate-300">{container.voyage.voyageNumber}</span>
+                {container.voyage.eta && <>, ETA судна {formatDate(container.voyage.eta)}</>}
+              </div>
+            )}
           </div>
 
           <div className="bg-slate-800/30 rounded-lg p-4">
@@ -260,6 +298,57 @@ export default function ContainerDetailsPage() {
 
       {/* Timeline */}
       <div className="flex-1 overflow-auto p-6">
+        {container.route && (
+          <div className="mb-8">
+            <h2 className="text-lg font-semibold text-white mb-4">Маршрут по плечам</h2>
+            <RouteLegTimeline route={container.route} />
+          </div>
+        )}
+
+        {container.demurrage && (
+          <div className="mb-8">
+            <h2 className="text-lg font-semibold text-white mb-4">
+              Бесплатное время
+              <span className="ml-2 text-sm font-normal text-slate-500">{container.demurrage.agreementName}</span>
+            </h2>
+            <div className="grid grid-cols-3 gap-3">
+              {container.demurrage.clocks.map((clock) => {
+                const charging = clock.chargeableDays > 0;
+                return (
+                  <div
+                    key={clock.kind}
+                    className={`rounded-lg border p-3 ${
+                      charging
+                        ? 'border-red-500/40 bg-red-500/5'
+                        : clock.stoppedAt ? 'border-slate-700/50 bg-slate-800/30' : 'border-amber-500/40 bg-amber-500/5'
+                    }`}
+                  >
+                    <div className="text-sm font-medium text-white mb-1">{CHARGE_KIND_LABELS[clock.kind]}</div>
+                    <div className="text-xs text-slate-500 space-y-0.5">
+                      <div>
+                        {formatDate(clock.startedAt)} — {clock.stoppedAt ? formatDate(clock.stoppedAt) : 'идёт'}
+                      </div>
+                      <div>
+                        {clock.usedDays} из {clock.freeDays} бесплатных дн.
+                        {clock.daysLeft !== null && !charging && <>, осталось {clock.daysLeft}</>}
+                      </div>
+                      <div className={charging ? 'text-red-400' : 'text-slate-300'}>
+                        Начислено {clock.accrued.toLocaleString('ru-RU')} {container.demurrage!.currency}
+                        {clock.expectedStopAt && clock.projected !== clock.accrued && (
+                          <>, к {formatDate(clock.expectedStopAt)} {clock.projected.toLocaleString('ru-RU')} {container.demurrage!.currency}</>
+                        )}
+                      </div>
+                      {clock.expectedStopAt && new Date(clock.expectedStopAt) < new Date() && (
+                        <div className="text-amber-400">Ожидалось завершение {formatDate(clock.expectedStopAt)}</div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         <h2 className="text-lg font-semibold text-white mb-6">История статусов</h2>
 
         {container.statusHistory.length === 0 ? (
@@ -300,6 +389,19 @@ export default function ContainerDetailsPage() {
                         />
                         <div className="flex items-center gap-4 mt-2 text-sm text-slate-400">
                           <span>{formatDateTime(event.eventTime)}</span>
+                          {event.eventClassifier && event.eventClassifier !== 'ACT' && (
+                            <span className="px-2 py-0.5 rounded bg-amber-500/10 text-amber-400 text-xs">
+                              {event.eventClassifier === 'PLN' ? 'План' : 'Прогноз'}
+                            </span>
+                          )}
+                          {event.isRegression && (
+                            <span
+                              className="px-2 py-0.5 rounded bg-red-500/10 text-red-400 text-xs"
+                              title={event.regressionReason || undefined}
+                            >
+                              Не по порядку
+                            </span>
+                          )}
                           <span className="flex items-center gap-1">
                             {SOURCE_ICONS[event.sourceType]}
                             {SOURCE_LABELS[event.sourceType]}
@@ -319,6 +421,23 @@ export default function ContainerDetailsPage() {
                           </div>
                         </div>
                       )}
+                      {event.wagonNumber && (
+                        <div>
+                          <div className="text-slate-500 mb-1">Вагон</div>
+                          <div className="text-white font-mono">
+                            {event.wagonNumber}
+                          </div>
+                        </div>
+                      )}
+                      {event.voyage && (
+                        <div>
+                          <div className="text-slate-500 mb-1">Судно / рейс</div>
+                          <div className="text-white">
+                            {event.voyage.vesselName}{' '}
+                            <span className="font-mono text-slate-400">{event.voyage.voyageNumber}</span>
+                          </div>
+                        </div>
+                      )}
                       {event.distanceToDestinationKm && (
                         <div>
                           <div className="text-slate-500 mb-1">До назначения</div>
@@ -170,7 +170,10 @@ export default function ContainersPage() {
                   </thead>
                   <tbody>
                     {data.data.map((container, index) => {
-                      const overdue = isOverdue(container.lastStatus?.eta || null);
+                      // Без ETA перевозчика — расчётный по скорости
+                      const eta = container.lastStatus?.eta || container.predictedEta?.eta || null;
+                      const predicted = !container.lastStatus?.eta && !!container.predictedEta;
+                      const overdue = isOverdue(eta);
                       const stale = isStale(container.lastStatus?.eventTime || null);
                       
                       return (
@@ -233,11 +236,15 @@ export default function ContainersPage() {
                             </div>
                           </td>
                           <td>
-                            {container.lastStatus?.eta ? (
+                            {eta ? (
                               <div className={`flex items-center gap-2 ${overdue ? 'text-red-400' : 'text-slate-300'}`}>
                                 <Clock className={`w-4 h-4 ${overdue ? 'text-red-400' : 'text-slate-500'}`} />
                                 <span>
-                                  {formatDate(container.lastStatus.eta)}
+                                  {predicted && '≈ '}
+                                  {formatDate(eta)}
+                                  {predicted && (
+                                    <span className="ml-1 text-xs text-slate-500">(прогноз)</span>
+                                  )}
                                   {overdue && (
                                     <span className="ml-1 text-xs">(просрочено)</span>
                                   )}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { 
   Container, 
   Ship, 
@@ -15,63 +15,124 @@ import {
   Download,
   Bell,
   CheckCircle,
-  Activity
+  Activity,
+  Hourglass,
+  ChevronLeft,
+  ChevronRight
 } from 'lucide-react';
-import { containersApi } from '../api/client';
-import { StatusCode, STATUS_LABELS } from '../types';
+import { Link } from 'react-router-dom';
+import { dashboardApi, reportsApi } from '../api/client';
+import {
+  ContainerListItem,
+  DashboardGroup,
+  DashboardList,
+  DashboardSettings,
+  StatusCode,
+  STATUS_LABELS,
+} from '../types';
 import LoadingSpinner from '../components/LoadingSpinner';
 
-// Группировка статусов по этапам
-const STATUS_GROUPS = {
-  'На море': ['LOADED', 'IN_PORT', 'ON_SHIP', 'ON_ANCHORAGE'] as StatusCode[],
-  'В порту назначения': ['ARRIVED_PORT', 'ON_WAREHOUSE', 'CUSTOMS_CLEARED'] as StatusCode[],
-  'На ЖД': ['ON_RAIL', 'RAIL_ARRIVED'] as StatusCode[],
-  'Доставлено': ['DELIVERED', 'ON_AUTO'] as StatusCode[],
+// Этапы считаются на сервере по всем контейнерам
+const GROUP_LABELS: Record<DashboardGroup, string> = {
+  SEA: 'На море',
+  DESTINATION_PORT: 'В порту назначения',
+  RAIL: 'На ЖД',
+  DELIVERED: 'Доставлено',
 };
 
 const GROUP_ICONS = {
-  'На море': Ship,
-  'В порту назначения': Package,
-  'На ЖД': Train,
-  'Доставлено': Container,
+  SEA: Ship,
+  DESTINATION_PORT: Package,
+  RAIL: Train,
+  DELIVERED: Container,
 };
 
 const GROUP_COLORS = {
-  'На море': 'from-blue-500 to-cyan-500',
-  'В порту назначения': 'from-amber-500 to-orange-500',
-  'На ЖД': 'from-orange-500 to-red-500',
-  'Доставлено': 'from-green-500 to-emerald-500',
+  SEA: 'from-blue-500 to-cyan-500',
+  DESTINATION_PORT: 'from-amber-500 to-orange-500',
+  RAIL: 'from-orange-500 to-red-500',
+  DELIVERED: 'from-green-500 to-emerald-500',
 };
 
-// Настройки по умолчанию
-const DEFAULT_SETTINGS = {
+// Размер страницы списков
+const LIST_LIMIT = 8;
+
+// ETA перевозчика, а без него — расчётный
+const arrivalEta = (c: ContainerListItem): { date: Date; predicted: boolean } | null => {
+  if (c.lastStatus?.eta) return { date: new Date(c.lastStatus.eta), predicted: false };
+  if (c.predictedEta) return { date: new Date(c.predictedEta.eta), predicted: true };
+  return null;
+};
+
+const formatMoney = (amount: number, currency: string) =>
+  amount.toLocaleString('ru-RU', { style: 'currency', currency, maximumFractionDigits: 0 });
+
+// Настройки по умолчанию (пока не загружены с сервера)
+const DEFAULT_SETTINGS: DashboardSettings = {
   staleThresholdDays: 3,
   upcomingDays: 7,
   autoRefreshMinutes: 5,
   showDelivered: true,
   notifyOverdue: true,
   notifyStale: true,
+  freeTimeWarningDays: 3,
 };
 
 export default function DashboardPage() {
+  const queryClient = useQueryClient();
   const [showSettings, setShowSettings] = useState(false);
-  const [settings, setSettings] = useState(() => {
-    const saved = localStorage.getItem('dashboardSettings');
-    return saved ? JSON.parse(saved) : DEFAULT_SETTINGS;
+  const [overduePage, setOverduePage] = useState(1);
+  const [stalePage, setStalePage] = useState(1);
+
+  const { data: savedSettings, isLoading: settingsLoading } = useQuery({
+    queryKey: ['dashboard-settings'],
+    queryFn: () => dashboardApi.getSettings(),
   });
+  const settings = savedSettings ?? DEFAULT_SETTINGS;
 
-  const { data, isLoading, refetch, dataUpdatedAt } = useQuery({
-    queryKey: ['containers', { limit: 200 }],
-    queryFn: () => containersApi.getContainers({ limit: 200 }),
+  const { data: summary, isLoading: summaryLoading, refetch, dataUpdatedAt } = useQuery({
+    queryKey: ['dashboard', {
+      staleThresholdDays: settings.staleThresholdDays,
+      upcomingDays: settings.upcomingDays,
+      showDelivered: settings.showDelivered,
+      overduePage,
+      stalePage,
+    }],
+    queryFn: () => dashboardApi.getDashboard({
+      staleThresholdDays: settings.staleThresholdDays,
+      upcomingDays: settings.upcomingDays,
+      showDelivered: settings.showDelivered,
+      limit: LIST_LIMIT,
+      overduePage,
+      stalePage,
+    }),
+    enabled: !settingsLoading,
+    placeholderData: previous => previous,
     refetchInterval: settings.autoRefreshMinutes * 60 * 1000,
   });
 
-  const saveSettings = (newSettings: typeof settings) => {
-    setSettings(newSettings);
-    localStorage.setItem('dashboardSettings', JSON.stringify(newSettings));
-  };
+  const { data: demurrage } = useQuery({
+    queryKey: ['demurrage-report', { warningDays: settings.freeTimeWarningDays }],
+    queryFn: () => reportsApi.getDemurrageReport({ warningDays: settings.freeTimeWarningDays }),
+    refetchInterval: settings.autoRefreshMinutes * 60 * 1000,
+  });
+
+  // Настройки хранятся на сервере у пользователя; экран меняется сразу
+  const settingsMutation = useMutation({
+    mutationFn: (newSettings: DashboardSettings | null) =>
+      newSettings ? dashboardApi.updateSettings(newSettings) : dashboardApi.resetSettings(),
+    onMutate: newSettings => {
+      queryClient.setQueryData(['dashboard-settings'], newSettings ?? DEFAULT_SETTINGS);
+      setOverduePage(1);
+      setStalePage(1);
+    },
+    onSuccess: saved => queryClient.setQueryData(['dashboard-settings'], saved),
+    onError: () => queryClient.invalidateQueries({ queryKey: ['dashboard-settings'] }),
+  });
 
-  if (isLoading) {
+  const saveSettings = (newSettings: DashboardSettings) => settingsMutation.mutate(newSettings);
+
+  if (settingsLoading || summaryLoading || !summary) {
     return (
       <div className="flex-1 flex items-center justify-center">
         <LoadingSpinner size="lg" text="Загрузка статистики..." />
@@ -79,59 +140,31 @@ export default function DashboardPage() {
     );
   }
 
-  const containers = data?.data || [];
-  const activeContainers = settings.showDelivered 
-    ? containers 
-    : containers.filter(c => c.lastStatus?.statusCode !== 'DELIVERED');
-  
   // Подсчёт по группам
-  const groupCounts = Object.entries(STATUS_GROUPS).map(([group, statuses]) => {
-    const count = activeContainers.filter(c => 
-      c.lastStatus && statuses.includes(c.lastStatus.statusCode)
-    ).length;
-    return { group, count };
-  });
+  const groupCounts = (Object.keys(GROUP_LABELS) as DashboardGroup[]).map(group => ({
+    group,
+    count: summary.groups[group],
+  }));
 
-  // Контейнеры с просроченным ETA
-  const overdueContainers = activeContainers.filter(c => {
-    if (!c.lastStatus?.eta) return false;
-    if (c.lastStatus.statusCode === 'DELIVERED') return false;
-    return new Date(c.lastStatus.eta) < new Date();
-  });
-
-  // Контейнеры без обновлений
-  const staleContainers = activeContainers.filter(c => {
-    if (!c.lastStatus?.eventTime) return false;
-    if (c.lastStatus.statusCode === 'DELIVERED') return false;
-    const daysSinceUpdate = (Date.now() - new Date(c.lastStatus.eventTime).getTime()) / (1000 * 60 * 60 * 24);
-    return daysSinceUpdate > settings.staleThresholdDays;
-  });
+  // Просроченные ETA, без обновлений и ближайшие прибытия — страницы с сервера
+  const overdueContainers = summary.overdue.items;
+  const overdueTotal = summary.overdue.pagination.total;
+  const staleContainers = summary.stale.items;
+  const staleTotal = summary.stale.pagination.total;
+  const upcomingArrivals = summary.upcoming.items;
+  const upcomingTotal = summary.upcoming.pagination.total;
 
-  // Ближайшие прибытия
-  const upcomingArrivals = activeContainers
-    .filter(c => {
-      if (!c.lastStatus?.eta) return false;
-      if (c.lastStatus.statusCode === 'DELIVERED') return false;
-      const eta = new Date(c.lastStatus.eta);
-      const now = new Date();
-      const futureDate = new Date(now.getTime() + settings.upcomingDays * 24 * 60 * 60 * 1000);
-      return eta >= now && eta <= futureDate;
-    })
-    .sort((a, b) => 
-      new Date(a.lastStatus!.eta!).getTime() - new Date(b.lastStatus!.eta!).getTime()
-    )
+  // Бесплатное время: истекает скоро или уже идут начисления
+  const freeTimeAlerts = (demurrage?.rows || [])
+    .filter(row => row.expiresSoon || row.clocks.some(clock => !clock.stoppedAt && clock.chargeableDays > 0))
     .slice(0, 8);
 
   // Статистика за сегодня
-  const todayStart = new Date();
-  todayStart.setHours(0, 0, 0, 0);
-  const todayUpdates = containers.filter(c => 
-    c.lastStatus?.eventTime && new Date(c.lastStatus.eventTime) >= todayStart
-  ).length;
+  const todayUpdates = summary.updatedToday;
 
   // Прогресс доставки (% доставленных от общего)
-  const deliveredCount = containers.filter(c => c.lastStatus?.statusCode === 'DELIVERED').length;
-  const deliveryProgress = containers.length > 0 ? Math.round((deliveredCount / containers.length) * 100) : 0;
+  const deliveredCount = summary.delivered;
+  const deliveryProgress = summary.total > 0 ? Math.round((deliveredCount / summary.total) * 100) : 0;
 
   return (
     <div className="flex-1 flex flex-col overflow-auto">
@@ -184,8 +217,8 @@ export default function DashboardPage() {
         <div className="grid grid-cols-5 gap-4">
           {/* Summary cards */}
           {groupCounts.map(({ group, count }, index) => {
-            const Icon = GROUP_ICONS[group as keyof typeof GROUP_ICONS];
-            const colors = GROUP_COLORS[group as keyof typeof GROUP_COLORS];
+            const Icon = GROUP_ICONS[group];
+            const colors = GROUP_COLORS[group];
             return (
               <div 
                 key={group}
@@ -198,7 +231,7 @@ export default function DashboardPage() {
                     <Icon className="w-5 h-5 text-white" />
                   </div>
                   <div className="text-3xl font-bold text-white mb-1">{count}</div>
-                  <div className="text-sm text-slate-400">{group}</div>
+                  <div className="text-sm text-slate-400">{GROUP_LABELS[group]}</div>
                 </div>
               </div>
             );
@@ -236,7 +269,7 @@ export default function DashboardPage() {
             />
           </div>
           <div className="flex justify-between mt-2 text-xs text-slate-500">
-            <span>Всего: {containers.length} контейнеров</span>
+            <span>Всего: {summary.total} контейнеров</span>
             <span>Доставлено: {deliveredCount}</span>
           </div>
         </div>
@@ -245,64 +278,66 @@ export default function DashboardPage() {
         <div className="grid grid-cols-2 gap-4">
           {/* Overdue */}
           <div className={`bg-slate-800/30 rounded-xl border p-5 ${
-            overdueContainers.length > 0 ? 'border-red-500/50' : 'border-slate-700/50'
+            overdueTotal > 0 ? 'border-red-500/50' : 'border-slate-700/50'
           }`}>
             <div className="flex items-center gap-2 mb-4">
-              <AlertCircle className={`w-5 h-5 ${overdueContainers.length > 0 ? 'text-red-400' : 'text-slate-500'}`} />
+              <AlertCircle className={`w-5 h-5 ${overdueTotal > 0 ? 'text-red-400' : 'text-slate-500'}`} />
               <h2 className="font-semibold text-white">Просроченные ETA</h2>
               <span className={`ml-auto px-2 py-0.5 rounded text-sm ${
-                overdueContainers.length > 0 
+                overdueTotal > 0 
                   ? 'bg-red-500/20 text-red-400' 
                   : 'bg-slate-700/50 text-slate-500'
               }`}>
-                {overdueContainers.length}
+                {overdueTotal}
               </span>
             </div>
-            {overdueContainers.length === 0 ? (
+            {overdueTotal === 0 ? (
               <div className="flex items-center gap-2 text-sm text-slate-500">
                 <CheckCircle className="w-4 h-4 text-green-500" />
                 Нет просроченных контейнеров
               </div>
             ) : (
               <div className="space-y-2 max-h-40 overflow-auto">
-                {overdueContainers.slice(0, 8).map(c => {
-                  const daysOverdue = Math.ceil((Date.now() - new Date(c.lastStatus!.eta!).getTime()) / (1000 * 60 * 60 * 24));
+                {overdueContainers.map(c => {
+                  const eta = arrivalEta(c)!;
+                  const daysOverdue = Math.ceil((Date.now() - eta.date.getTime()) / (1000 * 60 * 60 * 24));
                   return (
                     <div key={c.id} className="flex items-center justify-between text-sm p-2 bg-red-500/5 rounded-lg">
                       <span className="font-mono text-slate-300">{c.containerNumber}</span>
                       <span className="text-red-400">
-                        +{daysOverdue} дн.
+                        +{daysOverdue} дн.{eta.predicted && <span className="text-xs text-slate-500"> (прогноз)</span>}
                       </span>
                     </div>
                   );
                 })}
               </div>
             )}
+            <ListPager list={summary.overdue} onPage={setOverduePage} />
           </div>
 
           {/* Stale updates */}
           <div className={`bg-slate-800/30 rounded-xl border p-5 ${
-            staleContainers.length > 0 ? 'border-amber-500/50' : 'border-slate-700/50'
+            staleTotal > 0 ? 'border-amber-500/50' : 'border-slate-700/50'
           }`}>
             <div className="flex items-center gap-2 mb-4">
-              <Clock className={`w-5 h-5 ${staleContainers.length > 0 ? 'text-amber-400' : 'text-slate-500'}`} />
+              <Clock className={`w-5 h-5 ${staleTotal > 0 ? 'text-amber-400' : 'text-slate-500'}`} />
               <h2 className="font-semibold text-white">Нет обновлений {'>'} {settings.staleThresholdDays} дней</h2>
               <span className={`ml-auto px-2 py-0.5 rounded text-sm ${
-                staleContainers.length > 0 
+                staleTotal > 0 
                   ? 'bg-amber-500/20 text-amber-400' 
                   : 'bg-slate-700/50 text-slate-500'
               }`}>
-                {staleContainers.length}
+                {staleTotal}
               </span>
             </div>
-            {staleContainers.length === 0 ? (
+            {staleTotal === 0 ? (
               <div className="flex items-center gap-2 text-sm text-slate-500">
                 <CheckCircle className="w-4 h-4 text-green-500" />
                 Все контейнеры актуальны
               </div>
             ) : (
               <div className="space-y-2 max-h-40 overflow-auto">
-                {staleContainers.slice(0, 8).map(c => {
+                {staleContainers.map(c => {
                   const daysSince = Math.floor((Date.now() - new Date(c.lastStatus!.eventTime).getTime()) / (1000 * 60 * 60 * 24));
                   return (
                     <div key={c.id} className="flex items-center justify-between text-sm p-2 bg-amber-500/5 rounded-lg">
@@ -315,16 +350,69 @@ export default function DashboardPage() {
                 })}
               </div>
             )}
+            <ListPager list={summary.stale} onPage={setStalePage} />
           </div>
         </div>
 
+        {/* Free time */}
+        <div className={`bg-slate-800/30 rounded-xl border p-5 ${
+          freeTimeAlerts.length > 0 ? 'border-amber-500/50' : 'border-slate-700/50'
+        }`}>
+          <div className="flex items-center gap-2 mb-4">
+            <Hourglass className={`w-5 h-5 ${freeTimeAlerts.length > 0 ? 'text-amber-400' : 'text-slate-500'}`} />
+            <h2 className="font-semibold text-white">Демерредж и детеншн</h2>
+            {demurrage && Object.entries(demurrage.totals).map(([currency, total]) => (
+              <span key={currency} className="text-xs text-slate-500">
+                начислено {formatMoney(total.accrued, currency)}, ожидается {formatMoney(total.projected, currency)}
+              </span>
+            ))}
+            <span className={`ml-auto px-2 py-0.5 rounded text-sm ${
+              freeTimeAlerts.length > 0
+                ? 'bg-amber-500/20 text-amber-400'
+                : 'bg-slate-700/50 text-slate-500'
+            }`}>
+              {freeTimeAlerts.length}
+            </span>
+          </div>
+          {freeTimeAlerts.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-slate-500">
+              <CheckCircle className="w-4 h-4 text-green-500" />
+              Бесплатное время не истекает в ближайшие {settings.freeTimeWarningDays} дн.
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              {freeTimeAlerts.map(row => {
+                const running = row.clocks.filter(clock => !clock.stoppedAt);
+                const charging = running.some(clock => clock.chargeableDays > 0);
+                const daysLeft = Math.min(...running.map(clock => clock.daysLeft ?? Infinity));
+                return (
+                  <Link
+                    key={row.containerId}
+                    to={`/containers/${row.containerId}`}
+                    className={`flex items-center justify-between text-sm p-2 rounded-lg ${
+                      charging ? 'bg-red-500/5 hover:bg-red-500/10' : 'bg-amber-500/5 hover:bg-amber-500/10'
+                    }`}
+                  >
+                    <span className="font-mono text-slate-300">{row.containerNumber}</span>
+                    <span className={charging ? 'text-red-400' : 'text-amber-400'}>
+                      {charging
+                        ? `начисляется, ${formatMoney(row.accrued, row.currency)}`
+                        : `осталось ${daysLeft} дн.`}
+                    </span>
+                  </Link>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
         {/* Upcoming arrivals */}
         <div className="bg-slate-800/30 rounded-xl border border-slate-700/50 p-5">
           <div className="flex items-center gap-2 mb-4">
             <MapPin className="w-5 h-5 text-brand-400" />
             <h2 className="font-semibold text-white">Ближайшие прибытия ({settings.upcomingDays} дней)</h2>
             <span className="ml-auto px-2 py-0.5 bg-brand-500/20 text-brand-400 rounded text-sm">
-              {upcomingArrivals.length}
+              {upcomingTotal}
             </span>
           </div>
           {upcomingArrivals.length === 0 ? (
@@ -332,7 +420,7 @@ export default function DashboardPage() {
           ) : (
             <div className="grid grid-cols-2 gap-3">
               {upcomingArrivals.map((c, index) => {
-                const eta = new Date(c.lastStatus!.eta!);
+                const { date: eta, predicted } = arrivalEta(c)!;
                 const daysUntil = Math.ceil((eta.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
                 return (
                   <div 
@@ -358,9 +446,11 @@ export default function DashboardPage() {
                     <div className="text-right">
                       <div className="text-sm text-slate-300">
                         {eta.toLocaleDateString('ru-RU', { day: 'numeric', month: 'short' })}
+                        {predicted && <span className="text-xs text-slate-500"> ≈</span>}
                       </div>
                       <div className="text-xs text-slate-500">
                         {daysUntil === 0 ? 'Сегодня' : daysUntil === 1 ? 'Завтра' : `${daysUntil} дн.`}
+                        {predicted && ', прогноз'}
                       </div>
                     </div>
                   </div>
@@ -375,7 +465,7 @@ export default function DashboardPage() {
           <h2 className="font-semibold text-white mb-4">Детализация по статусам</h2>
           <div className="grid grid-cols-7 gap-3">
             {Object.entries(STATUS_LABELS).map(([code, label]) => {
-              const count = containers.filter(c => c.lastStatus?.statusCode === code).length;
+              const count = summary.byStatus[code as StatusCode] ?? 0;
               if (count === 0) return null;
               return (
                 <div key={code} className="text-center p-3 bg-slate-900/50 rounded-lg hover:bg-slate-800/50 transition-colors">
@@ -436,6 +526,21 @@ export default function DashboardPage() {
                 />
               </div>
               
+              {/* Free time warning */}
+              <div>
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Предупреждать о бесплатном времени (дней до окончания)
+                </label>
+                <input 
+                  type="number"
+                  min="0"
+                  max="30"
+                  value={settings.freeTimeWarningDays}
+                  onChange={(e) => saveSettings({ ...settings, freeTimeWarningDays: parseInt(e.target.value) || 0 })}
+                  className="w-full px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-brand-500"
+                />
+              </div>
+              
               {/* Auto refresh */}
               <div>
                 <label className="block text-sm font-medium text-slate-300 mb-2">
@@ -472,7 +577,7 @@ export default function DashboardPage() {
             <div className="mt-6 pt-4 border-t border-slate-700">
               <button
                 onClick={() => {
-                  saveSettings(DEFAULT_SETTINGS);
+                  settingsMutation.mutate(null);
                 }}
                 className="w-full px-4 py-2 text-sm text-slate-400 hover:text-white transition-colors"
               >
@@ -485,3 +590,29 @@ export default function DashboardPage() {
     </div>
   );
 }
+
+// Переключение страниц списка, если он длиннее страницы
+function ListPager({ list, onPage }: { list: DashboardList; onPage: (page: number) => void }) {
+  const { page, totalPages } = list.pagination;
+  if (totalPages <= 1) return null;
+
+  return (
+    <div className="flex items-center justify-end gap-2 mt-3 text-xs text-slate-500">
+      <button
+        onClick={() => onPage(page - 1)}
+        disabled={page <= 1}
+        className="p-1 rounded hover:bg-slate-700/50 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <span>{page} / {totalPages}</span>
+      <button
+        onClick={() => onPage(page + 1)}
+        disabled={page >= totalPages}
+        className="p-1 rounded hover:bg-slate-700/50 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Timer, RefreshCw, ChevronRight, X } from 'lucide-react';
+import { analyticsApi } from '../api/client';
+import {
+  DurationStats,
+  DwellGroup,
+  DwellGroupBy,
+  DwellStage,
+  DWELL_GROUP_LABELS,
+  DWELL_STAGE_LABELS,
+} from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+
+const PERIODS = [
+  { days: 30, label: '30 дней' },
+  { days: 90, label: '90 дней' },
+  { days: 180, label: 'Полгода' },
+  { days: 365, label: 'Год' },
+];
+
+// До двух суток — в часах, дальше — в сутках
+const formatHours = (hours: number) =>
+  hours < 48 ? `${Math.round(hours)} ч` : `${(Math.round(hours / 2.4) / 10).toLocaleString('ru-RU')} дн`;
+
+const formatDate = (dateStr: string) => {
+  try {
+    return format(new Date(dateStr), 'd MMM yyyy, HH:mm', { locale: ru });
+  } catch {
+    return '—';
+  }
+};
+
+export default function DwellAnalyticsPage() {
+  const [groupBy, setGroupBy] = useState<DwellGroupBy>('location');
+  const [stage, setStage] = useState<DwellStage | ''>('');
+  const [periodDays, setPeriodDays] = useState(90);
+  const [selected, setSelected] = useState<DwellGroup | null>(null);
+
+  const params = {
+    groupBy,
+    stage: stage || undefined,
+    from: new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+  };
+
+  const { data, isLoading, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ['dwell', { groupBy, stage, periodDays }],
+    queryFn: () => analyticsApi.getDwell(params),
+  });
+
+  const { data: samples, isLoading: samplesLoading } = useQuery({
+    queryKey: ['dwell-containers', { groupBy, periodDays, key: selected?.key, stage: selected?.stage }],
+    queryFn: () => analyticsApi.getDwellContainers({ ...params, stage: selected!.stage, key: selected!.key }),
+    enabled: !!selected,
+  });
+
+  const changeFilter = (apply: () => void) => {
+    apply();
+    setSelected(null);
+  };
+
+  const groups = data?.groups || [];
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="h-16 border-b border-slate-800/50 flex items-center justify-between px-6 bg-slate-900/30">
+        <div className="flex items-center gap-3">
+          <Timer className="w-5 h-5 text-brand-400" />
+          <h1 className="text-lg font-semibold text-white">Время в пути и простои</h1>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-800/50 rounded-lg p-0.5">
+            {(Object.keys(DWELL_GROUP_LABELS) as DwellGroupBy[]).map(value => (
+              <button
+                key={value}
+                onClick={() => changeFilter(() => setGroupBy(value))}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  groupBy === value ? 'bg-brand-500 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {DWELL_GROUP_LABELS[value]}
+              </button>
+            ))}
+          </div>
+          <select
+            value={stage}
+            onChange={e => changeFilter(() => setStage(e.target.value as DwellStage | ''))}
+            className="px-3 py-1.5 text-sm bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-brand-500"
+          >
+            <option value="">Все этапы</option>
+            {(Object.keys(DWELL_STAGE_LABELS) as DwellStage[]).map(value => (
+              <option key={value} value={value}>{DWELL_STAGE_LABELS[value]}</option>
+            ))}
+          </select>
+          <select
+            value={periodDays}
+            onChange={e => changeFilter(() => setPeriodDays(Number(e.target.value)))}
+            className="px-3 py-1.5 text-sm bg-slate-800/50 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-brand-500"
+          >
+            {PERIODS.map(period => (
+              <option key={period.days} value={period.days}>{period.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-400 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 rounded-lg transition-colors"
+          >
+            <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </header>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto p-6 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <LoadingSpinner text="Расчёт длительностей..." />
+          </div>
+        ) : isError ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-center">
+              <div className="text-red-400 mb-2">Ошибка загрузки</div>
+              <div className="text-sm text-slate-500">
+                {error instanceof Error ? error.message : 'Неизвестная ошибка'}
+              </div>
+            </div>
+          </div>
+        ) : groups.length === 0 ? (
+          <EmptyState
+            title="Нет завершённых этапов"
+            description="Длительность считается по фактическим статусам: этап учитывается, когда контейнер перешёл к следующему"
+          />
+        ) : (
+          <div className="bg-slate-900/30 rounded-xl border border-slate-800/50 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>{DWELL_GROUP_LABELS[groupBy]}</th>
+                    <th>Этап</th>
+                    <th>Кол-во</th>
+                    <th>Медиана</th>
+                    <th>75%</th>
+                    <th>90%</th>
+                    <th>Макс.</th>
+                    <th>Распределение</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map(group => {
+                    const isSelected = selected?.key === group.key && selected.stage === group.stage;
+                    return (
+                      <tr
+                        key={`${group.key}|${group.stage}`}
+                        onClick={() => setSelected(isSelected ? null : group)}
+                        className={`cursor-pointer ${isSelected ? 'bg-brand-500/10' : ''}`}
+                      >
+                        <td className="font-medium text-white">{group.key}</td>
+                        <td className="text-sm text-slate-300">{DWELL_STAGE_LABELS[group.stage]}</td>
+                        <td className="text-sm text-slate-300">{group.stats.count}</td>
+                        <td className="text-sm text-white">{formatHours(group.stats.p50Hours)}</td>
+                        <td className="text-sm text-slate-300">{formatHours(group.stats.p75Hours)}</td>
+                        <td className="text-sm text-amber-400">{formatHours(group.stats.p90Hours)}</td>
+                        <td className="text-sm text-slate-400">{formatHours(group.stats.maxHours)}</td>
+                        <td><Histogram stats={group.stats} height={24} /></td>
+                        <td><ChevronRight className="w-4 h-4 text-slate-500" /></td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Drill-down */}
+        {selected && (
+          <div className="bg-slate-900/30 rounded-xl border border-slate-800/50 p-5">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-white">
+                  {selected.key} · {DWELL_STAGE_LABELS[selected.stage]}
+                </h2>
+                <div className="text-sm text-slate-500">
+                  {selected.stats.count} этапов, в среднем {formatHours(selected.stats.avgHours)},
+                  от {formatHours(selected.stats.minHours)} до {formatHours(selected.stats.maxHours)}
+                </div>
+              </div>
+              <button
+                onClick={() => setSelected(null)}
+                className="p-1 text-slate-400 hover:text-white rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <Histogram stats={selected.stats} height={120} showAxis />
+
+            <div className="mt-6">
+              {samplesLoading ? (
+                <LoadingSpinner text="Загрузка контейнеров..." />
+              ) : (
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Контейнер</th>
+                      <th>Длительность</th>
+                      <th>Начало</th>
+                      <th>Окончание</th>
+                      <th>{groupBy === 'route' ? 'Локация' : 'Маршрут'}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(samples || []).map(sample => (
+                      <tr key={`${sample.containerId}|${sample.startedAt}`}>
+                        <td>
+                          <Link
+                            to={`/containers/${sample.containerId}`}
+                            className="font-mono font-semibold text-brand-400 hover:text-brand-300"
+                          >
+                            {sample.containerNumber}
+                          </Link>
+                        </td>
+                        <td className="text-sm text-white">{formatHours(sample.hours)}</td>
+                        <td className="text-sm text-slate-400">{formatDate(sample.startedAt)}</td>
+                        <td className="text-sm text-slate-400">{formatDate(sample.endedAt)}</td>
+                        <td className="text-sm text-slate-400">
+                          {groupBy === 'route'
+                            ? sample.location || '—'
+                            : sample.originPoint && sample.destinationPoint
+                              ? `${sample.originPoint} → ${sample.destinationPoint}`
+                              : '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Histogram({ stats, height, showAxis = false }: {
+  stats: DurationStats;
+  height: number;
+  showAxis?: boolean;
+}) {
+  const peak = Math.max(...stats.histogram.map(bucket => bucket.count), 1);
+
+  return (
+    <div>
+      <div className="flex items-end gap-0.5" style={{ height }}>
+        {stats.histogram.map(bucket => (
+          <div
+            key={bucket.fromHours}
+            title={`${formatHours(bucket.fromHours)} – ${formatHours(bucket.toHours)}: ${bucket.count}`}
+            className={`flex-1 min-w-[6px] rounded-t ${
+              bucket.toHours <= stats.p50Hours
+                ? 'bg-emerald-500/70'
+                : bucket.fromHours >= stats.p90Hours ? 'bg-red-500/70' : 'bg-brand-500/70'
+            }`}
+            style={{ height: `${Math.max(bucket.count > 0 ? 4 : 1, (bucket.count / peak) * 100)}%` }}
+          />
+        ))}
+      </div>
+      {showAxis && (
+        <div className="flex justify-between text-xs text-slate-500 mt-1">
+          <span>0</span>
+          <span>{formatHours(stats.histogram[stats.histogram.length - 1].toHours)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
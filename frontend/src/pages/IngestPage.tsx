@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { useMutation } from '@tanstack/react-query';
 import axios from 'axios';
 import { useNavigate } from 'react-router-dom';
@@ -10,6 +10,8 @@ interface ProcessingResult {
   message?: string;
   data?: {
     processed: number;
+    duplicates?: number;
+    pendingReview?: number;
     failed: number;
     events?: Array<{
       id: string;
@@ -60,8 +62,19 @@ export default function IngestPage() {
   const [step, setStep] = useState<ProcessingStep>('idle');
   const [result, setResult] = useState<ProcessingResult | null>(null);
   const [dragOver, setDragOver] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const processData = useCallback(async (data: string | File): Promise<ProcessingResult> => {
+    // Файл (Excel, CSV, .eml) отправляем как multipart/form-data
+    if (data instanceof File) {
+      const formData = new FormData();
+      formData.append('file', data);
+
+      const response = await axios.post<ProcessingResult>(`${API_URL}/ingest`, formData);
+      return response.data;
+    }
 
-  const processData = useCallback(async (data: string): Promise<ProcessingResult> => {
     // Пробуем определить, это JSON или нет
     let parsedContent: unknown = data;
     
@@ -112,7 +125,7 @@ export default function IngestPage() {
 
   // Симуляция шагов для UX
   const handleSubmit = async () => {
-    if (!content.trim()) return;
+    if (!content.trim() && !file) return;
     
     setStep('analyzing');
     await new Promise(r => setTimeout(r, 300));
@@ -121,7 +134,7 @@ export default function IngestPage() {
     await new Promise(r => setTimeout(r, 200));
     
     setStep('saving');
-    ingestMutation.mutate(content);
+    ingestMutation.mutate(file ?? content);
   };
 
   const handlePaste = (e: React.ClipboardEvent) => {
@@ -136,14 +149,32 @@ export default function IngestPage() {
     e.preventDefault();
     setDragOver(false);
     
+    // Перетащенный файл — загружаем как есть, разбор на сервере
+    const droppedFile = e.dataTransfer.files[0];
+    if (droppedFile) {
+      setFile(droppedFile);
+      setContent('');
+      return;
+    }
+    
     const text = e.dataTransfer.getData('text');
     if (text) {
       setContent(text);
     }
   };
 
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    if (selectedFile) {
+      setFile(selectedFile);
+      setContent('');
+    }
+    e.target.value = '';
+  };
+
   const handleReset = () => {
     setContent('');
+    setFile(null);
     setResult(null);
     setStep('idle');
   };
@@ -194,17 +225,54 @@ export default function IngestPage() {
           )}
 
           <div className="p-6">
-            <label className="block text-sm font-medium text-slate-300 mb-3">
-              Данные о контейнерах
-            </label>
-            <textarea
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              onPaste={handlePaste}
-              placeholder={`Вставьте сюда данные в любом формате:
+            <div className="flex items-center justify-between mb-3">
+              <label className="block text-sm font-medium text-slate-300">
+                Данные о контейнерах
+              </label>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isProcessing}
+                className="text-sm text-brand-400 hover:text-brand-300 disabled:opacity-50 transition-colors"
+              >
+                Выбрать файл…
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.xls,.csv,.eml,.edi,.x12,.txt,.json"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+            </div>
+
+            {file ? (
+              <div className="flex items-center justify-between gap-4 bg-slate-950/50 border border-slate-700/50 rounded-xl px-4 py-6">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="text-3xl">📊</span>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-white truncate">{file.name}</p>
+                    <p className="text-xs text-slate-500">{(file.size / 1024).toFixed(1)} КБ</p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setFile(null)}
+                  disabled={isProcessing}
+                  className="text-sm text-slate-400 hover:text-white disabled:opacity-50 transition-colors"
+                >
+                  Убрать
+                </button>
+              </div>
+            ) : (
+              <textarea
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                onPaste={handlePaste}
+                placeholder={`Вставьте сюда данные в любом формате:
 
 • Текст письма от оператора
-• Таблицу из Excel (Ctrl+C → Ctrl+V)
+• Таблицу из Excel (Ctrl+C → Ctrl+V) или сам файл .xlsx/.xls
 • JSON данные
 • CSV строки
 • Список контейнеров с информацией
@@ -217,10 +285,11 @@ ABCD1234567;ON_RAIL;Новосибирск;2800
 EFGH7654321;IN_PORT;Владивосток;0
 ─────────────────────────────────
 [{"containerNumber": "IJKL9999999", "status": "ON_SHIP"}]`}
-              rows={14}
-              disabled={isProcessing}
-              className="w-full bg-slate-950/50 border border-slate-700/50 rounded-xl px-4 py-3 text-sm font-mono text-slate-200 placeholder:text-slate-600 focus:ring-2 focus:ring-brand-500 focus:border-transparent resize-none disabled:opacity-50"
-            />
+                rows={14}
+                disabled={isProcessing}
+                className="w-full bg-slate-950/50 border border-slate-700/50 rounded-xl px-4 py-3 text-sm font-mono text-slate-200 placeholder:text-slate-600 focus:ring-2 focus:ring-brand-500 focus:border-transparent resize-none disabled:opacity-50"
+              />
+            )}
           </div>
 
           {/* Stats bar */}
@@ -241,7 +310,7 @@ EFGH7654321;IN_PORT;Владивосток;0
         <div className="mt-6 flex gap-4">
           <button
             onClick={handleSubmit}
-            disabled={isProcessing || !content.trim()}
+            disabled={isProcessing || (!content.trim() && !file)}
             className="flex-1 bg-gradient-to-r from-brand-500 to-brand-600 hover:from-brand-600 hover:to-brand-700 disabled:from-slate-700 disabled:to-slate-700 disabled:cursor-not-allowed text-white font-semibold py-4 px-8 rounded-xl transition-all duration-200 flex items-center justify-center gap-3 text-lg shadow-lg shadow-brand-500/25 disabled:shadow-none"
           >
             {isProcessing ? (
@@ -259,7 +328,7 @@ EFGH7654321;IN_PORT;Владивосток;0
             )}
           </button>
           
-          {content && (
+          {(content || file) && (
             <button
               onClick={handleReset}
               disabled={isProcessing}
@@ -301,10 +370,22 @@ EFGH7654321;IN_PORT;Владивосток;0
                   <div className="space-y-4">
                     <p className="text-slate-300">
                       Обработано <span className="font-bold text-white">{result.data.processed}</span> контейнеров
+                      {!!result.data.duplicates && (
+                        <span className="text-slate-400 ml-2">({result.data.duplicates} уже были загружены)</span>
+                      )}
                       {result.data.failed > 0 && (
                         <span className="text-amber-400 ml-2">({result.data.failed} с ошибками)</span>
                       )}
                     </p>
+
+                    {!!result.data.pendingReview && (
+                      <button
+                        onClick={() => navigate('/reviews')}
+                        className="text-sm text-amber-400 hover:text-amber-300 transition-colors"
+                      >
+                        {result.data.pendingReview} требуют проверки логистом →
+                      </button>
+                    )}
                     
                     {/* Processed containers */}
                     {result.data.events && result.data.events.length > 0 && (
@@ -436,7 +517,7 @@ EFGH7654321;IN_PORT;Владивосток;0
               <div className="text-3xl mb-3">📊</div>
               <h3 className="font-semibold text-white mb-2">Таблицы Excel/1С</h3>
               <p className="text-sm text-slate-500">
-                Выделите ячейки в Excel и вставьте (Ctrl+V) — данные автоматически распознаются
+                Вставьте ячейки (Ctrl+V) или перетащите файл .xlsx/.xls — заголовки и листы распознаются автоматически
               </p>
             </div>
             
@@ -0,0 +1,252 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { GraduationCap, Globe, Power, ArrowRight } from 'lucide-react';
+import { learnedRulesApi } from '../api/client';
+import {
+  StatusCode,
+  LearnedRuleItem,
+  LearnedRuleKind,
+  STATUS_LABELS,
+  LEARNED_RULE_KIND_LABELS,
+} from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+
+const KIND_TABS: Array<{ kind?: LearnedRuleKind; label: string }> = [
+  { label: 'Все' },
+  { kind: 'LOCATION_ALIAS', label: LEARNED_RULE_KIND_LABELS.LOCATION_ALIAS },
+  { kind: 'STATUS_PHRASE', label: LEARNED_RULE_KIND_LABELS.STATUS_PHRASE },
+  { kind: 'OWNER_CODE', label: LEARNED_RULE_KIND_LABELS.OWNER_CODE },
+];
+
+/** Значение правила в читаемом виде */
+function ruleValueLabel(rule: Pick<LearnedRuleItem, 'kind' | 'value'>): string {
+  return rule.kind === 'STATUS_PHRASE'
+    ? STATUS_LABELS[rule.value as StatusCode] ?? rule.value
+    : rule.value;
+}
+
+export default function LearnedRulesPage() {
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<LearnedRuleKind | undefined>(undefined);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const rulesQuery = useQuery({
+    queryKey: ['learned-rules', kind],
+    queryFn: () => learnedRulesApi.getRules({ kind }),
+  });
+
+  const ruleQuery = useQuery({
+    queryKey: ['learned-rule', selectedId],
+    queryFn: () => learnedRulesApi.getRule(selectedId!),
+    enabled: !!selectedId,
+  });
+
+  const getErrorMessage = (err: unknown): string => {
+    const apiError = (err as { response?: { data?: { error?: string } } })?.response?.data?.error;
+    return apiError || (err instanceof Error ? err.message : 'Неизвестная ошибка');
+  };
+
+  const onChanged = (text: string) => {
+    setError(null);
+    setMessage(text);
+    queryClient.invalidateQueries({ queryKey: ['learned-rules'] });
+    queryClient.invalidateQueries({ queryKey: ['learned-rule'] });
+  };
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => learnedRulesApi.setActive(id, isActive),
+    onSuccess: (rule) => onChanged(rule.isActive ? 'Правило включено' : 'Правило отключено'),
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const promoteMutation = useMutation({
+    mutationFn: (id: string) => learnedRulesApi.promote(id),
+    onSuccess: (rule) => {
+      setSelectedId(rule.id);
+      onChanged('Правило применяется ко всем перевозчикам');
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const isBusy = toggleMutation.isPending || promoteMutation.isPending;
+  const selected = ruleQuery.data;
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="h-16 border-b border-slate-800/50 flex items-center justify-between px-6 bg-slate-900/30">
+        <div className="flex items-center gap-3">
+          <GraduationCap className="w-5 h-5 text-brand-400" />
+          <h1 className="text-lg font-semibold text-white">Обученные правила</h1>
+        </div>
+        <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1">
+          {KIND_TABS.map(tab => (
+            <button
+              key={tab.label}
+              onClick={() => {
+                setKind(tab.kind);
+                setSelectedId(null);
+                setMessage(null);
+              }}
+              className={`
+                px-3 py-1.5 text-sm rounded-md transition-colors
+                ${kind === tab.kind ? 'bg-brand-500/20 text-brand-400' : 'text-slate-400 hover:text-slate-200'}
+              `}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto p-6 space-y-4">
+        {error && (
+          <div className="p-3 bg-red-500/10 rounded-xl border border-red-500/20 text-sm text-red-400">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="p-3 bg-emerald-500/10 rounded-xl border border-emerald-500/20 text-sm text-emerald-400">
+            {message}
+          </div>
+        )}
+
+        {rulesQuery.isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <LoadingSpinner text="Загрузка правил..." />
+          </div>
+        ) : !rulesQuery.data?.length ? (
+          <EmptyState
+            title="Правил пока нет"
+            description="Правила появляются, когда логист исправляет локацию, статус или номер контейнера в очереди проверки."
+          />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Rules */}
+            <div className="lg:col-span-3 bg-slate-900/30 rounded-xl border border-slate-800/30 overflow-hidden">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 border-b border-slate-800/50">
+                    <th className="px-4 py-3 font-medium">Тип</th>
+                    <th className="px-4 py-3 font-medium">Фраза → значение</th>
+                    <th className="px-4 py-3 font-medium">Область</th>
+                    <th className="px-4 py-3 font-medium text-right">Исправлений</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {rulesQuery.data.map(rule => (
+                    <tr
+                      key={rule.id}
+                      onClick={() => {
+                        setSelectedId(rule.id);
+                        setMessage(null);
+                      }}
+                      className={`
+                        border-b border-slate-800/30 cursor-pointer transition-colors
+                        ${selectedId === rule.id ? 'bg-brand-500/10' : 'hover:bg-slate-800/30'}
+                        ${rule.isActive ? '' : 'opacity-50'}
+                      `}
+                    >
+                      <td className="px-4 py-3 text-slate-400">{LEARNED_RULE_KIND_LABELS[rule.kind]}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <span className="font-mono text-slate-300 truncate">{rule.phrase}</span>
+                          <ArrowRight className="w-3.5 h-3.5 text-slate-600 flex-shrink-0" />
+                          <span className="text-white truncate">{ruleValueLabel(rule)}</span>
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-slate-400">
+                        {rule.carrier ? rule.carrier.name : (
+                          <span className="inline-flex items-center gap-1 text-brand-400">
+                            <Globe className="w-3.5 h-3.5" />
+                            Все перевозчики
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right text-slate-300">{rule.hits}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-1">
+                          {rule.carrierId && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                promoteMutation.mutate(rule.id);
+                              }}
+                              disabled={isBusy}
+                              title="Сделать глобальным"
+                              className="p-1.5 text-slate-400 hover:text-brand-400 hover:bg-slate-800/50 disabled:opacity-50 rounded-md transition-colors"
+                            >
+                              <Globe className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleMutation.mutate({ id: rule.id, isActive: !rule.isActive });
+                            }}
+                            disabled={isBusy}
+                            title={rule.isActive ? 'Отключить' : 'Включить'}
+                            className={`
+                              p-1.5 hover:bg-slate-800/50 disabled:opacity-50 rounded-md transition-colors
+                              ${rule.isActive ? 'text-emerald-400 hover:text-red-400' : 'text-slate-500 hover:text-emerald-400'}
+                            `}
+                          >
+                            <Power className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Training pairs */}
+            <div className="bg-slate-900/30 rounded-xl border border-slate-800/30 p-5">
+              {!selectedId ? (
+                <p className="text-sm text-slate-500">Выберите правило, чтобы увидеть исправления, из которых оно выучено.</p>
+              ) : ruleQuery.isLoading || !selected ? (
+                <LoadingSpinner text="Загрузка..." />
+              ) : (
+                <div className="space-y-4">
+                  <div>
+                    <h2 className="text-sm font-semibold text-white">{LEARNED_RULE_KIND_LABELS[selected.kind]}</h2>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {selected.carrier?.name ?? 'Все перевозчики'}
+                      {' · '}
+                      обновлено {format(new Date(selected.updatedAt), 'dd.MM.yyyy HH:mm', { locale: ru })}
+                    </p>
+                  </div>
+                  {(selected.pairs ?? []).map(pair => (
+                    <div key={pair.id} className="border-t border-slate-800/50 pt-3">
+                      <div className="text-xs text-slate-400">
+                        <span className="font-mono">{pair.rawPhrase}</span>
+                        {' → '}
+                        <span className="text-slate-200">{ruleValueLabel({ kind: pair.kind, value: pair.correctedValue })}</span>
+                      </div>
+                      {pair.review && (
+                        <pre className="mt-2 text-[11px] text-slate-500 whitespace-pre-wrap break-words max-h-24 overflow-hidden">
+                          {pair.review.rawSnippet}
+                        </pre>
+                      )}
+                      <div className="text-[10px] text-slate-600 mt-1">
+                        {format(new Date(pair.createdAt), 'dd.MM.yyyy HH:mm', { locale: ru })}
+                        {pair.review?.reviewComment && ` · ${pair.review.reviewComment}`}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,456 @@
+import { useState, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { MapPin, Plus, Upload, Save, Trash2, Search, ChevronLeft, ChevronRight } from 'lucide-react';
+import { locationsApi } from '../api/client';
+import {
+  LocationItem,
+  LocationInput,
+  LocationType,
+  LocationRegistry,
+  LOCATION_TYPE_LABELS,
+  LOCATION_SOURCE_LABELS,
+} from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+
+const TYPE_OPTIONS = Object.entries(LOCATION_TYPE_LABELS) as [LocationType, string][];
+
+const PAGE_SIZE = 50;
+
+interface LocationForm {
+  name: string;
+  type: LocationType;
+  aliases: string;
+  region: string;
+  country: string;
+  unLocode: string;
+  esrCode: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: LocationForm = {
+  name: '',
+  type: 'STATION',
+  aliases: '',
+  region: '',
+  country: 'RU',
+  unLocode: '',
+  esrCode: '',
+  isActive: true,
+};
+
+function locationToForm(location: LocationItem): LocationForm {
+  return {
+    name: location.name,
+    type: location.type,
+    aliases: location.aliases.join(', '),
+    region: location.region || '',
+    country: location.country,
+    unLocode: location.unLocode || '',
+    esrCode: location.esrCode || '',
+    isActive: location.isActive,
+  };
+}
+
+function formToInput(form: LocationForm): LocationInput {
+  return {
+    name: form.name.trim(),
+    type: form.type,
+    aliases: form.aliases.split(/[,\n]/).map(alias => alias.trim()).filter(Boolean),
+    region: form.region.trim() || null,
+    country: form.country.trim().toUpperCase(),
+    unLocode: form.unLocode.trim().toUpperCase() || null,
+    esrCode: form.esrCode.trim() || null,
+    isActive: form.isActive,
+  };
+}
+
+export default function LocationsPage() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [search, setSearch] = useState('');
+  const [type, setType] = useState<LocationType | ''>('');
+  const [page, setPage] = useState(1);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<LocationForm>(EMPTY_FORM);
+  const [registry, setRegistry] = useState<LocationRegistry>('esr');
+  const [transportOnly, setTransportOnly] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const locationsQuery = useQuery({
+    queryKey: ['locations', search, type, page],
+    queryFn: () => locationsApi.getLocations({
+      search: search.trim() || undefined,
+      type: type || undefined,
+      page,
+      limit: PAGE_SIZE,
+    }),
+  });
+
+  const resetEditor = (location: LocationItem | null) => {
+    setSelectedId(location?.id ?? null);
+    setForm(location ? locationToForm(location) : EMPTY_FORM);
+    setError(null);
+    setMessage(null);
+  };
+
+  const getErrorMessage = (err: unknown) => {
+    const apiError = (err as { response?: { data?: { error?: string } } }).response?.data?.error;
+    return apiError || (err instanceof Error ? err.message : 'Неизвестная ошибка');
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: LocationInput) => selectedId
+      ? locationsApi.updateLocation(selectedId, input)
+      : locationsApi.createLocation(input),
+    onSuccess: (location) => {
+      setSelectedId(location.id);
+      setError(null);
+      setMessage(`Локация "${location.name}" сохранена`);
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => locationsApi.deleteLocation(id),
+    onSuccess: () => {
+      resetEditor(null);
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) => locationsApi.importRegistry(file, registry, {
+      transportOnly: registry === 'unlocode' ? transportOnly : undefined,
+    }),
+    onSuccess: (result) => {
+      setError(null);
+      setMessage(
+        `Импорт: ${result.total} записей, ${result.created} новых, ${result.updated} обновлено`
+        + (result.skipped > 0 ? `, пропущено ${result.skipped}` : '')
+      );
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) importMutation.mutate(file);
+  };
+
+  const handleSave = () => {
+    if (!form.name.trim()) {
+      setError('Укажите название');
+      return;
+    }
+    saveMutation.mutate(formToInput(form));
+  };
+
+  const updateForm = (patch: Partial<LocationForm>) => {
+    setForm(prev => ({ ...prev, ...patch }));
+    setMessage(null);
+  };
+
+  const isBusy = saveMutation.isPending || deleteMutation.isPending || importMutation.isPending;
+  const pagination = locationsQuery.data?.pagination;
+
+  const inputClass = 'mt-1 w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder:text-slate-600';
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="h-16 border-b border-slate-800/50 flex items-center justify-between px-6 bg-slate-900/30">
+        <div className="flex items-center gap-3">
+          <MapPin className="w-5 h-5 text-brand-400" />
+          <h1 className="text-lg font-semibold text-white">Справочник локаций</h1>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+            <input
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              placeholder="Название, код ЕСР, UN/LOCODE"
+              className="pl-9 pr-4 py-2 w-72 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder:text-slate-500 focus:border-brand-500/50 transition-colors"
+            />
+          </div>
+          <select
+            value={type}
+            onChange={(e) => {
+              setType(e.target.value as LocationType | '');
+              setPage(1);
+            }}
+            className="px-4 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white cursor-pointer"
+          >
+            <option value="">Все типы</option>
+            {TYPE_OPTIONS.map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto p-6">
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          {/* Locations */}
+          <div className="lg:col-span-3">
+            {locationsQuery.isLoading ? (
+              <div className="flex items-center justify-center h-64">
+                <LoadingSpinner text="Загрузка справочника..." />
+              </div>
+            ) : !locationsQuery.data?.data.length ? (
+              <EmptyState
+                title="Локации не найдены"
+                description="Добавьте локацию вручную или импортируйте реестр станций ЕСР / файл UN/LOCODE."
+              />
+            ) : (
+              <div className="bg-slate-900/30 rounded-xl border border-slate-800/30 overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-slate-500 border-b border-slate-800/50">
+                      <th className="px-4 py-3 font-medium">Название</th>
+                      <th className="px-4 py-3 font-medium">Тип</th>
+                      <th className="px-4 py-3 font-medium">Коды</th>
+                      <th className="px-4 py-3 font-medium">Регион</th>
+                      <th className="px-4 py-3 font-medium">Источник</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {locationsQuery.data.data.map(location => (
+                      <tr
+                        key={location.id}
+                        onClick={() => resetEditor(location)}
+                        className={`
+                          border-b border-slate-800/30 cursor-pointer transition-colors
+                          ${selectedId === location.id ? 'bg-brand-500/10' : 'hover:bg-slate-800/30'}
+                          ${location.isActive ? '' : 'opacity-50'}
+                        `}
+                      >
+                        <td className="px-4 py-3">
+                          <div className="text-slate-200">{location.name}</div>
+                          {location.aliases.length > 0 && (
+                            <div className="text-xs text-slate-500 truncate max-w-xs">{location.aliases.join(', ')}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-slate-400">{LOCATION_TYPE_LABELS[location.type]}</td>
+                        <td className="px-4 py-3 font-mono text-xs text-slate-400">
+                          {[location.esrCode, location.unLocode].filter(Boolean).join(' · ') || '—'}
+                        </td>
+                        <td className="px-4 py-3 text-slate-400">
+                          {[location.region, location.country].filter(Boolean).join(', ')}
+                        </td>
+                        <td className="px-4 py-3 text-xs text-slate-500">{LOCATION_SOURCE_LABELS[location.source]}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                {pagination && pagination.totalPages > 1 && (
+                  <div className="flex items-center justify-between px-4 py-3 text-sm text-slate-400">
+                    <span>Всего: {pagination.total}</span>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setPage(p => Math.max(1, p - 1))}
+                        disabled={page <= 1}
+                        className="p-1.5 hover:bg-slate-800/50 disabled:opacity-40 rounded-md transition-colors"
+                      >
+                        <ChevronLeft className="w-4 h-4" />
+                      </button>
+                      <span>{page} / {pagination.totalPages}</span>
+                      <button
+                        onClick={() => setPage(p => Math.min(pagination.totalPages, p + 1))}
+                        disabled={page >= pagination.totalPages}
+                        className="p-1.5 hover:bg-slate-800/50 disabled:opacity-40 rounded-md transition-colors"
+                      >
+                        <ChevronRight className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            {/* Editor */}
+            <div className="bg-slate-900/30 rounded-xl border border-slate-800/30 p-5 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-semibold text-white">
+                  {selectedId ? 'Локация' : 'Новая локация'}
+                </h2>
+                {selectedId && (
+                  <button
+                    onClick={() => resetEditor(null)}
+                    className="flex items-center gap-1 text-xs text-brand-400 hover:text-brand-300"
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                    Новая
+                  </button>
+                )}
+              </div>
+              <label className="block">
+                <span className="text-xs text-slate-400">Название</span>
+                <input
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="Гончарово"
+                  className={inputClass}
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-xs text-slate-400">Тип</span>
+                  <select
+                    value={form.type}
+                    onChange={(e) => updateForm({ type: e.target.value as LocationType })}
+                    className={inputClass}
+                  >
+                    {TYPE_OPTIONS.map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  <span className="text-xs text-slate-400">Страна</span>
+                  <input
+                    value={form.country}
+                    onChange={(e) => updateForm({ country: e.target.value })}
+                    maxLength={2}
+                    placeholder="RU"
+                    className={`${inputClass} uppercase`}
+                  />
+                </label>
+              </div>
+              <label className="block">
+                <span className="text-xs text-slate-400">Варианты написания (через запятую)</span>
+                <textarea
+                  value={form.aliases}
+                  onChange={(e) => updateForm({ aliases: e.target.value })}
+                  rows={2}
+                  placeholder="гончарово, goncharovo"
+                  className={inputClass}
+                />
+              </label>
+              <label className="block">
+                <span className="text-xs text-slate-400">Регион</span>
+                <input
+                  value={form.region}
+                  onChange={(e) => updateForm({ region: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-xs text-slate-400">Код ЕСР</span>
+                  <input
+                    value={form.esrCode}
+                    onChange={(e) => updateForm({ esrCode: e.target.value })}
+                    placeholder="850609"
+                    className={`${inputClass} font-mono`}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs text-slate-400">UN/LOCODE</span>
+                  <input
+                    value={form.unLocode}
+                    onChange={(e) => updateForm({ unLocode: e.target.value })}
+                    placeholder="RUVVO"
+                    className={`${inputClass} font-mono uppercase`}
+                  />
+                </label>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => updateForm({ isActive: e.target.checked })}
+                  className="rounded border-slate-600 bg-slate-800"
+                />
+                Используется при распознавании
+              </label>
+
+              <div className="flex gap-3 pt-1">
+                <button
+                  onClick={handleSave}
+                  disabled={isBusy}
+                  className="flex items-center gap-2 px-5 py-2 bg-brand-500 hover:bg-brand-600 disabled:bg-slate-700 text-white text-sm font-semibold rounded-lg transition-colors"
+                >
+                  <Save className="w-4 h-4" />
+                  Сохранить
+                </button>
+                {selectedId && (
+                  <button
+                    onClick={() => deleteMutation.mutate(selectedId)}
+                    disabled={isBusy}
+                    className="flex items-center gap-2 px-3 py-2 text-sm text-red-400 hover:text-red-300 bg-slate-800/50 hover:bg-slate-700/50 disabled:opacity-50 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Import */}
+            <div className="bg-slate-900/30 rounded-xl border border-slate-800/30 p-5 space-y-4">
+              <h2 className="text-sm font-semibold text-white">Импорт реестра</h2>
+              <select
+                value={registry}
+                onChange={(e) => setRegistry(e.target.value as LocationRegistry)}
+                className={inputClass}
+              >
+                <option value="esr">Реестр станций ЕСР (XLSX / CSV)</option>
+                <option value="unlocode">UN/LOCODE (CSV UNECE)</option>
+              </select>
+              {registry === 'unlocode' && (
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={transportOnly}
+                    onChange={(e) => setTransportOnly(e.target.checked)}
+                    className="rounded border-slate-600 bg-slate-800"
+                  />
+                  Только порты и ЖД
+                </label>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx,.xls,.txt"
+                onChange={handleFileSelect}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-medium text-brand-400 bg-brand-500/10 hover:bg-brand-500/20 disabled:opacity-50 rounded-lg transition-colors"
+              >
+                <Upload className="w-4 h-4" />
+                {importMutation.isPending ? 'Импорт...' : 'Выбрать файл'}
+              </button>
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-500/10 rounded-xl border border-red-500/20 text-sm text-red-400">
+                {error}
+              </div>
+            )}
+            {message && (
+              <div className="p-3 bg-emerald-500/10 rounded-xl border border-emerald-500/20 text-sm text-emerald-400">
+                {message}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,581 @@
+import { useState, useRef, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  SlidersHorizontal,
+  Plus,
+  Upload,
+  Save,
+  Trash2,
+  ChevronRight,
+  AlertTriangle,
+} from 'lucide-react';
+import { carriersApi, parsingProfilesApi } from '../api/client';
+import {
+  StatusCode,
+  ProfileField,
+  ParsingProfileItem,
+  ParsingProfileInput,
+  ProfileSampleAnalysis,
+  STATUS_LABELS,
+  PROFILE_FIELD_LABELS,
+} from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+
+const FIELD_OPTIONS = Object.entries(PROFILE_FIELD_LABELS) as [ProfileField, string][];
+const STATUS_OPTIONS = Object.entries(STATUS_LABELS) as [StatusCode, string][];
+
+/** Колонки, значения которых попадают в словарь статусов */
+const STATUS_FIELDS: ProfileField[] = ['statusCode', 'statusText'];
+
+interface ProfileForm {
+  name: string;
+  isActive: boolean;
+  emailDomains: string;
+  dateFormats: string;
+  delimiter: string;
+  skipRows: string;
+  skipIfMatches: string;
+  skipIfEmpty: string[];
+  columnMappings: Record<string, ProfileField | ''>;
+  statusDictionary: Record<string, StatusCode | ''>;
+}
+
+const EMPTY_FORM: ProfileForm = {
+  name: '',
+  isActive: true,
+  emailDomains: '',
+  dateFormats: '',
+  delimiter: '',
+  skipRows: '',
+  skipIfMatches: '',
+  skipIfEmpty: [],
+  columnMappings: {},
+  statusDictionary: {},
+};
+
+const splitList = (value: string, separator: RegExp = /[,\n]/) =>
+  value.split(separator).map(item => item.trim()).filter(Boolean);
+
+function profileToForm(profile: ParsingProfileItem): ProfileForm {
+  return {
+    name: profile.name,
+    isActive: profile.isActive,
+    emailDomains: profile.emailDomains.join(', '),
+    dateFormats: profile.dateFormats.join(', '),
+    delimiter: profile.delimiter || '',
+    skipRows: profile.skipRules?.skipRows ? String(profile.skipRules.skipRows) : '',
+    skipIfMatches: (profile.skipRules?.skipIfMatches || []).join('\n'),
+    skipIfEmpty: profile.skipRules?.skipIfEmpty || [],
+    columnMappings: { ...profile.columnMappings },
+    statusDictionary: { ...(profile.statusDictionary || {}) },
+  };
+}
+
+function formToInput(form: ProfileForm, carrierId: string): ParsingProfileInput {
+  const columnMappings = Object.fromEntries(
+    Object.entries(form.columnMappings).filter(([, field]) => field)
+  ) as Record<string, ProfileField>;
+  const statusDictionary = Object.fromEntries(
+    Object.entries(form.statusDictionary).filter(([, code]) => code)
+  ) as Record<string, StatusCode>;
+  const skipRows = parseInt(form.skipRows, 10);
+  const skipIfMatches = splitList(form.skipIfMatches, /\n/);
+
+  return {
+    carrierId,
+    name: form.name.trim(),
+    isActive: form.isActive,
+    emailDomains: splitList(form.emailDomains),
+    dateFormats: splitList(form.dateFormats),
+    delimiter: form.delimiter || null,
+    columnMappings,
+    statusDictionary: Object.keys(statusDictionary).length > 0 ? statusDictionary : null,
+    skipRules: skipRows > 0 || skipIfMatches.length > 0 || form.skipIfEmpty.length > 0
+      ? {
+          skipRows: skipRows > 0 ? skipRows : undefined,
+          skipIfEmpty: form.skipIfEmpty.length > 0 ? form.skipIfEmpty : undefined,
+          skipIfMatches: skipIfMatches.length > 0 ? skipIfMatches : undefined,
+        }
+      : null,
+  };
+}
+
+function formatCell(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return String(value);
+}
+
+export default function ParsingProfilesPage() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [carrierId, setCarrierId] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM);
+  const [sample, setSample] = useState<ProfileSampleAnalysis | null>(null);
+  const [sampleFile, setSampleFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const carriersQuery = useQuery({
+    queryKey: ['carriers'],
+    queryFn: () => carriersApi.getCarriers(),
+  });
+
+  const profilesQuery = useQuery({
+    queryKey: ['parsing-profiles', carrierId],
+    queryFn: () => parsingProfilesApi.getProfiles(carrierId),
+    enabled: !!carrierId,
+  });
+
+  // По умолчанию выбираем первого перевозчика
+  useEffect(() => {
+    if (!carrierId && carriersQuery.data?.length) {
+      setCarrierId(carriersQuery.data[0].id);
+    }
+  }, [carrierId, carriersQuery.data]);
+
+  const resetEditor = (profile: ParsingProfileItem | null) => {
+    setSelectedId(profile?.id ?? null);
+    setForm(profile ? profileToForm(profile) : EMPTY_FORM);
+    setSample(null);
+    setSampleFile(null);
+    setError(null);
+    setMessage(null);
+  };
+
+  const getErrorMessage = (err: unknown) => {
+    const apiError = (err as { response?: { data?: { error?: string } } }).response?.data?.error;
+    return apiError || (err instanceof Error ? err.message : 'Неизвестная ошибка');
+  };
+
+  const sampleMutation = useMutation({
+    mutationFn: (file: File) => parsingProfilesApi.analyzeSample(file, {
+      delimiter: form.delimiter || undefined,
+      skipRows: parseInt(form.skipRows, 10) || undefined,
+    }),
+    onSuccess: (analysis) => {
+      setSample(analysis);
+      setError(null);
+      setForm(prev => {
+        // Сохранённый маппинг важнее предложенного
+        const columnMappings: ProfileForm['columnMappings'] = {};
+        for (const header of analysis.headers) {
+          columnMappings[header] = prev.columnMappings[header] || analysis.suggestedMappings[header] || '';
+        }
+        return {
+          ...prev,
+          delimiter: prev.delimiter || (analysis.format === 'csv' ? analysis.delimiter || '' : ''),
+          columnMappings: { ...prev.columnMappings, ...columnMappings },
+        };
+      });
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (input: ParsingProfileInput) => selectedId
+      ? parsingProfilesApi.updateProfile(selectedId, input)
+      : parsingProfilesApi.createProfile(input),
+    onSuccess: (profile) => {
+      setSelectedId(profile.id);
+      setError(null);
+      setMessage(`Профиль "${profile.name}" сохранён`);
+      queryClient.invalidateQueries({ queryKey: ['parsing-profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['carriers'] });
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => parsingProfilesApi.deleteProfile(id),
+    onSuccess: () => {
+      resetEditor(null);
+      queryClient.invalidateQueries({ queryKey: ['parsing-profiles'] });
+      queryClient.invalidateQueries({ queryKey: ['carriers'] });
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const handleSampleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setSampleFile(file);
+    sampleMutation.mutate(file);
+  };
+
+  const handleSave = () => {
+    if (!carrierId) {
+      setError('Выберите перевозчика');
+      return;
+    }
+    if (!form.name.trim()) {
+      setError('Укажите название профиля');
+      return;
+    }
+    saveMutation.mutate(formToInput(form, carrierId));
+  };
+
+  const updateForm = (patch: Partial<ProfileForm>) => {
+    setForm(prev => ({ ...prev, ...patch }));
+    setMessage(null);
+  };
+
+  const setMapping = (header: string, field: ProfileField | '') => {
+    updateForm({ columnMappings: { ...form.columnMappings, [header]: field } });
+  };
+
+  const toggleRequired = (header: string) => {
+    updateForm({
+      skipIfEmpty: form.skipIfEmpty.includes(header)
+        ? form.skipIfEmpty.filter(column => column !== header)
+        : [...form.skipIfEmpty, header],
+    });
+  };
+
+  const setStatus = (phrase: string, code: StatusCode | '') => {
+    updateForm({ statusDictionary: { ...form.statusDictionary, [phrase]: code } });
+  };
+
+  // Колонки: из образца, иначе из сохранённого маппинга
+  const headers = sample?.headers ?? Object.keys(form.columnMappings);
+
+  // Фразы для словаря статусов: значения колонок статуса из образца + уже сохранённые
+  const statusColumns = headers.filter(header => STATUS_FIELDS.includes(form.columnMappings[header] as ProfileField));
+  const statusPhrases = [...new Set([
+    ...statusColumns.flatMap(header => sample?.distinctValues[header] ?? []),
+    ...Object.keys(form.statusDictionary),
+  ])];
+
+  const isBusy = saveMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="h-16 border-b border-slate-800/50 flex items-center justify-between px-6 bg-slate-900/30">
+        <div className="flex items-center gap-3">
+          <SlidersHorizontal className="w-5 h-5 text-brand-400" />
+          <h1 className="text-lg font-semibold text-white">Профили разбора</h1>
+        </div>
+        <div className="relative">
+          <select
+            value={carrierId}
+            onChange={(e) => {
+              setCarrierId(e.target.value);
+              resetEditor(null);
+            }}
+            className="appearance-none pl-4 pr-10 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white cursor-pointer hover:border-slate-600/50 focus:border-brand-500/50 transition-colors"
+          >
+            {!carriersQuery.data?.length && <option value="">Нет перевозчиков</option>}
+            {carriersQuery.data?.map(carrier => (
+              <option key={carrier.id} value={carrier.id}>
+                {carrier.name}
+              </option>
+            ))}
+          </select>
+          <ChevronRight className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500 rotate-90 pointer-events-none" />
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto p-6">
+        {carriersQuery.isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <LoadingSpinner text="Загрузка перевозчиков..." />
+          </div>
+        ) : !carriersQuery.data?.length ? (
+          <EmptyState
+            title="Нет перевозчиков"
+            description="Профиль разбора привязывается к перевозчику. Добавьте перевозчика в справочник."
+          />
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Profiles list */}
+            <div className="space-y-2">
+              <button
+                onClick={() => resetEditor(null)}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2.5 text-sm font-medium text-brand-400 bg-brand-500/10 hover:bg-brand-500/20 rounded-lg transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Новый профиль
+              </button>
+              {profilesQuery.isLoading && <LoadingSpinner text="Загрузка..." />}
+              {profilesQuery.data?.map(profile => (
+                <button
+                  key={profile.id}
+                  onClick={() => resetEditor(profile)}
+                  className={`
+                    w-full text-left px-4 py-3 rounded-lg border transition-colors
+                    ${selectedId === profile.id
+                      ? 'border-brand-500/50 bg-brand-500/10'
+                      : 'border-slate-800/50 bg-slate-900/30 hover:bg-slate-800/50'}
+                  `}
+                >
+                  <div className="text-sm font-medium text-slate-200">{profile.name}</div>
+                  <div className="text-xs text-slate-500 mt-0.5">
+                    {Object.keys(profile.columnMappings).length} колонок
+                    {!profile.isActive && ' · отключён'}
+                  </div>
+                </button>
+              ))}
+              {profilesQuery.data?.length === 0 && (
+                <p className="text-sm text-slate-500 text-center py-4">Профилей пока нет</p>
+              )}
+            </div>
+
+            {/* Editor */}
+            <div className="lg:col-span-3 space-y-6">
+              {/* General settings */}
+              <div className="bg-slate-900/30 rounded-xl border border-slate-800/30 p-5 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <label className="block">
+                  <span className="text-xs text-slate-400">Название</span>
+                  <input
+                    value={form.name}
+                    onChange={(e) => updateForm({ name: e.target.value })}
+                    placeholder="Дислокация КТК (Excel)"
+                    className="mt-1 w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder:text-slate-600"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs text-slate-400">Домены отправителей (через запятую)</span>
+                  <input
+                    value={form.emailDomains}
+                    onChange={(e) => updateForm({ emailDomains: e.target.value })}
+                    placeholder="rzdlog.ru, fesco.ru"
+                    className="mt-1 w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder:text-slate-600"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs text-slate-400">Форматы дат (через запятую)</span>
+                  <input
+                    value={form.dateFormats}
+                    onChange={(e) => updateForm({ dateFormats: e.target.value })}
+                    placeholder="DD.MM.YYYY HH:mm, DD.MM.YY"
+                    className="mt-1 w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder:text-slate-600 font-mono"
+                  />
+                </label>
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block">
+                    <span className="text-xs text-slate-400">Разделитель CSV</span>
+                    <input
+                      value={form.delimiter}
+                      onChange={(e) => updateForm({ delimiter: e.target.value })}
+                      placeholder="авто"
+                      maxLength={1}
+                      className="mt-1 w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder:text-slate-600 font-mono"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-xs text-slate-400">Пропустить строк сверху</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={form.skipRows}
+                      onChange={(e) => updateForm({ skipRows: e.target.value })}
+                      placeholder="0"
+                      className="mt-1 w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder:text-slate-600"
+                    />
+                  </label>
+                </div>
+                <label className="block">
+                  <span className="text-xs text-slate-400">Пропускать строки по шаблону (регулярное выражение, по одному в строке)</span>
+                  <textarea
+                    value={form.skipIfMatches}
+                    onChange={(e) => updateForm({ skipIfMatches: e.target.value })}
+                    placeholder="^Итого"
+                    rows={2}
+                    className="mt-1 w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder:text-slate-600 font-mono resize-none"
+                  />
+                </label>
+                <label className="flex items-center gap-2 self-end pb-2">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={(e) => updateForm({ isActive: e.target.checked })}
+                    className="rounded border-slate-600 bg-slate-800"
+                  />
+                  <span className="text-sm text-slate-300">Применять автоматически</span>
+                </label>
+              </div>
+
+              {/* Sample + column mapping */}
+              <div className="bg-slate-900/30 rounded-xl border border-slate-800/30 p-5">
+                <div className="flex items-center justify-between mb-4">
+                  <div>
+                    <h2 className="text-sm font-semibold text-white">Колонки</h2>
+                    <p className="text-xs text-slate-500 mt-0.5">
+                      {sample
+                        ? `${sampleFile?.name} · заголовки в строке ${sample.headerRow}${sample.sheetName ? ` · лист "${sample.sheetName}"` : ''}`
+                        : 'Загрузите образец файла перевозчика, чтобы сопоставить колонки'}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={sampleMutation.isPending}
+                    className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-300 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 disabled:opacity-50 rounded-lg transition-colors"
+                  >
+                    <Upload className="w-4 h-4" />
+                    {sampleMutation.isPending ? 'Разбор...' : 'Образец файла'}
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".xlsx,.xls,.csv,.txt"
+                    onChange={handleSampleSelect}
+                    className="hidden"
+                  />
+                </div>
+
+                {sample?.warnings.map((warning, i) => (
+                  <div key={i} className="flex items-center gap-2 text-xs text-amber-400 mb-2">
+                    <AlertTriangle className="w-3.5 h-3.5" />
+                    {warning}
+                  </div>
+                ))}
+
+                {headers.length > 0 ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-slate-500 border-b border-slate-800/50">
+                        <th className="py-2 font-medium">Колонка в файле</th>
+                        {sample && <th className="py-2 font-medium">Пример</th>}
+                        <th className="py-2 font-medium">Поле</th>
+                        <th className="py-2 font-medium text-center">Обязательна</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {headers.map(header => (
+                        <tr key={header} className="border-b border-slate-800/30">
+                          <td className="py-2 pr-4 text-slate-200">{header}</td>
+                          {sample && (
+                            <td className="py-2 pr-4 text-slate-500 truncate max-w-[200px]">
+                              {formatCell(sample.rows.find(row => row[header] !== undefined)?.[header])}
+                            </td>
+                          )}
+                          <td className="py-2 pr-4">
+                            <select
+                              value={form.columnMappings[header] || ''}
+                              onChange={(e) => setMapping(header, e.target.value as ProfileField | '')}
+                              className="w-full px-2 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white"
+                            >
+                              <option value="">— по названию —</option>
+                              {FIELD_OPTIONS.map(([field, label]) => (
+                                <option key={field} value={field}>{label}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="py-2 text-center">
+                            <input
+                              type="checkbox"
+                              checked={form.skipIfEmpty.includes(header)}
+                              onChange={() => toggleRequired(header)}
+                              title="Пропускать строки, где колонка пуста"
+                              className="rounded border-slate-600 bg-slate-800"
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-sm text-slate-500 text-center py-6">Колонки ещё не сопоставлены</p>
+                )}
+              </div>
+
+              {/* Status dictionary */}
+              {statusPhrases.length > 0 && (
+                <div className="bg-slate-900/30 rounded-xl border border-slate-800/30 p-5">
+                  <h2 className="text-sm font-semibold text-white mb-1">Словарь статусов</h2>
+                  <p className="text-xs text-slate-500 mb-4">
+                    Текст статуса оператора → статус контейнера. Несопоставленные значения распознаются автоматически.
+                  </p>
+                  <div className="space-y-2">
+                    {statusPhrases.map(phrase => (
+                      <div key={phrase} className="flex items-center gap-4">
+                        <span className="flex-1 text-sm text-slate-200 truncate">{phrase}</span>
+                        <select
+                          value={form.statusDictionary[phrase] || ''}
+                          onChange={(e) => setStatus(phrase, e.target.value as StatusCode | '')}
+                          className="w-56 px-2 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white"
+                        >
+                          <option value="">— автоматически —</option>
+                          {STATUS_OPTIONS.map(([code, label]) => (
+                            <option key={code} value={code}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Sample preview */}
+              {sample && sample.rows.length > 0 && (
+                <div className="bg-slate-900/30 rounded-xl border border-slate-800/30 p-5 overflow-x-auto">
+                  <h2 className="text-sm font-semibold text-white mb-4">
+                    Первые строки образца
+                  </h2>
+                  <table className="text-xs">
+                    <thead>
+                      <tr className="text-left text-slate-500">
+                        {sample.headers.map(header => (
+                          <th key={header} className="py-1 pr-4 font-medium whitespace-nowrap">{header}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sample.rows.slice(0, 10).map((row, i) => (
+                        <tr key={i} className="border-t border-slate-800/30">
+                          {sample.headers.map(header => (
+                            <td key={header} className="py-1 pr-4 text-slate-300 whitespace-nowrap">
+                              {formatCell(row[header])}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Actions */}
+              {error && (
+                <div className="p-3 bg-red-500/10 rounded-xl border border-red-500/20 text-sm text-red-400">
+                  {error}
+                </div>
+              )}
+              {message && (
+                <div className="p-3 bg-emerald-500/10 rounded-xl border border-emerald-500/20 text-sm text-emerald-400">
+                  {message}
+                </div>
+              )}
+              <div className="flex gap-4">
+                <button
+                  onClick={handleSave}
+                  disabled={isBusy}
+                  className="flex items-center gap-2 px-6 py-2.5 bg-brand-500 hover:bg-brand-600 disabled:bg-slate-700 text-white text-sm font-semibold rounded-lg transition-colors"
+                >
+                  <Save className="w-4 h-4" />
+                  {selectedId ? 'Сохранить изменения' : 'Создать профиль'}
+                </button>
+                {selectedId && (
+                  <button
+                    onClick={() => {
+                      if (confirm('Удалить профиль?')) deleteMutation.mutate(selectedId);
+                    }}
+                    disabled={isBusy}
+                    className="flex items-center gap-2 px-4 py-2.5 text-sm text-red-400 hover:text-red-300 bg-slate-800/50 hover:bg-slate-700/50 disabled:opacity-50 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                    Удалить
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
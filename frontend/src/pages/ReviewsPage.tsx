@@ -0,0 +1,453 @@
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { ClipboardCheck, Check, X, AlertTriangle, FileText } from 'lucide-react';
+import { reviewsApi } from '../api/client';
+import {
+  StatusCode,
+  ReviewItem,
+  ReviewStatus,
+  ReviewCorrection,
+  STATUS_LABELS,
+  REVIEW_REASON_LABELS,
+} from '../types';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+
+const STATUS_OPTIONS = Object.entries(STATUS_LABELS) as [StatusCode, string][];
+
+const TABS: Array<{ status: ReviewStatus; label: string }> = [
+  { status: 'PENDING', label: 'На проверке' },
+  { status: 'APPROVED', label: 'Подтверждены' },
+  { status: 'REJECTED', label: 'Отклонены' },
+];
+
+interface ReviewForm {
+  containerNumber: string;
+  wagonNumber: string;
+  statusCode: StatusCode;
+  statusText: string;
+  location: string;
+  distanceToDestinationKm: string;
+  eta: string;
+  eventTime: string;
+  comment: string;
+}
+
+/** ISO → значение для input[type=datetime-local] (локальное время) */
+function toLocalInput(iso?: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return format(date, "yyyy-MM-dd'T'HH:mm");
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+function reviewToForm(review: ReviewItem): ReviewForm {
+  const fields = review.corrected ?? review.extracted;
+  return {
+    containerNumber: fields.containerNumber || '',
+    wagonNumber: fields.wagonNumber || '',
+    statusCode: fields.statusCode,
+    statusText: fields.statusText || '',
+    location: fields.location || '',
+    distanceToDestinationKm: fields.distanceToDestinationKm != null ? String(fields.distanceToDestinationKm) : '',
+    eta: toLocalInput(fields.eta),
+    eventTime: toLocalInput(fields.eventTime),
+    comment: review.reviewComment || '',
+  };
+}
+
+function formToCorrection(form: ReviewForm): ReviewCorrection {
+  const distance = parseInt(form.distanceToDestinationKm, 10);
+  return {
+    containerNumber: form.containerNumber.trim().toUpperCase(),
+    wagonNumber: form.wagonNumber.trim() || null,
+    statusCode: form.statusCode,
+    statusText: form.statusText.trim(),
+    location: form.location.trim() || null,
+    distanceToDestinationKm: isNaN(distance) ? null : distance,
+    eta: fromLocalInput(form.eta),
+    eventTime: fromLocalInput(form.eventTime) ?? undefined,
+    comment: form.comment.trim() || undefined,
+  };
+}
+
+/**
+ * Исходный текст с подсветкой фрагмента, из которого извлечены поля
+ */
+function SourceText({ review }: { review: ReviewItem }) {
+  const content = review.rawMessage?.content;
+  const isBinary = /\.xlsx?$/i.test(review.rawMessage?.fileName || '');
+  const index = content && !isBinary ? content.indexOf(review.rawSnippet) : -1;
+
+  if (!content || isBinary || index < 0) {
+    return (
+      <pre className="text-xs text-slate-300 whitespace-pre-wrap break-words font-mono">
+        {review.rawSnippet}
+      </pre>
+    );
+  }
+
+  return (
+    <pre className="text-xs text-slate-400 whitespace-pre-wrap break-words font-mono">
+      {content.slice(0, index)}
+      <mark className="bg-amber-500/20 text-amber-200 rounded">{review.rawSnippet}</mark>
+      {content.slice(index + review.rawSnippet.length)}
+    </pre>
+  );
+}
+
+export default function ReviewsPage() {
+  const queryClient = useQueryClient();
+
+  const [status, setStatus] = useState<ReviewStatus>('PENDING');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<ReviewForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const statsQuery = useQuery({
+    queryKey: ['reviews', 'stats'],
+    queryFn: () => reviewsApi.getStats(),
+  });
+
+  const listQuery = useQuery({
+    queryKey: ['reviews', status],
+    queryFn: () => reviewsApi.getReviews(status),
+  });
+
+  const reviewQuery = useQuery({
+    queryKey: ['reviews', 'item', selectedId],
+    queryFn: () => reviewsApi.getReview(selectedId!),
+    enabled: !!selectedId,
+  });
+
+  // По умолчанию открываем первый элемент очереди
+  useEffect(() => {
+    if (!selectedId && listQuery.data?.data.length) {
+      setSelectedId(listQuery.data.data[0].id);
+    }
+  }, [selectedId, listQuery.data]);
+
+  useEffect(() => {
+    setForm(reviewQuery.data ? reviewToForm(reviewQuery.data) : null);
+  }, [reviewQuery.data]);
+
+  const getErrorMessage = (err: unknown) => {
+    const apiError = (err as { response?: { data?: { error?: string } } }).response?.data?.error;
+    return apiError || (err instanceof Error ? err.message : 'Неизвестная ошибка');
+  };
+
+  const onDecided = (text: string) => {
+    setSelectedId(null);
+    setError(null);
+    setMessage(text);
+    queryClient.invalidateQueries({ queryKey: ['reviews'] });
+    queryClient.invalidateQueries({ queryKey: ['containers'] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: ({ id, correction }: { id: string; correction: ReviewCorrection }) =>
+      reviewsApi.approve(id, correction),
+    onSuccess: (approved, { correction }) => {
+      const learned = approved.trainingPairs?.length ?? 0;
+      onDecided(
+        `Событие для ${correction.containerNumber} сохранено`
+        + (learned > 0 ? ` · выучено правил: ${learned}` : '')
+      );
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ id, comment }: { id: string; comment?: string }) => reviewsApi.reject(id, comment),
+    onSuccess: () => onDecided('Элемент отклонён'),
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const updateForm = (patch: Partial<ReviewForm>) => {
+    setForm(prev => (prev ? { ...prev, ...patch } : prev));
+    setMessage(null);
+  };
+
+  const review = reviewQuery.data;
+  const isPending = review?.status === 'PENDING';
+  const isBusy = approveMutation.isPending || rejectMutation.isPending;
+
+  const inputClass = 'mt-1 w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder:text-slate-600 disabled:opacity-60';
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="h-16 border-b border-slate-800/50 flex items-center justify-between px-6 bg-slate-900/30">
+        <div className="flex items-center gap-3">
+          <ClipboardCheck className="w-5 h-5 text-brand-400" />
+          <h1 className="text-lg font-semibold text-white">Проверка данных</h1>
+        </div>
+        <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1">
+          {TABS.map(tab => (
+            <button
+              key={tab.status}
+              onClick={() => {
+                setStatus(tab.status);
+                setSelectedId(null);
+                setMessage(null);
+              }}
+              className={`
+                px-3 py-1.5 text-sm rounded-md transition-colors
+                ${status === tab.status ? 'bg-brand-500/20 text-brand-400' : 'text-slate-400 hover:text-slate-200'}
+              `}
+            >
+              {tab.label}
+              {statsQuery.data && (
+                <span className="ml-1.5 text-xs text-slate-500">{statsQuery.data[tab.status]}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-auto p-6">
+        {listQuery.isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <LoadingSpinner text="Загрузка очереди..." />
+          </div>
+        ) : !listQuery.data?.data.length ? (
+          <>
+            {message && (
+              <div className="mb-4 p-3 bg-emerald-500/10 rounded-xl border border-emerald-500/20 text-sm text-emerald-400">
+                {message}
+              </div>
+            )}
+            <EmptyState
+              title={status === 'PENDING' ? 'Очередь пуста' : 'Нет элементов'}
+              description={status === 'PENDING'
+                ? 'Сюда попадают записи с низкой уверенностью, ошибкой контрольной цифры или без номера контейнера.'
+                : undefined}
+            />
+          </>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Queue */}
+            <div className="space-y-2">
+              {listQuery.data.data.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => {
+                    setSelectedId(item.id);
+                    setError(null);
+                    setMessage(null);
+                  }}
+                  className={`
+                    w-full text-left px-4 py-3 rounded-lg border transition-colors
+                    ${selectedId === item.id
+                      ? 'border-brand-500/50 bg-brand-500/10'
+                      : 'border-slate-800/50 bg-slate-900/30 hover:bg-slate-800/50'}
+                  `}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono text-sm font-medium text-slate-200 truncate">
+                      {(item.corrected ?? item.extracted).containerNumber || 'без номера'}
+                    </span>
+                    <span className="text-xs text-slate-500">{Math.round(item.confidence * 100)}%</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-1.5">
+                    {item.reasons.map(reason => (
+                      <span key={reason} className="text-[10px] px-1.5 py-0.5 rounded bg-amber-500/10 text-amber-400">
+                        {REVIEW_REASON_LABELS[reason] ?? reason}
+                      </span>
+                    ))}
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1.5 truncate">
+                    {item.rawMessage?.carrier?.name || item.rawMessage?.senderEmail || item.rawMessage?.fileName || item.sourceType}
+                    {' · '}
+                    {format(new Date(item.createdAt), 'dd.MM HH:mm', { locale: ru })}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            {/* Source and fields side by side */}
+            <div className="lg:col-span-3">
+              {reviewQuery.isLoading || !review || !form ? (
+                <LoadingSpinner text="Загрузка..." />
+              ) : (
+                <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                  <div className="bg-slate-900/30 rounded-xl border border-slate-800/30 p-5 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <FileText className="w-4 h-4 text-slate-400" />
+                      <h2 className="text-sm font-semibold text-white">Исходные данные</h2>
+                    </div>
+                    <p className="text-xs text-slate-500 mb-4 truncate">
+                      {[review.rawMessage?.subject, review.rawMessage?.fileName, review.rawMessage?.senderEmail]
+                        .filter(Boolean)
+                        .join(' · ') || review.sourceType}
+                    </p>
+                    <div className="max-h-[60vh] overflow-auto bg-slate-950/50 rounded-lg p-3">
+                      <SourceText review={review} />
+                    </div>
+                    {review.issues.length > 0 && (
+                      <div className="mt-4 space-y-1">
+                        {review.issues.map((issue, i) => (
+                          <div key={i} className="flex items-start gap-2 text-xs text-amber-400">
+                            <AlertTriangle className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+                            {issue}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="bg-slate-900/30 rounded-xl border border-slate-800/30 p-5 space-y-4">
+                    <h2 className="text-sm font-semibold text-white">Извлечённые поля</h2>
+                    <div className="grid grid-cols-2 gap-4">
+                      <label className="block">
+                        <span className="text-xs text-slate-400">Номер контейнера</span>
+                        <input
+                          value={form.containerNumber}
+                          onChange={(e) => updateForm({ containerNumber: e.target.value })}
+                          disabled={!isPending}
+                          placeholder="MSKU1234565"
+                          className={`${inputClass} font-mono`}
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="text-xs text-slate-400">Номер вагона</span>
+                        <input
+                          value={form.wagonNumber}
+                          onChange={(e) => updateForm({ wagonNumber: e.target.value })}
+                          disabled={!isPending}
+                          placeholder="52137627"
+                          className={`${inputClass} font-mono`}
+                        />
+                      </label>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <label className="block">
+                        <span className="text-xs text-slate-400">Статус</span>
+                        <select
+                          value={form.statusCode}
+                          onChange={(e) => updateForm({ statusCode: e.target.value as StatusCode })}
+                          disabled={!isPending}
+                          className={inputClass}
+                        >
+                          {STATUS_OPTIONS.map(([code, label]) => (
+                            <option key={code} value={code}>{label}</option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="block">
+                        <span className="text-xs text-slate-400">Текст статуса</span>
+                        <input
+                          value={form.statusText}
+                          onChange={(e) => updateForm({ statusText: e.target.value })}
+                          disabled={!isPending}
+                          className={inputClass}
+                        />
+                      </label>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <label className="block">
+                        <span className="text-xs text-slate-400">Местоположение</span>
+                        <input
+                          value={form.location}
+                          onChange={(e) => updateForm({ location: e.target.value })}
+                          disabled={!isPending}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="text-xs text-slate-400">До назначения, км</span>
+                        <input
+                          type="number"
+                          min={0}
+                          value={form.distanceToDestinationKm}
+                          onChange={(e) => updateForm({ distanceToDestinationKm: e.target.value })}
+                          disabled={!isPending}
+                          className={inputClass}
+                        />
+                      </label>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <label className="block">
+                        <span className="text-xs text-slate-400">Время события</span>
+                        <input
+                          type="datetime-local"
+                          value={form.eventTime}
+                          onChange={(e) => updateForm({ eventTime: e.target.value })}
+                          disabled={!isPending}
+                          className={inputClass}
+                        />
+                      </label>
+                      <label className="block">
+                        <span className="text-xs text-slate-400">ETA</span>
+                        <input
+                          type="datetime-local"
+                          value={form.eta}
+                          onChange={(e) => updateForm({ eta: e.target.value })}
+                          disabled={!isPending}
+                          className={inputClass}
+                        />
+                      </label>
+                    </div>
+                    <label className="block">
+                      <span className="text-xs text-slate-400">Комментарий</span>
+                      <input
+                        value={form.comment}
+                        onChange={(e) => updateForm({ comment: e.target.value })}
+                        disabled={!isPending}
+                        className={inputClass}
+                      />
+                    </label>
+
+                    {error && (
+                      <div className="p-3 bg-red-500/10 rounded-xl border border-red-500/20 text-sm text-red-400">
+                        {error}
+                      </div>
+                    )}
+                    {message && (
+                      <div className="p-3 bg-emerald-500/10 rounded-xl border border-emerald-500/20 text-sm text-emerald-400">
+                        {message}
+                      </div>
+                    )}
+
+                    {isPending ? (
+                      <div className="flex gap-4 pt-2">
+                        <button
+                          onClick={() => approveMutation.mutate({ id: review.id, correction: formToCorrection(form) })}
+                          disabled={isBusy}
+                          className="flex items-center gap-2 px-6 py-2.5 bg-brand-500 hover:bg-brand-600 disabled:bg-slate-700 text-white text-sm font-semibold rounded-lg transition-colors"
+                        >
+                          <Check className="w-4 h-4" />
+                          Подтвердить
+                        </button>
+                        <button
+                          onClick={() => rejectMutation.mutate({ id: review.id, comment: form.comment.trim() || undefined })}
+                          disabled={isBusy}
+                          className="flex items-center gap-2 px-4 py-2.5 text-sm text-red-400 hover:text-red-300 bg-slate-800/50 hover:bg-slate-700/50 disabled:opacity-50 rounded-lg transition-colors"
+                        >
+                          <X className="w-4 h-4" />
+                          Отклонить
+                        </button>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-slate-500">
+                        {review.status === 'APPROVED' ? 'Подтверждён' : 'Отклонён'}
+                        {review.reviewedAt && ` ${format(new Date(review.reviewedAt), 'dd.MM.yyyy HH:mm', { locale: ru })}`}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
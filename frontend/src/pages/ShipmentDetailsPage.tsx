@@ -0,0 +1,216 @@
+import { useParams, Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { ArrowLeft, Route, Clock, AlertTriangle, TrendingUp, ChevronRight, MapPin } from 'lucide-react';
+import { shipmentsApi } from '../api/client';
+import StatusBadge from '../components/StatusBadge';
+import LoadingSpinner from '../components/LoadingSpinner';
+import TimeAgo from '../components/TimeAgo';
+import ShipmentProgress from '../components/ShipmentProgress';
+
+export default function ShipmentDetailsPage() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data: shipment, isLoading, isError, error } = useQuery({
+    queryKey: ['shipment', id],
+    queryFn: () => shipmentsApi.getShipment(id!),
+    enabled: !!id,
+  });
+
+  const formatDate = (dateStr: string | null | undefined) => {
+    if (!dateStr) return '—';
+    try {
+      return format(new Date(dateStr), 'd MMMM yyyy', { locale: ru });
+    } catch {
+      return '—';
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <LoadingSpinner size="lg" text="Загрузка отгрузки..." />
+      </div>
+    );
+  }
+
+  if (isError || !shipment) {
+    return (
+      <div className="flex-1 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-red-400 text-lg mb-2">Отгрузка не найдена</div>
+          <div className="text-sm text-slate-500 mb-4">
+            {error instanceof Error ? error.message : 'Неизвестная ошибка'}
+          </div>
+          <Link
+            to="/shipments"
+            className="inline-flex items-center gap-2 text-brand-400 hover:text-brand-300"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Вернуться к списку
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="border-b border-slate-800/50 bg-slate-900/30">
+        <div className="px-6 py-4">
+          <Link
+            to="/shipments"
+            className="inline-flex items-center gap-2 text-sm text-slate-400 hover:text-white mb-4 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Все отгрузки
+          </Link>
+
+          <h1 className="text-2xl font-bold font-mono text-white mb-2">
+            {shipment.blNumber ? `B/L ${shipment.blNumber}` : `Букинг ${shipment.bookingNumber}`}
+          </h1>
+          <div className="flex items-center gap-4 text-sm text-slate-400">
+            {shipment.blNumber && shipment.bookingNumber && (
+              <span>Букинг: <span className="font-mono">{shipment.bookingNumber}</span></span>
+            )}
+            {shipment.clientName && <span>Клиент: {shipment.clientName}</span>}
+            {shipment.carrierName && <span>Перевозчик: {shipment.carrierName}</span>}
+          </div>
+        </div>
+
+        {/* Summary cards */}
+        <div className="px-6 pb-4 grid grid-cols-4 gap-4">
+          <div className="bg-slate-800/30 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-slate-500 text-sm mb-2">
+              <Route className="w-4 h-4" />
+              Плановый маршрут
+            </div>
+            <div className="text-sm">
+              <div className="text-slate-400">{shipment.originPoint || '—'}</div>
+              <div className="text-white font-medium">→ {shipment.destinationPoint || '—'}</div>
+            </div>
+          </div>
+
+          <div className="bg-slate-800/30 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-slate-500 text-sm mb-2">
+              <TrendingUp className="w-4 h-4" />
+              Прогресс
+            </div>
+            <ShipmentProgress shipment={shipment} />
+          </div>
+
+          <div className="bg-slate-800/30 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-slate-500 text-sm mb-2">
+              <AlertTriangle className="w-4 h-4" />
+              Отстающий контейнер
+            </div>
+            {shipment.leastAdvanced ? (
+              <div className="space-y-1">
+                <div className="font-mono text-white">{shipment.leastAdvanced.containerNumber}</div>
+                {shipment.leastAdvanced.statusCode ? (
+                  <StatusBadge
+                    status={shipment.leastAdvanced.statusCode}
+                    text={shipment.leastAdvanced.statusText || undefined}
+                    size="sm"
+                  />
+                ) : (
+                  <span className="text-xs text-slate-500">нет статусов</span>
+                )}
+              </div>
+            ) : (
+              <div className="text-white font-medium">—</div>
+            )}
+          </div>
+
+          <div className="bg-slate-800/30 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-slate-500 text-sm mb-2">
+              <Clock className="w-4 h-4" />
+              Ожидаемое прибытие
+            </div>
+            <div className="text-sm">
+              <div className="text-white font-medium">первый: {formatDate(shipment.earliestEta)}</div>
+              <div className="text-slate-400">последний: {formatDate(shipment.latestEta)}</div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Containers */}
+      <div className="flex-1 overflow-auto p-6">
+        <h2 className="text-lg font-semibold text-white mb-4">
+          Контейнеры ({shipment.containerCount})
+        </h2>
+
+        <div className="bg-slate-900/30 rounded-xl border border-slate-800/50 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Контейнер</th>
+                  <th>Статус</th>
+                  <th>Местоположение</th>
+                  <th>ETA</th>
+                  <th>Обновлено</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {shipment.containers.map((container) => (
+                  <tr key={container.id}>
+                    <td>
+                      <div className="font-mono font-semibold text-white">{container.containerNumber}</div>
+                      {container.containerType && (
+                        <div className="text-xs text-slate-500">{container.containerType}</div>
+                      )}
+                    </td>
+                    <td>
+                      {container.lastStatus ? (
+                        <StatusBadge
+                          status={container.lastStatus.statusCode}
+                          text={container.lastStatus.statusText}
+                        />
+                      ) : (
+                        <span className="text-slate-500">—</span>
+                      )}
+                    </td>
+                    <td>
+                      {container.lastStatus?.location ? (
+                        <div className="flex items-center gap-2 text-slate-300">
+                          <MapPin className="w-4 h-4 text-slate-500" />
+                          {container.lastStatus.location}
+                        </div>
+                      ) : (
+                        <span className="text-slate-500">—</span>
+                      )}
+                    </td>
+                    <td className="text-sm text-slate-300">
+                      {formatDate(container.lastStatus?.eta)}
+                    </td>
+                    <td>
+                      {container.lastStatus?.eventTime ? (
+                        <TimeAgo date={container.lastStatus.eventTime} className="text-sm" />
+                      ) : (
+                        <span className="text-slate-500">—</span>
+                      )}
+                    </td>
+                    <td>
+                      <Link
+                        to={`/containers/${container.id}`}
+                        className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-brand-400 hover:text-brand-300 hover:bg-brand-500/10 rounded-lg transition-colors"
+                      >
+                        Детали
+                        <ChevronRight className="w-4 h-4" />
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ru } from 'date-fns/locale';
+import { Search, ChevronRight, RefreshCw, Boxes } from 'lucide-react';
+import { shipmentsApi } from '../api/client';
+import StatusBadge from '../components/StatusBadge';
+import LoadingSpinner from '../components/LoadingSpinner';
+import EmptyState from '../components/EmptyState';
+import TimeAgo from '../components/TimeAgo';
+import ShipmentProgress from '../components/ShipmentProgress';
+
+export default function ShipmentsPage() {
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, isError, error, refetch, isFetching } = useQuery({
+    queryKey: ['shipments', { search, page }],
+    queryFn: () => shipmentsApi.getShipments({
+      search: search || undefined,
+      page,
+      limit: 20,
+    }),
+  });
+
+  const formatDate = (dateStr: string | null) => {
+    if (!dateStr) return '—';
+    try {
+      return format(new Date(dateStr), 'd MMM yyyy', { locale: ru });
+    } catch {
+      return '—';
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col">
+      {/* Header */}
+      <header className="h-16 border-b border-slate-800/50 flex items-center justify-between px-6 bg-slate-900/30">
+        <div className="flex items-center gap-3">
+          <Boxes className="w-5 h-5 text-brand-400" />
+          <h1 className="text-lg font-semibold text-white">Отгрузки</h1>
+          {data?.pagination && (
+            <span className="text-sm text-slate-500">
+              ({data.pagination.total})
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => refetch()}
+          disabled={isFetching}
+          className="flex items-center gap-2 px-3 py-1.5 text-sm text-slate-400 hover:text-white bg-slate-800/50 hover:bg-slate-700/50 rounded-lg transition-colors"
+        >
+          <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+          Обновить
+        </button>
+      </header>
+
+      {/* Filters */}
+      <div className="p-6 border-b border-slate-800/30">
+        <div className="relative max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-500" />
+          <input
+            type="text"
+            placeholder="Коносамент, букинг или номер контейнера..."
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            className="w-full pl-10 pr-4 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-white placeholder:text-slate-500 focus:border-brand-500/50 transition-colors"
+          />
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto p-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <LoadingSpinner text="Загрузка отгрузок..." />
+          </div>
+        ) : isError ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="text-center">
+              <div className="text-red-400 mb-2">Ошибка загрузки</div>
+              <div className="text-sm text-slate-500">
+                {error instanceof Error ? error.message : 'Неизвестная ошибка'}
+              </div>
+            </div>
+          </div>
+        ) : !data?.data.length ? (
+          <EmptyState
+            title="Отгрузки не найдены"
+            description={search
+              ? 'Попробуйте изменить параметры поиска'
+              : 'Отгрузки появятся, когда в сообщениях встретится коносамент или букинг'}
+          />
+        ) : (
+          <>
+            <div className="bg-slate-900/30 rounded-xl border border-slate-800/50 overflow-hidden">
+              <div className="overflow-x-auto">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Коносамент / букинг</th>
+                      <th>Клиент</th>
+                      <th>Маршрут</th>
+                      <th>Прогресс</th>
+                      <th>Отстающий контейнер</th>
+                      <th>ETA</th>
+                      <th>Обновлено</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.data.map((shipment, index) => (
+                      <tr
+                        key={shipment.id}
+                        className="animate-fade-in"
+                        style={{ animationDelay: `${index * 50}ms` }}
+                      >
+                        <td>
+                          <div className="font-mono font-semibold text-white">
+                            {shipment.blNumber || '—'}
+                          </div>
+                          {shipment.bookingNumber && (
+                            <div className="text-xs text-slate-500 font-mono">
+                              Букинг {shipment.bookingNumber}
+                            </div>
+                          )}
+                        </td>
+                        <td>
+                          <div className="text-sm text-slate-300">{shipment.clientName || '—'}</div>
+                          {shipment.carrierName && (
+                            <div className="text-xs text-slate-500">{shipment.carrierName}</div>
+                          )}
+                        </td>
+                        <td>
+                          <div className="text-sm">
+                            <div className="text-slate-400">{shipment.originPoint || '?'}</div>
+                            <div className="text-slate-300">→ {shipment.destinationPoint || '?'}</div>
+                          </div>
+                        </td>
+                        <td className="min-w-[160px]">
+                          <ShipmentProgress shipment={shipment} />
+                        </td>
+                        <td>
+                          {shipment.leastAdvanced ? (
+                            <div className="space-y-1">
+                              <div className="font-mono text-sm text-slate-300">
+                                {shipment.leastAdvanced.containerNumber}
+                              </div>
+                              {shipment.leastAdvanced.statusCode ? (
+                                <StatusBadge
+                                  status={shipment.leastAdvanced.statusCode}
+                                  text={shipment.leastAdvanced.statusText || undefined}
+                                  size="sm"
+                                />
+                              ) : (
+                                <span className="text-xs text-slate-500">нет статусов</span>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-slate-500">—</span>
+                          )}
+                        </td>
+                        <td className="text-sm text-slate-300">
+                          {shipment.earliestEta ? (
+                            shipment.earliestEta === shipment.latestEta
+                              ? formatDate(shipment.earliestEta)
+                              : <>{formatDate(shipment.earliestEta)} — {formatDate(shipment.latestEta)}</>
+                          ) : (
+                            <span className="text-slate-500">—</span>
+                          )}
+                        </td>
+                        <td>
+                          {shipment.lastEventTime ? (
+                            <TimeAgo date={shipment.lastEventTime} className="text-sm" />
+                          ) : (
+                            <span className="text-slate-500">—</span>
+                          )}
+                        </td>
+                        <td>
+                          <Link
+                            to={`/shipments/${shipment.id}`}
+                            className="inline-flex items-center gap-1 px-3 py-1.5 text-sm text-brand-400 hover:text-brand-300 hover:bg-brand-500/10 rounded-lg transition-colors"
+                          >
+                            Детали
+                            <ChevronRight className="w-4 h-4" />
+                          </Link>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Pagination */}
+            {data.pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between mt-6">
+                <div className="text-sm text-slate-500">
+                  Страница {data.pagination.page} из {data.pagination.totalPages}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setPage(p => Math.max(1, p - 1))}
+                    disabled={page === 1}
+                    className="px-4 py-2 text-sm bg-slate-800/50 hover:bg-slate-700/50 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                  >
+                    Назад
+                  </button>
+                  <button
+                    onClick={() => setPage(p => Math.min(data.pagination.totalPages, p + 1))}
+                    disabled={page === data.pagination.totalPages}
+                    className="px-4 py-2 text-sm bg-slate-800/50 hover:bg-slate-700/50 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg transition-colors"
+                  >
+                    Вперёд
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,9 @@ export type StatusCode =
 
 export type SourceType = 'EMAIL' | 'EXCEL' | 'API' | 'MANUAL';
 
+// PLN — план, EST — прогноз, ACT — факт
+export type EventClassifier = 'PLN' | 'EST' | 'ACT';
+
 // Container list item
 export interface ContainerListItem {
   id: string;
@@ -31,25 +34,163 @@ export interface ContainerListItem {
     eta: string | null;
     eventTime: string;
   } | null;
+  predictedEta: EtaPrediction | null;
+}
+
+// Calculated ETA from observed / historical rail speed (not the carrier's)
+export type EtaBasis = 'OBSERVED_SPEED' | 'HISTORICAL_SPEED';
+
+export interface EtaPrediction {
+  eta: string;
+  earliest: string;
+  latest: string;
+  basis: EtaBasis;
+  predictedAt: string;
 }
 
 // Container details
 export interface ContainerDetails extends ContainerListItem {
   totalDistanceKm: number | null;
+  currentWagon: string | null;
+  railDispatch: { id: string; dispatchNumber: string; trainIndex: string | null } | null;
+  voyage: VoyageSummary | null;
+  shipment: { id: string; blNumber: string | null; bookingNumber: string | null } | null;
+  route: RouteProgress | null;
+  demurrage: DemurrageSummary | null;
   statusHistory: StatusEventItem[];
   createdAt: string;
   updatedAt: string;
 }
 
+// Shipment (B/L / booking) with container summary
+export interface ShipmentListItem {
+  id: string;
+  blNumber: string | null;
+  bookingNumber: string | null;
+  clientName: string | null;
+  carrierName: string | null;
+  originPoint: string | null;
+  destinationPoint: string | null;
+  containerCount: number;
+  deliveredCount: number;
+  progressPercent: number;
+  leastAdvanced: { containerNumber: string; statusCode: StatusCode | null; statusText: string | null } | null;
+  earliestEta: string | null;
+  latestEta: string | null;
+  lastEventTime: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ShipmentDetails extends ShipmentListItem {
+  clientId: string | null;
+  carrierId: string | null;
+  containers: ContainerListItem[];
+}
+
+export interface ShipmentFilterParams {
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Vessel voyage (sea leg)
+export interface VoyageSummary {
+  id: string;
+  voyageNumber: string;
+  vesselName: string;
+  imoNumber: string | null;
+  eta: string | null;
+}
+
+// Free time: demurrage (port), storage (warehouse), detention (carrier equipment)
+export type ChargeKind = 'DEMURRAGE' | 'STORAGE' | 'DETENTION';
+
+export interface ChargeClock {
+  kind: ChargeKind;
+  startedAt: string;
+  stoppedAt: string | null;
+  freeDays: number;
+  usedDays: number;
+  freeTimeEndsAt: string;
+  daysLeft: number | null;
+  chargeableDays: number;
+  accrued: number;
+  projected: number;
+  expectedStopAt: string | null;
+}
+
+export interface DemurrageSummary {
+  agreementId: string;
+  agreementName: string;
+  currency: string;
+  clocks: ChargeClock[];
+  accrued: number;
+  projected: number;
+  expiresSoon: boolean;
+}
+
+export interface DemurrageReportRow extends DemurrageSummary {
+  containerId: string;
+  containerNumber: string;
+  clientName: string | null;
+  carrierName: string | null;
+  statusCode: StatusCode | null;
+}
+
+export interface DemurrageReport {
+  rows: DemurrageReportRow[];
+  totals: Record<string, { accrued: number; projected: number }>;
+  warningDays: number;
+}
+
+export interface DemurrageReportParams {
+  clientId?: string;
+  carrierId?: string;
+  warningDays?: number;
+  expiringOnly?: boolean;
+}
+
+// Planned route by legs (sea → rail → auto)
+export type TransportMode = 'SEA' | 'RAIL' | 'AUTO';
+
+export interface RouteLegItem {
+  id: string;
+  sequence: number;
+  mode: TransportMode;
+  fromPoint: string;
+  toPoint: string;
+  plannedDeparture: string | null;
+  plannedArrival: string | null;
+  actualDeparture: string | null;
+  actualArrival: string | null;
+  distanceKm: number | null;
+  state: 'PLANNED' | 'ACTIVE' | 'COMPLETED';
+}
+
+export interface RouteProgress {
+  legs: RouteLegItem[];
+  currentLegId: string | null;
+  completedLegs: number;
+  progressPercent: number;
+  remainingKm: number | null;
+}
+
 // Status event
 export interface StatusEventItem {
   id: string;
   statusCode: StatusCode;
   statusText: string;
   location: string | null;
+  wagonNumber?: string | null;
+  voyage?: VoyageSummary | null;
+  routeLegId?: string | null;
   distanceToDestinationKm: number | null;
   eta: string | null;
   eventTime: string;
+  eventClassifier?: EventClassifier;
+  isRegression?: boolean;
+  regressionReason?: string | null;
   sourceType: SourceType;
   sourceRaw: string | null;
   createdAt: string;
@@ -74,6 +215,356 @@ export interface PaginatedResponse<T> {
   };
 }
 
+// Carriers
+export type CarrierType = 'SEA_LINE' | 'RAIL' | 'AUTO' | 'MULTIMODAL';
+
+export interface CarrierItem {
+  id: string;
+  name: string;
+  type: CarrierType;
+  contactEmail: string | null;
+  _count?: { parsingProfiles: number };
+}
+
+// Carrier scorecard for a period
+export interface CarrierScorecard {
+  carrierId: string;
+  carrierName: string;
+  carrierType: CarrierType;
+  containers: number;
+  arrived: number;
+  eta: {
+    samples: number;
+    firstEtaErrorDays: number | null;
+    lastEtaErrorDays: number | null;
+    lastEtaBiasDays: number | null;
+    onTimeShare: number | null;
+  };
+  transit: Array<{
+    originPoint: string;
+    destinationPoint: string;
+    containers: number;
+    avgDays: number;
+  }>;
+  avgTransitDays: number | null;
+  updates: {
+    events: number;
+    perContainerWeekly: number | null;
+    avgIntervalHours: number | null;
+    maxGapDays: number | null;
+    gapsOverThreshold: number;
+  };
+  parsing: {
+    messages: number;
+    failed: number;
+    failureRate: number | null;
+  };
+  confidence: {
+    items: number;
+    lowConfidence: number;
+    lowConfidenceShare: number | null;
+  };
+}
+
+export interface CarrierScorecardParams {
+  from?: string;
+  to?: string;
+  carrierId?: string;
+}
+
+// Dashboard
+export interface DashboardSettings {
+  staleThresholdDays: number;
+  upcomingDays: number;
+  autoRefreshMinutes: number;
+  showDelivered: boolean;
+  notifyOverdue: boolean;
+  notifyStale: boolean;
+  freeTimeWarningDays: number;
+}
+
+export type DashboardGroup = 'SEA' | 'DESTINATION_PORT' | 'RAIL' | 'DELIVERED';
+
+export interface DashboardParams {
+  staleThresholdDays?: number;
+  upcomingDays?: number;
+  showDelivered?: boolean;
+  limit?: number;
+  overduePage?: number;
+  stalePage?: number;
+  upcomingPage?: number;
+}
+
+export interface DashboardList {
+  items: ContainerListItem[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface DashboardSummary {
+  generatedAt: string;
+  total: number;
+  delivered: number;
+  updatedToday: number;
+  byStatus: Partial<Record<StatusCode, number>>;
+  groups: Record<DashboardGroup, number>;
+  overdue: DashboardList;
+  stale: DashboardList;
+  upcoming: DashboardList;
+}
+
+// Transit and dwell analytics
+export type DwellStage = 'SEA' | 'ANCHORAGE' | 'PORT' | 'WAREHOUSE' | 'CUSTOMS' | 'RAIL' | 'AUTO';
+
+export type DwellGroupBy = 'route' | 'location' | 'month';
+
+export interface DwellParams {
+  groupBy?: DwellGroupBy;
+  stage?: DwellStage;
+  from?: string;
+  to?: string;
+  carrierId?: string;
+  clientId?: string;
+}
+
+export interface DurationStats {
+  count: number;
+  avgHours: number;
+  minHours: number;
+  p50Hours: number;
+  p75Hours: number;
+  p90Hours: number;
+  maxHours: number;
+  histogram: Array<{ fromHours: number; toHours: number; count: number }>;
+}
+
+export interface DwellGroup {
+  key: string;
+  stage: DwellStage;
+  stats: DurationStats;
+}
+
+export interface DwellAnalytics {
+  from: string;
+  to: string;
+  groupBy: DwellGroupBy;
+  groups: DwellGroup[];
+}
+
+export interface DwellSample {
+  containerId: string;
+  containerNumber: string;
+  stage: DwellStage;
+  location: string | null;
+  originPoint: string | null;
+  destinationPoint: string | null;
+  startedAt: string;
+  endedAt: string;
+  hours: number;
+}
+
+// Carrier parsing profiles
+export type ProfileField =
+  | 'containerNumber'
+  | 'wagonNumber'
+  | 'dispatchNumber'
+  | 'trainIndex'
+  | 'originEsr'
+  | 'destinationEsr'
+  | 'vesselName'
+  | 'imoNumber'
+  | 'voyageNumber'
+  | 'blNumber'
+  | 'bookingNumber'
+  | 'statusCode'
+  | 'statusText'
+  | 'location'
+  | 'distanceToDestination'
+  | 'eta'
+  | 'eventTime'
+  | 'origin'
+  | 'destination'
+  | 'carrierName'
+  | 'carrierType'
+  | 'operatorComment'
+  | 'ignore';
+
+export interface ProfileSkipRules {
+  skipRows?: number;
+  skipIfEmpty?: string[];
+  skipIfMatches?: string[];
+}
+
+export interface ParsingProfileItem {
+  id: string;
+  carrierId: string;
+  carrier?: { id: string; name: string };
+  name: string;
+  isActive: boolean;
+  emailDomains: string[];
+  columnMappings: Record<string, ProfileField>;
+  dateFormats: string[];
+  delimiter: string | null;
+  statusDictionary: Record<string, StatusCode> | null;
+  skipRules: ProfileSkipRules | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ParsingProfileInput = Omit<
+  ParsingProfileItem,
+  'id' | 'carrier' | 'createdAt' | 'updatedAt'
+>;
+
+export interface ProfileSampleAnalysis {
+  format: 'xlsx' | 'csv';
+  sheetName?: string;
+  headerRow: number;
+  delimiter?: string;
+  headers: string[];
+  rows: Array<Record<string, unknown>>;
+  suggestedMappings: Record<string, ProfileField>;
+  distinctValues: Record<string, string[]>;
+  warnings: string[];
+}
+
+// Review queue
+export type ReviewStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+export type ReviewReason = 'LOW_CONFIDENCE' | 'CHECK_DIGIT' | 'INVALID_CONTAINER' | 'NO_CONTAINER';
+
+export interface ReviewFields {
+  containerNumber?: string;
+  wagonNumber?: string | null;
+  statusCode: StatusCode;
+  statusText: string;
+  location?: string | null;
+  distanceToDestinationKm?: number | null;
+  eta?: string | null;
+  eventTime?: string;
+  eventClassifier?: EventClassifier;
+}
+
+export interface ReviewItem {
+  id: string;
+  status: ReviewStatus;
+  reasons: ReviewReason[];
+  confidence: number;
+  issues: string[];
+  rawSnippet: string;
+  extracted: ReviewFields;
+  corrected: ReviewFields | null;
+  sourceType: SourceType;
+  reviewComment: string | null;
+  reviewedAt: string | null;
+  statusEventId: string | null;
+  /** Обучающие пары, сохранённые при подтверждении */
+  trainingPairs?: TrainingPair[];
+  rawMessage: {
+    id: string;
+    fileName: string | null;
+    subject: string | null;
+    senderEmail: string | null;
+    content?: string;
+    createdAt: string;
+    carrier: { id: string; name: string } | null;
+  } | null;
+  createdAt: string;
+}
+
+export type ReviewCorrection = Partial<ReviewFields> & { comment?: string };
+
+// Location dictionary
+export type LocationType = 'STATION' | 'PORT' | 'CITY' | 'WAREHOUSE' | 'CUSTOMS';
+export type LocationSource = 'BUILTIN' | 'MANUAL' | 'ESR_IMPORT' | 'UNLOCODE_IMPORT';
+export type LocationRegistry = 'esr' | 'unlocode';
+
+export interface LocationItem {
+  id: string;
+  name: string;
+  type: LocationType;
+  aliases: string[];
+  region: string | null;
+  country: string;
+  unLocode: string | null;
+  esrCode: string | null;
+  isActive: boolean;
+  source: LocationSource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LocationInput {
+  name: string;
+  type: LocationType;
+  aliases?: string[];
+  region?: string | null;
+  country: string;
+  unLocode?: string | null;
+  esrCode?: string | null;
+  isActive?: boolean;
+}
+
+export interface LocationFilterParams {
+  search?: string;
+  type?: LocationType;
+  page?: number;
+  limit?: number;
+}
+
+export interface LocationImportResult {
+  syncJobId: string;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  warnings: string[];
+}
+
+// Learned rules (из исправлений логиста)
+export type LearnedRuleKind = 'LOCATION_ALIAS' | 'STATUS_PHRASE' | 'OWNER_CODE';
+
+export interface TrainingPair {
+  id: string;
+  kind: LearnedRuleKind;
+  rawPhrase: string;
+  correctedValue: string;
+  reviewId: string;
+  ruleId: string | null;
+  createdAt: string;
+  review?: {
+    id: string;
+    rawSnippet: string;
+    reviewedAt: string | null;
+    reviewComment: string | null;
+  };
+}
+
+export interface LearnedRuleItem {
+  id: string;
+  kind: LearnedRuleKind;
+  carrierId: string | null;
+  carrier: { id: string; name: string } | null;
+  phrase: string;
+  value: string;
+  isActive: boolean;
+  hits: number;
+  createdAt: string;
+  updatedAt: string;
+  _count: { pairs: number };
+  pairs?: TrainingPair[];
+}
+
+export interface LearnedRuleFilterParams {
+  kind?: LearnedRuleKind;
+  /** ID перевозчика или 'global' */
+  carrierId?: string;
+  active?: boolean;
+}
+
 // Filter params
 export interface ContainerFilterParams {
   search?: string;
@@ -120,3 +611,97 @@ export const SOURCE_LABELS: Record<SourceType, string> = {
   MANUAL: 'Вручную',
 };
 
+export const ETA_BASIS_LABELS: Record<EtaBasis, string> = {
+  OBSERVED_SPEED: 'по скорости контейнера',
+  HISTORICAL_SPEED: 'по средней скорости маршрута',
+};
+
+export const CHARGE_KIND_LABELS: Record<ChargeKind, string> = {
+  DEMURRAGE: 'Демерредж (порт)',
+  STORAGE: 'Хранение (СВХ)',
+  DETENTION: 'Детеншн (контейнер)',
+};
+
+export const CARRIER_TYPE_LABELS: Record<CarrierType, string> = {
+  SEA_LINE: 'Морская линия',
+  RAIL: 'ЖД оператор',
+  AUTO: 'Автоперевозчик',
+  MULTIMODAL: 'Мультимодальный',
+};
+
+export const TRANSPORT_MODE_LABELS: Record<TransportMode, string> = {
+  SEA: 'Море',
+  RAIL: 'ЖД',
+  AUTO: 'Авто',
+};
+
+export const DWELL_STAGE_LABELS: Record<DwellStage, string> = {
+  SEA: 'Море',
+  ANCHORAGE: 'Рейд',
+  PORT: 'Порт',
+  WAREHOUSE: 'СВХ',
+  CUSTOMS: 'Таможня',
+  RAIL: 'ЖД',
+  AUTO: 'Авто',
+};
+
+export const DWELL_GROUP_LABELS: Record<DwellGroupBy, string> = {
+  route: 'Маршрут',
+  location: 'Локация',
+  month: 'Месяц',
+};
+
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  containerNumber: 'Номер контейнера',
+  wagonNumber: 'Номер вагона',
+  dispatchNumber: 'Номер отправки',
+  trainIndex: 'Индекс поезда',
+  originEsr: 'ЕСР станции отправления',
+  destinationEsr: 'ЕСР станции назначения',
+  vesselName: 'Судно',
+  imoNumber: 'Номер IMO',
+  voyageNumber: 'Номер рейса',
+  blNumber: 'Коносамент (B/L)',
+  bookingNumber: 'Букинг',
+  statusCode: 'Статус',
+  statusText: 'Текст статуса',
+  location: 'Местоположение',
+  distanceToDestination: 'Расстояние до назначения, км',
+  eta: 'ETA',
+  eventTime: 'Дата/время события',
+  origin: 'Пункт отправления',
+  destination: 'Пункт назначения',
+  carrierName: 'Перевозчик',
+  carrierType: 'Тип перевозки',
+  operatorComment: 'Комментарий оператора',
+  ignore: 'Не использовать',
+};
+
+export const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  LOW_CONFIDENCE: 'Низкая уверенность',
+  CHECK_DIGIT: 'Контрольная цифра',
+  INVALID_CONTAINER: 'Некорректный номер',
+  NO_CONTAINER: 'Нет номера контейнера',
+};
+
+export const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+  STATION: 'ЖД станция',
+  PORT: 'Порт',
+  CITY: 'Город',
+  WAREHOUSE: 'Склад / СВХ',
+  CUSTOMS: 'Таможня',
+};
+
+export const LOCATION_SOURCE_LABELS: Record<LocationSource, string> = {
+  BUILTIN: 'Встроенная',
+  MANUAL: 'Вручную',
+  ESR_IMPORT: 'Реестр ЕСР',
+  UNLOCODE_IMPORT: 'UN/LOCODE',
+};
+
+export const LEARNED_RULE_KIND_LABELS: Record<LearnedRuleKind, string> = {
+  LOCATION_ALIAS: 'Локация',
+  STATUS_PHRASE: 'Статус',
+  OWNER_CODE: 'Код владельца',
+};